@@ -0,0 +1,335 @@
+/**
+ * Frame Profiler
+ *
+ * Collects per-system timings from the GameLoop:
+ * - Timing histograms and approximate percentiles per system
+ * - Budget overrun and deferral counts
+ * - Optional trace recording, exported as Chrome trace-event JSON
+ *   (open in chrome://tracing or https://ui.perfetto.dev)
+ */
+
+import { SystemPhase } from './GameLoop';
+
+/**
+ * Histogram bucket upper bounds in milliseconds
+ *
+ * A final overflow bucket counts samples above the last bound.
+ */
+export const TIMING_BUCKETS_MS: readonly number[] = [0.1, 0.25, 0.5, 1, 2, 4, 8, 16, 33];
+
+/**
+ * Accumulated timings for one system
+ */
+export interface SystemTiming {
+  /** System name */
+  name: string;
+  /** Phase the system runs in */
+  phase: SystemPhase;
+  /** Number of timed updates */
+  calls: number;
+  /** Frames the update was deferred (time-sliced) */
+  deferrals: number;
+  /** Updates that exceeded the system's budget */
+  overruns: number;
+  /** Sum of update times in ms */
+  totalTime: number;
+  /** Mean update time in ms */
+  averageTime: number;
+  /** Fastest update in ms */
+  minTime: number;
+  /** Slowest update in ms */
+  maxTime: number;
+  /** Most recent update in ms */
+  lastTime: number;
+  /** Sample counts per TIMING_BUCKETS_MS bucket, plus the overflow bucket */
+  histogram: number[];
+  /** Approximate percentiles in ms (bucket upper bounds) */
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * Chrome trace event (complete 'X' or metadata 'M' event)
+ */
+export interface TraceEvent {
+  name: string;
+  cat?: string;
+  ph: 'X' | 'M';
+  /** Start time in microseconds */
+  ts: number;
+  /** Duration in microseconds */
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Frame profiler configuration
+ */
+export interface FrameProfilerOptions {
+  /** Frames kept while tracing; older frames are dropped (default: 300) */
+  maxTraceFrames?: number;
+}
+
+/** Process/thread IDs used in exported traces */
+const TRACE_PID = 1;
+const TRACE_TID = 1;
+
+/**
+ * Frame Profiler - per-system timing statistics and trace recording
+ *
+ * The GameLoop feeds every system update into its profiler; read results
+ * with getSystemTimings() or record a trace:
+ *
+ * @example
+ * ```typescript
+ * const profiler = loop.getProfiler();
+ * profiler.startTrace();
+ * // ... run some frames ...
+ * profiler.stopTrace();
+ * saveFile('frames.json', profiler.exportChromeTrace());
+ * ```
+ */
+export class FrameProfiler {
+  private timings: Map<string, SystemTiming> = new Map();
+  private readonly maxTraceFrames: number;
+
+  // Trace recording (one event list per frame)
+  private tracing = false;
+  private traceFrames: TraceEvent[][] = [];
+  private currentFrame: TraceEvent[] | null = null;
+  private frameNumber = 0;
+  private frameStart = 0;
+
+  constructor(options: FrameProfilerOptions = {}) {
+    this.maxTraceFrames = options.maxTraceFrames ?? 300;
+  }
+
+  /**
+   * Mark the start of a frame
+   *
+   * @param frame - Frame number
+   * @param start - performance.now() at frame start
+   */
+  beginFrame(frame: number, start: number): void {
+    this.frameNumber = frame;
+    this.frameStart = start;
+    this.currentFrame = this.tracing ? [] : null;
+  }
+
+  /**
+   * Mark the end of a frame
+   *
+   * @param end - performance.now() at frame end
+   */
+  endFrame(end: number): void {
+    if (!this.currentFrame) {
+      return;
+    }
+
+    this.currentFrame.unshift(
+      traceEvent(`Frame ${this.frameNumber}`, 'frame', this.frameStart, end - this.frameStart, { frame: this.frameNumber })
+    );
+    this.traceFrames.push(this.currentFrame);
+    if (this.traceFrames.length > this.maxTraceFrames) {
+      this.traceFrames.shift();
+    }
+    this.currentFrame = null;
+  }
+
+  /**
+   * Record a whole phase
+   *
+   * @param phase - Phase
+   * @param start - performance.now() at phase start
+   * @param duration - Phase time in ms
+   * @param args - Extra trace arguments (e.g. physics step count)
+   */
+  recordPhase(phase: SystemPhase, start: number, duration: number, args?: Record<string, unknown>): void {
+    this.currentFrame?.push(traceEvent(SystemPhase[phase], 'phase', start, duration, args));
+  }
+
+  /**
+   * Record one system update
+   *
+   * @param name - System name
+   * @param phase - Phase the system ran in
+   * @param start - performance.now() at update start
+   * @param duration - Update time in ms
+   * @param overBudget - Whether the update exceeded the system's budget
+   */
+  recordSystem(name: string, phase: SystemPhase, start: number, duration: number, overBudget = false): void {
+    const timing = this.getOrCreate(name, phase);
+
+    timing.calls++;
+    timing.totalTime += duration;
+    timing.averageTime = timing.totalTime / timing.calls;
+    timing.minTime = Math.min(timing.minTime, duration);
+    timing.maxTime = Math.max(timing.maxTime, duration);
+    timing.lastTime = duration;
+    if (overBudget) {
+      timing.overruns++;
+    }
+
+    const bucket = TIMING_BUCKETS_MS.findIndex((bound) => duration <= bound);
+    timing.histogram[bucket === -1 ? TIMING_BUCKETS_MS.length : bucket]++;
+    timing.p50 = this.percentile(timing, 0.5);
+    timing.p95 = this.percentile(timing, 0.95);
+    timing.p99 = this.percentile(timing, 0.99);
+
+    this.currentFrame?.push(traceEvent(name, 'system', start, duration, { phase: SystemPhase[phase] }));
+  }
+
+  /**
+   * Record that a deferrable system skipped this frame
+   *
+   * @param name - System name
+   * @param phase - Phase the system belongs to
+   */
+  recordDeferral(name: string, phase: SystemPhase): void {
+    this.getOrCreate(name, phase).deferrals++;
+  }
+
+  /**
+   * Get timings for one system
+   *
+   * @returns Timing snapshot, or undefined if the system has not run
+   */
+  getSystemTiming(name: string): SystemTiming | undefined {
+    const timing = this.timings.get(name);
+    return timing ? { ...timing, histogram: [...timing.histogram] } : undefined;
+  }
+
+  /**
+   * Get timings for every system, slowest average first
+   */
+  getSystemTimings(): SystemTiming[] {
+    return Array.from(this.timings.values())
+      .map((timing) => ({ ...timing, histogram: [...timing.histogram] }))
+      .sort((a, b) => b.averageTime - a.averageTime);
+  }
+
+  /**
+   * Discard accumulated timings (the trace is kept)
+   */
+  reset(): void {
+    this.timings.clear();
+  }
+
+  /**
+   * Start recording frames for export (discards the previous trace)
+   */
+  startTrace(): void {
+    this.tracing = true;
+    this.traceFrames = [];
+  }
+
+  /**
+   * Stop recording frames
+   */
+  stopTrace(): void {
+    this.tracing = false;
+  }
+
+  /**
+   * Check if frames are being recorded
+   */
+  isTracing(): boolean {
+    return this.tracing;
+  }
+
+  /**
+   * Get the number of recorded frames
+   */
+  getTraceFrameCount(): number {
+    return this.traceFrames.length;
+  }
+
+  /**
+   * Export recorded frames as Chrome trace-event JSON
+   *
+   * Frames, phases and systems become nested complete ('X') events on one
+   * thread, so the flame chart shows frame → phase → system.
+   */
+  exportChromeTrace(): string {
+    const metadata: TraceEvent = {
+      name: 'thread_name',
+      ph: 'M',
+      ts: 0,
+      pid: TRACE_PID,
+      tid: TRACE_TID,
+      args: { name: 'GameLoop' },
+    };
+
+    return JSON.stringify({
+      traceEvents: [metadata, ...this.traceFrames.flat()],
+      displayTimeUnit: 'ms',
+    });
+  }
+
+  /**
+   * Get or create the timing record for a system
+   */
+  private getOrCreate(name: string, phase: SystemPhase): SystemTiming {
+    let timing = this.timings.get(name);
+    if (!timing) {
+      timing = {
+        name,
+        phase,
+        calls: 0,
+        deferrals: 0,
+        overruns: 0,
+        totalTime: 0,
+        averageTime: 0,
+        minTime: Infinity,
+        maxTime: 0,
+        lastTime: 0,
+        histogram: new Array(TIMING_BUCKETS_MS.length + 1).fill(0),
+        p50: 0,
+        p95: 0,
+        p99: 0,
+      };
+      this.timings.set(name, timing);
+    }
+    return timing;
+  }
+
+  /**
+   * Approximate a percentile from the histogram (overflow bucket reports maxTime)
+   */
+  private percentile(timing: SystemTiming, fraction: number): number {
+    const target = Math.ceil(timing.calls * fraction);
+    let seen = 0;
+    for (let i = 0; i < timing.histogram.length; i++) {
+      seen += timing.histogram[i];
+      if (seen >= target) {
+        return i < TIMING_BUCKETS_MS.length ? Math.min(TIMING_BUCKETS_MS[i], timing.maxTime) : timing.maxTime;
+      }
+    }
+    return timing.maxTime;
+  }
+}
+
+/**
+ * Build a complete trace event from performance.now() milliseconds
+ */
+function traceEvent(
+  name: string,
+  cat: string,
+  start: number,
+  duration: number,
+  args?: Record<string, unknown>
+): TraceEvent {
+  return {
+    name,
+    cat,
+    ph: 'X',
+    ts: Math.round(start * 1000),
+    dur: Math.round(duration * 1000),
+    pid: TRACE_PID,
+    tid: TRACE_TID,
+    ...(args ? { args } : {}),
+  };
+}
@@ -6,10 +6,14 @@
  * - Variable timestep for rendering (smooth)
  * - Accumulator pattern for frame time handling
  * - Spiral of death protection
- * - Frame pacing with requestAnimationFrame
+ * - Frame pacing with requestAnimationFrame, a timer (Node) or manual ticking
+ * - Interpolation alpha for rendering between physics steps
+ * - Time scaling (global, per phase, per system) and single-frame stepping
+ * - Per-system profiling, budget overrun reporting and time-slicing
  */
 
 import type { SystemRegistration } from './types';
+import { FrameProfiler } from './FrameProfiler';
 
 /**
  * System execution phases
@@ -36,8 +40,30 @@ export enum SystemPhase {
 export interface PhaseSystem extends SystemRegistration {
   /** Which phase this system executes in */
   phase: SystemPhase;
-  /** Time budget in milliseconds */
+  /** Time budget in milliseconds (overruns are reported, see registerBudgetCallback) */
   budget?: number;
+  /**
+   * Whether the update may be postponed when the frame budget is spent
+   *
+   * A deferred system receives the accumulated delta time when it next runs.
+   */
+  deferrable?: boolean;
+}
+
+/**
+ * System budget overrun details
+ */
+export interface BudgetOverrun {
+  /** System name */
+  systemName: string;
+  /** Phase the system ran in */
+  phase: SystemPhase;
+  /** Update time in ms */
+  elapsed: number;
+  /** System budget in ms */
+  budget: number;
+  /** Frame number */
+  frame: number;
 }
 
 /**
@@ -58,6 +84,16 @@ export interface FrameStats {
   totalTime: number;
 }
 
+/**
+ * How the game loop schedules frames
+ *
+ * - 'auto': requestAnimationFrame when available, otherwise a timer
+ * - 'animation-frame': requestAnimationFrame (browsers only)
+ * - 'timer': setTimeout at targetFPS (Node, workers)
+ * - 'manual': nothing is scheduled; frames run on advance()
+ */
+export type LoopScheduler = 'auto' | 'animation-frame' | 'timer' | 'manual';
+
 /**
  * Game loop configuration
  */
@@ -70,6 +106,14 @@ export interface GameLoopConfig {
   maxDeltaTime: number;
   /** Maximum physics substeps per frame (default: 4) */
   maxSubsteps: number;
+  /** Frame time budget in ms for deferrable systems (default: 0, meaning 1000 / targetFPS) */
+  frameBudget: number;
+  /** Maximum consecutive frames a deferrable system can be skipped (default: 4) */
+  maxDeferredFrames: number;
+  /** Frame scheduling (default: 'auto') */
+  scheduler: LoopScheduler;
+  /** Run RENDER phase systems and the render callback (default: true) */
+  render: boolean;
 }
 
 /**
@@ -80,6 +124,10 @@ export const DEFAULT_GAME_LOOP_CONFIG: GameLoopConfig = {
   fixedTimestep: 1 / 60, // 16.67ms
   maxDeltaTime: 0.1, // 100ms max
   maxSubsteps: 4,
+  frameBudget: 0,
+  maxDeferredFrames: 4,
+  scheduler: 'auto',
+  render: true,
 };
 
 /**
@@ -90,9 +138,10 @@ export const DEFAULT_GAME_LOOP_CONFIG: GameLoopConfig = {
  * Features:
  * - Fixed timestep physics via accumulator pattern
  * - Variable timestep rendering for smooth visuals
- * - Frame pacing with requestAnimationFrame
+ * - Frame pacing with requestAnimationFrame, a timer or manual ticking
  * - Spiral of death protection
  * - Per-phase system execution
+ * - Sync points after each phase (deferred ECS command playback)
  *
  * Usage:
  * ```typescript
@@ -107,9 +156,16 @@ export class GameLoop {
   private systems: Map<SystemPhase, PhaseSystem[]> = new Map();
   private running = false;
   private animationFrameId: number | null = null;
+  private timerId: ReturnType<typeof setTimeout> | null = null;
 
   // Timing
   private accumulator = 0;
+  private alpha = 0;
+
+  // Time scaling (phase and system scales override the global scale)
+  private timeScale = 1;
+  private phaseTimeScales: Map<SystemPhase, number> = new Map();
+  private systemTimeScales: Map<string, number> = new Map();
   private lastFrameTime = 0;
   private deltaTimeHistory: number[] = new Array(60).fill(16.67);
   private historyIndex = 0;
@@ -130,6 +186,17 @@ export class GameLoop {
   // Render callback
   private renderCallback: ((alpha: number) => void) | null = null;
 
+  // Sync point callback (phase boundaries)
+  private syncCallback: ((phase: SystemPhase) => void) | null = null;
+
+  // Budget overrun callback
+  private budgetCallback: ((overrun: BudgetOverrun) => void) | null = null;
+
+  // Profiling and time-slicing
+  private profiler = new FrameProfiler();
+  private frameStart = 0;
+  private deferred: Map<string, { deltaTime: number; frames: number }> = new Map();
+
   constructor(config: Partial<GameLoopConfig> = {}) {
     this.config = { ...DEFAULT_GAME_LOOP_CONFIG, ...config };
 
@@ -169,6 +236,7 @@ export class GameLoop {
       const index = systemsInPhase.findIndex(s => s.name === name);
       if (index !== -1) {
         systemsInPhase.splice(index, 1);
+        this.deferred.delete(name);
         return;
       }
     }
@@ -192,8 +260,179 @@ export class GameLoop {
     this.renderCallback = callback;
   }
 
+  /**
+   * Register sync point callback
+   *
+   * This callback is called after every phase (including PHYSICS) completes.
+   * Used to play back deferred ECS structural changes between phases.
+   */
+  registerSyncCallback(callback: (phase: SystemPhase) => void): void {
+    this.syncCallback = callback;
+  }
+
+  /**
+   * Register budget overrun callback
+   *
+   * Called when a system's update takes longer than its `budget`. Without a
+   * callback, overruns are logged with console.warn.
+   */
+  registerBudgetCallback(callback: (overrun: BudgetOverrun) => void): void {
+    this.budgetCallback = callback;
+  }
+
+  /**
+   * Get the profiler that records per-system timings
+   */
+  getProfiler(): FrameProfiler {
+    return this.profiler;
+  }
+
+  /**
+   * Change the fixed physics timestep
+   *
+   * Takes effect from the next physics step. The accumulator is rescaled so
+   * the interpolation alpha is unchanged, which keeps rendering smooth when
+   * switching rates (e.g. 30/60/120 Hz) mid-game.
+   *
+   * @param fixedTimestep - New timestep in seconds
+   */
+  setFixedTimestep(fixedTimestep: number): void {
+    if (!Number.isFinite(fixedTimestep) || fixedTimestep <= 0) {
+      throw new Error(`Fixed timestep must be a positive number of seconds, got ${fixedTimestep}`);
+    }
+
+    this.accumulator *= fixedTimestep / this.config.fixedTimestep;
+    this.config.fixedTimestep = fixedTimestep;
+  }
+
+  /**
+   * Get the fixed physics timestep in seconds
+   */
+  getFixedTimestep(): number {
+    return this.config.fixedTimestep;
+  }
+
+  /**
+   * Get the interpolation alpha for the current frame
+   *
+   * Fraction of a fixed step left in the accumulator after this frame's
+   * physics steps (0-1). Valid from the RENDER phase on; render systems use
+   * it to blend between the previous and current physics state.
+   */
+  getInterpolationAlpha(): number {
+    return this.alpha;
+  }
+
+  /**
+   * Set the global time scale
+   *
+   * Scales the delta time systems receive and the time fed to the physics
+   * accumulator: 0.25 is quarter-speed slow motion, 0 freezes the simulation
+   * while frames keep rendering.
+   *
+   * @param scale - Time scale (>= 0, default 1)
+   */
+  setTimeScale(scale: number): void {
+    validateTimeScale(scale);
+    this.timeScale = scale;
+  }
+
+  /**
+   * Get the global time scale
+   */
+  getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  /**
+   * Override the time scale for one phase
+   *
+   * Replaces the global scale for that phase (e.g. keep UI systems in
+   * POST_UPDATE at 1 during slow motion). The PHYSICS override scales the
+   * physics accumulator.
+   *
+   * @param phase - Phase to override
+   * @param scale - Time scale, or undefined to follow the global scale again
+   */
+  setPhaseTimeScale(phase: SystemPhase, scale: number | undefined): void {
+    if (scale === undefined) {
+      this.phaseTimeScales.delete(phase);
+      return;
+    }
+    validateTimeScale(scale);
+    this.phaseTimeScales.set(phase, scale);
+  }
+
+  /**
+   * Override the time scale for one system
+   *
+   * Takes precedence over phase and global scales.
+   *
+   * @param name - System name
+   * @param scale - Time scale, or undefined to follow the phase/global scale again
+   */
+  setSystemTimeScale(name: string, scale: number | undefined): void {
+    if (scale === undefined) {
+      this.systemTimeScales.delete(name);
+      return;
+    }
+    validateTimeScale(scale);
+    this.systemTimeScales.set(name, scale);
+  }
+
+  /**
+   * Get the time scale applied to a phase (override or global)
+   */
+  getPhaseTimeScale(phase: SystemPhase): number {
+    return this.phaseTimeScales.get(phase) ?? this.timeScale;
+  }
+
+  /**
+   * Advance a stopped loop by whole fixed ticks
+   *
+   * Each tick runs every phase once with a delta time of one fixed timestep
+   * and exactly one physics step. Time scales are ignored, so stepping works
+   * even at scale 0.
+   *
+   * @param frames - Number of ticks (default: 1)
+   */
+  step(frames: number = 1): void {
+    if (this.running) {
+      throw new Error('Cannot step a running GameLoop; stop it first');
+    }
+    if (!Number.isInteger(frames) || frames < 1) {
+      throw new Error(`Frame count must be a positive integer, got ${frames}`);
+    }
+
+    for (let i = 0; i < frames; i++) {
+      this.runFrame(this.config.fixedTimestep, false);
+    }
+  }
+
+  /**
+   * Run one frame with an explicit delta time
+   *
+   * Drives the 'manual' scheduler (dedicated servers, simulation tests).
+   * Time scales apply and the delta is clamped to maxDeltaTime, as for
+   * scheduled frames.
+   *
+   * @param deltaTime - Frame time in seconds
+   */
+  advance(deltaTime: number): void {
+    if (this.running && this.resolveScheduler() !== 'manual') {
+      throw new Error("Cannot advance a self-scheduled GameLoop; use the 'manual' scheduler");
+    }
+    if (!Number.isFinite(deltaTime) || deltaTime < 0) {
+      throw new Error(`Delta time must be a non-negative number of seconds, got ${deltaTime}`);
+    }
+
+    this.runFrame(Math.min(deltaTime, this.config.maxDeltaTime), true);
+  }
+
   /**
    * Start the game loop
+   *
+   * Runs the first frame immediately, except with the 'manual' scheduler.
    */
   start(): void {
     if (this.running) {
@@ -201,9 +440,16 @@ export class GameLoop {
       return;
     }
 
+    const scheduler = this.resolveScheduler();
+    if (scheduler === 'animation-frame' && typeof requestAnimationFrame === 'undefined') {
+      throw new Error("requestAnimationFrame is not available; use the 'timer' or 'manual' scheduler");
+    }
+
     this.running = true;
     this.lastFrameTime = performance.now();
-    this.tick();
+    if (scheduler !== 'manual') {
+      this.tick();
+    }
   }
 
   /**
@@ -212,13 +458,13 @@ export class GameLoop {
   stop(): void {
     this.running = false;
     if (this.animationFrameId !== null) {
-      if (typeof cancelAnimationFrame !== 'undefined') {
-        cancelAnimationFrame(this.animationFrameId);
-      } else {
-        clearTimeout(this.animationFrameId);
-      }
+      cancelAnimationFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
   }
 
   /**
@@ -235,12 +481,10 @@ export class GameLoop {
     if (!this.running) return;
 
     // Schedule next frame
-    // Use requestAnimationFrame if available (browser), otherwise setTimeout (Node.js/tests)
-    if (typeof requestAnimationFrame !== 'undefined') {
+    if (this.resolveScheduler() === 'animation-frame') {
       this.animationFrameId = requestAnimationFrame(this.tick);
     } else {
-      // Fallback for Node.js environment (tests)
-      this.animationFrameId = setTimeout(this.tick, 16.67) as any;
+      this.timerId = setTimeout(this.tick, 1000 / this.config.targetFPS);
     }
 
     // Calculate delta time
@@ -253,22 +497,36 @@ export class GameLoop {
       deltaTime = this.config.maxDeltaTime;
     }
 
+    this.runFrame(deltaTime, true);
+  };
+
+  /**
+   * Run every phase once
+   *
+   * @param deltaTime - Real frame time in seconds
+   * @param scaled - Apply time scales (false when stepping)
+   */
+  private runFrame(deltaTime: number, scaled: boolean): void {
+    this.frameStart = performance.now();
+    this.profiler.beginFrame(this.stats.totalFrames, this.frameStart);
+
     // Update frame stats
     this.updateStats(deltaTime);
 
     // Add to accumulator for physics
-    this.accumulator += deltaTime;
+    this.accumulator += scaled ? deltaTime * this.getPhaseTimeScale(SystemPhase.PHYSICS) : deltaTime;
 
     // Phase 1: PRE_UPDATE (variable dt)
-    this.executePhase(SystemPhase.PRE_UPDATE, deltaTime);
+    this.executePhase(SystemPhase.PRE_UPDATE, deltaTime, scaled);
 
     // Phase 2: UPDATE (variable dt)
-    this.executePhase(SystemPhase.UPDATE, deltaTime);
+    this.executePhase(SystemPhase.UPDATE, deltaTime, scaled);
 
     // Phase 3: POST_UPDATE (variable dt)
-    this.executePhase(SystemPhase.POST_UPDATE, deltaTime);
+    this.executePhase(SystemPhase.POST_UPDATE, deltaTime, scaled);
 
     // Phase 4: PHYSICS (fixed dt with accumulator)
+    const physicsStart = performance.now();
     let physicsSteps = 0;
     while (this.accumulator >= this.config.fixedTimestep && physicsSteps < this.config.maxSubsteps) {
       if (this.physicsCallback) {
@@ -284,41 +542,120 @@ export class GameLoop {
     }
 
     this.stats.physicsSteps = physicsSteps;
-
-    // Phase 5: RENDER (variable dt with interpolation)
-    const alpha = this.accumulator / this.config.fixedTimestep;
-    this.executePhase(SystemPhase.RENDER, deltaTime);
-
-    if (this.renderCallback) {
-      this.renderCallback(alpha);
+    this.syncCallback?.(SystemPhase.PHYSICS);
+    this.profiler.recordPhase(SystemPhase.PHYSICS, physicsStart, performance.now() - physicsStart, {
+      steps: physicsSteps,
+    });
+
+    // Phase 5: RENDER (variable dt with interpolation), skipped when headless
+    this.alpha = this.accumulator / this.config.fixedTimestep;
+    if (this.config.render) {
+      this.executePhase(SystemPhase.RENDER, deltaTime, scaled);
+
+      if (this.renderCallback) {
+        this.renderCallback(this.alpha);
+      }
     }
 
     // Update frame count and total time
     this.stats.totalFrames++;
     this.stats.totalTime += deltaTime;
-  };
+
+    this.profiler.endFrame(performance.now());
+  }
 
   /**
    * Execute all systems in a specific phase
    */
-  private executePhase(phase: SystemPhase, deltaTime: number): void {
+  private executePhase(phase: SystemPhase, deltaTime: number, scaled: boolean): void {
     const systemsInPhase = this.systems.get(phase);
     if (!systemsInPhase) return;
 
+    const phaseStart = performance.now();
+    const phaseScale = scaled ? this.getPhaseTimeScale(phase) : 1;
+
     for (const system of systemsInPhase) {
       if (system.update) {
+        const scale = scaled ? this.systemTimeScales.get(system.name) ?? phaseScale : 1;
+        let systemDelta = deltaTime * scale;
+
+        // Time-slice deferrable systems (never while stepping)
+        if (system.deferrable && scaled) {
+          const pending = this.deferred.get(system.name);
+          if (this.shouldDefer(system, pending?.frames ?? 0)) {
+            this.deferred.set(system.name, {
+              deltaTime: (pending?.deltaTime ?? 0) + systemDelta,
+              frames: (pending?.frames ?? 0) + 1,
+            });
+            this.profiler.recordDeferral(system.name, phase);
+            continue;
+          }
+          if (pending) {
+            systemDelta += pending.deltaTime;
+            this.deferred.delete(system.name);
+          }
+        }
+
         const startTime = performance.now();
-        system.update(deltaTime);
+        system.update(systemDelta);
         const elapsedTime = performance.now() - startTime;
 
-        // Warn if system exceeds budget
-        if (system.budget && elapsedTime > system.budget) {
-          console.warn(
-            `System '${system.name}' exceeded budget: ${elapsedTime.toFixed(2)}ms / ${system.budget}ms`
-          );
+        const overBudget = system.budget !== undefined && system.budget > 0 && elapsedTime > system.budget;
+        this.profiler.recordSystem(system.name, phase, startTime, elapsedTime, overBudget);
+
+        if (overBudget) {
+          this.reportOverrun({
+            systemName: system.name,
+            phase,
+            elapsed: elapsedTime,
+            budget: system.budget!,
+            frame: this.stats.totalFrames,
+          });
         }
       }
     }
+
+    this.syncCallback?.(phase);
+    this.profiler.recordPhase(phase, phaseStart, performance.now() - phaseStart);
+  }
+
+  /**
+   * Resolve 'auto' to the scheduler available in this environment
+   */
+  private resolveScheduler(): Exclude<LoopScheduler, 'auto'> {
+    if (this.config.scheduler !== 'auto') {
+      return this.config.scheduler;
+    }
+    return typeof requestAnimationFrame !== 'undefined' ? 'animation-frame' : 'timer';
+  }
+
+  /**
+   * Check if a deferrable system should skip this frame
+   *
+   * Skips when the system's average cost would push the frame past the frame
+   * budget, unless it has already been skipped maxDeferredFrames times.
+   */
+  private shouldDefer(system: PhaseSystem, deferredFrames: number): boolean {
+    if (deferredFrames >= this.config.maxDeferredFrames) {
+      return false;
+    }
+
+    const frameBudget = this.config.frameBudget > 0 ? this.config.frameBudget : 1000 / this.config.targetFPS;
+    const expected = this.profiler.getSystemTiming(system.name)?.averageTime ?? 0;
+    return performance.now() - this.frameStart + expected > frameBudget;
+  }
+
+  /**
+   * Report a system budget overrun
+   */
+  private reportOverrun(overrun: BudgetOverrun): void {
+    if (this.budgetCallback) {
+      this.budgetCallback(overrun);
+    } else {
+      console.warn(
+        `System '${overrun.systemName}' exceeded budget: ${overrun.elapsed.toFixed(2)}ms / ${overrun.budget}ms`
+      );
+    }
   }
 
   /**
@@ -347,3 +684,12 @@ export class GameLoop {
     return this.systems;
   }
 }
+
+/**
+ * Throw unless a time scale is a finite, non-negative number
+ */
+function validateTimeScale(scale: number): void {
+  if (!Number.isFinite(scale) || scale < 0) {
+    throw new Error(`Time scale must be a non-negative number, got ${scale}`);
+  }
+}
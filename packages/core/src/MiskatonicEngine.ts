@@ -7,6 +7,7 @@
  * - Resource Manager (asset loading)
  * - Physics World (simulation)
  * - Network State Sync (multiplayer)
+ * - Plugins (third-party features with lifecycle hooks)
  * - Engine lifecycle (init, start, stop, shutdown)
  *
  * Design Philosophy:
@@ -16,26 +17,70 @@
  * - Fail-safe (validates config, graceful degradation)
  */
 
-import { World } from '@miskatonic/ecs';
-import { EventBus } from '@miskatonic/events';
+import {
+  World,
+  PrefabManager,
+  type PrefabDefinition,
+  type System as WorldSystem,
+  type WorldOptions,
+} from '@miskatonic/ecs';
+import {
+  EventBus,
+  EventPlayer,
+  EventRecorder,
+  type EventLog,
+  type EventPlayerOptions,
+  type EventRecorderOptions,
+} from '@miskatonic/events';
 import { ResourceManager } from '@miskatonic/resources';
 import { PhysicsWorld } from '@miskatonic/physics';
 import { StateReplicationManager } from '@miskatonic/network';
 import type {
   EngineConfig,
+  EngineEventMap,
   EngineStats,
   SystemRegistration,
 } from './types';
 import { DEFAULT_ENGINE_CONFIG, EngineState } from './types';
 import { GameLoop, SystemPhase, type PhaseSystem } from './GameLoop';
+import type { FrameProfiler } from './FrameProfiler';
+import type { PhysicsSyncSystem } from './systems/PhysicsSyncSystem';
 import { CommandSystem } from './commands/CommandSystem';
 import { createBuiltinCommands } from './commands/builtins';
+import { PrefabLoader, PREFAB_RESOURCE_TYPE } from './loaders/PrefabLoader';
+import { PluginManager } from './plugins/PluginManager';
+import type { Plugin } from './plugins/types';
+import { RemoteCommandHost } from './remote/RemoteCommandHost';
+import type { RemoteCommandServer } from './remote/RemoteCommandServer';
+
+/** Name of the engine's default world */
+const MAIN_WORLD = 'main';
+
+/** GameLoop system that re-injects replayed events */
+const EVENT_REPLAY_SYSTEM = 'event-replay';
+
+/** GameLoop system that blends physics poses before rendering */
+const PHYSICS_INTERPOLATION_SYSTEM = 'physics-interpolation';
+
+/**
+ * GameLoop system name that updates a world
+ */
+function worldUpdateSystemName(worldName: string): string {
+  return `world-update:${worldName}`;
+}
 
 /**
  * Main engine class
  *
  * Usage:
  * ```typescript
+ * // Game events are declared by augmenting EngineEventMap
+ * declare module '@miskatonic/core' {
+ *   interface EngineEventMap {
+ *     'game:start': NoPayload;
+ *   }
+ * }
+ *
  * const engine = await MiskatonicEngine.create({
  *   physics: { gravity: [0, -9.81, 0] },
  *   debug: { enabled: true }
@@ -46,7 +91,7 @@ import { createBuiltinCommands } from './commands/builtins';
  *
  * // Access systems
  * const entity = engine.world.createEntity();
- * engine.events.emit({ type: 'game:start' });
+ * engine.events.emit({ type: 'game:start', timestamp: Date.now() });
  *
  * // Later
  * await engine.shutdown();
@@ -55,12 +100,20 @@ import { createBuiltinCommands } from './commands/builtins';
 export class MiskatonicEngine {
   // Core systems
   private _world: World;
-  private _events: EventBus;
+  private _worlds = new Map<string, World>();
+  private updatedWorlds = new Set<string>();
+  private _events: EventBus<EngineEventMap>;
   private _resources: ResourceManager;
   private _physics: PhysicsWorld | null = null;
   private _network: StateReplicationManager | null = null;
   private _gameLoop: GameLoop;
   private _commands: CommandSystem;
+  private _prefabs: PrefabManager;
+  private _plugins: PluginManager;
+  private _remote: RemoteCommandHost | null = null;
+  private _remoteServer: RemoteCommandServer | null = null;
+  private eventReplay: EventPlayer<EngineEventMap> | null = null;
+  private physicsInterpolation: { sync: PhysicsSyncSystem; world: World } | null = null;
 
   // Configuration
   private config: Required<EngineConfig>;
@@ -91,7 +144,8 @@ export class MiskatonicEngine {
 
     // Create core systems
     this._world = new World();
-    this._events = new EventBus({ batchDelay: 0 }); // 0ms batch delay for immediate event dispatch
+    this._worlds.set(MAIN_WORLD, this._world);
+    this._events = new EventBus<EngineEventMap>({ batchDelay: 0 }); // 0ms batch delay for immediate event dispatch
     this._resources = new ResourceManager({
       maxSize: 1024 * 1024 * 1024, // 1GB cache
       evictionPolicy: 'lru' as any, // LRU eviction
@@ -104,6 +158,35 @@ export class MiskatonicEngine {
       fixedTimestep: this.config.physics?.fixedTimestep || 1 / 60,
       maxDeltaTime: this.config.performance.maxDeltaTime,
       maxSubsteps: this.config.physics?.maxSubsteps || 4,
+      scheduler: this.config.headless.enabled ? this.config.headless.loop : 'auto',
+      render: !this.config.headless.enabled,
+    });
+
+    // Report system budget overruns on the event bus
+    this._gameLoop.registerBudgetCallback((overrun) => {
+      if (this.config.performance.warnOnBudgetExceed) {
+        console.warn(
+          `System '${overrun.systemName}' exceeded budget: ${overrun.elapsed.toFixed(2)}ms / ${overrun.budget}ms`
+        );
+      }
+      this._events.emit({
+        type: 'engine:budget-exceeded',
+        timestamp: Date.now(),
+        systemName: overrun.systemName,
+        phase: overrun.phase,
+        elapsed: overrun.elapsed,
+        budget: overrun.budget,
+        frame: overrun.frame,
+      });
+    });
+
+    // Create prefab manager; prefab resources re-register on reload so edits reach live instances
+    this._prefabs = new PrefabManager(this._world);
+    this._resources.registerLoader(new PrefabLoader());
+    this._resources.onReload((id, type, data) => {
+      if (type === PREFAB_RESOURCE_TYPE) {
+        this._prefabs.register(id, data as PrefabDefinition);
+      }
     });
 
     // Create command system
@@ -111,6 +194,9 @@ export class MiskatonicEngine {
 
     // Register built-in commands
     this._commands.registerMany(createBuiltinCommands(this));
+
+    // Plugins are installed during initialize()
+    this._plugins = new PluginManager(this);
   }
 
   /**
@@ -140,11 +226,27 @@ export class MiskatonicEngine {
     return engine;
   }
 
+  /**
+   * Register a plugin
+   *
+   * Plugins are installed during initialize(), after their dependencies, so
+   * register them between create() and initialize().
+   *
+   * @param plugin - Plugin to install
+   */
+  use(plugin: Plugin): void {
+    if (this._state !== EngineState.INITIALIZING) {
+      throw new Error(`Cannot register plugin '${plugin.name}' from state: ${this._state}`);
+    }
+
+    this._plugins.register(plugin);
+  }
+
   /**
    * Initialize the engine and all systems
    *
    * Call this after create() and before start().
-   * Initializes physics, network, and custom systems.
+   * Initializes physics, network, plugins, and custom systems.
    */
   async initialize(): Promise<void> {
     if (this._state !== EngineState.INITIALIZING) {
@@ -168,6 +270,20 @@ export class MiskatonicEngine {
         await this.initializeNetwork();
       }
 
+      // Start remote command server if enabled (Node only)
+      if (this.config.remote.enabled) {
+        await this.initializeRemote();
+      }
+
+      // Install plugins (their systems are initialized below)
+      await this._plugins.installAll(this.config.plugins, (plugin) => {
+        this._events.emit({
+          type: 'engine:plugin-installed',
+          timestamp: Date.now(),
+          pluginName: plugin.name,
+        });
+      });
+
       // Initialize custom systems
       for (const system of this.customSystems) {
         if (system.initialize) {
@@ -179,9 +295,19 @@ export class MiskatonicEngine {
       if (this._physics) {
         this._gameLoop.registerPhysicsCallback((dt) => {
           this._physics!.step(dt);
+          if (this.physicsInterpolation) {
+            this.physicsInterpolation.sync.capturePoses(this.physicsInterpolation.world);
+          }
         });
       }
 
+      // Apply deferred ECS structural changes (World command buffers) between phases
+      this._gameLoop.registerSyncCallback(() => {
+        for (const world of this._worlds.values()) {
+          world.flushCommands();
+        }
+      });
+
       // Register pre-update system for command queue processing
       this._gameLoop.registerSystem({
         name: 'command-queue-processor',
@@ -218,6 +344,7 @@ export class MiskatonicEngine {
     }
 
     this._state = EngineState.RUNNING;
+    this._plugins.start();
 
     this._events.emit({
       type: 'engine:started',
@@ -242,6 +369,7 @@ export class MiskatonicEngine {
     this._gameLoop.stop();
 
     this._state = EngineState.PAUSED;
+    this._plugins.pause();
 
     this._events.emit({
       type: 'engine:stopped',
@@ -266,6 +394,86 @@ export class MiskatonicEngine {
     this.start();
   }
 
+  /**
+   * Advance a paused engine by exactly N fixed ticks
+   *
+   * Each tick runs every phase once with one physics step, ignoring time
+   * scales. Use it to walk through physics glitches frame by frame.
+   *
+   * @param frames - Number of ticks (default: 1)
+   */
+  step(frames: number = 1): void {
+    if (this._state !== EngineState.PAUSED && this._state !== EngineState.READY) {
+      throw new Error(`Cannot step from state: ${this._state} (pause the engine first)`);
+    }
+
+    this._gameLoop.step(frames);
+
+    this._events.emit({
+      type: 'engine:stepped',
+      timestamp: Date.now(),
+      frames,
+    });
+  }
+
+  /**
+   * Run one frame of a running headless engine with the 'manual' loop
+   *
+   * Dedicated servers and simulation tests call this instead of relying on
+   * a timer, so frame times are exact and reproducible.
+   *
+   * @param deltaTime - Frame time in seconds
+   */
+  advance(deltaTime: number): void {
+    if (this._state !== EngineState.RUNNING) {
+      throw new Error(`Cannot advance from state: ${this._state}`);
+    }
+
+    this._gameLoop.advance(deltaTime);
+  }
+
+  /**
+   * Set the global time scale (1 = normal, 0.25 = slow motion, 0 = frozen)
+   *
+   * @param scale - Time scale (>= 0)
+   */
+  setTimeScale(scale: number): void {
+    this._gameLoop.setTimeScale(scale);
+
+    this._events.emit({
+      type: 'engine:time-scale-changed',
+      timestamp: Date.now(),
+      timeScale: scale,
+    });
+  }
+
+  /**
+   * Get the global time scale
+   */
+  getTimeScale(): number {
+    return this._gameLoop.getTimeScale();
+  }
+
+  /**
+   * Override the time scale for one phase (undefined clears the override)
+   *
+   * @param phase - Phase to override
+   * @param scale - Time scale (>= 0), or undefined to follow the global scale
+   */
+  setPhaseTimeScale(phase: SystemPhase, scale: number | undefined): void {
+    this._gameLoop.setPhaseTimeScale(phase, scale);
+  }
+
+  /**
+   * Override the time scale for one system (undefined clears the override)
+   *
+   * @param name - System name
+   * @param scale - Time scale (>= 0), or undefined to follow the phase/global scale
+   */
+  setSystemTimeScale(name: string, scale: number | undefined): void {
+    this._gameLoop.setSystemTimeScale(name, scale);
+  }
+
   /**
    * Shutdown the engine and clean up all resources
    *
@@ -280,6 +488,9 @@ export class MiskatonicEngine {
     });
 
     try {
+      // Shutdown plugins (in reverse install order)
+      await this._plugins.shutdown();
+
       // Shutdown custom systems (in reverse order)
       for (let i = this.customSystems.length - 1; i >= 0; i--) {
         const system = this.customSystems[i];
@@ -302,6 +513,16 @@ export class MiskatonicEngine {
         this._physics = null;
       }
 
+      // Stop remote command server before the commands it exposes
+      if (this._remoteServer) {
+        await this._remoteServer.stop();
+        this._remoteServer = null;
+      }
+      if (this._remote) {
+        this._remote.stop();
+        this._remote = null;
+      }
+
       // Cleanup command system
       if (this._commands) {
         await this._commands.shutdown();
@@ -391,12 +612,17 @@ export class MiskatonicEngine {
    * Update engine configuration
    *
    * Note: Some config changes require engine restart to take effect.
+   * physics.fixedTimestep applies immediately.
    *
    * @param partial - Partial configuration to merge
    */
   updateConfig(partial: Partial<EngineConfig>): void {
     this.config = this.mergeConfig(partial);
 
+    if (this.config.physics.fixedTimestep !== this._gameLoop.getFixedTimestep()) {
+      this._gameLoop.setFixedTimestep(this.config.physics.fixedTimestep!);
+    }
+
     this._events.emit({
       type: 'engine:config-updated',
       timestamp: Date.now(),
@@ -410,6 +636,13 @@ export class MiskatonicEngine {
     return this.config;
   }
 
+  /**
+   * Check if the engine runs without rendering
+   */
+  get headless(): boolean {
+    return this.config.headless.enabled!;
+  }
+
   /**
    * Get current engine state
    */
@@ -418,19 +651,213 @@ export class MiskatonicEngine {
   }
 
   /**
-   * Get ECS World
+   * Get the main ECS World
    */
   get world(): World {
     return this._world;
   }
 
+  /**
+   * Create an additional, isolated world
+   *
+   * Each world has its own entities, systems and command buffer. Pass a
+   * registry in options to give it world-local component types.
+   *
+   * @param name - Unique world name
+   * @param options - World construction options
+   */
+  createWorld(name: string, options?: WorldOptions): World {
+    if (this._worlds.has(name)) {
+      throw new Error(`World '${name}' already exists`);
+    }
+
+    const world = new World(options);
+    this._worlds.set(name, world);
+    return world;
+  }
+
+  /**
+   * Get a world by name ('main' is the engine's default world)
+   */
+  getWorld(name: string): World | undefined {
+    return this._worlds.get(name);
+  }
+
+  /**
+   * Get the names of all worlds, starting with 'main'
+   */
+  getWorldNames(): string[] {
+    return Array.from(this._worlds.keys());
+  }
+
+  /**
+   * Destroy a world created with createWorld()
+   *
+   * Stops updating it and clears its entities and systems.
+   *
+   * @param name - World name (the main world cannot be destroyed)
+   */
+  destroyWorld(name: string): void {
+    if (name === MAIN_WORLD) {
+      throw new Error('Cannot destroy the main world');
+    }
+
+    const world = this._worlds.get(name);
+    if (!world) {
+      return;
+    }
+
+    this._gameLoop.unregisterSystem(worldUpdateSystemName(name));
+    this.updatedWorlds.delete(name);
+    world.clear();
+    this._worlds.delete(name);
+  }
+
+  /**
+   * Register an ECS system with a world
+   *
+   * The first system registered this way makes the game loop update that world
+   * in the UPDATE phase. Worlds without engine-registered systems are left for
+   * the game to update itself.
+   *
+   * @param system - ECS system
+   * @param worldName - Target world (default: 'main')
+   */
+  registerWorldSystem(system: WorldSystem, worldName: string = MAIN_WORLD): void {
+    const world = this._worlds.get(worldName);
+    if (!world) {
+      throw new Error(`World '${worldName}' does not exist`);
+    }
+
+    world.registerSystem(system);
+
+    if (!this.updatedWorlds.has(worldName)) {
+      this.updatedWorlds.add(worldName);
+      this._gameLoop.registerSystem({
+        name: worldUpdateSystemName(worldName),
+        phase: SystemPhase.UPDATE,
+        update: (dt) => world.update(dt),
+      });
+    }
+  }
+
   /**
    * Get Event Bus
    */
-  get events(): EventBus {
+  get events(): EventBus<EngineEventMap> {
     return this._events;
   }
 
+  /**
+   * Start recording every event on the engine's EventBus
+   *
+   * Events are tagged with the game loop frame they were dispatched in. Save
+   * the session with `recorder.toJSON()` (alongside a PhysicsSnapshotManager
+   * replay to reproduce physics too) and load it with replayEvents().
+   *
+   * @param options - Recorder options (the frame source is supplied by the engine)
+   */
+  recordEvents(options: Omit<EventRecorderOptions, 'getFrame'> = {}): EventRecorder<EngineEventMap> {
+    const recorder = new EventRecorder(this._events, {
+      ...options,
+      getFrame: () => this._gameLoop.getStats().totalFrames,
+    });
+    recorder.start();
+    return recorder;
+  }
+
+  /**
+   * Replay a recorded event log on this engine
+   *
+   * Each event is dispatched at the start of PRE_UPDATE in the frame it was
+   * recorded in, so replay on a freshly started engine to line frames up.
+   * `engine:*` events are skipped unless a filter is given, since the engine
+   * emits those itself. Replaces any replay in progress.
+   *
+   * @param log - Log from EventRecorder.getLog() or EventRecorder.parse()
+   * @param options - Player options
+   */
+  replayEvents(log: EventLog, options: EventPlayerOptions = {}): EventPlayer<EngineEventMap> {
+    const player = new EventPlayer(this._events, log, {
+      filter: options.filter ?? ((event) => !event.type.startsWith('engine:')),
+    });
+
+    this._gameLoop.unregisterSystem(EVENT_REPLAY_SYSTEM);
+    this.eventReplay = player;
+    this._gameLoop.registerSystem({
+      name: EVENT_REPLAY_SYSTEM,
+      phase: SystemPhase.PRE_UPDATE,
+      priority: -1, // Before command queue processing
+      update: async () => {
+        await player.playFrame(this._gameLoop.getStats().totalFrames);
+        if (player.isFinished() && this.eventReplay === player) {
+          this._gameLoop.unregisterSystem(EVENT_REPLAY_SYSTEM);
+          this.eventReplay = null;
+        }
+      },
+    });
+
+    return player;
+  }
+
+  /**
+   * Change the physics rate while running (e.g. 1 / 30, 1 / 60, 1 / 120)
+   *
+   * The interpolation alpha is preserved across the change, so interpolated
+   * rendering continues without a visible jump.
+   *
+   * @param fixedTimestep - New fixed timestep in seconds
+   */
+  setFixedTimestep(fixedTimestep: number): void {
+    this._gameLoop.setFixedTimestep(fixedTimestep);
+    this.config = {
+      ...this.config,
+      physics: { ...this.config.physics, fixedTimestep },
+    };
+
+    this._events.emit({
+      type: 'engine:config-updated',
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Render physics bodies at interpolated poses
+   *
+   * After every physics step the sync system captures body poses; at the
+   * start of RENDER it blends the last two with the game loop's interpolation
+   * alpha. Render systems then draw with sync.getInterpolatedWorldMatrix().
+   * Replaces any previously enabled sync system.
+   *
+   * @param sync - Physics sync system (initialized with the world)
+   * @param worldName - World containing the physics entities (default: 'main')
+   */
+  enablePhysicsInterpolation(sync: PhysicsSyncSystem, worldName: string = MAIN_WORLD): void {
+    const world = this._worlds.get(worldName);
+    if (!world) {
+      throw new Error(`World '${worldName}' does not exist`);
+    }
+
+    this._gameLoop.unregisterSystem(PHYSICS_INTERPOLATION_SYSTEM);
+    this.physicsInterpolation = { sync, world };
+    this._gameLoop.registerSystem({
+      name: PHYSICS_INTERPOLATION_SYSTEM,
+      phase: SystemPhase.RENDER,
+      priority: 0, // Before render systems read the matrices
+      update: () => {
+        sync.interpolate(world, this._gameLoop.getInterpolationAlpha());
+      },
+    });
+  }
+
+  /**
+   * Stop capturing and blending physics poses
+   */
+  disablePhysicsInterpolation(): void {
+    this._gameLoop.unregisterSystem(PHYSICS_INTERPOLATION_SYSTEM);
+    this.physicsInterpolation = null;
+  }
+
   /**
    * Get Resource Manager
    */
@@ -438,6 +865,34 @@ export class MiskatonicEngine {
     return this._resources;
   }
 
+  /**
+   * Get Prefab Manager
+   */
+  get prefabs(): PrefabManager {
+    return this._prefabs;
+  }
+
+  /**
+   * Load a prefab resource (and any prefabs it nests) and register it
+   *
+   * Uses the 'prefab' loader; register a PrefabLoader with a custom reader to load
+   * from somewhere other than fetch().
+   *
+   * @param id - Prefab resource ID, also used as the prefab ID
+   */
+  async loadPrefab(id: string): Promise<void> {
+    const handle = await this._resources.load<PrefabDefinition>(id, PREFAB_RESOURCE_TYPE);
+    const definition = handle.get();
+    this._prefabs.register(id, definition);
+
+    // Registered first, so a prefab that nests itself doesn't recurse forever
+    for (const entity of definition.entities) {
+      if (entity.prefab !== undefined && !this._prefabs.has(entity.prefab)) {
+        await this.loadPrefab(entity.prefab);
+      }
+    }
+  }
+
   /**
    * Get Physics World (may be null if not initialized)
    */
@@ -459,6 +914,34 @@ export class MiskatonicEngine {
     return this._commands;
   }
 
+  /**
+   * Get Remote Command Host (null unless remote.enabled)
+   */
+  get remote(): RemoteCommandHost | null {
+    return this._remote;
+  }
+
+  /**
+   * Get Remote Command Server (null unless remote.enabled)
+   */
+  get remoteServer(): RemoteCommandServer | null {
+    return this._remoteServer;
+  }
+
+  /**
+   * Get Plugin Manager
+   */
+  get plugins(): PluginManager {
+    return this._plugins;
+  }
+
+  /**
+   * Get Frame Profiler (per-system timings and trace export)
+   */
+  get profiler(): FrameProfiler {
+    return this._gameLoop.getProfiler();
+  }
+
   /**
    * Get current engine statistics
    */
@@ -485,12 +968,12 @@ export class MiskatonicEngine {
   }
 
   /**
-   * Initialize physics system
+   * Initialize physics system with the configured backend
    */
   private async initializePhysics(): Promise<void> {
-    const { RapierPhysicsEngine } = await import('../../physics/src');
+    const { physicsBackends } = await import('../../physics/src');
 
-    const engine = new RapierPhysicsEngine();
+    const engine = await physicsBackends.create(this.config.physics.backend!);
 
     // Create PhysicsWorld with config
     const [gx, gy, gz] = this.config.physics.gravity!;
@@ -520,6 +1003,38 @@ export class MiskatonicEngine {
     });
   }
 
+  /**
+   * Start the remote command server
+   *
+   * Loaded dynamically so browser builds never pull in 'http' and 'ws'.
+   */
+  private async initializeRemote(): Promise<void> {
+    const { RemoteCommandServer } = await import('./remote/RemoteCommandServer');
+    const remote = this.config.remote;
+
+    const host = new RemoteCommandHost(this._commands, this._events, {
+      captureConsole: remote.captureConsole,
+    });
+    const server = new RemoteCommandServer(host, {
+      port: remote.port,
+      host: remote.host,
+      token: remote.token,
+      allowedOrigins: remote.allowedOrigins,
+    });
+
+    const port = await server.start();
+    host.start();
+    this._remote = host;
+    this._remoteServer = server;
+
+    this._events.emit({
+      type: 'engine:remote-started',
+      timestamp: Date.now(),
+      host: remote.host!,
+      port,
+    });
+  }
+
   /**
    * Deep merge partial config with defaults
    */
@@ -544,6 +1059,9 @@ export class MiskatonicEngine {
       network: deepMerge(DEFAULT_ENGINE_CONFIG.network, partial.network),
       debug: deepMerge(DEFAULT_ENGINE_CONFIG.debug, partial.debug),
       performance: deepMerge(DEFAULT_ENGINE_CONFIG.performance, partial.performance),
+      headless: deepMerge(DEFAULT_ENGINE_CONFIG.headless, partial.headless),
+      plugins: deepMerge(DEFAULT_ENGINE_CONFIG.plugins, partial.plugins),
+      remote: deepMerge(DEFAULT_ENGINE_CONFIG.remote, partial.remote),
     };
   }
 }
@@ -4,18 +4,26 @@
  * Handles:
  * - Command execution (sync and queued)
  * - Input validation with Zod
+ * - Console line parsing (positional and --flag arguments)
  * - Command history tracking
  * - Event emission for command lifecycle
  * - Undo/redo support
+ * - Transactions (command groups that undo together)
+ * - Macro recording and playback
  */
 
-import type { EventBus } from '@miskatonic/events';
 import { CommandRegistry } from './CommandRegistry';
+import { formatCommandUsage, parseCommandArguments, tokenizeCommandLine } from './arguments';
 import type {
   CommandContext,
+  CommandDefinition,
+  CommandEventSink,
   CommandExecutionOptions,
   CommandHistoryEntry,
+  CommandMacro,
+  CommandMacroStep,
   CommandResult,
+  CommandTransactionInfo,
 } from './types';
 
 /**
@@ -26,6 +34,12 @@ import type {
 export class CommandBus {
   private registry: CommandRegistry;
   private history: CommandHistoryEntry[] = [];
+  private redoStack: CommandHistoryEntry[][] = [];
+  private transaction: CommandTransactionInfo | null = null;
+  private nextTransactionId = 1;
+  private macro: CommandMacro | null = null;
+  // Macro steps recorded in the open transaction, removed again on rollback
+  private transactionSteps = new Map<CommandHistoryEntry, CommandMacroStep>();
   private queuedCommands: Array<{
     command: string;
     input: unknown;
@@ -39,7 +53,7 @@ export class CommandBus {
   private readonly commandTimeout = 30000; // 30 second timeout per command
   private commandTimestamps: number[] = [];
 
-  constructor(registry: CommandRegistry, private events?: EventBus) {
+  constructor(registry: CommandRegistry, private events?: CommandEventSink) {
     this.registry = registry;
   }
 
@@ -94,6 +108,24 @@ export class CommandBus {
 
     // Queue command if requested
     if (options.queued) {
+      // It would run after the transaction closed, outside its undo group
+      if (this.transaction) {
+        const result: CommandResult<TOutput> = {
+          success: false,
+          error: `Cannot queue '${command}' while transaction '${this.transaction.name}' is open`,
+          executionTime: 0,
+        };
+
+        this.events?.emit({
+          type: 'command:failed',
+          timestamp: Date.now(),
+          commandName: command,
+          error: result.error!,
+        });
+
+        return result;
+      }
+
       // Check queue size limit
       if (this.queuedCommands.length >= this.maxQueueSize) {
         const result: CommandResult<TOutput> = {
@@ -171,58 +203,90 @@ export class CommandBus {
       metadata: options.metadata,
     };
 
-    // Execute command with timeout
-    const startTime = performance.now();
-    let result: CommandResult<TOutput>;
+    const result = await this.runHandler<TOutput>(definition, validation.data, context);
 
-    try {
-      // Create timeout promise
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Command execution timeout')), this.commandTimeout);
-      });
+    // Add to history
+    const entry: CommandHistoryEntry = {
+      command: definition.name,
+      input: validation.data,
+      result,
+      context,
+      ...(this.transaction && { transaction: this.transaction }),
+    };
+    this.addToHistory(entry);
 
-      // Race between handler and timeout
-      result = await Promise.race([
-        definition.handler(validation.data, context),
-        timeoutPromise,
-      ]) as CommandResult<TOutput>;
+    if (result.success) {
+      // A new undoable change invalidates everything that was undone before it
+      if (definition.undoable && definition.undo) {
+        this.redoStack = [];
+      }
+      if (this.macro) {
+        const step: CommandMacroStep = { command: definition.name, input: validation.data };
+        this.macro.steps.push(step);
+        if (this.transaction) {
+          this.transactionSteps.set(entry, step);
+        }
+      }
+    }
 
-      result.executionTime = performance.now() - startTime;
+    this.emitResult(definition.name, result);
+
+    return result;
+  }
+
+  /**
+   * Execute a console line (e.g. `set 12 Transform.x 5 --world=preview`)
+   *
+   * Arguments are parsed against the command's schema (see
+   * CommandDefinition.positional); parse errors fail with the usage text.
+   *
+   * @param line - Command name or alias followed by arguments
+   * @param options - Execution options
+   * @returns Command result
+   */
+  async executeLine<TOutput = unknown>(
+    line: string,
+    options: CommandExecutionOptions = {}
+  ): Promise<CommandResult<TOutput>> {
+    let tokens: string[];
+    try {
+      tokens = tokenizeCommandLine(line);
     } catch (error) {
-      result = {
+      return {
         success: false,
         error: error instanceof Error ? error.message : String(error),
-        executionTime: performance.now() - startTime,
+        executionTime: 0,
       };
     }
 
-    // Add to history
-    this.addToHistory({
-      command: definition.name,
-      input: validation.data,
-      result,
-      context,
-    });
+    const [command = '', ...args] = tokens;
+    const definition = this.registry.get(command);
+    if (!definition) {
+      // Reports the missing command
+      return this.execute<unknown, TOutput>(command, {}, options);
+    }
+
+    let input: Record<string, unknown>;
+    try {
+      input = parseCommandArguments(definition, args);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
 
-    // Emit event
-    if (result.success) {
-      this.events?.emit({
-        type: 'command:executed',
-        timestamp: Date.now(),
-        commandName: definition.name,
-        success: true,
-        executionTime: result.executionTime,
-      });
-    } else {
       this.events?.emit({
-        type: 'command:failed',
+        type: 'command:validation-failed',
         timestamp: Date.now(),
         commandName: definition.name,
-        error: result.error!,
+        error: message,
       });
+
+      return {
+        success: false,
+        error: `${message}\nUsage: ${formatCommandUsage(definition)}`,
+        executionTime: 0,
+      };
     }
 
-    return result;
+    return this.execute<unknown, TOutput>(definition.name, input, options);
   }
 
   /**
@@ -263,50 +327,270 @@ export class CommandBus {
    */
   clearHistory(): void {
     this.history = [];
+    this.redoStack = [];
   }
 
   /**
    * Undo the last command (if undoable)
    *
+   * If the command ran in a transaction, every undoable command of that
+   * transaction is undone, newest first. Successfully undone commands can be
+   * re-applied with redo().
+   *
    * @returns Command result or null if nothing to undo
+   * @throws Error if a transaction is open
    */
   async undo(): Promise<CommandResult | null> {
+    this.assertNoTransaction('undo');
+
     // Find last undoable command using findLastIndex to avoid iteration issues
-    const undoableIndex = this.history.findLastIndex(entry => {
-      const definition = this.registry.get(entry.command);
-      return definition?.undoable && definition.undo;
-    });
+    const undoableIndex = this.history.findLastIndex(entry => this.isUndoable(entry));
 
     if (undoableIndex === -1) {
       return null;
     }
 
     const entry = this.history[undoableIndex];
-    const definition = this.registry.get(entry.command);
+    const group = entry.transaction
+      ? this.getTransactionEntries(entry.transaction.id)
+      : [entry];
+
+    const result = await this.undoEntries(group);
 
-    if (!definition || !definition.undo) {
+    // Remove from history AFTER execution
+    this.history = this.history.filter(e => !group.includes(e));
+
+    if (result.success) {
+      this.redoStack.push(group);
+    }
+
+    return result;
+  }
+
+  /**
+   * Redo the last undone command (or transaction)
+   *
+   * Handlers are re-run with the original input. The redo stack is cleared
+   * whenever a new undoable command succeeds.
+   *
+   * @returns Command result or null if nothing to redo
+   * @throws Error if a transaction is open
+   */
+  async redo(): Promise<CommandResult | null> {
+    this.assertNoTransaction('redo');
+
+    const group = this.redoStack.pop();
+    if (!group) {
       return null;
     }
 
-    // Execute undo handler
     const startTime = performance.now();
-    let result: CommandResult;
+
+    for (const entry of group) {
+      const definition = this.registry.get(entry.command);
+      if (!definition) {
+        return {
+          success: false,
+          error: `Command '${entry.command}' not found`,
+          executionTime: performance.now() - startTime,
+        };
+      }
+
+      const context: CommandContext = { ...entry.context, timestamp: Date.now() };
+      const result = await this.runHandler(definition, entry.input, context);
+
+      this.addToHistory({ ...entry, result, context });
+      this.emitResult(definition.name, result);
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+          executionTime: performance.now() - startTime,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      executionTime: performance.now() - startTime,
+    };
+  }
+
+  /**
+   * Check if there is anything to redo
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Open a transaction
+   *
+   * Commands executed until commitTransaction() are grouped: a single undo()
+   * reverts all of them, and rollbackTransaction() discards them. Commands
+   * without undo still run and are kept by both; queued commands are rejected
+   * while a transaction is open.
+   *
+   * @param name - Transaction name (e.g. 'gizmo.drag')
+   * @throws Error if a transaction is already open
+   */
+  beginTransaction(name: string): void {
+    if (this.transaction) {
+      throw new Error(`Transaction '${this.transaction.name}' is already open`);
+    }
+    this.transaction = { id: this.nextTransactionId++, name };
+    this.transactionSteps.clear();
+  }
+
+  /**
+   * Close the open transaction, keeping its commands
+   *
+   * @throws Error if no transaction is open
+   */
+  commitTransaction(): void {
+    if (!this.transaction) {
+      throw new Error('No transaction is open');
+    }
+    this.transaction = null;
+    this.transactionSteps.clear();
+  }
+
+  /**
+   * Close the open transaction, undoing its commands (newest first)
+   *
+   * Rolled back commands are removed from history and from a macro being
+   * recorded, and cannot be redone. Commands without undo are not reverted
+   * and stay in both.
+   *
+   * @returns Combined undo result
+   * @throws Error if no transaction is open
+   */
+  async rollbackTransaction(): Promise<CommandResult> {
+    if (!this.transaction) {
+      throw new Error('No transaction is open');
+    }
+
+    const group = this.getTransactionEntries(this.transaction.id);
+    this.transaction = null;
+
+    const result = await this.undoEntries(group);
+    this.history = this.history.filter(e => !group.includes(e));
+
+    if (this.macro) {
+      const rolledBack = new Set(group.map(e => this.transactionSteps.get(e)));
+      this.macro.steps = this.macro.steps.filter(step => !rolledBack.has(step));
+    }
+    this.transactionSteps.clear();
+
+    return result;
+  }
+
+  /**
+   * Check if a transaction is open
+   */
+  isInTransaction(): boolean {
+    return this.transaction !== null;
+  }
+
+  /**
+   * Run a function inside a transaction
+   *
+   * Commits when the function returns, rolls back and rethrows when it throws.
+   *
+   * @param name - Transaction name
+   * @param fn - Executes the grouped commands
+   * @returns Value returned by fn
+   * @throws Error if a transaction is already open
+   */
+  async runTransaction<T>(name: string, fn: () => T | Promise<T>): Promise<T> {
+    this.beginTransaction(name);
 
     try {
-      result = await definition.undo(entry.input, entry.context);
-      result.executionTime = performance.now() - startTime;
+      const value = await fn();
+      this.commitTransaction();
+      return value;
     } catch (error) {
-      result = {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        executionTime: performance.now() - startTime,
-      };
+      await this.rollbackTransaction();
+      throw error;
     }
+  }
 
-    // Remove from history AFTER execution
-    this.history.splice(undoableIndex, 1);
+  /**
+   * Start recording successfully executed commands into a macro
+   *
+   * @param name - Macro name
+   * @throws Error if a macro is already being recorded
+   */
+  startMacroRecording(name: string): void {
+    if (this.macro) {
+      throw new Error(`Macro '${this.macro.name}' is already being recorded`);
+    }
+    this.macro = { name, steps: [] };
+  }
 
-    return result;
+  /**
+   * Stop recording and return the macro
+   *
+   * @throws Error if no macro is being recorded
+   */
+  stopMacroRecording(): CommandMacro {
+    if (!this.macro) {
+      throw new Error('No macro is being recorded');
+    }
+    const macro = this.macro;
+    this.macro = null;
+    return macro;
+  }
+
+  /**
+   * Check if a macro is being recorded
+   */
+  isRecordingMacro(): boolean {
+    return this.macro !== null;
+  }
+
+  /**
+   * Play a macro as one transaction
+   *
+   * Stops at the first failing step and rolls back the steps before it.
+   *
+   * @param macro - Recorded macro
+   * @param options - Execution options for every step (queued is ignored)
+   * @returns Result whose output holds the step results
+   * @throws Error if a transaction is already open
+   */
+  async playMacro(
+    macro: CommandMacro,
+    options: CommandExecutionOptions = {}
+  ): Promise<CommandResult<CommandResult[]>> {
+    const startTime = performance.now();
+    const results: CommandResult[] = [];
+
+    this.beginTransaction(`macro:${macro.name}`);
+
+    for (const [index, step] of macro.steps.entries()) {
+      const result = await this.execute(step.command, step.input, { ...options, queued: false });
+      results.push(result);
+
+      if (!result.success) {
+        await this.rollbackTransaction();
+        return {
+          success: false,
+          output: results,
+          error: `Macro '${macro.name}' failed at step ${index + 1} (${step.command}): ${result.error}`,
+          executionTime: performance.now() - startTime,
+        };
+      }
+    }
+
+    this.commitTransaction();
+
+    return {
+      success: true,
+      output: results,
+      executionTime: performance.now() - startTime,
+    };
   }
 
   /**
@@ -347,9 +631,140 @@ export class CommandBus {
     // Clear all state
     this.queuedCommands = [];
     this.history = [];
+    this.redoStack = [];
+    this.transaction = null;
+    this.macro = null;
     this.commandTimestamps = [];
   }
 
+  /**
+   * Run a command handler with the execution timeout
+   */
+  private async runHandler<TOutput = unknown>(
+    definition: CommandDefinition,
+    input: unknown,
+    context: CommandContext
+  ): Promise<CommandResult<TOutput>> {
+    const startTime = performance.now();
+    let result: CommandResult<TOutput>;
+
+    try {
+      // Create timeout promise
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('Command execution timeout')), this.commandTimeout);
+      });
+
+      // Race between handler and timeout
+      result = await Promise.race([
+        definition.handler(input, context),
+        timeoutPromise,
+      ]) as CommandResult<TOutput>;
+
+      result.executionTime = performance.now() - startTime;
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        executionTime: performance.now() - startTime,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Emit the executed/failed event for a result
+   */
+  private emitResult(commandName: string, result: CommandResult): void {
+    if (result.success) {
+      this.events?.emit({
+        type: 'command:executed',
+        timestamp: Date.now(),
+        commandName,
+        success: true,
+        executionTime: result.executionTime,
+      });
+    } else {
+      this.events?.emit({
+        type: 'command:failed',
+        timestamp: Date.now(),
+        commandName,
+        error: result.error!,
+      });
+    }
+  }
+
+  /**
+   * Undo history entries, newest first
+   *
+   * Keeps going after a failed undo so as much as possible is reverted.
+   *
+   * @returns Combined result (first error, total time)
+   */
+  private async undoEntries(entries: CommandHistoryEntry[]): Promise<CommandResult> {
+    let success = true;
+    let error: string | undefined;
+    let executionTime = 0;
+
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const entry = entries[i];
+      const definition = this.registry.get(entry.command);
+      if (!definition?.undo) {
+        continue;
+      }
+
+      // Execute undo handler
+      const startTime = performance.now();
+      let result: CommandResult;
+
+      try {
+        result = await definition.undo(entry.input, entry.context);
+        result.executionTime = performance.now() - startTime;
+      } catch (err) {
+        result = {
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+          executionTime: performance.now() - startTime,
+        };
+      }
+
+      executionTime += result.executionTime;
+      if (!result.success && success) {
+        success = false;
+        error = result.error;
+      }
+    }
+
+    return success ? { success, executionTime } : { success, error, executionTime };
+  }
+
+  /**
+   * Check if a history entry can be undone
+   */
+  private isUndoable(entry: CommandHistoryEntry): boolean {
+    if (!entry.result.success) {
+      return false;
+    }
+    const definition = this.registry.get(entry.command);
+    return Boolean(definition?.undoable && definition.undo);
+  }
+
+  /**
+   * Get the undoable history entries of a transaction, oldest first
+   */
+  private getTransactionEntries(id: number): CommandHistoryEntry[] {
+    return this.history.filter(entry => entry.transaction?.id === id && this.isUndoable(entry));
+  }
+
+  /**
+   * Throw if a transaction is open
+   */
+  private assertNoTransaction(operation: string): void {
+    if (this.transaction) {
+      throw new Error(`Cannot ${operation} while transaction '${this.transaction.name}' is open`);
+    }
+  }
+
   /**
    * Add entry to history
    */
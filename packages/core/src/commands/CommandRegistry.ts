@@ -8,9 +8,9 @@
  * - Command introspection
  */
 
-import type { EventBus } from '@miskatonic/events';
 import type {
   CommandDefinition,
+  CommandEventSink,
   CommandInfo,
 } from './types';
 
@@ -25,7 +25,7 @@ export class CommandRegistry {
   private aliases = new Map<string, string>(); // alias -> command name
   private categories = new Map<string, Set<string>>(); // category -> command names
 
-  constructor(private events?: EventBus) {}
+  constructor(private events?: CommandEventSink) {}
 
   /**
    * Register a command
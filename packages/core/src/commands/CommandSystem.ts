@@ -5,14 +5,21 @@
  * Provides a unified API for command registration and execution.
  */
 
-import type { EventBus } from '@miskatonic/events';
 import { CommandBus } from './CommandBus';
 import { CommandRegistry } from './CommandRegistry';
+import {
+  completeCommandArgument,
+  describeCommandArguments,
+  formatCommandUsage,
+} from './arguments';
 import type {
+  CommandArgumentInfo,
   CommandDefinition,
+  CommandEventSink,
   CommandExecutionOptions,
   CommandHistoryEntry,
   CommandInfo,
+  CommandMacro,
   CommandResult,
 } from './types';
 
@@ -26,7 +33,7 @@ export class CommandSystem {
   private registry: CommandRegistry;
   private bus: CommandBus;
 
-  constructor(events?: EventBus) {
+  constructor(events?: CommandEventSink) {
     this.registry = new CommandRegistry(events);
     this.bus = new CommandBus(this.registry, events);
   }
@@ -78,6 +85,20 @@ export class CommandSystem {
     return this.bus.execute<TInput, TOutput>(command, input, options);
   }
 
+  /**
+   * Execute a console line (e.g. `set 12 Transform.x 5 --world=preview`)
+   *
+   * @param line - Command name or alias followed by arguments
+   * @param options - Execution options
+   * @returns Command result (parse errors include the usage text)
+   */
+  async executeLine<TOutput = unknown>(
+    line: string,
+    options?: CommandExecutionOptions
+  ): Promise<CommandResult<TOutput>> {
+    return this.bus.executeLine<TOutput>(line, options);
+  }
+
   /**
    * Process queued commands
    *
@@ -117,6 +138,41 @@ export class CommandSystem {
     return this.registry.getAllInfo();
   }
 
+  /**
+   * Get a command's console arguments
+   *
+   * @param nameOrAlias - Command name or alias
+   * @returns Argument info or undefined if not found
+   */
+  getCommandArguments(nameOrAlias: string): CommandArgumentInfo[] | undefined {
+    const definition = this.registry.get(nameOrAlias);
+    return definition ? describeCommandArguments(definition) : undefined;
+  }
+
+  /**
+   * Get a command's generated usage text
+   *
+   * @param nameOrAlias - Command name or alias
+   * @returns Usage (e.g. `step [frames]`) or undefined if not found
+   */
+  getCommandUsage(nameOrAlias: string): string | undefined {
+    const definition = this.registry.get(nameOrAlias);
+    return definition ? formatCommandUsage(definition) : undefined;
+  }
+
+  /**
+   * Suggest console values for a command argument
+   *
+   * @param nameOrAlias - Command name or alias
+   * @param argument - Argument name
+   * @param prefix - Partially typed value
+   * @returns Matching values (empty if the command is not found)
+   */
+  completeArgument(nameOrAlias: string, argument: string, prefix: string): string[] {
+    const definition = this.registry.get(nameOrAlias);
+    return definition ? completeCommandArgument(definition, argument, prefix) : [];
+  }
+
   /**
    * List all registered commands
    *
@@ -171,6 +227,101 @@ export class CommandSystem {
     return this.bus.undo();
   }
 
+  /**
+   * Redo the last undone command (or transaction)
+   *
+   * @returns Command result or null if nothing to redo
+   */
+  async redo(): Promise<CommandResult | null> {
+    return this.bus.redo();
+  }
+
+  /**
+   * Check if there is anything to redo
+   */
+  canRedo(): boolean {
+    return this.bus.canRedo();
+  }
+
+  /**
+   * Open a transaction (commands until commit undo together)
+   *
+   * @param name - Transaction name
+   * @throws Error if a transaction is already open
+   */
+  beginTransaction(name: string): void {
+    this.bus.beginTransaction(name);
+  }
+
+  /**
+   * Close the open transaction, keeping its commands
+   */
+  commitTransaction(): void {
+    this.bus.commitTransaction();
+  }
+
+  /**
+   * Close the open transaction, undoing its commands
+   */
+  async rollbackTransaction(): Promise<CommandResult> {
+    return this.bus.rollbackTransaction();
+  }
+
+  /**
+   * Check if a transaction is open
+   */
+  isInTransaction(): boolean {
+    return this.bus.isInTransaction();
+  }
+
+  /**
+   * Run a function inside a transaction (rolled back if it throws)
+   *
+   * @param name - Transaction name
+   * @param fn - Executes the grouped commands
+   * @returns Value returned by fn
+   */
+  async runTransaction<T>(name: string, fn: () => T | Promise<T>): Promise<T> {
+    return this.bus.runTransaction(name, fn);
+  }
+
+  /**
+   * Start recording executed commands into a macro
+   *
+   * @param name - Macro name
+   */
+  startMacroRecording(name: string): void {
+    this.bus.startMacroRecording(name);
+  }
+
+  /**
+   * Stop recording and return the macro
+   */
+  stopMacroRecording(): CommandMacro {
+    return this.bus.stopMacroRecording();
+  }
+
+  /**
+   * Check if a macro is being recorded
+   */
+  isRecordingMacro(): boolean {
+    return this.bus.isRecordingMacro();
+  }
+
+  /**
+   * Play a macro as one transaction
+   *
+   * @param macro - Recorded macro
+   * @param options - Execution options for every step
+   * @returns Result whose output holds the step results
+   */
+  async playMacro(
+    macro: CommandMacro,
+    options?: CommandExecutionOptions
+  ): Promise<CommandResult<CommandResult[]>> {
+    return this.bus.playMacro(macro, options);
+  }
+
   /**
    * Set maximum history size
    *
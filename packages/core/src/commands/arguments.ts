@@ -0,0 +1,347 @@
+/**
+ * Console Argument Parsing
+ *
+ * Turns console input like `set 12 Transform.x 5 --world=preview` into
+ * command input, using the command's Zod object schema:
+ * - Positional arguments map to CommandDefinition.positional, in order
+ * - Every schema key is accepted as `--key value` or `--key=value`
+ * - Boolean flags take no value (`--verbose`, `--no-verbose`)
+ * - Array arguments collect repeated flags or the remaining positionals
+ * - Values are coerced to the schema type before validation
+ */
+
+import { z } from 'zod';
+import type {
+  CommandArgumentInfo,
+  CommandArgumentType,
+  CommandDefinition,
+} from './types';
+
+const TRUE_VALUES = ['true', '1', 'yes', 'on'];
+const FALSE_VALUES = ['false', '0', 'no', 'off'];
+
+/**
+ * Split a console line into tokens
+ *
+ * Whitespace separates tokens; single or double quotes group them and a
+ * backslash escapes the next character.
+ *
+ * @param line - Console input
+ * @throws Error on an unterminated quote
+ */
+export function tokenizeCommandLine(line: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '\\' && i + 1 < line.length) {
+      current += line[++i];
+      inToken = true;
+    } else if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote} quote`);
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
+
+/**
+ * Build command input from console tokens
+ *
+ * @param definition - Command definition
+ * @param tokens - Argument tokens (without the command name)
+ * @returns Input for CommandBus.execute (validated there)
+ * @throws Error on unknown options, missing values or arguments, or extra positionals
+ */
+export function parseCommandArguments(
+  definition: CommandDefinition,
+  tokens: string[]
+): Record<string, unknown> {
+  const shape = getShape(definition.schema);
+  const input: Record<string, unknown> = {};
+  const positionalValues: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token === '--') {
+      positionalValues.push(...tokens.slice(i + 1));
+      break;
+    }
+
+    if (!token.startsWith('--')) {
+      positionalValues.push(token);
+      continue;
+    }
+
+    const separator = token.indexOf('=');
+    const name = separator === -1 ? token.slice(2) : token.slice(2, separator);
+    let value = separator === -1 ? undefined : token.slice(separator + 1);
+    const field = shape[name];
+
+    if (!field) {
+      const negated = name.startsWith('no-') ? shape[name.slice(3)] : undefined;
+      if (negated && value === undefined && getArgumentType(negated) === 'boolean') {
+        input[name.slice(3)] = false;
+        continue;
+      }
+      throw new Error(`Unknown option '--${name}'`);
+    }
+
+    const type = getArgumentType(field);
+    if (value === undefined) {
+      if (type === 'boolean') {
+        input[name] = true;
+        continue;
+      }
+      if (i + 1 >= tokens.length) {
+        throw new Error(`Option '--${name}' requires a value`);
+      }
+      value = tokens[++i];
+    }
+
+    if (type === 'array') {
+      const values = Array.isArray(input[name]) ? (input[name] as unknown[]) : [];
+      values.push(coerceValue(value, getArrayElement(field)));
+      input[name] = values;
+    } else {
+      input[name] = coerceValue(value, field);
+    }
+  }
+
+  // Fill positional slots that were not given as flags
+  let index = 0;
+  for (const name of definition.positional ?? []) {
+    const field = shape[name];
+    if (index >= positionalValues.length || !field || name in input) {
+      continue;
+    }
+
+    if (getArgumentType(field) === 'array') {
+      const element = getArrayElement(field);
+      input[name] = positionalValues.slice(index).map(value => coerceValue(value, element));
+      index = positionalValues.length;
+    } else {
+      input[name] = coerceValue(positionalValues[index++], field);
+    }
+  }
+
+  if (index < positionalValues.length) {
+    throw new Error(`Unexpected argument '${positionalValues[index]}'`);
+  }
+
+  for (const [name, field] of Object.entries(shape)) {
+    if (!(name in input) && !field.isOptional()) {
+      throw new Error(`Missing argument '${name}'`);
+    }
+  }
+
+  return input;
+}
+
+/**
+ * Describe a command's console arguments
+ *
+ * Positional arguments come first (in positional order), then flag-only
+ * arguments in schema order.
+ *
+ * @param definition - Command definition
+ */
+export function describeCommandArguments(definition: CommandDefinition): CommandArgumentInfo[] {
+  const shape = getShape(definition.schema);
+  const positional = (definition.positional ?? []).filter(name => name in shape);
+  const names = [...positional, ...Object.keys(shape).filter(name => !positional.includes(name))];
+
+  return names.map(name => {
+    const field = shape[name];
+    const type = getArgumentType(field);
+    const position = positional.indexOf(name);
+    const info: CommandArgumentInfo = {
+      name,
+      type,
+      required: !field.isOptional(),
+    };
+
+    if (position !== -1) {
+      info.position = position;
+    }
+    if (type === 'enum') {
+      info.values = getEnumValues(field);
+    }
+    if (field.description) {
+      info.description = field.description;
+    }
+    return info;
+  });
+}
+
+/**
+ * Generate a one-line usage string
+ *
+ * @example
+ * ```
+ * set <entity> <path> <value> [--world <string>]
+ * ```
+ *
+ * @param definition - Command definition
+ */
+export function formatCommandUsage(definition: CommandDefinition): string {
+  const parts = [definition.name];
+
+  for (const argument of describeCommandArguments(definition)) {
+    const valueName = argument.values ? argument.values.join('|') : argument.type;
+    let part: string;
+
+    if (argument.position !== undefined) {
+      part = argument.type === 'array' ? `${argument.name}...` : argument.name;
+      parts.push(argument.required ? `<${part}>` : `[${part}]`);
+      continue;
+    }
+
+    part = argument.type === 'boolean' ? `--${argument.name}` : `--${argument.name} <${valueName}>`;
+    parts.push(argument.required ? part : `[${part}]`);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Suggest console values for an argument
+ *
+ * Uses the command's completion provider for the argument, falling back to
+ * enum values and true/false for booleans.
+ *
+ * @param definition - Command definition
+ * @param argument - Schema key
+ * @param prefix - Partially typed value
+ * @returns Matching values
+ */
+export function completeCommandArgument(
+  definition: CommandDefinition,
+  argument: string,
+  prefix: string
+): string[] {
+  const completer = definition.completions?.[argument];
+  const field = getShape(definition.schema)[argument];
+
+  let candidates: string[] = [];
+  if (completer) {
+    candidates = completer(prefix);
+  } else if (field && getArgumentType(field) === 'enum') {
+    candidates = getEnumValues(field);
+  } else if (field && getArgumentType(field) === 'boolean') {
+    candidates = ['true', 'false'];
+  }
+
+  return candidates.filter(candidate => candidate.startsWith(prefix));
+}
+
+/**
+ * Get the fields of an object schema (empty for other schemas)
+ */
+function getShape(schema: z.ZodTypeAny): Record<string, z.ZodTypeAny> {
+  const inner = unwrap(schema);
+  return inner instanceof z.ZodObject ? inner.shape : {};
+}
+
+/**
+ * Strip wrappers that don't change the console value type
+ */
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current = schema;
+  for (;;) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      current = current.removeDefault();
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else {
+      return current;
+    }
+  }
+}
+
+/**
+ * Get the console value type of a schema
+ */
+function getArgumentType(schema: z.ZodTypeAny): CommandArgumentType {
+  const inner = unwrap(schema);
+  if (inner instanceof z.ZodString) return 'string';
+  if (inner instanceof z.ZodNumber) return 'number';
+  if (inner instanceof z.ZodBoolean) return 'boolean';
+  if (inner instanceof z.ZodEnum) return 'enum';
+  if (inner instanceof z.ZodArray) return 'array';
+  return 'json';
+}
+
+/**
+ * Get the allowed values of an enum schema
+ */
+function getEnumValues(schema: z.ZodTypeAny): string[] {
+  const inner = unwrap(schema);
+  return inner instanceof z.ZodEnum ? [...(inner.options as string[])] : [];
+}
+
+/**
+ * Get the element schema of an array schema
+ */
+function getArrayElement(schema: z.ZodTypeAny): z.ZodTypeAny {
+  const inner = unwrap(schema);
+  return inner instanceof z.ZodArray ? inner.element : inner;
+}
+
+/**
+ * Coerce a console token to the schema type
+ *
+ * Tokens that don't convert are passed through so validation reports them.
+ */
+function coerceValue(value: string, schema: z.ZodTypeAny): unknown {
+  switch (getArgumentType(schema)) {
+    case 'number': {
+      const number = Number(value);
+      return value.trim() !== '' && !Number.isNaN(number) ? number : value;
+    }
+    case 'boolean': {
+      const lower = value.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return true;
+      if (FALSE_VALUES.includes(lower)) return false;
+      return value;
+    }
+    case 'json':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
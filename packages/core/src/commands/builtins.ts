@@ -6,10 +6,16 @@
  * - echo: Echo input back
  * - stats: Get engine statistics
  * - clear: Clear command history
+ * - schedule: Dump a world's system execution order
+ * - inspect: List entities or show an entity's components
+ * - set: Edit a component field
+ * - timescale: Slow down, speed up or freeze simulation time
+ * - step: Advance a paused engine by whole fixed ticks
  */
 
 import { z } from 'zod';
 import type { MiskatonicEngine } from '../MiskatonicEngine';
+import { SystemPhase } from '../GameLoop';
 import type { CommandDefinition } from './types';
 
 /**
@@ -19,6 +25,11 @@ import type { CommandDefinition } from './types';
  * @returns Array of built-in command definitions
  */
 export function createBuiltinCommands(engine: MiskatonicEngine): CommandDefinition<any, any>[] {
+  // Console completion providers
+  const worldNames = (): string[] => engine.getWorldNames();
+  const entityIds = (): string[] =>
+    engine.world.inspectEntities().map((entity) => String(entity.id));
+
   return [
     // help - List all commands
     {
@@ -28,6 +39,10 @@ export function createBuiltinCommands(engine: MiskatonicEngine): CommandDefiniti
       schema: z.object({
         command: z.string().optional(),
       }),
+      positional: ['command'],
+      completions: {
+        command: () => engine.commands.listCommands(),
+      },
       handler: (input: { command?: string }) => {
         const commands = engine.commands;
         if (!commands) {
@@ -57,6 +72,8 @@ export function createBuiltinCommands(engine: MiskatonicEngine): CommandDefiniti
               category: info.category || 'uncategorized',
               aliases: info.aliases,
               undoable: info.undoable,
+              usage: commands.getCommandUsage(info.name),
+              arguments: commands.getCommandArguments(info.name),
             },
             executionTime: 0,
           };
@@ -83,6 +100,7 @@ export function createBuiltinCommands(engine: MiskatonicEngine): CommandDefiniti
                 name: c.name,
                 description: c.description,
                 aliases: c.aliases,
+                usage: commands.getCommandUsage(c.name),
               })),
             })),
           },
@@ -100,6 +118,7 @@ export function createBuiltinCommands(engine: MiskatonicEngine): CommandDefiniti
       schema: z.object({
         message: z.string(),
       }),
+      positional: ['message'],
       handler: (input: { message: string }) => {
         return {
           success: true,
@@ -117,6 +136,7 @@ export function createBuiltinCommands(engine: MiskatonicEngine): CommandDefiniti
       schema: z.object({
         format: z.enum(['json', 'text']).optional().default('json'),
       }),
+      positional: ['format'],
       handler: (input: { format?: 'json' | 'text' }) => {
         try {
           const stats = engine.getStats();
@@ -212,9 +232,10 @@ export function createBuiltinCommands(engine: MiskatonicEngine): CommandDefiniti
       description: 'Get engine configuration',
       category: 'debug',
       schema: z.object({
-        section: z.enum(['physics', 'rendering', 'network', 'debug', 'performance']).optional(),
+        section: z.enum(['physics', 'rendering', 'network', 'debug', 'performance', 'headless', 'plugins', 'remote']).optional(),
       }),
-      handler: (input: { section?: 'physics' | 'rendering' | 'network' | 'debug' | 'performance' }) => {
+      positional: ['section'],
+      handler: (input: { section?: 'physics' | 'rendering' | 'network' | 'debug' | 'performance' | 'headless' | 'plugins' | 'remote' }) => {
         try {
           const config = engine.getConfig();
 
@@ -262,6 +283,188 @@ export function createBuiltinCommands(engine: MiskatonicEngine): CommandDefiniti
       },
     },
 
+    // schedule - Dump system execution order
+    {
+      name: 'schedule',
+      description: 'Show the system execution order and ordering conflicts for a world',
+      category: 'debug',
+      schema: z.object({
+        world: z.string().optional().default('main'),
+        format: z.enum(['json', 'text']).optional().default('json'),
+      }),
+      positional: ['world'],
+      completions: {
+        world: worldNames,
+      },
+      handler: (input: { world?: string; format?: 'json' | 'text' }) => {
+        const worldName = input.world ?? 'main';
+        const world = engine.getWorld(worldName);
+        if (!world) {
+          return {
+            success: false,
+            error: `World '${worldName}' not found`,
+            executionTime: 0,
+          };
+        }
+
+        const schedule = world.getSchedule();
+
+        if (input.format === 'text') {
+          const lines = schedule.systems.map((system, index) => {
+            const access = [
+              system.reads.length > 0 ? `reads ${system.reads.join(', ')}` : '',
+              system.writes.length > 0 ? `writes ${system.writes.join(', ')}` : '',
+              system.runsAfter.length > 0 ? `after ${system.runsAfter.join(', ')}` : '',
+            ].filter(Boolean);
+            return `${index + 1}. ${system.name} [${system.priority}]${access.length > 0 ? ` - ${access.join('; ')}` : ''}`;
+          });
+
+          for (const conflict of schedule.conflicts) {
+            lines.push(
+              `! ${conflict.kind} conflict: ${conflict.systems.join(' / ')} on ${conflict.components.join(', ')}`
+            );
+          }
+
+          return {
+            success: true,
+            output: lines.join('\n'),
+            executionTime: 0,
+          };
+        }
+
+        return {
+          success: true,
+          output: schedule,
+          executionTime: 0,
+        };
+      },
+    },
+
+    // inspect - List entities or show one entity's components
+    {
+      name: 'inspect',
+      description: 'List entities in a world, or show the components of one entity',
+      category: 'debug',
+      schema: z.object({
+        entity: z.coerce.number().int().optional(),
+        world: z.string().optional().default('main'),
+        format: z.enum(['json', 'text']).optional().default('json'),
+      }),
+      positional: ['entity'],
+      completions: {
+        entity: entityIds,
+        world: worldNames,
+      },
+      handler: (input: { entity?: number; world?: string; format?: 'json' | 'text' }) => {
+        const worldName = input.world ?? 'main';
+        const world = engine.getWorld(worldName);
+        if (!world) {
+          return {
+            success: false,
+            error: `World '${worldName}' not found`,
+            executionTime: 0,
+          };
+        }
+
+        if (input.entity === undefined) {
+          const entities = world.inspectEntities();
+
+          if (input.format === 'text') {
+            const lines = entities.map(
+              (entity) =>
+                `${entity.id}${entity.name ? ` "${entity.name}"` : ''} [${entity.archetype}]` +
+                (entity.parent !== undefined ? ` parent ${entity.parent}` : '')
+            );
+            return {
+              success: true,
+              output: lines.join('\n'),
+              executionTime: 0,
+            };
+          }
+
+          return {
+            success: true,
+            output: entities,
+            executionTime: 0,
+          };
+        }
+
+        const inspection = world.inspectEntity(input.entity);
+        if (!inspection) {
+          return {
+            success: false,
+            error: `Entity ${input.entity} not found in world '${worldName}'`,
+            executionTime: 0,
+          };
+        }
+
+        if (input.format === 'text') {
+          const lines = [`Entity ${inspection.id}${inspection.name ? ` "${inspection.name}"` : ''}`];
+          for (const component of inspection.components) {
+            lines.push(component.tag ? `  ${component.name} (tag)` : `  ${component.name}`);
+            for (const field of component.fields) {
+              lines.push(`    ${field.name}: ${field.value} (${field.type})`);
+            }
+          }
+          return {
+            success: true,
+            output: lines.join('\n'),
+            executionTime: 0,
+          };
+        }
+
+        return {
+          success: true,
+          output: inspection,
+          executionTime: 0,
+        };
+      },
+    },
+
+    // set - Edit a component field
+    {
+      name: 'set',
+      description: 'Set a component field on an entity (path: Component.field)',
+      category: 'debug',
+      schema: z.object({
+        entity: z.coerce.number().int(),
+        path: z.string(),
+        value: z.coerce.number(),
+        world: z.string().optional().default('main'),
+      }),
+      positional: ['entity', 'path', 'value'],
+      completions: {
+        entity: entityIds,
+        world: worldNames,
+      },
+      handler: (input: { entity: number; path: string; value: number; world?: string }) => {
+        const worldName = input.world ?? 'main';
+        const world = engine.getWorld(worldName);
+        if (!world) {
+          return {
+            success: false,
+            error: `World '${worldName}' not found`,
+            executionTime: 0,
+          };
+        }
+
+        try {
+          const previous = world.setComponentField(input.entity, input.path, input.value);
+          return {
+            success: true,
+            output: { entity: input.entity, path: input.path, previous, value: input.value },
+            executionTime: 0,
+          };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+            executionTime: 0,
+          };
+        }
+      },
+    },
+
     // pause - Pause the engine
     {
       name: 'pause',
@@ -325,5 +528,77 @@ export function createBuiltinCommands(engine: MiskatonicEngine): CommandDefiniti
         }
       },
     },
+
+    // timescale - Global, per-phase or per-system time scale
+    {
+      name: 'timescale',
+      description: 'Get or set the time scale (omit scale to clear a phase/system override)',
+      category: 'system',
+      aliases: ['ts'],
+      schema: z.object({
+        scale: z.coerce.number().min(0).optional(),
+        phase: z.enum(['PRE_UPDATE', 'UPDATE', 'POST_UPDATE', 'PHYSICS', 'RENDER']).optional(),
+        system: z.string().optional(),
+      }),
+      positional: ['scale'],
+      handler: (input: { scale?: number; phase?: keyof typeof SystemPhase; system?: string }) => {
+        try {
+          // Overrides report null once cleared
+          let output: Record<string, unknown>;
+          if (input.system !== undefined) {
+            engine.setSystemTimeScale(input.system, input.scale);
+            output = { system: input.system, timeScale: input.scale ?? null };
+          } else if (input.phase !== undefined) {
+            engine.setPhaseTimeScale(SystemPhase[input.phase], input.scale);
+            output = { phase: input.phase, timeScale: input.scale ?? null };
+          } else {
+            if (input.scale !== undefined) {
+              engine.setTimeScale(input.scale);
+            }
+            output = { timeScale: engine.getTimeScale() };
+          }
+
+          return {
+            success: true,
+            output,
+            executionTime: 0,
+          };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+            executionTime: 0,
+          };
+        }
+      },
+    },
+
+    // step - Advance a paused engine frame by frame
+    {
+      name: 'step',
+      description: 'Advance the paused engine by N fixed ticks',
+      category: 'system',
+      schema: z.object({
+        frames: z.coerce.number().int().min(1).optional().default(1),
+      }),
+      positional: ['frames'],
+      handler: (input: { frames?: number }) => {
+        const frames = input.frames ?? 1;
+        try {
+          engine.step(frames);
+          return {
+            success: true,
+            output: `Stepped ${frames} frame${frames === 1 ? '' : 's'}`,
+            executionTime: 0,
+          };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+            executionTime: 0,
+          };
+        }
+      },
+    },
   ];
 }
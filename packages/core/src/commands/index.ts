@@ -6,13 +6,28 @@ export { CommandRegistry } from './CommandRegistry';
 export { CommandBus } from './CommandBus';
 export { CommandSystem } from './CommandSystem';
 export { createBuiltinCommands } from './builtins';
+export {
+  tokenizeCommandLine,
+  parseCommandArguments,
+  describeCommandArguments,
+  formatCommandUsage,
+  completeCommandArgument,
+} from './arguments';
 export type {
   CommandContext,
   CommandResult,
   CommandHandler,
   CommandDefinition,
+  ArgumentCompleter,
+  CommandArgumentType,
+  CommandArgumentInfo,
   CommandInfo,
   CommandExecutionOptions,
   CommandHistoryEntry,
+  CommandTransactionInfo,
+  CommandMacroStep,
+  CommandMacro,
   CommandEvent,
+  CommandEventMap,
+  CommandEventSink,
 } from './types';
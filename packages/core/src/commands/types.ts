@@ -15,6 +15,7 @@
  */
 
 import type { z } from 'zod';
+import type { EventBus } from '@miskatonic/events';
 
 /**
  * Command context provided to handlers
@@ -76,6 +77,47 @@ export interface CommandDefinition<TInput = unknown, TOutput = unknown> {
   category?: string;
   /** Optional aliases */
   aliases?: string[];
+  /**
+   * Schema keys accepted as positional console arguments, in order
+   *
+   * Every schema key is also accepted as a --key flag.
+   */
+  positional?: string[];
+  /** Console completion providers for argument values, keyed by schema key */
+  completions?: Record<string, ArgumentCompleter>;
+}
+
+/**
+ * Suggests console values for a command argument
+ *
+ * @param prefix - Partially typed value
+ * @returns Candidate values (filtered by prefix by the caller)
+ */
+export type ArgumentCompleter = (prefix: string) => string[];
+
+/**
+ * Console argument value type, derived from the command schema
+ *
+ * 'json' covers objects and any other schema; the value is parsed as JSON.
+ */
+export type CommandArgumentType = 'string' | 'number' | 'boolean' | 'enum' | 'array' | 'json';
+
+/**
+ * Console argument description (for usage text and completion)
+ */
+export interface CommandArgumentInfo {
+  /** Schema key; also the --flag name */
+  name: string;
+  /** Value type */
+  type: CommandArgumentType;
+  /** Whether the schema requires a value */
+  required: boolean;
+  /** Index among positional arguments (undefined for flag-only arguments) */
+  position?: number;
+  /** Allowed values of enum arguments */
+  values?: string[];
+  /** Schema description (set with .describe()) */
+  description?: string;
 }
 
 /**
@@ -113,6 +155,40 @@ export interface CommandHistoryEntry<TInput = unknown, TOutput = unknown> {
   result: CommandResult<TOutput>;
   /** Execution context */
   context: CommandContext;
+  /** Transaction the command ran in (entries of one transaction undo together) */
+  transaction?: CommandTransactionInfo;
+}
+
+/**
+ * Identifies a command transaction
+ */
+export interface CommandTransactionInfo {
+  /** Unique per bus, so transactions with the same name stay separate */
+  id: number;
+  /** Transaction name */
+  name: string;
+}
+
+/**
+ * Single recorded command of a macro
+ */
+export interface CommandMacroStep {
+  /** Command name */
+  command: string;
+  /** Validated command input */
+  input: unknown;
+}
+
+/**
+ * Named sequence of commands recorded with CommandBus.startMacroRecording()
+ *
+ * Plain data, so macros can be stored as JSON and replayed later.
+ */
+export interface CommandMacro {
+  /** Macro name */
+  name: string;
+  /** Commands in execution order */
+  steps: CommandMacroStep[];
 }
 
 /**
@@ -148,3 +224,19 @@ export type CommandEvent =
       commandName: string;
       error: string;
     };
+
+/**
+ * Command events keyed by type (payload fields besides type and timestamp)
+ *
+ * Lets command events take part in typed EventBus maps.
+ */
+export type CommandEventMap = {
+  [E in CommandEvent as E['type']]: Omit<E, 'type' | 'timestamp'>;
+};
+
+/**
+ * Event bus the command system reports to
+ *
+ * Any EventBus whose event map includes CommandEventMap (e.g. the engine's).
+ */
+export type CommandEventSink = Pick<EventBus<CommandEventMap>, 'emit'>;
@@ -7,14 +7,22 @@
 
 export { MiskatonicEngine } from './MiskatonicEngine';
 export { GameLoop, SystemPhase } from './GameLoop';
-export type { PhaseSystem, FrameStats, GameLoopConfig } from './GameLoop';
+export type { PhaseSystem, FrameStats, GameLoopConfig, BudgetOverrun, LoopScheduler } from './GameLoop';
+export { FrameProfiler, TIMING_BUCKETS_MS } from './FrameProfiler';
+export type { SystemTiming, TraceEvent, FrameProfilerOptions } from './FrameProfiler';
 export * from './types';
 export * from './commands';
+export * from './plugins';
+export * from './remote';
 
 // Components
 export { PhysicsBody } from './components/PhysicsBody';
 export type { PhysicsBodyType } from './components/PhysicsBody';
 
+// Loaders
+export { PrefabLoader, PREFAB_RESOURCE_TYPE } from './loaders/PrefabLoader';
+export type { PrefabTextReader } from './loaders/PrefabLoader';
+
 // Systems
 export { PhysicsSyncSystem } from './systems/PhysicsSyncSystem';
 export type { IPhysicsAdapter, Vector3, Quaternion } from './systems/IPhysicsAdapter';
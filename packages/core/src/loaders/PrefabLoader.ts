@@ -0,0 +1,70 @@
+/**
+ * PrefabLoader - ResourceManager loader for prefab JSON files
+ *
+ * Parses PrefabDefinition JSON and reports nested prefabs as dependencies.
+ * The engine registers loaded prefabs with its PrefabManager and re-registers
+ * them on hot reload, which propagates edits to live instances.
+ */
+
+import type { Resource, ResourceId, ResourceLoader } from '@miskatonic/resources';
+import type { PrefabDefinition } from '@miskatonic/ecs';
+
+/**
+ * Resource type used for prefabs
+ */
+export const PREFAB_RESOURCE_TYPE = 'prefab';
+
+/**
+ * Reads the raw text of a resource (fetch in the renderer, fs in Node)
+ */
+export type PrefabTextReader = (id: ResourceId) => Promise<string>;
+
+/**
+ * Default reader - fetches the resource ID as a URL
+ */
+async function fetchText(id: ResourceId): Promise<string> {
+  const response = await fetch(id);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} fetching ${id}`);
+  }
+  return response.text();
+}
+
+/**
+ * Loader for 'prefab' resources
+ */
+export class PrefabLoader implements ResourceLoader<PrefabDefinition> {
+  readonly type = PREFAB_RESOURCE_TYPE;
+  private readText: PrefabTextReader;
+
+  /**
+   * @param readText - Source of prefab JSON (defaults to fetch)
+   */
+  constructor(readText: PrefabTextReader = fetchText) {
+    this.readText = readText;
+  }
+
+  /**
+   * Load and parse a prefab
+   */
+  async load(id: ResourceId): Promise<Resource<PrefabDefinition>> {
+    const text = await this.readText(id);
+    const data = JSON.parse(text) as PrefabDefinition;
+
+    if (!data || !Array.isArray(data.entities)) {
+      throw new Error(`Prefab ${id} is missing an entities array`);
+    }
+
+    const dependencies = [
+      ...new Set(data.entities.flatMap((entity) => (entity.prefab !== undefined ? [entity.prefab] : []))),
+    ];
+
+    return {
+      id,
+      type: PREFAB_RESOURCE_TYPE,
+      data,
+      size: text.length,
+      metadata: { dependencies },
+    };
+  }
+}
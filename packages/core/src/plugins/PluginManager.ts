@@ -0,0 +1,177 @@
+/**
+ * Plugin Manager
+ *
+ * Installs engine plugins in dependency order and forwards lifecycle hooks.
+ */
+
+import type { MiskatonicEngine } from '../MiskatonicEngine';
+import type { Plugin, PluginContext } from './types';
+
+/**
+ * Plugin Manager - owned by MiskatonicEngine (use engine.use())
+ *
+ * Plugins are registered before engine.initialize() and installed during it,
+ * dependencies first. Hooks run in install order, except onShutdown, which
+ * runs in reverse so a plugin shuts down before the plugins it depends on.
+ */
+export class PluginManager {
+  private plugins: Map<string, Plugin> = new Map();
+  private installed: Plugin[] = [];
+
+  constructor(private engine: MiskatonicEngine) {}
+
+  /**
+   * Register a plugin for installation
+   *
+   * @throws Error if a plugin with the same name is already registered
+   */
+  register(plugin: Plugin): void {
+    if (this.plugins.has(plugin.name)) {
+      throw new Error(`Plugin '${plugin.name}' is already registered`);
+    }
+    this.plugins.set(plugin.name, plugin);
+  }
+
+  /**
+   * Check if a plugin is registered
+   */
+  has(name: string): boolean {
+    return this.plugins.has(name);
+  }
+
+  /**
+   * Get a registered plugin by name
+   */
+  get(name: string): Plugin | undefined {
+    return this.plugins.get(name);
+  }
+
+  /**
+   * Get installed plugin names in install order
+   */
+  getInstalled(): string[] {
+    return this.installed.map((plugin) => plugin.name);
+  }
+
+  /**
+   * Install all registered plugins, dependencies first
+   *
+   * @param configs - Config sections keyed by plugin name (EngineConfig.plugins)
+   * @param onInstalled - Called after each plugin is installed
+   * @throws Error on missing dependencies, dependency cycles or invalid config
+   */
+  async installAll(configs: Record<string, unknown>, onInstalled?: (plugin: Plugin) => void): Promise<void> {
+    for (const plugin of this.resolveOrder()) {
+      const config = this.parseConfig(plugin, configs[plugin.name]);
+      await plugin.install(this.createContext(config));
+      this.installed.push(plugin);
+      onInstalled?.(plugin);
+    }
+  }
+
+  /**
+   * Call onStart on every installed plugin
+   */
+  start(): void {
+    for (const plugin of this.installed) {
+      plugin.onStart?.(this.engine);
+    }
+  }
+
+  /**
+   * Call onPause on every installed plugin
+   */
+  pause(): void {
+    for (const plugin of this.installed) {
+      plugin.onPause?.(this.engine);
+    }
+  }
+
+  /**
+   * Call onShutdown on every installed plugin (reverse install order)
+   */
+  async shutdown(): Promise<void> {
+    for (let i = this.installed.length - 1; i >= 0; i--) {
+      await this.installed[i].onShutdown?.(this.engine);
+    }
+    this.installed = [];
+  }
+
+  /**
+   * Order plugins so every plugin follows its dependencies
+   */
+  private resolveOrder(): Plugin[] {
+    const ordered: Plugin[] = [];
+    const visited = new Set<string>();
+    const visiting: string[] = [];
+
+    const visit = (plugin: Plugin): void => {
+      if (visited.has(plugin.name)) {
+        return;
+      }
+      if (visiting.includes(plugin.name)) {
+        const cycle = [...visiting.slice(visiting.indexOf(plugin.name)), plugin.name];
+        throw new Error(`Plugin dependency cycle: ${cycle.join(' -> ')}`);
+      }
+
+      visiting.push(plugin.name);
+      for (const dependency of plugin.dependencies ?? []) {
+        const required = this.plugins.get(dependency);
+        if (!required) {
+          throw new Error(`Plugin '${plugin.name}' depends on '${dependency}', which is not registered`);
+        }
+        visit(required);
+      }
+      visiting.pop();
+
+      visited.add(plugin.name);
+      ordered.push(plugin);
+    };
+
+    for (const plugin of this.plugins.values()) {
+      visit(plugin);
+    }
+    return ordered;
+  }
+
+  /**
+   * Validate a plugin's config section against its schema
+   */
+  private parseConfig(plugin: Plugin, config: unknown): unknown {
+    if (!plugin.configSchema) {
+      return config;
+    }
+
+    const result = plugin.configSchema.safeParse(config);
+    if (!result.success) {
+      const errorMessage = result.error.errors
+        .map(e => `${e.path.join('.')}: ${e.message}`)
+        .join('; ');
+      throw new Error(`Invalid config for plugin '${plugin.name}': ${errorMessage}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Create the registration API for one plugin
+   */
+  private createContext(config: unknown): PluginContext {
+    const engine = this.engine;
+    return {
+      engine,
+      config,
+      registerSystem: (system) => engine.registerSystem(system),
+      registerWorldSystem: (system, worldName) => engine.registerWorldSystem(system, worldName),
+      registerComponent: (type, fields) => {
+        const registry = engine.world.getComponentRegistry();
+        if (fields) {
+          registry.register(type, fields);
+        } else {
+          registry.autoRegister(type);
+        }
+      },
+      registerCommand: (definition) => engine.commands.register(definition),
+      registerLoader: (loader) => engine.resources.registerLoader(loader),
+    };
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Plugin System Exports
+ */
+
+export { PluginManager } from './PluginManager';
+export type { Plugin, PluginContext, PluginConfigMap, PluginConfigs } from './types';
@@ -0,0 +1,116 @@
+/**
+ * Plugin System Types
+ *
+ * Plugins package third-party features for the engine:
+ * - Systems, components, commands and resource loaders registered in one place
+ * - Dependencies on other plugins (installed first)
+ * - A config section in EngineConfig.plugins, validated with a Zod schema
+ * - Lifecycle hooks for start, pause and shutdown
+ */
+
+import type { z } from 'zod';
+import type { Component, ComponentType, FieldDescriptor, System as WorldSystem } from '@miskatonic/ecs';
+import type { ResourceLoader } from '@miskatonic/resources';
+import type { MiskatonicEngine } from '../MiskatonicEngine';
+import type { PhaseSystem } from '../GameLoop';
+import type { SystemRegistration } from '../types';
+import type { CommandDefinition } from '../commands/types';
+
+/**
+ * Plugin config sections, keyed by plugin name
+ *
+ * Augment this interface so `EngineConfig.plugins` is typed for your plugin:
+ *
+ * @example
+ * ```typescript
+ * declare module '@miskatonic/core' {
+ *   interface PluginConfigMap {
+ *     'weather': { rainChance: number };
+ *   }
+ * }
+ * ```
+ */
+export interface PluginConfigMap {
+  /** Sections of plugins that don't augment this interface */
+  [name: string]: unknown;
+}
+
+/**
+ * Config sections for all plugins (EngineConfig.plugins)
+ */
+export type PluginConfigs = { [K in keyof PluginConfigMap]?: PluginConfigMap[K] };
+
+/**
+ * Registration API handed to Plugin.install()
+ */
+export interface PluginContext<TConfig = unknown> {
+  /** The engine being extended */
+  engine: MiskatonicEngine;
+
+  /** Validated config section (EngineConfig.plugins[name]) */
+  config: TConfig;
+
+  /** Register a game loop system (see MiskatonicEngine.registerSystem) */
+  registerSystem(system: SystemRegistration | PhaseSystem): void;
+
+  /** Register an ECS system on a world (default: main world) */
+  registerWorldSystem(system: WorldSystem, worldName?: string): void;
+
+  /**
+   * Register a component type with the main world's registry
+   *
+   * @param fields - Field descriptors; omitted to infer them from a default instance
+   */
+  registerComponent<T extends Component>(type: ComponentType<T>, fields?: FieldDescriptor[]): void;
+
+  /** Register a console/scripting command */
+  registerCommand(definition: CommandDefinition): void;
+
+  /** Register a resource loader */
+  registerLoader(loader: ResourceLoader): void;
+}
+
+/**
+ * Engine plugin
+ *
+ * @example
+ * ```typescript
+ * const weatherPlugin: Plugin<{ rainChance: number }> = {
+ *   name: 'weather',
+ *   dependencies: ['particles'],
+ *   configSchema: z.object({ rainChance: z.number().min(0).max(1).default(0.1) }),
+ *   install({ config, registerSystem }) {
+ *     registerSystem({ name: 'weather', phase: SystemPhase.UPDATE, update: (dt) => weather.update(dt, config) });
+ *   },
+ *   onShutdown: () => weather.dispose(),
+ * };
+ *
+ * engine.use(weatherPlugin);
+ * await engine.initialize();
+ * ```
+ */
+export interface Plugin<TConfig = unknown> {
+  /** Unique plugin name (also its key in EngineConfig.plugins) */
+  name: string;
+
+  /** Plugin version (informational) */
+  version?: string;
+
+  /** Names of plugins that must be installed first */
+  dependencies?: string[];
+
+  /** Schema for the plugin's config section; parses `undefined` when the section is absent */
+  configSchema?: z.ZodType<TConfig, z.ZodTypeDef, unknown>;
+
+  /** Register systems, components, commands and loaders (called during engine.initialize()) */
+  install(context: PluginContext<TConfig>): void | Promise<void>;
+
+  /** Called when the engine starts or resumes */
+  onStart?(engine: MiskatonicEngine): void;
+
+  /** Called when the engine stops or pauses */
+  onPause?(engine: MiskatonicEngine): void;
+
+  /** Called during engine shutdown, in reverse install order */
+  onShutdown?(engine: MiskatonicEngine): void | Promise<void>;
+}
@@ -0,0 +1,242 @@
+/**
+ * Remote Command Host
+ *
+ * Serves the remote command protocol for a CommandSystem, independent of
+ * the transport (RemoteCommandServer provides WebSocket and HTTP).
+ */
+
+import type { EventSubscription } from '@miskatonic/events';
+import type { CommandSystem } from '../commands/CommandSystem';
+import type { CommandEvent, CommandExecutionOptions, CommandResult } from '../commands/types';
+import { RemoteRequestSchema } from './types';
+import type {
+  RemoteClient,
+  RemoteCommandInfo,
+  RemoteLogLevel,
+  RemoteRequest,
+  RemoteServerMessage,
+} from './types';
+
+/**
+ * Event bus the host streams command events from
+ *
+ * Any EventBus whose event map includes CommandEventMap (e.g. the engine's).
+ */
+export interface CommandEventSource {
+  on(pattern: 'command:*', handler: (event: CommandEvent) => void): EventSubscription;
+}
+
+/**
+ * Remote command host options
+ */
+export interface RemoteCommandHostOptions {
+  /** Stream console.log/info/warn/error/debug output to clients (default: true) */
+  captureConsole?: boolean;
+}
+
+const CONSOLE_LEVELS: Record<'log' | 'info' | 'warn' | 'error' | 'debug', RemoteLogLevel> = {
+  log: 'info',
+  info: 'info',
+  warn: 'warn',
+  error: 'error',
+  debug: 'debug',
+};
+
+/**
+ * Remote Command Host
+ *
+ * Executes requests from remote clients on the command system and streams
+ * command events and log output to every connected client. Commands run
+ * with `userId: 'remote:<client>'` and `metadata.source: 'remote'`.
+ *
+ * @example
+ * ```typescript
+ * const host = new RemoteCommandHost(engine.commands, engine.events);
+ * host.start();
+ * const client = host.connect((message) => socket.send(JSON.stringify(message)));
+ * socket.on('message', (data) => client.receive(JSON.parse(data)));
+ * ```
+ */
+export class RemoteCommandHost {
+  private clients = new Map<number, (message: RemoteServerMessage) => void>();
+  private nextClientId = 1;
+  private subscription: EventSubscription | null = null;
+  private originalConsole: Partial<Record<keyof typeof CONSOLE_LEVELS, (...args: unknown[]) => void>> | null = null;
+  private readonly captureConsole: boolean;
+
+  constructor(
+    private commands: CommandSystem,
+    private events?: CommandEventSource,
+    options: RemoteCommandHostOptions = {}
+  ) {
+    this.captureConsole = options.captureConsole ?? true;
+  }
+
+  /**
+   * Start streaming command events and console output
+   */
+  start(): void {
+    if (this.subscription || this.originalConsole) {
+      return;
+    }
+
+    this.subscription = this.events?.on('command:*', (event) => {
+      this.broadcast({ type: 'event', event });
+    }) ?? null;
+
+    if (this.captureConsole) {
+      this.originalConsole = {};
+      for (const method of Object.keys(CONSOLE_LEVELS) as Array<keyof typeof CONSOLE_LEVELS>) {
+        const original = console[method];
+        this.originalConsole[method] = original;
+        console[method] = (...args: unknown[]) => {
+          original.apply(console, args);
+          this.log(CONSOLE_LEVELS[method], args.map(formatLogArg).join(' '));
+        };
+      }
+    }
+  }
+
+  /**
+   * Stop streaming, restore the console and disconnect all clients
+   */
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+
+    if (this.originalConsole) {
+      for (const [method, original] of Object.entries(this.originalConsole)) {
+        console[method as keyof typeof CONSOLE_LEVELS] = original;
+      }
+      this.originalConsole = null;
+    }
+
+    this.clients.clear();
+  }
+
+  /**
+   * Connect a client
+   *
+   * @param send - Delivers a message to the client
+   * @returns Handle the transport forwards client messages to
+   */
+  connect(send: (message: RemoteServerMessage) => void): RemoteClient {
+    const clientId = this.nextClientId++;
+    this.clients.set(clientId, send);
+
+    return {
+      receive: async (message) => {
+        const response = await this.request(message, clientId);
+        // The client may have disconnected while the command ran
+        if (this.clients.has(clientId)) {
+          send(response);
+        }
+      },
+      close: () => {
+        this.clients.delete(clientId);
+      },
+    };
+  }
+
+  /**
+   * Handle a single request without a connection (e.g. an HTTP call)
+   *
+   * @param message - Parsed JSON request
+   * @param clientId - Client the command runs for (0 for connectionless requests)
+   * @returns `result` message, or `error` for malformed requests
+   */
+  async request(message: unknown, clientId = 0): Promise<RemoteServerMessage> {
+    const parsed = RemoteRequestSchema.safeParse(message);
+    if (!parsed.success) {
+      const errorMessage = parsed.error.errors
+        .map(e => `${e.path.join('.')}: ${e.message}`)
+        .join('; ');
+      const id = (message as { id?: unknown } | null)?.id;
+
+      return {
+        type: 'error',
+        ...((typeof id === 'string' || typeof id === 'number') && { id }),
+        error: `Invalid request: ${errorMessage}`,
+      };
+    }
+
+    return {
+      type: 'result',
+      id: parsed.data.id,
+      result: await this.execute(parsed.data, clientId),
+    };
+  }
+
+  /**
+   * Send a log line to every client
+   */
+  log(level: RemoteLogLevel, message: string): void {
+    this.broadcast({ type: 'log', level, message, timestamp: Date.now() });
+  }
+
+  /**
+   * Get the number of connected clients
+   */
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Run a validated request on the command system
+   */
+  private async execute(request: RemoteRequest, clientId: number): Promise<CommandResult> {
+    const options: CommandExecutionOptions = {
+      userId: `remote:${clientId}`,
+      metadata: { source: 'remote' },
+    };
+
+    if (request.type === 'execute') {
+      return this.commands.execute(request.command, request.input ?? {}, options);
+    }
+
+    if (request.type === 'execute-line') {
+      return this.commands.executeLine(request.line, options);
+    }
+
+    const commands: RemoteCommandInfo[] = this.commands.getAllCommandInfo().map(info => ({
+      ...info,
+      usage: this.commands.getCommandUsage(info.name) ?? info.name,
+    }));
+
+    return {
+      success: true,
+      output: commands,
+      executionTime: 0,
+    };
+  }
+
+  /**
+   * Send a message to every client
+   */
+  private broadcast(message: RemoteServerMessage): void {
+    for (const send of this.clients.values()) {
+      try {
+        send(message);
+      } catch {
+        // A failing client must not break the others (or the logging caller)
+      }
+    }
+  }
+}
+
+/**
+ * Format a console argument for a log line
+ */
+function formatLogArg(arg: unknown): string {
+  if (typeof arg === 'string') {
+    return arg;
+  }
+  if (arg instanceof Error) {
+    return arg.stack ?? arg.message;
+  }
+  try {
+    return JSON.stringify(arg) ?? String(arg);
+  } catch {
+    return String(arg);
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Remote Command Server
+ *
+ * Local WebSocket/HTTP endpoint for a RemoteCommandHost (Node only).
+ *
+ * Endpoints:
+ * - `GET /commands` - registered commands with usage text
+ * - `POST /execute` - body `{ "command": "...", "input": {...} }` or `{ "line": "..." }`
+ * - `/ws` - WebSocket speaking the remote command protocol, with streamed
+ *   command events and log output
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { Duplex } from 'stream';
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+import type { RemoteCommandHost } from './RemoteCommandHost';
+
+/**
+ * Remote command server options
+ */
+export interface RemoteCommandServerOptions {
+  /** Port to listen on; 0 picks a free port (default: 7341) */
+  port?: number;
+  /** Loopback address to bind (default: '127.0.0.1') */
+  host?: string;
+  /** Require this token as `Authorization: Bearer <token>` or `?token=` */
+  token?: string;
+  /** Browser origins allowed to connect (requests from other pages are rejected) */
+  allowedOrigins?: string[];
+  /** Maximum request body / WebSocket message size in bytes (default: 1MB) */
+  maxMessageSize?: number;
+}
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+/**
+ * Remote Command Server
+ *
+ * Only binds to loopback addresses. Requests are rejected when their Host
+ * header isn't a loopback name (DNS rebinding), when they come from a
+ * browser page whose origin isn't allowed, or when the token doesn't match.
+ */
+export class RemoteCommandServer {
+  private server: Server | null = null;
+  private sockets: WebSocketServer | null = null;
+  private port: number | null = null;
+  private readonly options: Required<Omit<RemoteCommandServerOptions, 'token'>> & { token?: string };
+
+  /**
+   * @param host - Host that executes requests
+   * @param options - Server options
+   * @throws Error if options.host is not a loopback address
+   */
+  constructor(private host: RemoteCommandHost, options: RemoteCommandServerOptions = {}) {
+    this.options = {
+      port: options.port ?? 7341,
+      host: options.host ?? '127.0.0.1',
+      token: options.token,
+      allowedOrigins: options.allowedOrigins ?? [],
+      maxMessageSize: options.maxMessageSize ?? 1024 * 1024,
+    };
+
+    if (!LOOPBACK_HOSTS.includes(this.options.host)) {
+      throw new Error(`Remote command server must bind to a loopback address (got '${this.options.host}')`);
+    }
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns Bound port
+   * @throws Error if the server is already running or the port is unavailable
+   */
+  async start(): Promise<number> {
+    if (this.server) {
+      throw new Error('Remote command server is already running');
+    }
+
+    const server = createServer((req, res) => {
+      this.handleHttp(req, res).catch((error) => {
+        this.sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+    const sockets = new WebSocketServer({ noServer: true, maxPayload: this.options.maxMessageSize });
+    server.on('upgrade', (req, socket, head) => this.handleUpgrade(req, socket, head));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.sockets = sockets;
+    this.port = (server.address() as AddressInfo).port;
+    return this.port;
+  }
+
+  /**
+   * Close all connections and stop listening
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    for (const socket of this.sockets!.clients) {
+      socket.terminate();
+    }
+    this.sockets!.close();
+    server.closeAllConnections();
+
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+
+    this.server = null;
+    this.sockets = null;
+    this.port = null;
+  }
+
+  /**
+   * Get the bound port (null when not running)
+   */
+  getPort(): number | null {
+    return this.port;
+  }
+
+  /**
+   * Get the server URL (null when not running)
+   */
+  getUrl(): string | null {
+    if (this.port === null) {
+      return null;
+    }
+    const host = this.options.host === '::1' ? '[::1]' : this.options.host;
+    return `http://${host}:${this.port}`;
+  }
+
+  /**
+   * Serve an HTTP request
+   */
+  private async handleHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const denied = this.authorize(req, url);
+    if (denied) {
+      this.sendJson(res, denied.status, { error: denied.error });
+      return;
+    }
+
+    if (url.pathname === '/commands') {
+      if (req.method !== 'GET') {
+        this.sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      const response = await this.host.request({ type: 'list-commands', id: 0 });
+      this.sendJson(res, 200, response.type === 'result' ? response.result : response);
+      return;
+    }
+
+    if (url.pathname === '/execute') {
+      if (req.method !== 'POST') {
+        this.sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+
+      let body: { command?: unknown; input?: unknown; line?: unknown };
+      try {
+        body = JSON.parse(await this.readBody(req));
+      } catch (error) {
+        const tooLarge = error instanceof Error && error.message === 'Request body too large';
+        this.sendJson(res, tooLarge ? 413 : 400, { error: tooLarge ? error.message : 'Invalid JSON body' });
+        return;
+      }
+
+      const request = body !== null && typeof body === 'object' && 'line' in body
+        ? { type: 'execute-line', id: 0, line: body.line }
+        : { type: 'execute', id: 0, command: body?.command, input: body?.input };
+
+      const response = await this.host.request(request);
+      if (response.type === 'error') {
+        this.sendJson(res, 400, { error: response.error });
+      } else if (response.type === 'result') {
+        this.sendJson(res, 200, response.result);
+      }
+      return;
+    }
+
+    this.sendJson(res, 404, { error: 'Not found' });
+  }
+
+  /**
+   * Accept WebSocket connections on /ws
+   */
+  private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const denied = url.pathname === '/ws'
+      ? this.authorize(req, url)
+      : { status: 404, error: 'Not found' };
+
+    if (denied || !this.sockets) {
+      const status = denied?.status ?? 503;
+      socket.end(`HTTP/1.1 ${status} ${denied?.error ?? 'Service Unavailable'}\r\nConnection: close\r\n\r\n`);
+      return;
+    }
+
+    this.sockets.handleUpgrade(req, socket, head, (ws) => this.handleConnection(ws));
+  }
+
+  /**
+   * Bridge a WebSocket to a host client
+   */
+  private handleConnection(ws: WebSocket): void {
+    const client = this.host.connect((message) => {
+      if (ws.readyState === ws.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    });
+
+    ws.on('message', (data) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        ws.send(JSON.stringify({ type: 'error', error: 'Invalid JSON' }));
+        return;
+      }
+      void client.receive(message);
+    });
+
+    ws.on('close', () => client.close());
+  }
+
+  /**
+   * Check host, origin and token
+   *
+   * @returns Rejection, or null if the request is allowed
+   */
+  private authorize(req: IncomingMessage, url: URL): { status: number; error: string } | null {
+    // Reject DNS rebinding: the Host header must name a loopback address
+    const hostHeader = req.headers.host ?? '';
+    const hostname = hostHeader.startsWith('[')
+      ? hostHeader.slice(1, hostHeader.indexOf(']'))
+      : hostHeader.split(':')[0];
+    if (!LOOPBACK_HOSTS.includes(hostname)) {
+      return { status: 403, error: 'Forbidden host' };
+    }
+
+    // Browsers send Origin; tools and test scripts usually don't
+    const origin = req.headers.origin;
+    if (origin !== undefined && !this.options.allowedOrigins.includes(origin)) {
+      return { status: 403, error: 'Forbidden origin' };
+    }
+
+    if (this.options.token !== undefined) {
+      const header = req.headers.authorization;
+      const token = header?.startsWith('Bearer ') ? header.slice(7) : url.searchParams.get('token');
+      if (token !== this.options.token) {
+        return { status: 401, error: 'Unauthorized' };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Read a request body up to the size limit
+   */
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.options.maxMessageSize) {
+          reject(new Error('Request body too large'));
+          // Drain the rest so the 413 response can still be sent
+          req.removeAllListeners('data');
+          req.resume();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  /**
+   * Send a JSON response
+   */
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
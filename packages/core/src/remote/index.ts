@@ -0,0 +1,18 @@
+/**
+ * Remote Command Exports
+ *
+ * RemoteCommandServer needs Node ('http', 'ws') and is not exported here so
+ * browser builds don't pull it in; the engine loads it when remote.enabled.
+ */
+
+export { RemoteCommandHost } from './RemoteCommandHost';
+export type { RemoteCommandHostOptions, CommandEventSource } from './RemoteCommandHost';
+export type { RemoteCommandServer, RemoteCommandServerOptions } from './RemoteCommandServer';
+export { RemoteRequestSchema } from './types';
+export type {
+  RemoteRequest,
+  RemoteLogLevel,
+  RemoteCommandInfo,
+  RemoteServerMessage,
+  RemoteClient,
+} from './types';
@@ -0,0 +1,91 @@
+/**
+ * Remote Command Protocol
+ *
+ * JSON messages exchanged between external tools (test scripts, debug UIs)
+ * and a RemoteCommandHost. Over WebSocket every request gets a `result` or
+ * `error` message with the same id, and command events and log output are
+ * streamed to every client as they happen.
+ */
+
+import { z } from 'zod';
+import type { CommandEvent, CommandInfo, CommandResult } from '../commands/types';
+
+const RequestIdSchema = z.union([z.string(), z.number()]);
+
+/**
+ * Request from a remote client
+ */
+export const RemoteRequestSchema = z.discriminatedUnion('type', [
+  /** Execute a command with structured input */
+  z.object({
+    type: z.literal('execute'),
+    id: RequestIdSchema,
+    command: z.string().min(1),
+    input: z.unknown().optional(),
+  }),
+  /** Execute a console line (parsed like the debug console) */
+  z.object({
+    type: z.literal('execute-line'),
+    id: RequestIdSchema,
+    line: z.string(),
+  }),
+  /** List registered commands with usage text */
+  z.object({
+    type: z.literal('list-commands'),
+    id: RequestIdSchema,
+  }),
+]);
+
+export type RemoteRequest = z.infer<typeof RemoteRequestSchema>;
+
+/**
+ * Log level of streamed console output
+ */
+export type RemoteLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Command info as returned by 'list-commands'
+ */
+export interface RemoteCommandInfo extends CommandInfo {
+  /** Generated usage text (see CommandSystem.getCommandUsage) */
+  usage: string;
+}
+
+/**
+ * Message sent to remote clients
+ */
+export type RemoteServerMessage =
+  | {
+      /** Response to a request */
+      type: 'result';
+      id: string | number;
+      result: CommandResult;
+    }
+  | {
+      /** Malformed request (id is set when it could be read) */
+      type: 'error';
+      id?: string | number;
+      error: string;
+    }
+  | {
+      /** Command lifecycle event */
+      type: 'event';
+      event: CommandEvent;
+    }
+  | {
+      /** Console output */
+      type: 'log';
+      level: RemoteLogLevel;
+      message: string;
+      timestamp: number;
+    };
+
+/**
+ * A connected client, as seen by the transport
+ */
+export interface RemoteClient {
+  /** Handle a message from the client (responses go to its send function) */
+  receive(message: unknown): Promise<void>;
+  /** Disconnect: stop streaming to the client */
+  close(): void;
+}
@@ -2,6 +2,11 @@
  * Core engine types and configuration interfaces
  */
 
+import type { NoPayload } from '@miskatonic/events';
+import type { CommandEventMap } from './commands/types';
+import type { SystemPhase } from './GameLoop';
+import type { PluginConfigs } from './plugins/types';
+
 /**
  * Engine lifecycle states
  */
@@ -26,8 +31,13 @@ export enum EngineState {
  * Physics engine configuration
  */
 export interface PhysicsConfig {
-  /** Physics engine backend to use (default: 'rapier') */
-  backend?: 'rapier' | 'cannon' | 'box2d';
+  /**
+   * Physics engine backend to use (default: 'rapier')
+   *
+   * Built in: 'rapier', 'cannon' (cannon-es, no WASM) and 'mock'. Other names
+   * must be registered on physicsBackends from @miskatonic/physics.
+   */
+  backend?: string;
   /** Gravity vector (default: [0, -9.81, 0]) */
   gravity?: [number, number, number];
   /** Fixed timestep for physics simulation in seconds (default: 1/60) */
@@ -100,10 +110,41 @@ export interface PerformanceConfig {
   memoryBudgetMB?: number;
   /** GC pause budget in milliseconds (default: 5ms) */
   gcPauseBudgetMS?: number;
-  /** Warn when frame time exceeds budget (default: true) */
+  /** Warn when a system exceeds its budget (default: true) */
   warnOnBudgetExceed?: boolean;
 }
 
+/**
+ * Headless configuration (dedicated servers, CI, batch simulation)
+ */
+export interface HeadlessConfig {
+  /** Run without rendering: RENDER phase systems and render callbacks are skipped (default: false) */
+  enabled?: boolean;
+  /** How frames are driven: 'timer' (setTimeout at targetFPS) or 'manual' (engine.advance()) (default: 'timer') */
+  loop?: 'timer' | 'manual';
+}
+
+/**
+ * Remote command server configuration (Node only: headless engines, tools)
+ *
+ * The server only binds to loopback addresses. Browser pages are rejected
+ * unless their origin is listed in allowedOrigins.
+ */
+export interface RemoteConfig {
+  /** Start the server during initialize() (default: false) */
+  enabled?: boolean;
+  /** Port to listen on; 0 picks a free port (default: 7341) */
+  port?: number;
+  /** Loopback address to bind: '127.0.0.1', '::1' or 'localhost' (default: '127.0.0.1') */
+  host?: string;
+  /** Require this token as `Authorization: Bearer <token>` or `?token=` (default: none) */
+  token?: string;
+  /** Browser origins allowed to connect, e.g. 'http://localhost:5173' (default: none) */
+  allowedOrigins?: string[];
+  /** Stream console output to connected clients (default: true) */
+  captureConsole?: boolean;
+}
+
 /**
  * Complete engine configuration
  */
@@ -118,6 +159,12 @@ export interface EngineConfig {
   debug?: DebugConfig;
   /** Performance configuration */
   performance?: PerformanceConfig;
+  /** Headless mode configuration */
+  headless?: HeadlessConfig;
+  /** Remote command server configuration */
+  remote?: RemoteConfig;
+  /** Plugin config sections, keyed by plugin name (see PluginConfigMap) */
+  plugins?: PluginConfigs;
 }
 
 /**
@@ -156,6 +203,41 @@ export interface EngineStats {
   memoryUsage: number;
 }
 
+/**
+ * Events emitted on the engine's EventBus, keyed by type
+ *
+ * Games add their own events by augmenting this interface:
+ *
+ * @example
+ * ```typescript
+ * declare module '@miskatonic/core' {
+ *   interface EngineEventMap {
+ *     'game:start': NoPayload;
+ *     'player:damaged': { entityId: number; amount: number };
+ *   }
+ * }
+ * ```
+ */
+export interface EngineEventMap extends CommandEventMap {
+  'engine:initializing': NoPayload;
+  'engine:ready': NoPayload;
+  'engine:error': { error: string };
+  'engine:started': NoPayload;
+  'engine:stopped': NoPayload;
+  'engine:shutting-down': NoPayload;
+  'engine:shutdown-complete': NoPayload;
+  'engine:system-registered': { systemName: string };
+  'engine:system-unregistered': { systemName: string };
+  'engine:config-updated': NoPayload;
+  'engine:time-scale-changed': { timeScale: number };
+  'engine:stepped': { frames: number };
+  'engine:budget-exceeded': { systemName: string; phase: SystemPhase; elapsed: number; budget: number; frame: number };
+  'engine:physics-initialized': NoPayload;
+  'engine:network-initialized': NoPayload;
+  'engine:plugin-installed': { pluginName: string };
+  'engine:remote-started': { host: string; port: number };
+}
+
 /**
  * Default engine configuration
  */
@@ -196,4 +278,16 @@ export const DEFAULT_ENGINE_CONFIG: Required<EngineConfig> = {
     gcPauseBudgetMS: 5,
     warnOnBudgetExceed: true,
   },
+  headless: {
+    enabled: false,
+    loop: 'timer',
+  },
+  remote: {
+    enabled: false,
+    port: 7341,
+    host: '127.0.0.1',
+    allowedOrigins: [],
+    captureConsole: true,
+  },
+  plugins: {},
 };
@@ -0,0 +1,85 @@
+/**
+ * Tests for FrameProfiler
+ *
+ * Coverage:
+ * - Per-system timing statistics and histograms
+ * - Trace recording limits
+ * - Chrome trace-event export from a running GameLoop
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { FrameProfiler, TIMING_BUCKETS_MS, type TraceEvent } from '../src/FrameProfiler';
+import { GameLoop, SystemPhase } from '../src/GameLoop';
+
+describe('FrameProfiler', () => {
+  it('should accumulate per-system timings', () => {
+    const profiler = new FrameProfiler();
+    for (const duration of [0.05, 0.3, 0.3, 3, 50]) {
+      profiler.recordSystem('ai', SystemPhase.UPDATE, 0, duration);
+    }
+    profiler.recordSystem('input', SystemPhase.PRE_UPDATE, 0, 0.01);
+    profiler.recordDeferral('ai', SystemPhase.UPDATE);
+
+    const ai = profiler.getSystemTiming('ai')!;
+    expect(ai.calls).toBe(5);
+    expect(ai.deferrals).toBe(1);
+    expect(ai.minTime).toBe(0.05);
+    expect(ai.maxTime).toBe(50);
+    expect(ai.averageTime).toBeCloseTo(10.73);
+    expect(ai.histogram).toHaveLength(TIMING_BUCKETS_MS.length + 1);
+    expect(ai.histogram).toEqual([1, 0, 2, 0, 0, 1, 0, 0, 0, 1]);
+    expect(ai.p50).toBe(0.5);
+    expect(ai.p99).toBe(50);
+
+    expect(profiler.getSystemTimings().map((t) => t.name)).toEqual(['ai', 'input']);
+    profiler.reset();
+    expect(profiler.getSystemTiming('ai')).toBeUndefined();
+  });
+
+  it('should only record frames while tracing, keeping the newest', () => {
+    const profiler = new FrameProfiler({ maxTraceFrames: 2 });
+    profiler.beginFrame(0, 0);
+    profiler.endFrame(16);
+    expect(profiler.getTraceFrameCount()).toBe(0);
+
+    profiler.startTrace();
+    for (let frame = 1; frame <= 3; frame++) {
+      profiler.beginFrame(frame, frame * 16);
+      profiler.endFrame(frame * 16 + 10);
+    }
+    profiler.stopTrace();
+
+    const { traceEvents } = JSON.parse(profiler.exportChromeTrace()) as { traceEvents: TraceEvent[] };
+    expect(profiler.getTraceFrameCount()).toBe(2);
+    expect(traceEvents.filter((e) => e.cat === 'frame').map((e) => e.args?.frame)).toEqual([2, 3]);
+    expect(traceEvents[2]).toMatchObject({ ph: 'X', ts: 48000, dur: 10000 });
+  });
+
+  it('should export GameLoop frames as Chrome trace events', () => {
+    let clock = 0;
+    const nowSpy = vi.spyOn(performance, 'now').mockImplementation(() => clock++);
+    const loop = new GameLoop();
+    loop.registerSystem({ name: 'movement', phase: SystemPhase.UPDATE, update: () => { clock += 2; } });
+    loop.registerPhysicsCallback(() => {});
+
+    loop.getProfiler().startTrace();
+    loop.step(2);
+    nowSpy.mockRestore();
+
+    const { traceEvents } = JSON.parse(loop.getProfiler().exportChromeTrace()) as { traceEvents: TraceEvent[] };
+    expect(traceEvents[0]).toMatchObject({ ph: 'M', name: 'thread_name' });
+
+    const frames = traceEvents.filter((e) => e.cat === 'frame');
+    const systems = traceEvents.filter((e) => e.cat === 'system');
+    const physics = traceEvents.filter((e) => e.name === 'PHYSICS');
+    expect(frames).toHaveLength(2);
+    expect(systems.map((e) => e.name)).toEqual(['movement', 'movement']);
+    expect(systems[0].args).toEqual({ phase: 'UPDATE' });
+    expect(systems[0].dur).toBe(3000);
+    expect(physics[0].args).toEqual({ steps: 1 });
+
+    // Systems nest inside their frame
+    expect(systems[0].ts).toBeGreaterThanOrEqual(frames[0].ts);
+    expect(systems[0].ts + systems[0].dur!).toBeLessThanOrEqual(frames[0].ts + frames[0].dur!);
+  });
+});
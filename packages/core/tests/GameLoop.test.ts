@@ -170,6 +170,30 @@ describe('GameLoop', () => {
     });
   });
 
+  describe('Sync Callback', () => {
+    it('should call sync callback after each phase', async () => {
+      const events: string[] = [];
+      loop.registerSystem({
+        name: 'update',
+        phase: SystemPhase.UPDATE,
+        update: () => events.push('update'),
+      });
+      loop.registerSyncCallback((phase) => events.push(`sync:${SystemPhase[phase]}`));
+
+      loop.start();
+      loop.stop();
+
+      expect(events).toEqual([
+        'sync:PRE_UPDATE',
+        'update',
+        'sync:UPDATE',
+        'sync:POST_UPDATE',
+        'sync:PHYSICS',
+        'sync:RENDER',
+      ]);
+    });
+  });
+
   describe('Render Callback', () => {
     it('should register and call render callback', async () => {
       const renderCallback = vi.fn();
@@ -201,6 +225,144 @@ describe('GameLoop', () => {
     });
   });
 
+  describe('Fixed Timestep Changes', () => {
+    it('should preserve the interpolation alpha when the timestep changes', () => {
+      const nowSpy = vi.spyOn(performance, 'now').mockReturnValueOnce(0).mockReturnValue(25);
+      const physicsCallback = vi.fn();
+      loop.registerPhysicsCallback(physicsCallback);
+
+      // 25ms frame at 60 Hz: one step, half a step left over
+      loop.start();
+      loop.stop();
+      expect(physicsCallback).toHaveBeenCalledTimes(1);
+      expect(loop.getInterpolationAlpha()).toBeCloseTo(0.5);
+
+      // Switch to 120 Hz and run a zero-length frame
+      loop.setFixedTimestep(1 / 120);
+      loop.start();
+      loop.stop();
+      nowSpy.mockRestore();
+
+      expect(loop.getFixedTimestep()).toBeCloseTo(1 / 120);
+      expect(physicsCallback).toHaveBeenCalledTimes(1);
+      expect(loop.getInterpolationAlpha()).toBeCloseTo(0.5);
+    });
+
+    it('should reject non-positive timesteps', () => {
+      expect(() => loop.setFixedTimestep(0)).toThrow(/positive/);
+      expect(() => loop.setFixedTimestep(NaN)).toThrow(/positive/);
+    });
+  });
+
+  describe('Time Scaling', () => {
+    it('should scale delta time with global, phase and system overrides', () => {
+      const nowSpy = vi.spyOn(performance, 'now').mockReturnValueOnce(0).mockReturnValue(20);
+      const deltas: Record<string, number> = {};
+      const record = (name: string, phase: SystemPhase) =>
+        loop.registerSystem({ name, phase, update: (dt) => { deltas[name] = dt; } });
+      record('logic', SystemPhase.UPDATE);
+      record('camera', SystemPhase.POST_UPDATE);
+      record('hud', SystemPhase.RENDER);
+      record('particles', SystemPhase.RENDER);
+
+      loop.setTimeScale(0.5);
+      loop.setPhaseTimeScale(SystemPhase.RENDER, 2);
+      loop.setSystemTimeScale('hud', 1);
+      loop.start();
+      loop.stop();
+      nowSpy.mockRestore();
+
+      expect(deltas.logic).toBeCloseTo(0.01);
+      expect(deltas.camera).toBeCloseTo(0.01);
+      expect(deltas.particles).toBeCloseTo(0.04);
+      expect(deltas.hud).toBeCloseTo(0.02);
+    });
+
+    it('should scale the physics accumulator', () => {
+      const nowSpy = vi.spyOn(performance, 'now').mockReturnValueOnce(0).mockReturnValue(50);
+      const physicsCallback = vi.fn();
+      loop.registerPhysicsCallback(physicsCallback);
+
+      loop.setTimeScale(0);
+      loop.start();
+      loop.stop();
+      nowSpy.mockRestore();
+
+      expect(physicsCallback).not.toHaveBeenCalled();
+      expect(() => loop.setTimeScale(-1)).toThrow(/non-negative/);
+    });
+
+    it('should step exactly one physics tick per frame while stopped', () => {
+      const physicsCallback = vi.fn();
+      const update = vi.fn();
+      loop.registerPhysicsCallback(physicsCallback);
+      loop.registerSystem({ name: 'logic', phase: SystemPhase.UPDATE, update });
+      loop.setTimeScale(0);
+
+      loop.step(3);
+
+      expect(physicsCallback).toHaveBeenCalledTimes(3);
+      expect(update).toHaveBeenCalledTimes(3);
+      expect(update).toHaveBeenCalledWith(1 / 60);
+      expect(loop.getStats().totalFrames).toBe(3);
+    });
+
+    it('should refuse to step a running loop', () => {
+      loop.start();
+      expect(() => loop.step()).toThrow(/running/);
+      loop.stop();
+      expect(() => loop.step(0)).toThrow(/positive integer/);
+    });
+  });
+
+  describe('Scheduling', () => {
+    it('should only run frames on advance() with the manual scheduler', () => {
+      const manualLoop = new GameLoop({ scheduler: 'manual', maxDeltaTime: 0.1 });
+      const update = vi.fn();
+      const physicsCallback = vi.fn();
+      manualLoop.registerSystem({ name: 'logic', phase: SystemPhase.UPDATE, update });
+      manualLoop.registerPhysicsCallback(physicsCallback);
+
+      manualLoop.start();
+      expect(update).not.toHaveBeenCalled();
+
+      manualLoop.advance(1 / 30);
+      manualLoop.advance(0.5);
+      manualLoop.stop();
+
+      expect(update).toHaveBeenNthCalledWith(1, 1 / 30);
+      expect(update).toHaveBeenNthCalledWith(2, 0.1);
+      expect(physicsCallback).toHaveBeenCalledTimes(2 + 4);
+      expect(manualLoop.getStats().totalFrames).toBe(2);
+    });
+
+    it('should reject advance() on a self-scheduled running loop', () => {
+      const timerLoop = new GameLoop({ scheduler: 'timer' });
+      timerLoop.start();
+      expect(() => timerLoop.advance(1 / 60)).toThrow(/manual/);
+      timerLoop.stop();
+
+      expect(() => timerLoop.advance(-1)).toThrow(/non-negative/);
+      expect(() => new GameLoop({ scheduler: 'animation-frame' }).start()).toThrow(/requestAnimationFrame/);
+    });
+
+    it('should skip the RENDER phase when rendering is disabled', () => {
+      const headlessLoop = new GameLoop({ scheduler: 'manual', render: false });
+      const render = vi.fn();
+      const renderCallback = vi.fn();
+      const update = vi.fn();
+      headlessLoop.registerSystem({ name: 'draw', phase: SystemPhase.RENDER, update: render });
+      headlessLoop.registerSystem({ name: 'logic', phase: SystemPhase.UPDATE, update });
+      headlessLoop.registerRenderCallback(renderCallback);
+
+      headlessLoop.advance(1 / 60);
+
+      expect(update).toHaveBeenCalledTimes(1);
+      expect(render).not.toHaveBeenCalled();
+      expect(renderCallback).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Lifecycle', () => {
     it('should start the loop', () => {
       loop.start();
@@ -300,6 +462,75 @@ describe('GameLoop', () => {
 
       warnSpy.mockRestore();
     });
+
+    it('should report overruns to the budget callback instead of warning', () => {
+      let clock = 0;
+      const nowSpy = vi.spyOn(performance, 'now').mockImplementation(() => clock++);
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const budgetCallback = vi.fn();
+      loop.registerBudgetCallback(budgetCallback);
+      loop.registerSystem({
+        name: 'slow-system',
+        phase: SystemPhase.UPDATE,
+        budget: 1,
+        update: () => { clock += 5; },
+      });
+
+      loop.step();
+      nowSpy.mockRestore();
+
+      expect(warnSpy).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+      expect(budgetCallback).toHaveBeenCalledWith({
+        systemName: 'slow-system',
+        phase: SystemPhase.UPDATE,
+        elapsed: 6,
+        budget: 1,
+        frame: 0,
+      });
+      expect(loop.getProfiler().getSystemTiming('slow-system')?.overruns).toBe(1);
+    });
+
+    it('should defer deferrable systems when the frame budget is spent', () => {
+      let clock = 0;
+      const nowSpy = vi.spyOn(performance, 'now').mockImplementation(() => clock++);
+      const budgetLoop = new GameLoop({ frameBudget: 10, maxDeferredFrames: 4 });
+      const deltas: number[] = [];
+      budgetLoop.registerSystem({
+        name: 'heavy',
+        phase: SystemPhase.UPDATE,
+        priority: 0,
+        update: () => { clock += 20; },
+      });
+      budgetLoop.registerSystem({
+        name: 'ai',
+        phase: SystemPhase.UPDATE,
+        deferrable: true,
+        update: (dt) => { deltas.push(dt); },
+      });
+
+      // Each start() runs one 1ms frame
+      for (let i = 0; i < 5; i++) {
+        budgetLoop.start();
+        budgetLoop.stop();
+      }
+      nowSpy.mockRestore();
+
+      // Skipped four frames, then forced to run with the accumulated time
+      expect(deltas).toHaveLength(1);
+      expect(deltas[0]).toBeCloseTo(0.005);
+      expect(budgetLoop.getProfiler().getSystemTiming('ai')?.deferrals).toBe(4);
+    });
+
+    it('should never defer while stepping', () => {
+      const update = vi.fn();
+      const budgetLoop = new GameLoop({ frameBudget: 0.000001 });
+      budgetLoop.registerSystem({ name: 'ai', phase: SystemPhase.UPDATE, deferrable: true, update });
+
+      budgetLoop.step(2);
+
+      expect(update).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe('Configuration', () => {
@@ -8,11 +8,20 @@
  * - Configuration updates
  * - Error handling and invalid state transitions
  * - Event emission during lifecycle
+ * - Event recording and replay
  * - System access (world, events, resources, physics, network)
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { MiskatonicEngine, EngineState, type SystemRegistration } from '../src';
+import { MiskatonicEngine, EngineState, PrefabLoader, SystemPhase, type SystemRegistration } from '../src';
+import { Transform } from '@miskatonic/ecs';
+import { EventRecorder } from '@miskatonic/events';
+
+declare module '../src/types' {
+  interface EngineEventMap {
+    'input:jump': { height: number };
+  }
+}
 
 describe('MiskatonicEngine', () => {
   describe('Creation and Initialization', () => {
@@ -71,6 +80,21 @@ describe('MiskatonicEngine', () => {
       expect(engine.state).toBe(EngineState.READY);
     });
 
+    it('should create the physics engine for the configured backend', async () => {
+      const engine = await MiskatonicEngine.create({
+        physics: {
+          backend: 'cannon',
+        },
+      });
+
+      await engine.initialize();
+
+      expect(engine.physics!.getEngine().constructor.name).toBe('CannonPhysicsEngine');
+
+      const unknown = await MiskatonicEngine.create({ physics: { backend: 'box2d' } });
+      await expect(unknown.initialize()).rejects.toThrow("Unknown physics backend 'box2d'");
+    });
+
     it('should not initialize network when disabled', async () => {
       const engine = await MiskatonicEngine.create({
         network: {
@@ -283,6 +307,33 @@ describe('MiskatonicEngine', () => {
       expect(readyEvent).toBeDefined();
     });
 
+    it('should emit budget-exceeded event when a system overruns its budget', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const overruns: any[] = [];
+      engine.events.on('engine:budget-exceeded', (event) => overruns.push(event));
+      await engine.initialize();
+      engine.registerSystem({
+        name: 'slow-system',
+        phase: SystemPhase.UPDATE,
+        budget: 1,
+        update: () => {
+          const start = performance.now();
+          while (performance.now() - start < 3) {
+            // Busy wait for 3ms
+          }
+        },
+      });
+
+      engine.step();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(overruns).toHaveLength(1);
+      expect(overruns[0]).toMatchObject({ systemName: 'slow-system', phase: SystemPhase.UPDATE, budget: 1 });
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('exceeded budget'));
+      expect(engine.profiler.getSystemTiming('slow-system')?.overruns).toBe(1);
+      warnSpy.mockRestore();
+    });
+
     it('should emit started event', async () => {
       await engine.initialize();
       engine.start();
@@ -351,6 +402,54 @@ describe('MiskatonicEngine', () => {
     });
   });
 
+  describe('Event Recording', () => {
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it('should replay recorded events in the frames they were recorded in', async () => {
+      const recording = await MiskatonicEngine.create({ physics: null });
+      await recording.initialize();
+      const recorder = recording.recordEvents();
+
+      recording.events.emit({ type: 'input:jump', timestamp: 1, height: 1 });
+      recording.start(); // frame 0
+      recording.stop();
+      recording.events.emit({ type: 'input:jump', timestamp: 2, height: 2 });
+      recorder.stop();
+
+      expect(recorder.getLog().events.filter((e) => e.type === 'input:jump').map((e) => e.frame)).toEqual([0, 1]);
+
+      const replay = await MiskatonicEngine.create({ physics: null });
+      await replay.initialize();
+      const jumps: Array<{ height: number; frame: number }> = [];
+      replay.events.on('input:jump', (event) => {
+        jumps.push({ height: event.height, frame: replay.getStats().totalFrames });
+      });
+      const started: string[] = [];
+      replay.events.on('engine:started', (event) => {
+        started.push(event.type);
+      });
+
+      const player = replay.replayEvents(EventRecorder.parse(recorder.toJSON()));
+
+      replay.start(); // frame 0
+      replay.stop();
+      await flush();
+      expect(jumps).toEqual([{ height: 1, frame: 0 }]);
+
+      replay.start(); // frame 1
+      replay.stop();
+      await flush();
+      expect(jumps).toEqual([
+        { height: 1, frame: 0 },
+        { height: 2, frame: 1 },
+      ]);
+      expect(player.isFinished()).toBe(true);
+
+      // Only the engine's own start events, not replayed ones
+      expect(started).toHaveLength(2);
+    });
+  });
+
   describe('System Access', () => {
     let engine: MiskatonicEngine;
 
@@ -402,6 +501,111 @@ describe('MiskatonicEngine', () => {
     it('should provide null for Network when disabled', () => {
       expect(engine.network).toBeNull();
     });
+
+    it('should start the remote command server when enabled', async () => {
+      const remoteEngine = await MiskatonicEngine.create({
+        physics: null,
+        remote: { enabled: true, port: 0, captureConsole: false },
+      });
+
+      const started: any[] = [];
+      remoteEngine.events.on('engine:remote-started', (event) => started.push(event));
+
+      await remoteEngine.initialize();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      const port = remoteEngine.remoteServer!.getPort()!;
+      expect(started).toEqual([expect.objectContaining({ host: '127.0.0.1', port })]);
+
+      const response = await fetch(`http://127.0.0.1:${port}/execute`, {
+        method: 'POST',
+        body: JSON.stringify({ line: 'echo hello' }),
+      });
+      expect(await response.json()).toMatchObject({ success: true, output: 'hello' });
+
+      await remoteEngine.shutdown();
+      expect(remoteEngine.remoteServer).toBeNull();
+      await expect(fetch(`http://127.0.0.1:${port}/commands`)).rejects.toThrow();
+    });
+
+    it('should provide null for Remote when disabled', () => {
+      expect(engine.remote).toBeNull();
+      expect(engine.remoteServer).toBeNull();
+    });
+  });
+
+  describe('Prefabs', () => {
+    it('should load nested prefabs and propagate reloads to instances', async () => {
+      const files: Record<string, string> = {
+        'wheel.json': JSON.stringify({ entities: [{ id: 0, components: { Transform: { scaleX: 0.5 } } }] }),
+        'car.json': JSON.stringify({
+          entities: [{ id: 0, components: { Transform: {} } }, { id: 1, parent: 0, prefab: 'wheel.json' }],
+        }),
+      };
+      const engine = await MiskatonicEngine.create();
+      engine.resources.registerLoader(new PrefabLoader(async (id) => files[id]));
+
+      await engine.loadPrefab('car.json');
+      const car = engine.prefabs.instantiate('car.json');
+      const wheel = car.entities.get(1)!;
+      expect(engine.world.getComponent(wheel, Transform)!.scaleX).toBe(0.5);
+
+      files['wheel.json'] = JSON.stringify({ entities: [{ id: 0, components: { Transform: { scaleX: 2 } } }] });
+      await engine.resources.reload('wheel.json', 'prefab');
+
+      expect(engine.world.getComponent(wheel, Transform)!.scaleX).toBe(2);
+    });
+  });
+
+  describe('Worlds', () => {
+    let engine: MiskatonicEngine;
+
+    beforeEach(async () => {
+      engine = await MiskatonicEngine.create();
+    });
+
+    it('should create isolated worlds alongside the main world', () => {
+      const preview = engine.createWorld('preview');
+      preview.createEntity();
+
+      expect(engine.getWorld('main')).toBe(engine.world);
+      expect(engine.getWorld('preview')).toBe(preview);
+      expect(engine.getWorldNames()).toEqual(['main', 'preview']);
+      expect(engine.world.getEntities()).toHaveLength(0);
+      expect(() => engine.createWorld('preview')).toThrow(/already exists/);
+    });
+
+    it('should update worlds that have engine-registered systems', async () => {
+      const updated: string[] = [];
+      const sim = engine.createWorld('sim');
+      engine.createWorld('idle');
+      engine.registerWorldSystem({ name: 'a', priority: 0, update: () => updated.push('main') });
+      engine.registerWorldSystem({ name: 'b', priority: 0, update: () => updated.push('sim') }, 'sim');
+
+      const entity = engine.world.createEntity();
+      engine.world.getCommandBuffer().destroyEntity(entity);
+      sim.getCommandBuffer().spawn();
+
+      await engine.initialize();
+      engine.start();
+      engine.stop();
+
+      expect(updated).toEqual(['main', 'sim']);
+      expect(engine.world.hasEntity(entity)).toBe(false);
+      expect(sim.getEntities()).toHaveLength(1);
+    });
+
+    it('should destroy worlds other than main', () => {
+      const preview = engine.createWorld('preview');
+      preview.createEntity();
+
+      engine.destroyWorld('preview');
+
+      expect(engine.getWorld('preview')).toBeUndefined();
+      expect(preview.getEntities()).toHaveLength(0);
+      expect(() => engine.destroyWorld('main')).toThrow(/main world/);
+      expect(() => engine.registerWorldSystem({ name: 'x', priority: 0 }, 'preview')).toThrow(/does not exist/);
+    });
   });
 
   describe('Configuration Management', () => {
@@ -445,6 +649,40 @@ describe('MiskatonicEngine', () => {
 
       expect(events.length).toBe(1);
     });
+
+    it('should change the physics timestep at runtime', () => {
+      engine.setFixedTimestep(1 / 120);
+      expect(engine.getConfig().physics.fixedTimestep).toBeCloseTo(1 / 120);
+
+      engine.updateConfig({ physics: { fixedTimestep: 1 / 30 } });
+      expect(engine.getConfig().physics.fixedTimestep).toBeCloseTo(1 / 30);
+      expect(() => engine.setFixedTimestep(0)).toThrow(/positive/);
+    });
+  });
+
+  describe('Headless Mode', () => {
+    it('should run ECS and physics without rendering on manual ticks', async () => {
+      const engine = await MiskatonicEngine.create({ headless: { enabled: true, loop: 'manual' } });
+      await engine.initialize();
+      const update = vi.fn();
+      const render = vi.fn();
+      engine.registerSystem({ name: 'logic', phase: SystemPhase.UPDATE, update });
+      engine.registerSystem({ name: 'draw', phase: SystemPhase.RENDER, update: render });
+
+      expect(() => engine.advance(1 / 60)).toThrow(/Cannot advance/);
+      engine.start();
+      for (let i = 0; i < 3; i++) {
+        engine.advance(1 / 60);
+      }
+
+      expect(engine.headless).toBe(true);
+      expect(engine.physics).not.toBeNull();
+      expect(update).toHaveBeenCalledTimes(3);
+      expect(render).not.toHaveBeenCalled();
+      expect(engine.getStats().totalFrames).toBe(3);
+
+      await engine.shutdown();
+    });
   });
 
   describe('Statistics', () => {
@@ -221,6 +221,51 @@ describe('CommandBus', () => {
     });
   });
 
+  describe('executeLine', () => {
+    beforeEach(() => {
+      registry.register({
+        name: 'move',
+        description: 'Move an entity',
+        aliases: ['mv'],
+        schema: z.object({ entity: z.number().int(), x: z.number(), world: z.string().optional() }),
+        positional: ['entity', 'x'],
+        handler: (input) => ({ success: true, output: input, executionTime: 0 }),
+      } as CommandDefinition);
+    });
+
+    it('should parse arguments and execute', async () => {
+      const result = await bus.executeLine('mv 12 -3.5 --world "level one"');
+
+      expect(result.success).toBe(true);
+      expect(result.output).toEqual({ entity: 12, x: -3.5, world: 'level one' });
+      expect(bus.getHistory()[0]).toMatchObject({ command: 'move', input: { entity: 12, x: -3.5 } });
+    });
+
+    it('should fail with usage text on parse errors', async () => {
+      const eventPromise = new Promise(resolve => {
+        events.on('command:validation-failed', resolve);
+      });
+
+      const result = await bus.executeLine('move 12');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Missing argument 'x'\nUsage: move <entity> <x> [--world <string>]");
+      expect(await eventPromise).toMatchObject({ commandName: 'move', error: "Missing argument 'x'" });
+    });
+
+    it('should report schema validation errors', async () => {
+      const result = await bus.executeLine('move 12 far');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Validation failed: x:');
+    });
+
+    it('should report unknown commands and unterminated quotes', async () => {
+      expect((await bus.executeLine('teleport 1')).error).toBe("Command 'teleport' not found");
+      expect((await bus.executeLine('move "12')).error).toBe('Unterminated " quote');
+    });
+  });
+
   describe('queue', () => {
     it('should queue commands for later execution', async () => {
       const command: CommandDefinition = {
@@ -436,4 +481,292 @@ describe('CommandBus', () => {
       expect(result!.error).toBe('Undo failed');
     });
   });
+
+  /**
+   * Registers 'counter.add', an undoable command that adds to a counter
+   */
+  function registerCounter(): { value: number } {
+    const counter = { value: 0 };
+    registry.register({
+      name: 'counter.add',
+      description: 'Add to counter',
+      schema: z.object({ amount: z.number() }),
+      handler: (input: { amount: number }) => {
+        counter.value += input.amount;
+        return { success: true, executionTime: 0 };
+      },
+      undoable: true,
+      undo: (input: { amount: number }) => {
+        counter.value -= input.amount;
+        return { success: true, executionTime: 0 };
+      },
+    } as CommandDefinition);
+    return counter;
+  }
+
+  describe('redo', () => {
+    it('should redo undone commands in reverse undo order', async () => {
+      const counter = registerCounter();
+
+      await bus.execute('counter.add', { amount: 1 });
+      await bus.execute('counter.add', { amount: 10 });
+      await bus.undo();
+      await bus.undo();
+      expect(counter.value).toBe(0);
+
+      const result = await bus.redo();
+      expect(result!.success).toBe(true);
+      expect(counter.value).toBe(1);
+
+      await bus.redo();
+      expect(counter.value).toBe(11);
+      expect(bus.getHistory()).toHaveLength(2);
+    });
+
+    it('should return null if nothing to redo', async () => {
+      expect(await bus.redo()).toBeNull();
+      expect(bus.canRedo()).toBe(false);
+    });
+
+    it('should clear redo stack when a new undoable command succeeds', async () => {
+      const counter = registerCounter();
+
+      await bus.execute('counter.add', { amount: 1 });
+      await bus.undo();
+      expect(bus.canRedo()).toBe(true);
+
+      await bus.execute('counter.add', { amount: 5 });
+      expect(bus.canRedo()).toBe(false);
+      expect(await bus.redo()).toBeNull();
+      expect(counter.value).toBe(5);
+    });
+
+    it('should not redo commands whose undo failed', async () => {
+      registry.register({
+        name: 'test',
+        description: 'Test command',
+        schema: z.object({}),
+        handler: () => ({ success: true, executionTime: 0 }),
+        undoable: true,
+        undo: () => ({ success: false, error: 'nope', executionTime: 0 }),
+      });
+
+      await bus.execute('test', {});
+      await bus.undo();
+
+      expect(bus.canRedo()).toBe(false);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should undo and redo a committed transaction as one unit', async () => {
+      const counter = registerCounter();
+
+      await bus.execute('counter.add', { amount: 100 });
+      bus.beginTransaction('drag');
+      await bus.execute('counter.add', { amount: 1 });
+      await bus.execute('counter.add', { amount: 2 });
+      bus.commitTransaction();
+      expect(counter.value).toBe(103);
+
+      await bus.undo();
+      expect(counter.value).toBe(100);
+
+      await bus.redo();
+      expect(counter.value).toBe(103);
+
+      await bus.undo();
+      await bus.undo();
+      expect(counter.value).toBe(0);
+    });
+
+    it('should keep transactions with the same name separate', async () => {
+      const counter = registerCounter();
+
+      await bus.runTransaction('drag', () => bus.execute('counter.add', { amount: 1 }));
+      await bus.runTransaction('drag', () => bus.execute('counter.add', { amount: 2 }));
+
+      await bus.undo();
+      expect(counter.value).toBe(1);
+    });
+
+    it('should tag history entries with the transaction', async () => {
+      registerCounter();
+
+      bus.beginTransaction('delete-selection');
+      await bus.execute('counter.add', { amount: 1 });
+      bus.commitTransaction();
+
+      expect(bus.getHistory()[0].transaction?.name).toBe('delete-selection');
+    });
+
+    it('should roll back a transaction', async () => {
+      const counter = registerCounter();
+
+      bus.beginTransaction('drag');
+      await bus.execute('counter.add', { amount: 1 });
+      await bus.execute('counter.add', { amount: 2 });
+      const result = await bus.rollbackTransaction();
+
+      expect(result.success).toBe(true);
+      expect(counter.value).toBe(0);
+      expect(bus.isInTransaction()).toBe(false);
+      expect(bus.getHistory()).toHaveLength(0);
+      expect(bus.canRedo()).toBe(false);
+    });
+
+    it('should roll back and rethrow when runTransaction callback throws', async () => {
+      const counter = registerCounter();
+
+      await expect(
+        bus.runTransaction('drag', async () => {
+          await bus.execute('counter.add', { amount: 1 });
+          throw new Error('drag cancelled');
+        })
+      ).rejects.toThrow('drag cancelled');
+
+      expect(counter.value).toBe(0);
+      expect(bus.isInTransaction()).toBe(false);
+    });
+
+    it('should reject nested transactions', () => {
+      bus.beginTransaction('outer');
+      expect(() => bus.beginTransaction('inner')).toThrow("Transaction 'outer' is already open");
+    });
+
+    it('should reject commit or rollback without a transaction', async () => {
+      expect(() => bus.commitTransaction()).toThrow('No transaction is open');
+      await expect(bus.rollbackTransaction()).rejects.toThrow('No transaction is open');
+    });
+
+    it('should reject undo and redo while a transaction is open', async () => {
+      bus.beginTransaction('drag');
+
+      await expect(bus.undo()).rejects.toThrow("Cannot undo while transaction 'drag' is open");
+      await expect(bus.redo()).rejects.toThrow("Cannot redo while transaction 'drag' is open");
+    });
+
+    it('should reject queued commands while a transaction is open', async () => {
+      const counter = registerCounter();
+      const failed = vi.fn();
+      events.on('command:failed', failed);
+
+      bus.beginTransaction('drag');
+      const result = await bus.execute('counter.add', { amount: 1 }, { queued: true });
+      bus.commitTransaction();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Cannot queue 'counter.add' while transaction 'drag' is open");
+      expect(failed).toHaveBeenCalledTimes(1);
+      expect(await bus.processQueue()).toBe(0);
+      expect(counter.value).toBe(0);
+    });
+
+    it('should keep commands without undo when rolling back', async () => {
+      const counter = registerCounter();
+      const log: string[] = [];
+      registry.register({
+        name: 'log',
+        description: 'Append to log',
+        schema: z.object({ message: z.string() }),
+        handler: (input: { message: string }) => {
+          log.push(input.message);
+          return { success: true, executionTime: 0 };
+        },
+      } as CommandDefinition);
+
+      bus.beginTransaction('drag');
+      await bus.execute('counter.add', { amount: 1 });
+      await bus.execute('log', { message: 'dragged' });
+      await bus.rollbackTransaction();
+
+      expect(counter.value).toBe(0);
+      expect(log).toEqual(['dragged']);
+      expect(bus.getHistory().map(entry => entry.command)).toEqual(['log']);
+    });
+
+    it('should remove rolled back commands from a macro being recorded', async () => {
+      registerCounter();
+
+      bus.startMacroRecording('setup');
+      await bus.execute('counter.add', { amount: 1 });
+      bus.beginTransaction('drag');
+      await bus.execute('counter.add', { amount: 2 });
+      await bus.rollbackTransaction();
+      await bus.execute('counter.add', { amount: 3 });
+
+      expect(bus.stopMacroRecording().steps).toEqual([
+        { command: 'counter.add', input: { amount: 1 } },
+        { command: 'counter.add', input: { amount: 3 } },
+      ]);
+    });
+  });
+
+  describe('macros', () => {
+    it('should record successful commands', async () => {
+      registerCounter();
+
+      bus.startMacroRecording('setup');
+      expect(bus.isRecordingMacro()).toBe(true);
+      await bus.execute('counter.add', { amount: 1 });
+      await bus.execute('counter.add', { amount: 'bad' });
+      await bus.execute('missing', {});
+      await bus.execute('counter.add', { amount: 2 });
+      const macro = bus.stopMacroRecording();
+
+      expect(bus.isRecordingMacro()).toBe(false);
+      expect(macro).toEqual({
+        name: 'setup',
+        steps: [
+          { command: 'counter.add', input: { amount: 1 } },
+          { command: 'counter.add', input: { amount: 2 } },
+        ],
+      });
+    });
+
+    it('should reject recording twice or stopping without recording', () => {
+      expect(() => bus.stopMacroRecording()).toThrow('No macro is being recorded');
+
+      bus.startMacroRecording('a');
+      expect(() => bus.startMacroRecording('b')).toThrow("Macro 'a' is already being recorded");
+    });
+
+    it('should play a macro as one undoable transaction', async () => {
+      const counter = registerCounter();
+
+      const result = await bus.playMacro({
+        name: 'setup',
+        steps: [
+          { command: 'counter.add', input: { amount: 1 } },
+          { command: 'counter.add', input: { amount: 2 } },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toHaveLength(2);
+      expect(counter.value).toBe(3);
+
+      await bus.undo();
+      expect(counter.value).toBe(0);
+    });
+
+    it('should roll back a macro at the first failing step', async () => {
+      const counter = registerCounter();
+
+      const result = await bus.playMacro({
+        name: 'setup',
+        steps: [
+          { command: 'counter.add', input: { amount: 1 } },
+          { command: 'missing', input: {} },
+          { command: 'counter.add', input: { amount: 2 } },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Macro 'setup' failed at step 2 (missing): Command 'missing' not found");
+      expect(result.output).toHaveLength(2);
+      expect(counter.value).toBe(0);
+      expect(bus.isInTransaction()).toBe(false);
+    });
+  });
 });
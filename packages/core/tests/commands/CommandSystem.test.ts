@@ -4,7 +4,9 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { z } from 'zod';
+import { Transform } from '@miskatonic/ecs';
 import { MiskatonicEngine } from '../../src/MiskatonicEngine';
+import { SystemPhase } from '../../src/GameLoop';
 import type { CommandDefinition } from '../../src/commands/types';
 
 describe('CommandSystem (Integration)', () => {
@@ -33,6 +35,9 @@ describe('CommandSystem (Integration)', () => {
       expect(commands).toContain('config');
       expect(commands).toContain('pause');
       expect(commands).toContain('resume');
+      expect(commands).toContain('schedule');
+      expect(commands).toContain('inspect');
+      expect(commands).toContain('set');
     });
 
     it('should execute help command', async () => {
@@ -99,6 +104,51 @@ describe('CommandSystem (Integration)', () => {
       expect(result.output).toHaveProperty('targetFPS');
     });
 
+    it('should execute schedule command with text format', async () => {
+      engine.world.registerSystem({ name: 'late', priority: 100, update: () => {} });
+      engine.world.registerSystem({ name: 'early', priority: 0, update: () => {}, before: ['late'] });
+
+      const result = await engine.commands.execute('schedule', { format: 'text' });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('1. early [0]\n2. late [100] - after early');
+    });
+
+    it('should fail schedule command for unknown world', async () => {
+      const result = await engine.commands.execute('schedule', { world: 'missing' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('missing');
+    });
+
+    it('should execute inspect command with text format', async () => {
+      const entity = engine.world.createEntity();
+      engine.world.addComponent(entity, Transform, new Transform(1, 2, 3));
+      engine.world.setEntityName(entity, 'Crate');
+
+      const list = await engine.commands.execute('inspect', { format: 'text' });
+      expect(list.output).toBe(`${entity} "Crate" [Transform]`);
+
+      const result = await engine.commands.execute('inspect', { entity: String(entity), format: 'text' });
+      expect(result.success).toBe(true);
+      expect(result.output).toContain(`Entity ${entity} "Crate"`);
+      expect(result.output).toContain('    y: 2 (Float32Array)');
+    });
+
+    it('should execute set command and report validation errors', async () => {
+      const entity = engine.world.createEntity();
+      engine.world.addComponent(entity, Transform, new Transform(1, 2, 3));
+
+      const result = await engine.commands.execute('set', { entity, path: 'Transform.x', value: '4' });
+      expect(result.success).toBe(true);
+      expect(result.output).toMatchObject({ previous: 1, value: 4 });
+      expect(engine.world.getComponent(entity, Transform)!.x).toBe(4);
+
+      const invalid = await engine.commands.execute('set', { entity, path: 'Velocity.vx', value: 1 });
+      expect(invalid.success).toBe(false);
+      expect(invalid.error).toContain('has no component Velocity');
+    });
+
     it('should execute pause/resume commands', async () => {
       engine.start();
 
@@ -127,6 +177,38 @@ describe('CommandSystem (Integration)', () => {
       engine.stop();
     });
 
+    it('should execute timescale command', async () => {
+      const result = await engine.commands.execute('timescale', { scale: '0.25' });
+      expect(result.success).toBe(true);
+      expect(result.output).toEqual({ timeScale: 0.25 });
+      expect(engine.getTimeScale()).toBe(0.25);
+
+      const override = await engine.commands.execute('ts', { scale: 1, phase: 'RENDER' });
+      expect(override.output).toEqual({ phase: 'RENDER', timeScale: 1 });
+
+      const invalid = await engine.commands.execute('timescale', { scale: -1 });
+      expect(invalid.success).toBe(false);
+    });
+
+    it('should step the paused engine', async () => {
+      const frames: number[] = [];
+      engine.registerSystem({ name: 'counter', phase: SystemPhase.UPDATE, update: (dt) => frames.push(dt) });
+      engine.start();
+      engine.pause();
+      frames.length = 0;
+
+      const result = await engine.commands.execute('step', { frames: '3' });
+      expect(result.success).toBe(true);
+      expect(frames).toHaveLength(3);
+      expect(frames[0]).toBeCloseTo(1 / 60);
+
+      engine.resume();
+      const running = await engine.commands.execute('step', {});
+      expect(running.success).toBe(false);
+      expect(running.error).toContain('Cannot step');
+      engine.stop();
+    });
+
     it('should resolve echo alias', async () => {
       const result = await engine.commands.execute('print', { message: 'test' });
 
@@ -135,6 +217,34 @@ describe('CommandSystem (Integration)', () => {
     });
   });
 
+  describe('Console Lines', () => {
+    it('should execute built-in commands from a console line', async () => {
+      const result = await engine.commands.executeLine('echo "Hello, World!"');
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('Hello, World!');
+    });
+
+    it('should include usage and arguments in help output', async () => {
+      const result = await engine.commands.executeLine('help set');
+
+      expect(result.success).toBe(true);
+      expect(result.output).toMatchObject({
+        name: 'set',
+        usage: 'set <entity> <path> <value> [--world <string>]',
+      });
+    });
+
+    it('should complete entity IDs and world names', () => {
+      const entity = engine.world.createEntity();
+      engine.createWorld('preview');
+
+      expect(engine.commands.completeArgument('inspect', 'entity', '')).toContain(String(entity));
+      expect(engine.commands.completeArgument('inspect', 'world', 'pr')).toEqual(['preview']);
+      expect(engine.commands.completeArgument('config', 'section', 'p')).toEqual(['physics', 'performance', 'plugins']);
+    });
+  });
+
   describe('Custom Commands', () => {
     it('should register custom command', () => {
       const command: CommandDefinition = {
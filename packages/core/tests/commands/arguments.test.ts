@@ -0,0 +1,176 @@
+/**
+ * Tests for console argument parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  completeCommandArgument,
+  describeCommandArguments,
+  formatCommandUsage,
+  parseCommandArguments,
+  tokenizeCommandLine,
+} from '../../src/commands/arguments';
+import type { CommandDefinition } from '../../src/commands/types';
+
+function createCommand(overrides: Partial<CommandDefinition> = {}): CommandDefinition {
+  return {
+    name: 'spawn',
+    description: 'Spawn an entity',
+    schema: z.object({
+      type: z.string(),
+      count: z.number().int().optional().default(1),
+      team: z.enum(['red', 'blue']).optional(),
+      frozen: z.boolean().optional(),
+      tags: z.array(z.string()).optional(),
+      offset: z.object({ x: z.number() }).optional(),
+    }),
+    positional: ['type', 'count'],
+    handler: () => ({ success: true, executionTime: 0 }),
+    ...overrides,
+  };
+}
+
+describe('tokenizeCommandLine', () => {
+  it('should split on whitespace', () => {
+    expect(tokenizeCommandLine('  set  12 Transform.x\t5 ')).toEqual(['set', '12', 'Transform.x', '5']);
+  });
+
+  it('should group quoted text', () => {
+    expect(tokenizeCommandLine(`echo "hello world" 'it''s' --name="a b"`)).toEqual([
+      'echo',
+      'hello world',
+      'its',
+      '--name=a b',
+    ]);
+  });
+
+  it('should keep empty quoted tokens and escaped characters', () => {
+    expect(tokenizeCommandLine('echo "" a\\ b "say \\"hi\\""')).toEqual(['echo', '', 'a b', 'say "hi"']);
+  });
+
+  it('should reject unterminated quotes', () => {
+    expect(() => tokenizeCommandLine('echo "oops')).toThrow('Unterminated " quote');
+  });
+});
+
+describe('parseCommandArguments', () => {
+  it('should map positional arguments in order and coerce numbers', () => {
+    expect(parseCommandArguments(createCommand(), ['goblin', '3'])).toEqual({ type: 'goblin', count: 3 });
+  });
+
+  it('should accept --flag value and --flag=value', () => {
+    expect(parseCommandArguments(createCommand(), ['--type', 'goblin', '--count=2', '--team=red'])).toEqual({
+      type: 'goblin',
+      count: 2,
+      team: 'red',
+    });
+  });
+
+  it('should fill the next free positional when earlier ones are flags', () => {
+    const command = createCommand({ positional: ['type', 'team'] });
+    expect(parseCommandArguments(command, ['--type', 'goblin', 'blue'])).toEqual({ type: 'goblin', team: 'blue' });
+  });
+
+  it('should treat boolean flags as switches', () => {
+    expect(parseCommandArguments(createCommand(), ['goblin', '--frozen'])).toMatchObject({ frozen: true });
+    expect(parseCommandArguments(createCommand(), ['goblin', '--no-frozen'])).toMatchObject({ frozen: false });
+    expect(parseCommandArguments(createCommand(), ['goblin', '--frozen=off'])).toMatchObject({ frozen: false });
+  });
+
+  it('should collect repeated array flags', () => {
+    expect(parseCommandArguments(createCommand(), ['goblin', '--tags', 'a', '--tags=b'])).toMatchObject({
+      tags: ['a', 'b'],
+    });
+  });
+
+  it('should give remaining positionals to a trailing array argument', () => {
+    const command = createCommand({ positional: ['type', 'tags'] });
+    expect(parseCommandArguments(command, ['goblin', 'a', 'b'])).toEqual({ type: 'goblin', tags: ['a', 'b'] });
+  });
+
+  it('should parse JSON for object arguments', () => {
+    expect(parseCommandArguments(createCommand(), ['goblin', '--offset={"x":1}'])).toMatchObject({
+      offset: { x: 1 },
+    });
+  });
+
+  it('should pass values that do not coerce through for validation', () => {
+    expect(parseCommandArguments(createCommand(), ['goblin', 'many'])).toEqual({ type: 'goblin', count: 'many' });
+  });
+
+  it('should treat tokens after -- as positional', () => {
+    expect(parseCommandArguments(createCommand(), ['--', '--weird', '2'])).toEqual({ type: '--weird', count: 2 });
+  });
+
+  it('should reject unknown options', () => {
+    expect(() => parseCommandArguments(createCommand(), ['goblin', '--colour', 'red'])).toThrow(
+      "Unknown option '--colour'"
+    );
+  });
+
+  it('should reject options without a value', () => {
+    expect(() => parseCommandArguments(createCommand(), ['goblin', '--team'])).toThrow(
+      "Option '--team' requires a value"
+    );
+  });
+
+  it('should reject extra positional arguments', () => {
+    expect(() => parseCommandArguments(createCommand(), ['goblin', '1', 'extra'])).toThrow(
+      "Unexpected argument 'extra'"
+    );
+  });
+
+  it('should reject missing required arguments', () => {
+    expect(() => parseCommandArguments(createCommand(), [])).toThrow("Missing argument 'type'");
+  });
+});
+
+describe('describeCommandArguments', () => {
+  it('should list positional arguments first with types', () => {
+    const command = createCommand({
+      schema: z.object({
+        team: z.enum(['red', 'blue']).optional(),
+        type: z.string().describe('Prefab name'),
+      }),
+      positional: ['type'],
+    });
+
+    expect(describeCommandArguments(command)).toEqual([
+      { name: 'type', type: 'string', required: true, position: 0, description: 'Prefab name' },
+      { name: 'team', type: 'enum', required: false, values: ['red', 'blue'] },
+    ]);
+  });
+
+  it('should return no arguments for non-object schemas', () => {
+    expect(describeCommandArguments(createCommand({ schema: z.string(), positional: [] }))).toEqual([]);
+  });
+});
+
+describe('formatCommandUsage', () => {
+  it('should show positionals, then flags', () => {
+    expect(formatCommandUsage(createCommand())).toBe(
+      'spawn <type> [count] [--team <red|blue>] [--frozen] [--tags <array>] [--offset <json>]'
+    );
+  });
+
+  it('should show the command name alone without arguments', () => {
+    expect(formatCommandUsage(createCommand({ schema: z.object({}), positional: [] }))).toBe('spawn');
+  });
+});
+
+describe('completeCommandArgument', () => {
+  it('should suggest enum and boolean values', () => {
+    expect(completeCommandArgument(createCommand(), 'team', 'r')).toEqual(['red']);
+    expect(completeCommandArgument(createCommand(), 'frozen', '')).toEqual(['true', 'false']);
+  });
+
+  it('should use completion providers and filter by prefix', () => {
+    const command = createCommand({ completions: { type: () => ['goblin', 'ghoul', 'shoggoth'] } });
+    expect(completeCommandArgument(command, 'type', 'g')).toEqual(['goblin', 'ghoul']);
+  });
+
+  it('should return nothing for unknown arguments', () => {
+    expect(completeCommandArgument(createCommand(), 'missing', '')).toEqual([]);
+  });
+});
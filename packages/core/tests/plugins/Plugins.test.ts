@@ -0,0 +1,133 @@
+/**
+ * Tests for the engine plugin system
+ *
+ * Coverage:
+ * - Dependency-ordered installation
+ * - Registration of systems, components, commands and loaders
+ * - Config validation
+ * - Lifecycle hooks
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+import type { Component } from '@miskatonic/ecs';
+import type { ResourceLoader } from '@miskatonic/resources';
+import { MiskatonicEngine } from '../../src/MiskatonicEngine';
+import { SystemPhase } from '../../src/GameLoop';
+import type { Plugin } from '../../src/plugins/types';
+
+class Wind implements Component {
+  readonly __componentType = 'Wind';
+  speed = 0;
+  heading = 0;
+}
+
+describe('Plugins', () => {
+  let engine: MiskatonicEngine;
+
+  beforeEach(async () => {
+    engine = await MiskatonicEngine.create({
+      physics: null, // Disable physics for faster tests
+      plugins: { weather: { rainChance: 0.5 } },
+    });
+  });
+
+  it('should install plugins after their dependencies and register their features', async () => {
+    const order: string[] = [];
+    const loader: ResourceLoader = { type: 'weather-preset', load: vi.fn() };
+    const registerLoader = vi.spyOn(engine.resources, 'registerLoader');
+    const installed: string[] = [];
+    engine.events.on('engine:plugin-installed', (event) => { installed.push(event.pluginName); });
+
+    const weather: Plugin<{ rainChance: number }> = {
+      name: 'weather',
+      dependencies: ['wind'],
+      configSchema: z.object({ rainChance: z.number().min(0).max(1) }),
+      install: ({ config, registerSystem, registerCommand, registerLoader }) => {
+        order.push(`weather:${config.rainChance}`);
+        registerSystem({ name: 'weather', phase: SystemPhase.UPDATE, update: () => {} });
+        registerCommand({
+          name: 'rain',
+          description: 'Start rain',
+          schema: z.object({}),
+          handler: () => ({ success: true, executionTime: 0 }),
+        });
+        registerLoader(loader);
+      },
+    };
+    const wind: Plugin = {
+      name: 'wind',
+      install: ({ registerComponent }) => {
+        order.push('wind');
+        registerComponent(Wind);
+      },
+    };
+
+    engine.use(weather);
+    engine.use(wind);
+    await engine.initialize();
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(order).toEqual(['wind', 'weather:0.5']);
+    expect(engine.plugins.getInstalled()).toEqual(['wind', 'weather']);
+    expect(installed).toEqual(['wind', 'weather']);
+    expect(engine.world.getComponentRegistry().isRegistered(Wind)).toBe(true);
+    expect(engine.commands.listCommands()).toContain('rain');
+    expect(registerLoader).toHaveBeenCalledWith(loader);
+    expect(engine.getConfig().plugins.weather).toEqual({ rainChance: 0.5 });
+
+    await engine.shutdown();
+  });
+
+  it('should apply schema defaults and reject invalid config', async () => {
+    const seen: unknown[] = [];
+    engine.use({
+      name: 'fog',
+      configSchema: z.object({ density: z.number().default(0.2) }).default({}),
+      install: ({ config }) => { seen.push(config); },
+    });
+    await engine.initialize();
+    expect(seen).toEqual([{ density: 0.2 }]);
+
+    const invalid = await MiskatonicEngine.create({ physics: null, plugins: { weather: { rainChance: 2 } } });
+    invalid.use({ name: 'weather', configSchema: z.object({ rainChance: z.number().max(1) }), install: () => {} });
+    await expect(invalid.initialize()).rejects.toThrow(/Invalid config for plugin 'weather': rainChance/);
+  });
+
+  it('should reject missing dependencies, cycles and late registration', async () => {
+    engine.use({ name: 'a', dependencies: ['b'], install: () => {} });
+    engine.use({ name: 'b', dependencies: ['a'], install: () => {} });
+    expect(() => engine.use({ name: 'a', install: () => {} })).toThrow(/already registered/);
+    await expect(engine.initialize()).rejects.toThrow('Plugin dependency cycle: a -> b -> a');
+
+    const missing = await MiskatonicEngine.create({ physics: null });
+    missing.use({ name: 'a', dependencies: ['c'], install: () => {} });
+    await expect(missing.initialize()).rejects.toThrow(/depends on 'c', which is not registered/);
+
+    const late = await MiskatonicEngine.create({ physics: null });
+    await late.initialize();
+    expect(() => late.use({ name: 'a', install: () => {} })).toThrow(/Cannot register plugin/);
+    await late.shutdown();
+  });
+
+  it('should call lifecycle hooks, shutting down in reverse install order', async () => {
+    const calls: string[] = [];
+    const hooks = (name: string): Plugin => ({
+      name,
+      dependencies: name === 'b' ? ['a'] : [],
+      install: () => {},
+      onStart: () => { calls.push(`${name}:start`); },
+      onPause: () => { calls.push(`${name}:pause`); },
+      onShutdown: async () => { calls.push(`${name}:shutdown`); },
+    });
+    engine.use(hooks('b'));
+    engine.use(hooks('a'));
+    await engine.initialize();
+
+    engine.start();
+    engine.pause();
+    await engine.shutdown();
+
+    expect(calls).toEqual(['a:start', 'b:start', 'a:pause', 'b:pause', 'b:shutdown', 'a:shutdown']);
+  });
+});
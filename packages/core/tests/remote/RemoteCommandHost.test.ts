@@ -0,0 +1,165 @@
+/**
+ * Tests for RemoteCommandHost
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { EventBus } from '@miskatonic/events';
+import { CommandSystem } from '../../src/commands/CommandSystem';
+import { RemoteCommandHost } from '../../src/remote/RemoteCommandHost';
+import type { CommandDefinition, CommandEventMap } from '../../src/commands/types';
+import type { RemoteServerMessage } from '../../src/remote/types';
+
+describe('RemoteCommandHost', () => {
+  let events: EventBus<CommandEventMap>;
+  let commands: CommandSystem;
+  let host: RemoteCommandHost;
+
+  beforeEach(() => {
+    events = new EventBus<CommandEventMap>();
+    commands = new CommandSystem(events);
+    commands.register({
+      name: 'add',
+      description: 'Add two numbers',
+      schema: z.object({ a: z.number(), b: z.number() }),
+      positional: ['a', 'b'],
+      handler: (input: { a: number; b: number }) => ({
+        success: true,
+        output: input.a + input.b,
+        executionTime: 0,
+      }),
+    } as CommandDefinition);
+    host = new RemoteCommandHost(commands, events, { captureConsole: false });
+    host.start();
+  });
+
+  afterEach(() => {
+    host.stop();
+  });
+
+  describe('Requests', () => {
+    it('should execute commands with input', async () => {
+      const response = await host.request({ type: 'execute', id: 1, command: 'add', input: { a: 2, b: 3 } });
+
+      expect(response).toMatchObject({ type: 'result', id: 1, result: { success: true, output: 5 } });
+    });
+
+    it('should execute command lines', async () => {
+      const response = await host.request({ type: 'execute-line', id: 'a', line: 'add 4 5' });
+
+      expect(response).toMatchObject({ type: 'result', id: 'a', result: { success: true, output: 9 } });
+    });
+
+    it('should list commands with usage', async () => {
+      const response = await host.request({ type: 'list-commands', id: 2 });
+
+      expect(response.type).toBe('result');
+      const output = (response as Extract<RemoteServerMessage, { type: 'result' }>).result.output;
+      expect(output).toEqual([expect.objectContaining({ name: 'add', usage: 'add <a> <b>' })]);
+    });
+
+    it('should return command failures as results', async () => {
+      const response = await host.request({ type: 'execute', id: 3, command: 'missing' });
+
+      expect(response).toMatchObject({ type: 'result', id: 3, result: { success: false } });
+    });
+
+    it('should reject malformed requests', async () => {
+      const response = await host.request({ type: 'execute', id: 4 });
+
+      expect(response.type).toBe('error');
+      expect(response).toMatchObject({ id: 4 });
+      expect((response as { error: string }).error).toMatch(/^Invalid request: command/);
+    });
+
+    it('should run commands as a remote user', async () => {
+      const handler = vi.fn(() => ({ success: true, executionTime: 0 }));
+      commands.register({ name: 'whoami', description: 'Test', schema: z.object({}), handler });
+
+      const client = host.connect(() => {});
+      await client.receive({ type: 'execute', id: 1, command: 'whoami' });
+
+      expect(handler).toHaveBeenCalledWith(
+        {},
+        expect.objectContaining({ userId: 'remote:1', metadata: { source: 'remote' } })
+      );
+    });
+  });
+
+  describe('Clients', () => {
+    it('should send responses to the requesting client only', async () => {
+      const first: RemoteServerMessage[] = [];
+      const second: RemoteServerMessage[] = [];
+      const client = host.connect((message) => first.push(message));
+      host.connect((message) => second.push(message));
+
+      await client.receive({ type: 'execute', id: 1, command: 'add', input: { a: 1, b: 1 } });
+
+      expect(first.filter(m => m.type === 'result')).toHaveLength(1);
+      expect(second.filter(m => m.type === 'result')).toHaveLength(0);
+    });
+
+    it('should stream command events to every client', async () => {
+      const received: RemoteServerMessage[] = [];
+      host.connect((message) => received.push(message));
+
+      await commands.execute('add', { a: 1, b: 2 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(received).toContainEqual({
+        type: 'event',
+        event: expect.objectContaining({ type: 'command:executed', commandName: 'add', success: true }),
+      });
+    });
+
+    it('should stop sending after a client closes', async () => {
+      const received: RemoteServerMessage[] = [];
+      const client = host.connect((message) => received.push(message));
+
+      client.close();
+      host.log('info', 'hello');
+
+      expect(received).toHaveLength(0);
+      expect(host.getClientCount()).toBe(0);
+    });
+
+    it('should keep broadcasting when a client throws', () => {
+      const received: RemoteServerMessage[] = [];
+      host.connect(() => {
+        throw new Error('Socket closed');
+      });
+      host.connect((message) => received.push(message));
+
+      host.log('warn', 'careful');
+
+      expect(received).toEqual([expect.objectContaining({ type: 'log', level: 'warn', message: 'careful' })]);
+    });
+  });
+
+  describe('Console Capture', () => {
+    it('should stream console output and restore the console on stop', () => {
+      const original = console.warn;
+      const spy = vi.fn();
+      console.warn = spy;
+
+      try {
+        const capturing = new RemoteCommandHost(commands, events);
+        const received: RemoteServerMessage[] = [];
+        capturing.start();
+        capturing.connect((message) => received.push(message));
+
+        console.warn('low health', { hp: 3 });
+
+        expect(spy).toHaveBeenCalledWith('low health', { hp: 3 });
+        expect(received).toEqual([
+          expect.objectContaining({ type: 'log', level: 'warn', message: 'low health {"hp":3}' }),
+        ]);
+
+        capturing.stop();
+        expect(console.warn).toBe(spy);
+      } finally {
+        console.warn = original;
+      }
+    });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Tests for RemoteCommandServer
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { request as httpRequest } from 'http';
+import { z } from 'zod';
+import { WebSocket } from 'ws';
+import { EventBus } from '@miskatonic/events';
+import { CommandSystem } from '../../src/commands/CommandSystem';
+import { RemoteCommandHost } from '../../src/remote/RemoteCommandHost';
+import { RemoteCommandServer } from '../../src/remote/RemoteCommandServer';
+import type { CommandDefinition, CommandEventMap } from '../../src/commands/types';
+import type { RemoteServerMessage } from '../../src/remote/types';
+
+/**
+ * Open a WebSocket and collect its messages
+ */
+async function connect(url: string, headers?: Record<string, string>) {
+  const socket = new WebSocket(url, { headers });
+  const messages: RemoteServerMessage[] = [];
+  socket.on('message', (data) => messages.push(JSON.parse(data.toString())));
+  await new Promise<void>((resolve, reject) => {
+    socket.once('open', () => resolve());
+    socket.once('error', reject);
+  });
+  return { socket, messages };
+}
+
+/**
+ * Wait until a predicate holds
+ */
+async function waitUntil(predicate: () => boolean, timeout = 1000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+/**
+ * GET with a custom Host header (fetch doesn't allow overriding it)
+ */
+function getWithHost(port: number, path: string, host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = httpRequest({ host: '127.0.0.1', port, path, headers: { host } }, (res) => {
+      res.resume();
+      resolve(res.statusCode!);
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+describe('RemoteCommandServer', () => {
+  let events: EventBus<CommandEventMap>;
+  let commands: CommandSystem;
+  let host: RemoteCommandHost;
+  let server: RemoteCommandServer;
+
+  beforeEach(() => {
+    events = new EventBus<CommandEventMap>();
+    commands = new CommandSystem(events);
+    commands.register({
+      name: 'add',
+      description: 'Add two numbers',
+      schema: z.object({ a: z.number(), b: z.number() }),
+      positional: ['a', 'b'],
+      handler: (input: { a: number; b: number }) => ({
+        success: true,
+        output: input.a + input.b,
+        executionTime: 0,
+      }),
+    } as CommandDefinition);
+    host = new RemoteCommandHost(commands, events, { captureConsole: false });
+    host.start();
+  });
+
+  afterEach(async () => {
+    await server?.stop();
+    host.stop();
+  });
+
+  describe('Lifecycle', () => {
+    it('should refuse to bind to non-loopback addresses', () => {
+      expect(() => new RemoteCommandServer(host, { host: '0.0.0.0' })).toThrow(
+        "Remote command server must bind to a loopback address (got '0.0.0.0')"
+      );
+    });
+
+    it('should start on a free port and stop', async () => {
+      server = new RemoteCommandServer(host, { port: 0 });
+      const port = await server.start();
+
+      expect(port).toBeGreaterThan(0);
+      expect(server.getUrl()).toBe(`http://127.0.0.1:${port}`);
+      await expect(server.start()).rejects.toThrow('Remote command server is already running');
+
+      await server.stop();
+      expect(server.getPort()).toBeNull();
+      await expect(fetch(`http://127.0.0.1:${port}/commands`)).rejects.toThrow();
+    });
+  });
+
+  describe('HTTP', () => {
+    let url: string;
+
+    beforeEach(async () => {
+      server = new RemoteCommandServer(host, { port: 0, maxMessageSize: 1024 });
+      await server.start();
+      url = server.getUrl()!;
+    });
+
+    it('should list commands', async () => {
+      const response = await fetch(`${url}/commands`);
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result.output).toEqual([expect.objectContaining({ name: 'add', usage: 'add <a> <b>' })]);
+    });
+
+    it('should execute commands and command lines', async () => {
+      const byInput = await fetch(`${url}/execute`, {
+        method: 'POST',
+        body: JSON.stringify({ command: 'add', input: { a: 1, b: 2 } }),
+      });
+      const byLine = await fetch(`${url}/execute`, {
+        method: 'POST',
+        body: JSON.stringify({ line: 'add 3 4' }),
+      });
+
+      expect(await byInput.json()).toMatchObject({ success: true, output: 3 });
+      expect(await byLine.json()).toMatchObject({ success: true, output: 7 });
+    });
+
+    it('should reject bad requests', async () => {
+      const invalidJson = await fetch(`${url}/execute`, { method: 'POST', body: '{' });
+      const invalidRequest = await fetch(`${url}/execute`, { method: 'POST', body: '{}' });
+      const tooLarge = await fetch(`${url}/execute`, {
+        method: 'POST',
+        body: JSON.stringify({ line: 'x'.repeat(2048) }),
+      });
+      const wrongMethod = await fetch(`${url}/execute`);
+      const notFound = await fetch(`${url}/missing`);
+
+      expect(invalidJson.status).toBe(400);
+      expect(invalidRequest.status).toBe(400);
+      expect(tooLarge.status).toBe(413);
+      expect(wrongMethod.status).toBe(405);
+      expect(notFound.status).toBe(404);
+    });
+
+    it('should reject foreign origins and hosts', async () => {
+      const response = await fetch(`${url}/commands`, { headers: { Origin: 'https://evil.example' } });
+
+      expect(response.status).toBe(403);
+      expect(await getWithHost(server.getPort()!, '/commands', 'evil.example')).toBe(403);
+      expect(await getWithHost(server.getPort()!, '/commands', `localhost:${server.getPort()}`)).toBe(200);
+    });
+  });
+
+  describe('Authentication', () => {
+    it('should require the token when configured', async () => {
+      server = new RemoteCommandServer(host, { port: 0, token: 'secret' });
+      await server.start();
+      const url = server.getUrl()!;
+
+      const missing = await fetch(`${url}/commands`);
+      const header = await fetch(`${url}/commands`, { headers: { Authorization: 'Bearer secret' } });
+      const query = await fetch(`${url}/commands?token=secret`);
+
+      expect(missing.status).toBe(401);
+      expect(header.status).toBe(200);
+      expect(query.status).toBe(200);
+
+      await expect(connect(`ws://127.0.0.1:${server.getPort()}/ws`)).rejects.toThrow(/401/);
+      const { socket } = await connect(`ws://127.0.0.1:${server.getPort()}/ws?token=secret`);
+      socket.close();
+    });
+
+    it('should allow configured origins', async () => {
+      server = new RemoteCommandServer(host, { port: 0, allowedOrigins: ['http://localhost:3000'] });
+      await server.start();
+
+      const response = await fetch(`${server.getUrl()}/commands`, {
+        headers: { Origin: 'http://localhost:3000' },
+      });
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('WebSocket', () => {
+    let wsUrl: string;
+
+    beforeEach(async () => {
+      server = new RemoteCommandServer(host, { port: 0 });
+      const port = await server.start();
+      wsUrl = `ws://127.0.0.1:${port}/ws`;
+    });
+
+    it('should answer requests and stream events and logs', async () => {
+      const { socket, messages } = await connect(wsUrl);
+
+      socket.send(JSON.stringify({ type: 'execute-line', id: 7, line: 'add 2 2' }));
+      await waitUntil(() => messages.some(m => m.type === 'result'));
+      host.log('info', 'tick');
+      await waitUntil(() => messages.some(m => m.type === 'log'));
+
+      expect(messages).toContainEqual({ type: 'result', id: 7, result: expect.objectContaining({ output: 4 }) });
+      expect(messages).toContainEqual({
+        type: 'event',
+        event: expect.objectContaining({ type: 'command:executed', commandName: 'add' }),
+      });
+      expect(messages).toContainEqual(expect.objectContaining({ type: 'log', level: 'info', message: 'tick' }));
+
+      socket.close();
+    });
+
+    it('should report invalid messages', async () => {
+      const { socket, messages } = await connect(wsUrl);
+
+      socket.send('not json');
+      socket.send(JSON.stringify({ type: 'unknown', id: 1 }));
+      await waitUntil(() => messages.length >= 2);
+
+      expect(messages[0]).toEqual({ type: 'error', error: 'Invalid JSON' });
+      expect(messages[1]).toMatchObject({ type: 'error', id: 1 });
+
+      socket.close();
+    });
+
+    it('should disconnect the host client when the socket closes', async () => {
+      const { socket } = await connect(wsUrl);
+      await waitUntil(() => host.getClientCount() === 1);
+
+      socket.close();
+      await waitUntil(() => host.getClientCount() === 0);
+    });
+
+    it('should reject foreign origins and other paths', async () => {
+      await expect(connect(wsUrl, { Origin: 'https://evil.example' })).rejects.toThrow(/403/);
+      await expect(connect(wsUrl.replace('/ws', '/other'))).rejects.toThrow(/404/);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for PhysicsSyncSystem interpolation
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World, Transform, TransformSystem, ComponentRegistry, type EntityId } from '@miskatonic/ecs';
+import { PhysicsSyncSystem } from '../../src/systems/PhysicsSyncSystem';
+import { PhysicsBody } from '../../src/components/PhysicsBody';
+import type { IPhysicsAdapter, Quaternion, Vector3 } from '../../src/systems/IPhysicsAdapter';
+
+ComponentRegistry.autoRegister(PhysicsBody, new PhysicsBody(0));
+
+describe('PhysicsSyncSystem', () => {
+  let world: World;
+  let sync: PhysicsSyncSystem;
+  let entity: EntityId;
+  let position: Vector3;
+  let rotation: Quaternion;
+
+  beforeEach(() => {
+    position = { x: 0, y: 0, z: 0 };
+    rotation = { x: 0, y: 0, z: 0, w: 1 };
+    const adapter: IPhysicsAdapter = {
+      getPosition: () => ({ ...position }),
+      getRotation: () => ({ ...rotation }),
+    };
+
+    world = new World();
+    sync = new PhysicsSyncSystem(adapter, new TransformSystem(world));
+    sync.init(world);
+
+    entity = world.createEntity();
+    world.addComponent(entity, Transform, new Transform(0, 0, 0, 0, 0, 0, 2, 2, 2));
+    world.addComponent(entity, PhysicsBody, new PhysicsBody(1));
+  });
+
+  it('should blend between the last two captured poses', () => {
+    sync.capturePoses(world);
+    position = { x: 10, y: 0, z: 0 };
+    rotation = { x: 0, y: Math.sin(Math.PI / 4), z: 0, w: Math.cos(Math.PI / 4) }; // 90° about Y
+    sync.capturePoses(world);
+
+    sync.interpolate(world, 0.5);
+    const matrix = sync.getInterpolatedWorldMatrix(entity)!;
+
+    expect(matrix[12]).toBeCloseTo(5);
+    // 45° about Y with scale 2
+    expect(matrix[0]).toBeCloseTo(2 * Math.cos(Math.PI / 4), 4);
+    expect(matrix[2]).toBeCloseTo(-2 * Math.sin(Math.PI / 4), 4);
+  });
+
+  it('should not blend in from the origin on the first capture', () => {
+    position = { x: 5, y: 1, z: 0 };
+    sync.capturePoses(world);
+    sync.interpolate(world, 0);
+
+    const matrix = sync.getInterpolatedWorldMatrix(entity)!;
+    expect(matrix[12]).toBeCloseTo(5);
+    expect(matrix[13]).toBeCloseTo(1);
+  });
+
+  it('should snap after resetInterpolation()', () => {
+    sync.capturePoses(world);
+    position = { x: 100, y: 0, z: 0 };
+    sync.resetInterpolation(entity);
+    sync.capturePoses(world);
+    sync.interpolate(world, 0);
+
+    expect(sync.getInterpolatedWorldMatrix(entity)![12]).toBeCloseTo(100);
+  });
+
+  it('should drop entities that lose their physics body', () => {
+    sync.capturePoses(world);
+    sync.interpolate(world, 0);
+    world.destroyEntity(entity);
+    sync.capturePoses(world);
+
+    expect(sync.getInterpolatedWorldMatrix(entity)).toBeUndefined();
+  });
+});
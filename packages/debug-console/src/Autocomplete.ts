@@ -3,18 +3,31 @@
  *
  * Provides command and parameter autocomplete suggestions
  * based on registered commands and current input.
+ *
+ * Commands registered with argument metadata also complete --flag names and
+ * argument values (enum values, entity IDs, config keys, ...).
  */
 
-import type { AutocompleteSuggestion } from './types';
+import type { CommandArgumentInfo } from '@miskatonic/core';
+import type { AutocompleteArguments, AutocompleteSuggestion } from './types';
 
 export class Autocomplete {
   private commands: Map<string, string> = new Map(); // command -> description
+  private commandArguments: Map<string, AutocompleteArguments> = new Map();
 
   /**
    * Register a command for autocomplete
+   *
+   * @param args - Argument metadata for argument completion
    */
-  registerCommand(name: string, description?: string): void {
+  registerCommand(name: string, description?: string, args?: AutocompleteArguments): void {
     this.commands.set(name, description || '');
+
+    if (args) {
+      this.commandArguments.set(name, args);
+    } else {
+      this.commandArguments.delete(name);
+    }
   }
 
   /**
@@ -22,6 +35,7 @@ export class Autocomplete {
    */
   unregisterCommand(name: string): void {
     this.commands.delete(name);
+    this.commandArguments.delete(name);
   }
 
   /**
@@ -40,17 +54,117 @@ export class Autocomplete {
     // Extract command and arguments
     const parts = trimmed.split(/\s+/);
     const commandPart = parts[0];
+    const args = this.commandArguments.get(commandPart);
+    const endsWithSpace = /\s$/.test(input);
+
+    // Command + space with argument metadata: suggest flags and values
+    if (args && (parts.length > 1 || endsWithSpace)) {
+      return this.getArgumentSuggestions(args, parts.slice(1), endsWithSpace);
+    }
 
     // If only typing command name (no space yet), suggest commands
     if (parts.length === 1) {
       return this.getCommandSuggestions(commandPart);
     }
 
-    // If command + space, could suggest parameters in future
-    // For now, just return empty (parameters are command-specific)
     return [];
   }
 
+  /**
+   * Get --flag and value suggestions for the argument being typed
+   *
+   * @param argTokens - Tokens after the command name
+   * @param endsWithSpace - Whether a new (empty) token has been started
+   */
+  private getArgumentSuggestions(
+    args: AutocompleteArguments,
+    argTokens: string[],
+    endsWithSpace: boolean
+  ): AutocompleteSuggestion[] {
+    const current = endsWithSpace ? '' : argTokens[argTokens.length - 1];
+    const previous = endsWithSpace ? argTokens : argTokens.slice(0, -1);
+    const byName = new Map(args.arguments.map(argument => [argument.name, argument]));
+
+    if (current.startsWith('--')) {
+      const separator = current.indexOf('=');
+
+      // --name=value
+      if (separator !== -1) {
+        const name = current.slice(2, separator);
+        const argument = byName.get(name);
+        return argument
+          ? this.getValueSuggestions(args, argument, current.slice(separator + 1), `--${name}=`)
+          : [];
+      }
+
+      // Flag names not used yet
+      const used = new Set(previous.filter(token => token.startsWith('--')).map(token => token.slice(2).split('=')[0]));
+      return args.arguments
+        .filter(argument => !used.has(argument.name) && `--${argument.name}`.startsWith(current))
+        .map(argument => ({
+          text: `--${argument.name}`,
+          description: argument.description ?? (argument.values ? argument.values.join('|') : argument.type),
+          type: 'parameter' as const,
+        }));
+    }
+
+    // Value of a preceding --flag
+    const last = previous[previous.length - 1];
+    if (last?.startsWith('--') && !last.includes('=')) {
+      const argument = byName.get(last.slice(2));
+      if (argument && argument.type !== 'boolean') {
+        return this.getValueSuggestions(args, argument, current, '');
+      }
+    }
+
+    // Positional: count earlier positionals, skipping arguments given as flags
+    const flagged = new Set<string>();
+    let positionalCount = 0;
+    for (let i = 0; i < previous.length; i++) {
+      const token = previous[i];
+      if (!token.startsWith('--')) {
+        positionalCount++;
+        continue;
+      }
+
+      const name = token.slice(2).split('=')[0];
+      flagged.add(name);
+      if (!token.includes('=') && byName.get(name)?.type !== 'boolean') {
+        i++; // Skip the flag's value
+      }
+    }
+
+    const positional = args.arguments.filter(
+      argument => argument.position !== undefined && !flagged.has(argument.name)
+    );
+    const lastPositional = positional[positional.length - 1];
+    const argument = positional[positionalCount] ?? (lastPositional?.type === 'array' ? lastPositional : undefined);
+
+    return argument ? this.getValueSuggestions(args, argument, current, '') : [];
+  }
+
+  /**
+   * Get value suggestions for one argument
+   *
+   * @param textPrefix - Prepended to each suggestion (e.g. '--world=')
+   */
+  private getValueSuggestions(
+    args: AutocompleteArguments,
+    argument: CommandArgumentInfo,
+    prefix: string,
+    textPrefix: string
+  ): AutocompleteSuggestion[] {
+    const values = args.complete ? args.complete(argument.name, prefix) : argument.values ?? [];
+
+    return values
+      .filter(value => value.startsWith(prefix))
+      .map(value => ({
+        text: `${textPrefix}${value}`,
+        description: argument.name,
+        type: 'value' as const,
+      }));
+  }
+
   /**
    * Get command suggestions matching the prefix
    */
@@ -90,8 +204,15 @@ export class Autocomplete {
     }
 
     const parts = trimmed.split(/\s+/);
+    const args = this.commandArguments.get(parts[0]);
+    const endsWithSpace = /\s$/.test(input);
+
+    if (args && (parts.length > 1 || endsWithSpace)) {
+      return this.getArgumentTabCompletion(input, args, parts.slice(1), endsWithSpace);
+    }
+
     if (parts.length > 1) {
-      return null; // Only complete command names, not parameters
+      return null; // Commands without argument metadata only complete their name
     }
 
     const suggestions = this.getCommandSuggestions(parts[0]);
@@ -128,6 +249,37 @@ export class Autocomplete {
     return null;
   }
 
+  /**
+   * Complete the argument being typed, returning the whole input line
+   */
+  private getArgumentTabCompletion(
+    input: string,
+    args: AutocompleteArguments,
+    argTokens: string[],
+    endsWithSpace: boolean
+  ): string | null {
+    const current = endsWithSpace ? '' : argTokens[argTokens.length - 1];
+    const texts = this.getArgumentSuggestions(args, argTokens, endsWithSpace).map(s => s.text);
+
+    if (texts.length === 0) {
+      return null;
+    }
+
+    // Longest prefix shared by every suggestion
+    let common = texts[0];
+    for (const text of texts) {
+      while (!text.startsWith(common)) {
+        common = common.slice(0, -1);
+      }
+    }
+
+    if (common.length <= current.length) {
+      return null;
+    }
+
+    return input.slice(0, input.length - current.length) + common;
+  }
+
   /**
    * Get all registered commands
    */
@@ -140,5 +292,6 @@ export class Autocomplete {
    */
   clear(): void {
     this.commands.clear();
+    this.commandArguments.clear();
   }
 }
@@ -3,10 +3,14 @@
  *
  * Manages command history with circular buffer and localStorage persistence.
  * Supports up/down arrow navigation like a traditional shell.
+ * Also stores named command macros (persisted under `${storageKey}:macros`).
  */
 
+import type { CommandMacro } from '@miskatonic/core';
+
 export class CommandHistory {
   private history: string[] = [];
+  private macros: Map<string, CommandMacro> = new Map();
   private maxSize: number;
   private currentIndex: number = -1; // -1 means no history navigation active
   private temporaryCommand: string = ''; // Stores current input when navigating history
@@ -20,6 +24,7 @@ export class CommandHistory {
 
     if (this.persistEnabled) {
       this.loadFromStorage();
+      this.loadMacrosFromStorage();
     }
   }
 
@@ -137,6 +142,46 @@ export class CommandHistory {
     return this.history.filter(cmd => cmd.startsWith(prefix));
   }
 
+  /**
+   * Save a macro, replacing any macro with the same name
+   */
+  saveMacro(macro: CommandMacro): void {
+    this.macros.set(macro.name, macro);
+
+    if (this.persistEnabled) {
+      this.saveMacrosToStorage();
+    }
+  }
+
+  /**
+   * Get a macro by name
+   */
+  getMacro(name: string): CommandMacro | undefined {
+    return this.macros.get(name);
+  }
+
+  /**
+   * Get all macro names
+   */
+  listMacros(): string[] {
+    return Array.from(this.macros.keys());
+  }
+
+  /**
+   * Delete a macro
+   *
+   * @returns true if the macro existed
+   */
+  deleteMacro(name: string): boolean {
+    const deleted = this.macros.delete(name);
+
+    if (deleted && this.persistEnabled) {
+      this.saveMacrosToStorage();
+    }
+
+    return deleted;
+  }
+
   /**
    * Save history to localStorage
    */
@@ -180,4 +225,48 @@ export class CommandHistory {
       // Silently fail if we can't load - not critical
     }
   }
+
+  /**
+   * Save macros to localStorage
+   */
+  private saveMacrosToStorage(): void {
+    if (typeof localStorage === 'undefined') {
+      return; // Not in browser environment
+    }
+
+    try {
+      localStorage.setItem(`${this.storageKey}:macros`, JSON.stringify(Array.from(this.macros.values())));
+    } catch (error) {
+      if (typeof window !== 'undefined' && (window as any).__ORIGINAL_CONSOLE__) {
+        (window as any).__ORIGINAL_CONSOLE__.warn('Failed to save command macros:', error);
+      }
+    }
+  }
+
+  /**
+   * Load macros from localStorage
+   */
+  private loadMacrosFromStorage(): void {
+    if (typeof localStorage === 'undefined') {
+      return; // Not in browser environment
+    }
+
+    try {
+      const stored = localStorage.getItem(`${this.storageKey}:macros`);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed)) {
+          for (const macro of parsed) {
+            if (typeof macro?.name === 'string' && Array.isArray(macro.steps)) {
+              this.macros.set(macro.name, macro);
+            }
+          }
+        }
+      }
+    } catch (error) {
+      if (typeof window !== 'undefined' && (window as any).__ORIGINAL_CONSOLE__) {
+        (window as any).__ORIGINAL_CONSOLE__.warn('Failed to load command macros:', error);
+      }
+    }
+  }
 }
@@ -6,6 +6,7 @@
  */
 
 import { CommandSystem } from '@miskatonic/core';
+import type { CommandMacro } from '@miskatonic/core';
 import { CommandHistory } from './CommandHistory';
 import { Autocomplete } from './Autocomplete';
 import type { ConsoleConfig, LogEntry } from './types';
@@ -217,8 +218,17 @@ export class DebugConsole {
     this.history.add(command);
 
     try {
-      // Execute via command system
-      await this.commandSystem.execute(command, {});
+      // Parse arguments and execute via command system
+      const result = await this.commandSystem.executeLine(command);
+
+      if (!result.success) {
+        this.log(`Error: ${result.error}`, LogLevel.ERROR);
+      } else if (result.output !== undefined) {
+        this.log(
+          typeof result.output === 'string' ? result.output : JSON.stringify(result.output, null, 2),
+          LogLevel.INFO
+        );
+      }
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       this.log(`Error: ${errorMsg}`, LogLevel.ERROR);
@@ -254,6 +264,69 @@ export class DebugConsole {
     this.history.clear();
   }
 
+  /**
+   * Start recording executed commands into a named macro
+   */
+  startMacroRecording(name: string): void {
+    this.commandSystem.startMacroRecording(name);
+    this.log(`Recording macro '${name}'`, LogLevel.INFO);
+  }
+
+  /**
+   * Stop recording and store the macro in the command history
+   *
+   * @returns Recorded macro
+   */
+  stopMacroRecording(): CommandMacro {
+    const macro = this.commandSystem.stopMacroRecording();
+    this.history.saveMacro(macro);
+    this.log(`Saved macro '${macro.name}' (${macro.steps.length} commands)`, LogLevel.INFO);
+    return macro;
+  }
+
+  /**
+   * Play a stored macro as one undoable transaction
+   *
+   * @returns true if every command succeeded
+   */
+  async playMacro(name: string): Promise<boolean> {
+    const macro = this.history.getMacro(name);
+    if (!macro) {
+      this.log(`Error: Macro '${name}' not found`, LogLevel.ERROR);
+      return false;
+    }
+
+    this.log(`> macro ${name}`, LogLevel.INFO);
+
+    try {
+      const result = await this.commandSystem.playMacro(macro);
+      if (!result.success) {
+        this.log(`Error: ${result.error}`, LogLevel.ERROR);
+      }
+      return result.success;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log(`Error: ${errorMsg}`, LogLevel.ERROR);
+      return false;
+    }
+  }
+
+  /**
+   * Get stored macro names
+   */
+  listMacros(): string[] {
+    return this.history.listMacros();
+  }
+
+  /**
+   * Delete a stored macro
+   *
+   * @returns true if the macro existed
+   */
+  deleteMacro(name: string): boolean {
+    return this.history.deleteMacro(name);
+  }
+
   /**
    * Get autocomplete suggestions for input
    */
@@ -589,7 +662,10 @@ export class DebugConsole {
 
     this.autocomplete.clear();
     for (const cmd of commands) {
-      this.autocomplete.registerCommand(cmd.name, cmd.description);
+      this.autocomplete.registerCommand(cmd.name, cmd.description, {
+        arguments: this.commandSystem.getCommandArguments(cmd.name) ?? [],
+        complete: (argument, prefix) => this.commandSystem.completeArgument(cmd.name, argument, prefix),
+      });
     }
   }
 
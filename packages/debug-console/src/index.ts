@@ -14,5 +14,6 @@ export type {
   LogLevel,
   LogEntry,
   AutocompleteSuggestion,
+  AutocompleteArguments,
 } from './types';
 export { DEFAULT_CONSOLE_CONFIG } from './types';
@@ -2,6 +2,8 @@
  * Debug Console Types
  */
 
+import type { CommandArgumentInfo } from '@miskatonic/core';
+
 /**
  * Log level for console messages
  */
@@ -95,5 +97,16 @@ export const DEFAULT_CONSOLE_CONFIG: Required<ConsoleConfig> = {
 export interface AutocompleteSuggestion {
   text: string;
   description?: string;
-  type: 'command' | 'parameter';
+  /** Command name, --flag name, or argument value */
+  type: 'command' | 'parameter' | 'value';
+}
+
+/**
+ * Argument metadata used for argument completion
+ */
+export interface AutocompleteArguments {
+  /** Argument descriptions (CommandSystem.getCommandArguments()) */
+  arguments: CommandArgumentInfo[];
+  /** Suggest values for an argument (CommandSystem.completeArgument()) */
+  complete?: (argument: string, prefix: string) => string[];
 }
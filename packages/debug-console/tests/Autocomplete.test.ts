@@ -176,4 +176,70 @@ describe('Autocomplete', () => {
       expect(suggestions.map(s => s.text)).toContain(longName);
     });
   });
+
+  describe('argument completion', () => {
+    beforeEach(() => {
+      autocomplete.registerCommand('inspect', 'Inspect entities', {
+        arguments: [
+          { name: 'entity', type: 'number', required: false, position: 0 },
+          { name: 'world', type: 'string', required: false },
+          { name: 'format', type: 'enum', required: false, values: ['json', 'text'] },
+          { name: 'verbose', type: 'boolean', required: false },
+        ],
+        complete: (argument) => {
+          if (argument === 'entity') return ['1', '12', '20'];
+          if (argument === 'world') return ['main', 'preview'];
+          return argument === 'format' ? ['json', 'text'] : [];
+        },
+      });
+    });
+
+    it('should suggest positional values after the command', () => {
+      const suggestions = autocomplete.getSuggestions('inspect 1');
+      expect(suggestions.map(s => s.text)).toEqual(['1', '12']);
+      expect(suggestions[0]).toMatchObject({ type: 'value', description: 'entity' });
+    });
+
+    it('should suggest values once a space is typed', () => {
+      expect(autocomplete.getSuggestions('inspect ').map(s => s.text)).toEqual(['1', '12', '20']);
+    });
+
+    it('should suggest unused flag names', () => {
+      const suggestions = autocomplete.getSuggestions('inspect 12 --format json --');
+      expect(suggestions.map(s => s.text)).toEqual(['--entity', '--world', '--verbose']);
+      expect(suggestions[0].type).toBe('parameter');
+    });
+
+    it('should suggest values for a preceding flag', () => {
+      expect(autocomplete.getSuggestions('inspect --world p').map(s => s.text)).toEqual(['preview']);
+    });
+
+    it('should suggest values after --flag=', () => {
+      expect(autocomplete.getSuggestions('inspect --format=t').map(s => s.text)).toEqual(['--format=text']);
+    });
+
+    it('should skip flag values when counting positionals', () => {
+      expect(autocomplete.getSuggestions('inspect --world main 2').map(s => s.text)).toEqual(['20']);
+      expect(autocomplete.getSuggestions('inspect 12 ')).toEqual([]);
+    });
+
+    it('should fall back to enum values without a completion provider', () => {
+      autocomplete.registerCommand('stats', 'Stats', {
+        arguments: [{ name: 'format', type: 'enum', required: false, position: 0, values: ['json', 'text'] }],
+      });
+      expect(autocomplete.getSuggestions('stats j').map(s => s.text)).toEqual(['json']);
+    });
+
+    it('should tab-complete argument values in the input line', () => {
+      expect(autocomplete.getTabCompletion('inspect --world p')).toBe('inspect --world preview');
+      expect(autocomplete.getTabCompletion('inspect 2')).toBe('inspect 20');
+      expect(autocomplete.getTabCompletion('inspect 1')).toBeNull(); // '1' and '12'
+    });
+
+    it('should forget arguments when unregistered', () => {
+      autocomplete.unregisterCommand('inspect');
+      autocomplete.registerCommand('inspect');
+      expect(autocomplete.getSuggestions('inspect 1')).toEqual([]);
+    });
+  });
 });
@@ -266,4 +266,60 @@ describe('CommandHistory', () => {
       expect(loadedHistory.getAll()).toEqual([]);
     });
   });
+
+  describe('macros', () => {
+    const macro = {
+      name: 'spawn-wave',
+      steps: [{ command: 'entity.spawn', input: { type: 'enemy' } }],
+    };
+
+    it('should save and get macros by name', () => {
+      history.saveMacro(macro);
+
+      expect(history.getMacro('spawn-wave')).toEqual(macro);
+      expect(history.listMacros()).toEqual(['spawn-wave']);
+    });
+
+    it('should replace macros with the same name', () => {
+      history.saveMacro(macro);
+      history.saveMacro({ name: 'spawn-wave', steps: [] });
+
+      expect(history.getMacro('spawn-wave')!.steps).toEqual([]);
+      expect(history.listMacros()).toHaveLength(1);
+    });
+
+    it('should delete macros', () => {
+      history.saveMacro(macro);
+
+      expect(history.deleteMacro('spawn-wave')).toBe(true);
+      expect(history.deleteMacro('spawn-wave')).toBe(false);
+      expect(history.getMacro('spawn-wave')).toBeUndefined();
+    });
+
+    it('should keep macros when history is cleared', () => {
+      history.saveMacro(macro);
+      history.clear();
+
+      expect(history.listMacros()).toEqual(['spawn-wave']);
+    });
+
+    it('should persist macros separately from history', () => {
+      const persistentHistory = new CommandHistory(5, 'test:macros', true);
+      persistentHistory.saveMacro(macro);
+
+      expect(localStorage.getItem('test:macros:macros')).toBe(JSON.stringify([macro]));
+
+      const loadedHistory = new CommandHistory(5, 'test:macros', true);
+      expect(loadedHistory.getMacro('spawn-wave')).toEqual(macro);
+      expect(loadedHistory.getAll()).toEqual([]);
+    });
+
+    it('should ignore malformed stored macros', () => {
+      localStorage.setItem('test:bad-macros:macros', JSON.stringify([{ name: 1 }, macro]));
+
+      const loadedHistory = new CommandHistory(5, 'test:bad-macros', true);
+
+      expect(loadedHistory.listMacros()).toEqual(['spawn-wave']);
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import type { Archetype, ComponentType, Component, EntityId } from './types';
-import { ComponentStorage } from './ComponentStorage';
+import { ComponentStorage, type ChangeClock } from './ComponentStorage';
 import { ComponentRegistry } from './ComponentRegistry';
 
 /**
@@ -17,9 +17,37 @@ export class ArchetypeManager {
   private archetypes: Map<string, Archetype> = new Map();
   private nextArchetypeId = 1;
   private readonly initialCapacity: number;
+  private readonly changeClock: ChangeClock = { tick: 1 };
+  private readonly registry: ComponentRegistry;
+  private readonly sharedStorage: boolean;
 
-  constructor(initialCapacity: number = 256) {
+  /**
+   * @param initialCapacity - Initial entity capacity per archetype
+   * @param registry - Component registry providing field layouts (default registry if omitted)
+   * @param sharedStorage - Back component arrays with SharedArrayBuffer (for worker systems)
+   */
+  constructor(
+    initialCapacity: number = 256,
+    registry: ComponentRegistry = ComponentRegistry.getDefault(),
+    sharedStorage: boolean = false
+  ) {
     this.initialCapacity = initialCapacity;
+    this.registry = registry;
+    this.sharedStorage = sharedStorage;
+  }
+
+  /**
+   * Check if component arrays are backed by SharedArrayBuffer
+   */
+  isSharedStorage(): boolean {
+    return this.sharedStorage;
+  }
+
+  /**
+   * Get the component registry used for storage layouts
+   */
+  getComponentRegistry(): ComponentRegistry {
+    return this.registry;
   }
 
   /**
@@ -39,7 +67,7 @@ export class ArchetypeManager {
 
     // Validate all component types are registered
     for (const type of sortedTypes) {
-      if (!ComponentRegistry.isRegistered(type)) {
+      if (!this.registry.isRegistered(type)) {
         throw new Error(
           `Component ${type.name} is not registered. ` +
             `Call ComponentRegistry.register(${type.name}, fields) or ` +
@@ -59,14 +87,20 @@ export class ArchetypeManager {
       components: new Map(),
     };
 
-    // Initialize component storage for each type
+    // Initialize component storage for each type (tags have none)
     for (const type of sortedTypes) {
-      const fields = ComponentRegistry.getFields(type);
+      const fields = this.registry.getFields(type);
       if (!fields) {
         throw new Error(`Component ${type.name} has no registered fields`);
       }
+      if (fields.length === 0) {
+        continue;
+      }
 
-      archetype.components.set(type, new ComponentStorage(fields, this.initialCapacity));
+      archetype.components.set(
+        type,
+        new ComponentStorage(fields, this.initialCapacity, this.changeClock, this.sharedStorage)
+      );
     }
 
     this.archetypes.set(signature, archetype);
@@ -93,9 +127,15 @@ export class ArchetypeManager {
    * @param archetype - Target archetype
    * @param entityId - Entity ID to add
    * @param components - Component data map
+   * @param changeTicks - Change ticks to carry over (components not listed are stamped as changed now)
    * @returns Index where entity was added
    */
-  addEntity(archetype: Archetype, entityId: EntityId, components: Map<ComponentType, any>): number {
+  addEntity(
+    archetype: Archetype,
+    entityId: EntityId,
+    components: Map<ComponentType, any>,
+    changeTicks?: Map<ComponentType, number>
+  ): number {
     // Grow archetype if needed
     if (archetype.count >= archetype.capacity) {
       this.growArchetype(archetype);
@@ -111,6 +151,11 @@ export class ArchetypeManager {
       const storage = archetype.components.get(type);
       if (storage) {
         storage.setComponentData(index, component);
+
+        const tick = changeTicks?.get(type);
+        if (tick !== undefined) {
+          storage.setChangeTick(index, tick);
+        }
       }
     }
 
@@ -178,11 +223,13 @@ export class ArchetypeManager {
 
   /**
    * Get component for entity at index
+   *
+   * Tags have no data; an empty object is returned if the archetype has the tag.
    */
   getComponent<T extends Component>(archetype: Archetype, type: ComponentType<T>, index: number): T | undefined {
     const storage = archetype.components.get(type);
     if (!storage) {
-      return undefined;
+      return archetype.types.includes(type) ? ({} as T) : undefined;
     }
 
     return storage.getComponent(index) as T;
@@ -203,25 +250,44 @@ export class ArchetypeManager {
     }
   }
 
+  /**
+   * Get the current change tick
+   */
+  getChangeTick(): number {
+    return this.changeClock.tick;
+  }
+
+  /**
+   * Advance the change tick
+   *
+   * Called by queries after a changed() pass so later writes are distinguishable
+   * from the ones that pass already observed.
+   *
+   * @returns The new tick
+   */
+  advanceChangeTick(): number {
+    return ++this.changeClock.tick;
+  }
+
   /**
    * Check if archetype contains all specified types
    */
   hasAllTypes(archetype: Archetype, types: ComponentType[]): boolean {
-    return types.every((type) => archetype.components.has(type));
+    return types.every((type) => archetype.types.includes(type));
   }
 
   /**
    * Check if archetype contains any of the specified types
    */
   hasAnyType(archetype: Archetype, types: ComponentType[]): boolean {
-    return types.some((type) => archetype.components.has(type));
+    return types.some((type) => archetype.types.includes(type));
   }
 
   /**
    * Check if archetype contains none of the specified types
    */
   hasNoneOfTypes(archetype: Archetype, types: ComponentType[]): boolean {
-    return !types.some((type) => archetype.components.has(type));
+    return !types.some((type) => archetype.types.includes(type));
   }
 
   /**
@@ -0,0 +1,159 @@
+import type { Component, ComponentType, EntityId } from './types';
+import type { World } from './World';
+
+/**
+ * Entity created by CommandBuffer.spawn()
+ *
+ * `id` stays undefined until the buffer is played back.
+ */
+export interface PendingEntity {
+  id: EntityId | undefined;
+}
+
+/**
+ * Entity reference accepted by CommandBuffer - a live ID or a pending spawn
+ */
+export type EntityTarget = EntityId | PendingEntity;
+
+/**
+ * Recorded structural change
+ */
+type BufferedCommand =
+  | { kind: 'spawn'; entity: PendingEntity }
+  | { kind: 'destroy'; entity: EntityTarget }
+  | { kind: 'add'; entity: EntityTarget; type: ComponentType; component: Component }
+  | { kind: 'remove'; entity: EntityTarget; type: ComponentType };
+
+/**
+ * Command Buffer - records structural changes for deferred playback
+ *
+ * Creating/destroying entities and adding/removing components moves entities
+ * between archetypes, which corrupts iteration over query results. Systems record
+ * those changes here instead; the World plays them back at a sync point (end of
+ * World.update(), or after each GameLoop phase when driven by MiskatonicEngine).
+ *
+ * Playback rules:
+ * - Commands are applied in recording order
+ * - Commands targeting entities that no longer exist are skipped, so several
+ *   systems can safely despawn the same entity (this includes IDs destroyed and
+ *   recycled earlier in the same playback)
+ * - Commands recorded during playback run at the next sync point
+ *
+ * @example
+ * const commands = world.getCommandBuffer();
+ * query.forEach(world.getArchetypeManager(), (entity, components) => {
+ *   if (expired(components)) commands.destroyEntity(entity);
+ * });
+ *
+ * const projectile = commands.spawn();
+ * commands.addComponent(projectile, Transform, new Transform(x, y, z));
+ * commands.addComponent(projectile, Velocity, new Velocity(0, 0, 50));
+ */
+export class CommandBuffer {
+  private commands: BufferedCommand[] = [];
+
+  /**
+   * Record entity creation
+   *
+   * @returns Handle usable by later commands; `id` is set on playback
+   */
+  spawn(): PendingEntity {
+    const entity: PendingEntity = { id: undefined };
+    this.commands.push({ kind: 'spawn', entity });
+    return entity;
+  }
+
+  /**
+   * Record entity destruction
+   */
+  destroyEntity(entity: EntityTarget): void {
+    this.commands.push({ kind: 'destroy', entity });
+  }
+
+  /**
+   * Record adding (or replacing) a component
+   */
+  addComponent<T extends Component>(entity: EntityTarget, type: ComponentType<T>, component: T): void {
+    this.commands.push({ kind: 'add', entity, type, component });
+  }
+
+  /**
+   * Record removing a component
+   */
+  removeComponent<T extends Component>(entity: EntityTarget, type: ComponentType<T>): void {
+    this.commands.push({ kind: 'remove', entity, type });
+  }
+
+  /**
+   * Get number of recorded commands
+   */
+  getCount(): number {
+    return this.commands.length;
+  }
+
+  /**
+   * Check if there is nothing to play back
+   */
+  isEmpty(): boolean {
+    return this.commands.length === 0;
+  }
+
+  /**
+   * Apply all recorded commands to a world and empty the buffer
+   *
+   * The buffer is emptied before applying, so an exception thrown by one command
+   * discards the rest instead of replaying them at every sync point.
+   *
+   * @param world - World to apply commands to
+   * @returns Number of commands applied (skipped commands are not counted)
+   */
+  playback(world: World): number {
+    if (this.commands.length === 0) {
+      return 0;
+    }
+
+    const commands = this.commands;
+    this.commands = [];
+
+    // Raw IDs destroyed during this playback may be recycled by a later spawn
+    const destroyed = new Set<EntityId>();
+
+    let applied = 0;
+    for (const command of commands) {
+      if (command.kind === 'spawn') {
+        command.entity.id = world.createEntity();
+        applied++;
+        continue;
+      }
+
+      const isRawId = typeof command.entity === 'number';
+      const entityId = typeof command.entity === 'number' ? command.entity : command.entity.id;
+      if (entityId === undefined || !world.hasEntity(entityId) || (isRawId && destroyed.has(entityId))) {
+        continue;
+      }
+
+      switch (command.kind) {
+        case 'destroy':
+          world.destroyEntity(entityId);
+          destroyed.add(entityId);
+          break;
+        case 'add':
+          world.addComponent(entityId, command.type, command.component);
+          break;
+        case 'remove':
+          world.removeComponent(entityId, command.type);
+          break;
+      }
+      applied++;
+    }
+
+    return applied;
+  }
+
+  /**
+   * Discard all recorded commands
+   */
+  clear(): void {
+    this.commands = [];
+  }
+}
@@ -8,6 +8,11 @@ import { createFieldDescriptor } from './ComponentStorage';
  * Components must be registered with their field descriptors before use.
  * This enables the archetype system to create appropriate typed array storage.
  *
+ * The static methods operate on the default registry, which every World uses
+ * unless given its own. A registry created with a parent sees the parent's
+ * components, so an isolated world can register extra components without
+ * affecting others.
+ *
  * Example:
  * ```typescript
  * ComponentRegistry.register(Transform, [
@@ -15,10 +20,103 @@ import { createFieldDescriptor } from './ComponentStorage';
  *   createFieldDescriptor('y', 0),
  *   createFieldDescriptor('z', 0),
  * ]);
+ *
+ * // World-local registry layered over the default one
+ * const previewRegistry = new ComponentRegistry(ComponentRegistry.getDefault());
+ * const preview = new World({ registry: previewRegistry });
  * ```
  */
 export class ComponentRegistry {
-  private static schemas: Map<ComponentType, FieldDescriptor[]> = new Map();
+  private static defaultRegistry = new ComponentRegistry();
+
+  private schemas: Map<ComponentType, FieldDescriptor[]> = new Map();
+  private parent: ComponentRegistry | null;
+
+  /**
+   * Create a registry
+   *
+   * @param parent - Registry to fall back to for lookups (not modified by this one)
+   */
+  constructor(parent: ComponentRegistry | null = null) {
+    this.parent = parent;
+  }
+
+  /**
+   * Get the default (process-wide) registry
+   */
+  static getDefault(): ComponentRegistry {
+    return this.defaultRegistry;
+  }
+
+  /**
+   * Register a component type with field descriptors (default registry)
+   */
+  static register<T extends Component>(type: ComponentType<T>, fields: FieldDescriptor[]): void {
+    this.defaultRegistry.register(type, fields);
+  }
+
+  /**
+   * Register a tag component in the default registry
+   */
+  static registerTag<T extends Component>(type: ComponentType<T>): void {
+    this.defaultRegistry.registerTag(type);
+  }
+
+  /**
+   * Check if a component type is a tag in the default registry
+   */
+  static isTag<T extends Component>(type: ComponentType<T>): boolean {
+    return this.defaultRegistry.isTag(type);
+  }
+
+  /**
+   * Auto-register a component in the default registry
+   */
+  static autoRegister<T extends Component>(type: ComponentType<T>, sampleInstance?: T): void {
+    this.defaultRegistry.autoRegister(type, sampleInstance);
+  }
+
+  /**
+   * Get field descriptors from the default registry
+   */
+  static getFields<T extends Component>(type: ComponentType<T>): FieldDescriptor[] | undefined {
+    return this.defaultRegistry.getFields(type);
+  }
+
+  /**
+   * Check if a component type is registered in the default registry
+   */
+  static isRegistered<T extends Component>(type: ComponentType<T>): boolean {
+    return this.defaultRegistry.isRegistered(type);
+  }
+
+  /**
+   * Look up a component type by name in the default registry
+   */
+  static getTypeByName(name: string): ComponentType | undefined {
+    return this.defaultRegistry.getTypeByName(name);
+  }
+
+  /**
+   * Get all component types in the default registry
+   */
+  static getAllTypes(): ComponentType[] {
+    return this.defaultRegistry.getAllTypes();
+  }
+
+  /**
+   * Clear the default registry (for testing)
+   */
+  static clear(): void {
+    this.defaultRegistry.clear();
+  }
+
+  /**
+   * Get statistics for the default registry
+   */
+  static getStats(): ReturnType<ComponentRegistry['getStats']> {
+    return this.defaultRegistry.getStats();
+  }
 
   /**
    * Register a component type with field descriptors
@@ -26,20 +124,41 @@ export class ComponentRegistry {
    * @param type - Component type constructor
    * @param fields - Field descriptors for component properties
    */
-  static register<T extends Component>(type: ComponentType<T>, fields: FieldDescriptor[]): void {
+  register<T extends Component>(type: ComponentType<T>, fields: FieldDescriptor[]): void {
     if (this.schemas.has(type)) {
       console.warn(`Component ${type.name} is already registered, overwriting`);
     }
     this.schemas.set(type, fields);
   }
 
+  /**
+   * Register a tag component - a marker with no data
+   *
+   * Tags only affect archetype membership (queries, hasComponent); they get no
+   * field arrays. Registering a component with no fields is equivalent.
+   *
+   * @param type - Component type constructor
+   */
+  registerTag<T extends Component>(type: ComponentType<T>): void {
+    this.register(type, []);
+  }
+
+  /**
+   * Check if a component type is a registered tag
+   *
+   * @param type - Component type constructor
+   */
+  isTag<T extends Component>(type: ComponentType<T>): boolean {
+    return this.getFields(type)?.length === 0;
+  }
+
   /**
    * Auto-register a component by creating an instance and inspecting fields
    *
    * @param type - Component type constructor
    * @param sampleInstance - Optional sample instance (uses default constructor if not provided)
    */
-  static autoRegister<T extends Component>(type: ComponentType<T>, sampleInstance?: T): void {
+  autoRegister<T extends Component>(type: ComponentType<T>, sampleInstance?: T): void {
     const instance = sampleInstance || new type();
     const fields: FieldDescriptor[] = [];
 
@@ -70,8 +189,8 @@ export class ComponentRegistry {
    * @param type - Component type constructor
    * @returns Field descriptors, or undefined if not registered
    */
-  static getFields<T extends Component>(type: ComponentType<T>): FieldDescriptor[] | undefined {
-    return this.schemas.get(type);
+  getFields<T extends Component>(type: ComponentType<T>): FieldDescriptor[] | undefined {
+    return this.schemas.get(type) ?? this.parent?.getFields(type);
   }
 
   /**
@@ -79,34 +198,56 @@ export class ComponentRegistry {
    *
    * @param type - Component type constructor
    */
-  static isRegistered<T extends Component>(type: ComponentType<T>): boolean {
-    return this.schemas.has(type);
+  isRegistered<T extends Component>(type: ComponentType<T>): boolean {
+    return this.schemas.has(type) || (this.parent?.isRegistered(type) ?? false);
   }
 
   /**
-   * Get all registered component types
+   * Look up a registered component type by its constructor name
+   *
+   * Used by serialization, where component types are stored by name.
+   *
+   * @param name - Component class name (e.g. 'Transform')
+   * @returns Component type, or undefined if no registered type has that name
    */
-  static getAllTypes(): ComponentType[] {
-    return Array.from(this.schemas.keys());
+  getTypeByName(name: string): ComponentType | undefined {
+    for (const type of this.schemas.keys()) {
+      if (type.name === name) {
+        return type;
+      }
+    }
+    return this.parent?.getTypeByName(name);
   }
 
   /**
-   * Clear all registrations (for testing)
+   * Get all registered component types (including the parent's)
    */
-  static clear(): void {
+  getAllTypes(): ComponentType[] {
+    const types = new Set(this.parent?.getAllTypes() ?? []);
+    for (const type of this.schemas.keys()) {
+      types.add(type);
+    }
+    return Array.from(types);
+  }
+
+  /**
+   * Clear this registry's own registrations (for testing)
+   */
+  clear(): void {
     this.schemas.clear();
   }
 
   /**
    * Get statistics about registered components
    */
-  static getStats(): {
+  getStats(): {
     totalComponents: number;
     components: Array<{ name: string; fieldCount: number; fields: string[] }>;
   } {
     const components: Array<{ name: string; fieldCount: number; fields: string[] }> = [];
 
-    for (const [type, fields] of this.schemas) {
+    for (const type of this.getAllTypes()) {
+      const fields = this.getFields(type)!;
       components.push({
         name: type.name,
         fieldCount: fields.length,
@@ -115,12 +256,26 @@ export class ComponentRegistry {
     }
 
     return {
-      totalComponents: this.schemas.size,
+      totalComponents: components.length,
       components,
     };
   }
 }
 
+/**
+ * Helper decorator for registering tag components
+ *
+ * @example
+ * ```typescript
+ * @RegisterTag
+ * class Frozen {}
+ * ```
+ */
+export function RegisterTag<T extends Component>(constructor: ComponentType<T>): ComponentType<T> {
+  ComponentRegistry.registerTag(constructor);
+  return constructor;
+}
+
 /**
  * Helper decorator for auto-registering components
  *
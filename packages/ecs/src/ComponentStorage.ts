@@ -25,6 +25,28 @@ export interface FieldDescriptor {
 
   /** Default value for initialization */
   defaultValue?: number;
+
+  /** Field holds an EntityId (-1 = none); remapped when entities are serialized or copied */
+  entityRef?: boolean;
+
+  /** Runtime-only field (caches, indices); not serialized, reset to defaultValue on load */
+  transient?: boolean;
+}
+
+/**
+ * Optional serialization flags for createFieldDescriptor()
+ */
+export type FieldDescriptorOptions = Pick<FieldDescriptor, 'entityRef' | 'transient'>;
+
+/**
+ * Shared change counter (owned by ArchetypeManager)
+ *
+ * Every write through ComponentStorage stamps the entity's slot with the current
+ * tick. Queries compare stamps against the tick they last ran at to implement
+ * the changed() filter.
+ */
+export interface ChangeClock {
+  tick: number;
 }
 
 /**
@@ -64,23 +86,39 @@ export class ComponentStorage<T> {
   private fields: Map<string, TypedArray> = new Map();
   private fieldDescriptors: FieldDescriptor[];
   private capacity: number;
+  private clock: ChangeClock;
+  private changeTicks: Uint32Array;
+  private shared: boolean;
 
   /**
    * Create component storage
    *
    * @param fieldDescriptors - Field definitions for component properties
    * @param initialCapacity - Initial array capacity (will grow as needed)
+   * @param clock - Change clock shared with other storages (a private one is created if omitted)
+   * @param shared - Back field arrays with SharedArrayBuffer so workers can access them
    */
-  constructor(fieldDescriptors: FieldDescriptor[], initialCapacity: number = 256) {
+  constructor(
+    fieldDescriptors: FieldDescriptor[],
+    initialCapacity: number = 256,
+    clock?: ChangeClock,
+    shared: boolean = false
+  ) {
     if (fieldDescriptors.length === 0) {
       throw new Error('ComponentStorage requires at least one field');
     }
+    if (shared && typeof SharedArrayBuffer === 'undefined') {
+      throw new Error('SharedArrayBuffer is not available (browsers require cross-origin isolation)');
+    }
     this.fieldDescriptors = fieldDescriptors;
     this.capacity = initialCapacity;
+    this.clock = clock ?? { tick: 1 };
+    this.shared = shared;
+    this.changeTicks = new Uint32Array(initialCapacity);
 
     // Initialize typed arrays for each field with default values
     for (const descriptor of fieldDescriptors) {
-      const array = new descriptor.arrayType(initialCapacity);
+      const array = this.allocate(descriptor.arrayType, initialCapacity);
 
       // Typed arrays are zero-initialized by default, but we need to fill with defaultValue
       // Critical for fields like localMatrixIndex (-1), parentId (-1), etc.
@@ -124,15 +162,62 @@ export class ComponentStorage<T> {
       throw new TypeError(`Expected finite number, got ${typeof value}: ${value}`);
     }
     array[index] = value;
+    this.changeTicks[index] = this.clock.tick;
   }
 
   /**
    * Get direct access to typed array for a field (for high-performance iteration)
+   *
+   * Writes through the returned array bypass change detection - call markChanged()
+   * for each modified index.
    */
   getArray(fieldName: string): TypedArray | undefined {
     return this.fields.get(fieldName);
   }
 
+  /**
+   * Get field names in descriptor order
+   */
+  getFieldNames(): string[] {
+    return this.fieldDescriptors.map((descriptor) => descriptor.name);
+  }
+
+  /**
+   * Stamp index as changed at the current tick
+   */
+  markChanged(index: number): void {
+    if (index < 0 || index >= this.capacity) {
+      throw new Error(`Index ${index} out of bounds (capacity: ${this.capacity})`);
+    }
+    this.changeTicks[index] = this.clock.tick;
+  }
+
+  /**
+   * Stamp indices [start, end) as changed at the current tick
+   * Used after bulk writes (e.g. worker kernels) that bypass set()
+   */
+  markRangeChanged(start: number, end: number): void {
+    if (start < 0 || end > this.capacity || start > end) {
+      throw new Error(`Range [${start}, ${end}) out of bounds (capacity: ${this.capacity})`);
+    }
+    this.changeTicks.fill(this.clock.tick, start, end);
+  }
+
+  /**
+   * Get the tick at which index was last written
+   */
+  getChangeTick(index: number): number {
+    return this.changeTicks[index];
+  }
+
+  /**
+   * Overwrite the change tick at index
+   * Used when an entity moves between archetypes so the move itself is not a change
+   */
+  setChangeTick(index: number, tick: number): void {
+    this.changeTicks[index] = tick;
+  }
+
   /**
    * Set component data at a specific index
    * Caller (Archetype) is responsible for ensuring index is valid and < count
@@ -171,6 +256,7 @@ export class ComponentStorage<T> {
     for (const [, array] of this.fields) {
       array[targetIndex] = array[sourceIndex];
     }
+    this.changeTicks[targetIndex] = this.changeTicks[sourceIndex];
   }
 
   /**
@@ -244,7 +330,7 @@ export class ComponentStorage<T> {
       if (!descriptor) continue;
 
       // Create new larger array
-      const newArray = new descriptor.arrayType(newCapacity);
+      const newArray = this.allocate(descriptor.arrayType, newCapacity);
 
       // Copy old data FIRST
       newArray.set(oldArray);
@@ -258,9 +344,30 @@ export class ComponentStorage<T> {
       this.fields.set(fieldName, newArray);
     }
 
+    const newTicks = new Uint32Array(newCapacity);
+    newTicks.set(this.changeTicks);
+    this.changeTicks = newTicks;
+
     this.capacity = newCapacity;
   }
 
+  /**
+   * Check if field arrays are backed by SharedArrayBuffer
+   */
+  isShared(): boolean {
+    return this.shared;
+  }
+
+  /**
+   * Allocate a field array, on a SharedArrayBuffer in shared mode
+   */
+  private allocate(arrayType: TypedArrayConstructor, capacity: number): TypedArray {
+    if (this.shared) {
+      return new arrayType(new SharedArrayBuffer(capacity * arrayType.BYTES_PER_ELEMENT));
+    }
+    return new arrayType(capacity);
+  }
+
   /**
    * Get memory usage statistics
    *
@@ -325,7 +432,8 @@ export function inferArrayType(_value: any): TypedArrayConstructor {
 export function createFieldDescriptor(
   name: string,
   defaultValue: number = 0,
-  arrayType?: TypedArrayConstructor
+  arrayType?: TypedArrayConstructor,
+  options: FieldDescriptorOptions = {}
 ): FieldDescriptor {
   if (typeof defaultValue !== 'number' || !Number.isFinite(defaultValue)) {
     throw new TypeError(`defaultValue must be finite number, got ${typeof defaultValue}: ${defaultValue}`);
@@ -334,5 +442,6 @@ export function createFieldDescriptor(
     name,
     arrayType: arrayType || inferArrayType(defaultValue),
     defaultValue,
+    ...options,
   };
 }
@@ -0,0 +1,557 @@
+import type { ComponentType, EntityId } from './types';
+import type { World } from './World';
+import type { FieldDescriptor } from './ComponentStorage';
+import type { ComponentRegistry } from './ComponentRegistry';
+
+/**
+ * Prefab identifier (usually the resource ID the prefab was loaded from)
+ */
+export type PrefabId = string;
+
+/**
+ * Component field values keyed by component name, then field name
+ */
+export type PrefabComponents = Record<string, Record<string, number>>;
+
+/**
+ * Entity inside a prefab template
+ *
+ * IDs are local to the prefab. Fields marked `entityRef` hold local IDs and are
+ * remapped to the instance's entities.
+ */
+export interface PrefabEntity {
+  /** Local ID, unique within the prefab */
+  id: number;
+
+  /** Local ID of the parent entity (omitted for the root) */
+  parent?: number;
+
+  /** Component data; missing fields use registered defaults */
+  components?: PrefabComponents;
+
+  /**
+   * Nested prefab - this entity becomes the nested prefab's root, and
+   * `components` override the nested root's values
+   */
+  prefab?: PrefabId;
+}
+
+/**
+ * Prefab template - a single-rooted tree of entities
+ */
+export interface PrefabDefinition {
+  entities: PrefabEntity[];
+}
+
+/**
+ * Options for PrefabManager.instantiate()
+ */
+export interface PrefabInstantiateOptions {
+  /** Per-instance overrides keyed by local entity ID; kept when the prefab changes */
+  overrides?: Record<number, PrefabComponents>;
+
+  /** Attach the instance root under this entity (requires TransformSystem) */
+  parent?: EntityId;
+}
+
+/**
+ * Live prefab instance
+ */
+export interface PrefabInstance {
+  prefabId: PrefabId;
+
+  /** Root entity */
+  root: EntityId;
+
+  /** Local entity ID -> world entity ID (top-level prefab only) */
+  entities: Map<number, EntityId>;
+}
+
+/**
+ * Source of a prefab-instantiated entity
+ */
+export interface PrefabSource {
+  prefabId: PrefabId;
+  localId: number;
+}
+
+/**
+ * One instantiation of a prefab (top-level or nested)
+ */
+interface PrefabFrame {
+  prefabId: PrefabId;
+  entities: Map<number, EntityId>;
+}
+
+/**
+ * Prefab entry contributing values to an entity
+ */
+interface PrefabLayer {
+  frame: PrefabFrame;
+  localId: number;
+}
+
+/**
+ * Link from a live entity back to the prefab entries it was built from
+ */
+interface PrefabLink {
+  /** Outermost prefab first; inner layers provide values the outer ones don't override */
+  layers: PrefabLayer[];
+
+  /** Per-instance overrides (world entity IDs for entityRef fields) */
+  overrides: PrefabComponents;
+}
+
+/**
+ * Prefab Manager - instantiates entity templates and propagates prefab edits
+ *
+ * Each instance remembers which prefab entries built it. When a prefab is
+ * re-registered (e.g. after a hot reload), live instances are updated:
+ * - Fields whose prefab value changed are rewritten, unless the instance overrides them
+ * - Components added to / removed from a prefab entity are added to / removed from instances
+ * - Fields the edit didn't touch keep their runtime values
+ *
+ * Entities added to or removed from a prefab only affect new instances.
+ *
+ * Hierarchy is built with World.setParent(), so a TransformSystem must be
+ * registered for prefabs with parent/child relationships.
+ *
+ * @example
+ * prefabs.register('wheel', { entities: [{ id: 0, components: { Transform: {} } }] });
+ * prefabs.register('car', {
+ *   entities: [
+ *     { id: 0, components: { Transform: {}, Velocity: { vx: 0 } } },
+ *     { id: 1, parent: 0, prefab: 'wheel', components: { Transform: { x: -1 } } },
+ *   ],
+ * });
+ *
+ * const car = prefabs.instantiate('car', { overrides: { 0: { Velocity: { vx: 5 } } } });
+ */
+export class PrefabManager {
+  private world: World;
+  private registry: ComponentRegistry;
+  private definitions = new Map<PrefabId, PrefabDefinition>();
+  private links = new Map<EntityId, PrefabLink>();
+
+  constructor(world: World) {
+    this.world = world;
+    this.registry = world.getComponentRegistry();
+
+    // Drop links on destruction only: an instance without components is still an instance
+    world.onEntityDestroyed((entity) => this.links.delete(entity));
+  }
+
+  /**
+   * Register or replace a prefab
+   *
+   * Replacing a prefab propagates the edit to live instances.
+   *
+   * @returns Number of live entities that were updated
+   */
+  register(id: PrefabId, definition: PrefabDefinition): number {
+    this.validateDefinition(id, definition);
+
+    const previous = this.definitions.get(id);
+    if (!previous) {
+      this.definitions.set(id, definition);
+      return 0;
+    }
+
+    // Resolve every affected entity against the old and new definition
+    const affected: Array<{ entity: EntityId; link: PrefabLink; before: PrefabComponents }> = [];
+    for (const [entity, link] of this.links) {
+      if (link.layers.some((layer) => layer.frame.prefabId === id)) {
+        affected.push({ entity, link, before: this.resolve(link) });
+      }
+    }
+
+    this.definitions.set(id, definition);
+
+    let updated = 0;
+    for (const { entity, link, before } of affected) {
+      if (this.applyDiff(entity, before, this.resolve(link))) {
+        updated++;
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * Remove a prefab definition (live instances keep their data)
+   */
+  unregister(id: PrefabId): boolean {
+    return this.definitions.delete(id);
+  }
+
+  /**
+   * Check if a prefab is registered
+   */
+  has(id: PrefabId): boolean {
+    return this.definitions.has(id);
+  }
+
+  /**
+   * Get a registered prefab definition
+   */
+  get(id: PrefabId): PrefabDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  /**
+   * Create a new instance of a prefab in the world
+   *
+   * @param id - Prefab to instantiate (nested prefabs must be registered too)
+   * @param options - Overrides and parent entity
+   */
+  instantiate(id: PrefabId, options: PrefabInstantiateOptions = {}): PrefabInstance {
+    this.validateNesting(id, []);
+
+    for (const components of Object.values(options.overrides ?? {})) {
+      for (const name of Object.keys(components)) {
+        if (!this.registry.getTypeByName(name)) {
+          throw new Error(`Prefab '${id}': override component '${name}' is not registered`);
+        }
+      }
+    }
+
+    const links = new Map<EntityId, PrefabLink>();
+    const parents: Array<[EntityId, EntityId]> = [];
+    const frame = this.createFrame(id, links, parents);
+
+    // Overrides are authored in local IDs of the top-level prefab
+    for (const [localId, components] of Object.entries(options.overrides ?? {})) {
+      const entity = frame.entities.get(Number(localId));
+      if (entity === undefined) {
+        throw new Error(`Prefab '${id}': override targets unknown entity ${localId}`);
+      }
+      links.get(entity)!.overrides = this.remapComponents(components, frame);
+    }
+
+    for (const [entity, link] of links) {
+      for (const [name, data] of Object.entries(this.resolve(link))) {
+        const type = this.registry.getTypeByName(name)!;
+        this.world.addComponent(entity, type, this.buildComponent(type, data));
+      }
+      this.links.set(entity, link);
+    }
+
+    // TransformSystem prepends children, so link in reverse to keep prefab order
+    for (let i = parents.length - 1; i >= 0; i--) {
+      this.world.setParent(parents[i][0], parents[i][1]);
+    }
+
+    const root = frame.entities.get(this.getRoot(this.definitions.get(id)!).id)!;
+    if (options.parent !== undefined) {
+      this.world.setParent(root, options.parent);
+    }
+
+    return { prefabId: id, root, entities: frame.entities };
+  }
+
+  /**
+   * Override component fields on an instance entity
+   *
+   * Writes the values and keeps them when the prefab changes.
+   */
+  setOverride(entity: EntityId, type: ComponentType, values: Record<string, number>): void {
+    const link = this.links.get(entity);
+    if (!link) {
+      throw new Error(`Entity ${entity} is not a prefab instance`);
+    }
+
+    const name = type.name;
+    link.overrides[name] = { ...link.overrides[name], ...values };
+
+    if (this.world.hasComponent(entity, type)) {
+      this.world.setComponent(entity, type, values);
+    } else {
+      this.world.addComponent(entity, type, this.buildComponent(type, this.resolve(link)[name]));
+    }
+  }
+
+  /**
+   * Remove overrides and restore prefab values
+   *
+   * @param field - Field to revert (all fields of the component if omitted)
+   */
+  revertOverride(entity: EntityId, type: ComponentType, field?: string): void {
+    const link = this.links.get(entity);
+    const overrides = link?.overrides[type.name];
+    if (!link || !overrides) {
+      return;
+    }
+
+    const before = this.resolve(link);
+    if (field === undefined) {
+      delete link.overrides[type.name];
+    } else {
+      delete overrides[field];
+      if (Object.keys(overrides).length === 0) {
+        delete link.overrides[type.name];
+      }
+    }
+
+    this.applyDiff(entity, before, this.resolve(link));
+  }
+
+  /**
+   * Check if an instance entity overrides a field
+   */
+  isOverridden(entity: EntityId, type: ComponentType, field: string): boolean {
+    return this.links.get(entity)?.overrides[type.name]?.[field] !== undefined;
+  }
+
+  /**
+   * Get the prefab entry an entity was instantiated from (outermost prefab)
+   */
+  getSource(entity: EntityId): PrefabSource | undefined {
+    const layer = this.links.get(entity)?.layers[0];
+    return layer ? { prefabId: layer.frame.prefabId, localId: layer.localId } : undefined;
+  }
+
+  /**
+   * Get all live entities built from a prefab, including through nesting
+   */
+  getInstanceEntities(id: PrefabId): EntityId[] {
+    const entities: EntityId[] = [];
+    for (const [entity, link] of this.links) {
+      if (link.layers.some((layer) => layer.frame.prefabId === id)) {
+        entities.push(entity);
+      }
+    }
+    return entities;
+  }
+
+  /**
+   * Detach an entity from its prefab (it keeps its current data)
+   */
+  unlink(entity: EntityId): void {
+    this.links.delete(entity);
+  }
+
+  /**
+   * Forget all prefabs and instance links
+   */
+  clear(): void {
+    this.definitions.clear();
+    this.links.clear();
+  }
+
+  /**
+   * Check that a prefab and everything it nests is registered and acyclic
+   * Runs before instantiation so a bad prefab doesn't leave partial instances behind
+   */
+  private validateNesting(id: PrefabId, stack: PrefabId[]): void {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      throw new Error(`Prefab '${id}' is not registered`);
+    }
+    if (stack.includes(id)) {
+      throw new Error(`Prefab '${id}' nests itself (${[...stack, id].join(' -> ')})`);
+    }
+
+    for (const entry of definition.entities) {
+      if (entry.prefab !== undefined) {
+        this.validateNesting(entry.prefab, [...stack, id]);
+      }
+    }
+  }
+
+  /**
+   * Create entities for one prefab, recursing into nested prefabs
+   */
+  private createFrame(
+    id: PrefabId,
+    links: Map<EntityId, PrefabLink>,
+    parents: Array<[EntityId, EntityId]>
+  ): PrefabFrame {
+    const definition = this.definitions.get(id)!;
+    const frame: PrefabFrame = { prefabId: id, entities: new Map() };
+
+    for (const entry of definition.entities) {
+      let entity: EntityId;
+      if (entry.prefab !== undefined) {
+        const nested = this.createFrame(entry.prefab, links, parents);
+        entity = nested.entities.get(this.getRoot(this.definitions.get(entry.prefab)!).id)!;
+        links.get(entity)!.layers.unshift({ frame, localId: entry.id });
+      } else {
+        entity = this.world.createEntity();
+        links.set(entity, { layers: [{ frame, localId: entry.id }], overrides: {} });
+      }
+      frame.entities.set(entry.id, entity);
+    }
+
+    for (const entry of definition.entities) {
+      if (entry.parent !== undefined) {
+        parents.push([frame.entities.get(entry.id)!, frame.entities.get(entry.parent)!]);
+      }
+    }
+
+    return frame;
+  }
+
+  /**
+   * Compute an entity's prefab-driven component values
+   * Inner layers first, outer layers and instance overrides on top
+   */
+  private resolve(link: PrefabLink): PrefabComponents {
+    const result: PrefabComponents = {};
+
+    for (let i = link.layers.length - 1; i >= 0; i--) {
+      const { frame, localId } = link.layers[i];
+      const entry = this.definitions.get(frame.prefabId)?.entities.find((e) => e.id === localId);
+      const components = this.remapComponents(entry?.components ?? {}, frame);
+
+      for (const [name, data] of Object.entries(components)) {
+        result[name] = { ...result[name], ...data };
+      }
+    }
+
+    for (const [name, data] of Object.entries(link.overrides)) {
+      result[name] = { ...result[name], ...data };
+    }
+
+    return result;
+  }
+
+  /**
+   * Write the difference between two resolved states to an entity
+   *
+   * @returns True if anything was written
+   */
+  private applyDiff(entity: EntityId, before: PrefabComponents, after: PrefabComponents): boolean {
+    if (!this.world.hasEntity(entity)) {
+      return false;
+    }
+
+    let changed = false;
+
+    for (const name of Object.keys(before)) {
+      const type = this.registry.getTypeByName(name);
+      if (!(name in after) && type && this.world.hasComponent(entity, type)) {
+        this.world.removeComponent(entity, type);
+        changed = true;
+      }
+    }
+
+    for (const [name, data] of Object.entries(after)) {
+      const type = this.registry.getTypeByName(name)!;
+
+      if (!this.world.hasComponent(entity, type)) {
+        this.world.addComponent(entity, type, this.buildComponent(type, data));
+        changed = true;
+        continue;
+      }
+
+      const previous = before[name] ?? {};
+      const fields: Record<string, number> = {};
+      for (const field of this.registry.getFields(type)!) {
+        const value = data[field.name] ?? field.defaultValue ?? 0;
+        const oldValue = previous[field.name] ?? field.defaultValue ?? 0;
+        if (value !== oldValue) {
+          fields[field.name] = value;
+        }
+      }
+
+      if (Object.keys(fields).length > 0) {
+        this.world.setComponent(entity, type, fields);
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Build a full component object from defaults and resolved values
+   */
+  private buildComponent(type: ComponentType, data: Record<string, number> = {}): InstanceType<ComponentType> {
+    const component: Record<string, number> = {};
+    for (const field of this.registry.getFields(type)!) {
+      component[field.name] = data[field.name] ?? field.defaultValue ?? 0;
+    }
+    return component;
+  }
+
+  /**
+   * Map local entityRef values to world entity IDs and drop transient fields
+   */
+  private remapComponents(components: PrefabComponents, frame: PrefabFrame): PrefabComponents {
+    const result: PrefabComponents = {};
+
+    for (const [name, data] of Object.entries(components)) {
+      const type = this.registry.getTypeByName(name);
+      const descriptors = new Map<string, FieldDescriptor>(
+        (type ? this.registry.getFields(type) ?? [] : []).map((field) => [field.name, field])
+      );
+
+      const values: Record<string, number> = {};
+      for (const [field, value] of Object.entries(data)) {
+        const descriptor = descriptors.get(field);
+        if (!descriptor || descriptor.transient) continue;
+
+        values[field] = descriptor.entityRef && value !== -1 ? (frame.entities.get(value) ?? -1) : value;
+      }
+      result[name] = values;
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the single root entry of a prefab
+   */
+  private getRoot(definition: PrefabDefinition): PrefabEntity {
+    return definition.entities.find((entry) => entry.parent === undefined)!;
+  }
+
+  /**
+   * Validate prefab structure and component names
+   */
+  private validateDefinition(id: PrefabId, definition: PrefabDefinition): void {
+    if (!definition || !Array.isArray(definition.entities)) {
+      throw new Error(`Prefab '${id}': missing entities array`);
+    }
+
+    const ids = new Set<number>();
+    for (const entry of definition.entities) {
+      if (!Number.isInteger(entry.id)) {
+        throw new Error(`Prefab '${id}': entity ID must be an integer`);
+      }
+      if (ids.has(entry.id)) {
+        throw new Error(`Prefab '${id}': duplicate entity ID ${entry.id}`);
+      }
+      ids.add(entry.id);
+
+      for (const name of Object.keys(entry.components ?? {})) {
+        if (!this.registry.getTypeByName(name)) {
+          throw new Error(`Prefab '${id}': component '${name}' is not registered`);
+        }
+      }
+    }
+
+    let roots = 0;
+    for (const entry of definition.entities) {
+      if (entry.parent === undefined) {
+        roots++;
+      } else if (!ids.has(entry.parent) || entry.parent === entry.id) {
+        throw new Error(`Prefab '${id}': entity ${entry.id} has invalid parent ${entry.parent}`);
+      }
+    }
+    if (roots !== 1) {
+      throw new Error(`Prefab '${id}': expected exactly one root entity, found ${roots}`);
+    }
+
+    // Every parent chain must reach the root
+    const parentOf = new Map(definition.entities.map((entry) => [entry.id, entry.parent]));
+    for (const entry of definition.entities) {
+      let current: number | undefined = entry.id;
+      for (let steps = 0; current !== undefined; steps++) {
+        if (steps > definition.entities.length) {
+          throw new Error(`Prefab '${id}': entity ${entry.id} is part of a parent cycle`);
+        }
+        current = parentOf.get(current);
+      }
+    }
+  }
+}
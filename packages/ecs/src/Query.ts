@@ -1,5 +1,6 @@
 import type { Archetype, ComponentType, EntityId, QueryFilter } from './types';
 import { ArchetypeManager } from './Archetype';
+import type { ComponentStorage } from './ComponentStorage';
 
 /**
  * Query result - entity and its components
@@ -14,12 +15,27 @@ export interface QueryResult {
  *
  * Queries are cached for performance - matching archetypes are computed once
  * and reused until archetypes change.
+ *
+ * Reactive features:
+ * - changed() filter: forEach()/getEntities() only yield entities whose listed
+ *   components were written since this query's previous pass
+ * - Added/removed tracking: once registered with World.registerQuery(), the query
+ *   records entities entering and leaving its match set until clearTracking()
  */
 export class Query {
   private filter: QueryFilter;
   private matchingArchetypes: Archetype[] | null = null;
   private cacheValid = false;
 
+  // Change detection: tick at which the previous changed() pass finished
+  private lastRunTick = 0;
+
+  // Added/removed tracking (only populated while registered with a World)
+  private tracking = false;
+  private added = new Set<EntityId>();
+  private removed = new Set<EntityId>();
+  private archetypeMatches = new Map<number, boolean>();
+
   constructor(filter: QueryFilter) {
     this.filter = filter;
   }
@@ -45,6 +61,19 @@ export class Query {
     return true;
   }
 
+  /**
+   * Check if an archetype matches, memoized per archetype ID
+   * Archetype component sets never change, so results stay valid for the archetype's lifetime
+   */
+  private matchesCached(archetype: Archetype, archetypeManager: ArchetypeManager): boolean {
+    let matches = this.archetypeMatches.get(archetype.id);
+    if (matches === undefined) {
+      matches = this.matchesArchetype(archetype, archetypeManager);
+      this.archetypeMatches.set(archetype.id, matches);
+    }
+    return matches;
+  }
+
   /**
    * Update cache of matching archetypes
    */
@@ -56,6 +85,16 @@ export class Query {
     this.cacheValid = true;
   }
 
+  /**
+   * Get the archetypes matching this query
+   */
+  getArchetypes(archetypeManager: ArchetypeManager): Archetype[] {
+    if (!this.cacheValid || !this.matchingArchetypes) {
+      this.updateCache(archetypeManager);
+    }
+    return this.matchingArchetypes!;
+  }
+
   /**
    * Invalidate cache (call when archetypes change)
    */
@@ -65,6 +104,10 @@ export class Query {
 
   /**
    * Iterate over all entities matching the query
+   *
+   * With a changed() filter, each call is a pass: only entities written since the
+   * previous pass are visited, and writes made inside the callback are not
+   * reported back to this query.
    */
   forEach(
     archetypeManager: ArchetypeManager,
@@ -81,11 +124,27 @@ export class Query {
     const requiredTypes = this.filter.with || [];
     const optionalTypes = this.filter.optional || [];
     const allTypes = [...requiredTypes, ...optionalTypes];
+    const changedTypes = this.filter.changed || [];
+    const sinceTick = this.lastRunTick;
 
     for (const archetype of this.matchingArchetypes) {
       const entityCount = archetype.count;
+      const changedStorages = changedTypes
+        .map((type) => archetype.components.get(type))
+        .filter((storage): storage is ComponentStorage<any> => storage !== undefined);
+
+      if (changedTypes.length > 0 && changedStorages.length === 0) {
+        continue;
+      }
 
       for (let i = 0; i < entityCount; i++) {
+        if (
+          changedStorages.length > 0 &&
+          !changedStorages.some((storage) => storage.getChangeTick(i) > sinceTick)
+        ) {
+          continue;
+        }
+
         const entity = archetype.entities[i];
         const components = new Map<ComponentType, any>();
 
@@ -100,6 +159,12 @@ export class Query {
         callback(entity, components);
       }
     }
+
+    if (changedTypes.length > 0) {
+      // Writes made during this pass carry the current tick and are treated as seen
+      this.lastRunTick = archetypeManager.getChangeTick();
+      archetypeManager.advanceChangeTick();
+    }
   }
 
   /**
@@ -117,6 +182,7 @@ export class Query {
 
   /**
    * Get first entity matching the query
+   * Ignores the changed() filter
    */
   getFirst(archetypeManager: ArchetypeManager): QueryResult | null {
     if (!this.cacheValid) {
@@ -152,6 +218,7 @@ export class Query {
 
   /**
    * Count entities matching the query
+   * Ignores the changed() filter
    */
   count(archetypeManager: ArchetypeManager): number {
     if (!this.cacheValid) {
@@ -171,6 +238,100 @@ export class Query {
   isEmpty(archetypeManager: ArchetypeManager): boolean {
     return this.count(archetypeManager) === 0;
   }
+
+  /**
+   * Start recording added/removed entities (called by World.registerQuery)
+   * Entities that already match are reported as added.
+   */
+  startTracking(archetypeManager: ArchetypeManager): void {
+    this.tracking = true;
+    this.added.clear();
+    this.removed.clear();
+    this.archetypeMatches.clear();
+
+    for (const archetype of archetypeManager.getAllArchetypes()) {
+      if (this.matchesCached(archetype, archetypeManager)) {
+        for (let i = 0; i < archetype.count; i++) {
+          this.added.add(archetype.entities[i]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Stop recording added/removed entities (called by World.unregisterQuery)
+   */
+  stopTracking(): void {
+    this.tracking = false;
+    this.added.clear();
+    this.removed.clear();
+    this.archetypeMatches.clear();
+  }
+
+  /**
+   * Check if added/removed tracking is active
+   */
+  isTracking(): boolean {
+    return this.tracking;
+  }
+
+  /**
+   * Record an entity moving between archetypes (called by World on structural changes)
+   *
+   * @param entity - Entity that moved
+   * @param from - Previous archetype (null if it had no components)
+   * @param to - New archetype (null if destroyed or left without components)
+   * @param archetypeManager - Archetype manager for matching
+   */
+  onEntityMoved(
+    entity: EntityId,
+    from: Archetype | null,
+    to: Archetype | null,
+    archetypeManager: ArchetypeManager
+  ): void {
+    if (!this.tracking) {
+      return;
+    }
+
+    const matchedBefore = from !== null && this.matchesCached(from, archetypeManager);
+    const matchesNow = to !== null && this.matchesCached(to, archetypeManager);
+
+    if (matchedBefore === matchesNow) {
+      return;
+    }
+
+    if (matchesNow) {
+      // A recycled ID may also be pending in removed - consumers handle removed first
+      this.added.add(entity);
+    } else if (!this.added.delete(entity)) {
+      this.removed.add(entity);
+    }
+  }
+
+  /**
+   * Get entities that started matching since the last clearTracking()
+   */
+  getAdded(): EntityId[] {
+    return Array.from(this.added);
+  }
+
+  /**
+   * Get entities that stopped matching since the last clearTracking()
+   *
+   * An ID can appear in both getRemoved() and getAdded() when it was destroyed and
+   * recycled; process removals first.
+   */
+  getRemoved(): EntityId[] {
+    return Array.from(this.removed);
+  }
+
+  /**
+   * Forget recorded added/removed entities (call after processing them)
+   */
+  clearTracking(): void {
+    this.added.clear();
+    this.removed.clear();
+  }
 }
 
 /**
@@ -203,6 +364,18 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Only visit entities where any of these components changed since the query's previous pass
+   *
+   * Changes are writes through World.setComponent() / ComponentStorage.set() and newly
+   * added components. Types should also appear in with() or optional().
+   * Applies to forEach()/getEntities(); count() and getFirst() ignore it.
+   */
+  changed(...types: ComponentType[]): this {
+    this.filter.changed = [...(this.filter.changed || []), ...types];
+    return this;
+  }
+
   /**
    * Build the query
    */
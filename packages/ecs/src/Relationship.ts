@@ -0,0 +1,212 @@
+import type { EntityId } from './types';
+
+/**
+ * Relationship kind between two entities (source -> target)
+ *
+ * Create with defineRelationship(); compare by identity.
+ */
+export interface RelationshipType {
+  /** Name for debugging */
+  readonly name: string;
+
+  /** A source can have at most one target; adding another replaces it */
+  readonly exclusive: boolean;
+
+  /** Destroying the target also destroys every source related to it */
+  readonly cascade: boolean;
+}
+
+/**
+ * Relationship options
+ */
+export interface RelationshipOptions {
+  /** At most one target per source (default: false) */
+  exclusive?: boolean;
+
+  /** Destroy sources when their target is destroyed (default: false) */
+  cascade?: boolean;
+}
+
+/**
+ * Define a relationship type
+ *
+ * @example
+ * const Follows = defineRelationship('Follows', { exclusive: true });
+ * world.addRelation(wolf, Follows, leader);
+ */
+export function defineRelationship(name: string, options: RelationshipOptions = {}): RelationshipType {
+  return Object.freeze({
+    name,
+    exclusive: options.exclusive ?? false,
+    cascade: options.cascade ?? false,
+  });
+}
+
+/** Source is aiming at / tracking the target (many targets allowed) */
+export const Targets = defineRelationship('Targets');
+
+/** Source belongs to the target; destroyed with it */
+export const OwnedBy = defineRelationship('OwnedBy', { exclusive: true, cascade: true });
+
+/** Source is physically attached to the target; destroyed with it */
+export const AttachedTo = defineRelationship('AttachedTo', { exclusive: true, cascade: true });
+
+/**
+ * Per-relationship index in both directions
+ */
+interface RelationIndex {
+  targets: Map<EntityId, Set<EntityId>>;
+  sources: Map<EntityId, Set<EntityId>>;
+}
+
+/**
+ * Relationship Manager - stores typed relationships between entities
+ *
+ * Relationships are indexed both ways so "targets of A" and "sources pointing at
+ * B" are O(1) lookups. Owned by World, which removes an entity's relationships
+ * when it is destroyed.
+ */
+export class RelationshipManager {
+  private indices = new Map<RelationshipType, RelationIndex>();
+
+  /**
+   * Relate source to target
+   *
+   * For exclusive relationships any previous target of source is replaced.
+   */
+  add(source: EntityId, relation: RelationshipType, target: EntityId): void {
+    const index = this.getIndex(relation);
+
+    if (relation.exclusive) {
+      for (const previous of index.targets.get(source) ?? []) {
+        if (previous !== target) {
+          this.remove(source, relation, previous);
+        }
+      }
+    }
+
+    addToSet(index.targets, source, target);
+    addToSet(index.sources, target, source);
+  }
+
+  /**
+   * Remove a relationship
+   *
+   * @param target - Target to unrelate (all targets if omitted)
+   */
+  remove(source: EntityId, relation: RelationshipType, target?: EntityId): void {
+    const index = this.indices.get(relation);
+    if (!index) {
+      return;
+    }
+
+    const targets = target === undefined ? [...(index.targets.get(source) ?? [])] : [target];
+    for (const t of targets) {
+      deleteFromSet(index.targets, source, t);
+      deleteFromSet(index.sources, t, source);
+    }
+  }
+
+  /**
+   * Check if source is related to target (or to anything, if target is omitted)
+   */
+  has(source: EntityId, relation: RelationshipType, target?: EntityId): boolean {
+    const targets = this.indices.get(relation)?.targets.get(source);
+    if (!targets) {
+      return false;
+    }
+    return target === undefined ? targets.size > 0 : targets.has(target);
+  }
+
+  /**
+   * Get the targets of source
+   */
+  getTargets(source: EntityId, relation: RelationshipType): EntityId[] {
+    return [...(this.indices.get(relation)?.targets.get(source) ?? [])];
+  }
+
+  /**
+   * Get the entities related to target
+   */
+  getSources(relation: RelationshipType, target: EntityId): EntityId[] {
+    return [...(this.indices.get(relation)?.sources.get(target) ?? [])];
+  }
+
+  /**
+   * Remove every relationship an entity takes part in
+   *
+   * @returns Sources of cascading relationships that targeted the entity
+   */
+  removeEntity(entityId: EntityId): EntityId[] {
+    const cascaded: EntityId[] = [];
+
+    for (const [relation, index] of this.indices) {
+      for (const target of [...(index.targets.get(entityId) ?? [])]) {
+        this.remove(entityId, relation, target);
+      }
+
+      for (const source of [...(index.sources.get(entityId) ?? [])]) {
+        this.remove(source, relation, entityId);
+        if (relation.cascade) {
+          cascaded.push(source);
+        }
+      }
+    }
+
+    return cascaded;
+  }
+
+  /**
+   * Remove all relationships
+   */
+  clear(): void {
+    this.indices.clear();
+  }
+
+  /**
+   * Get relationship counts per type for debugging
+   */
+  getStats(): Array<{ name: string; count: number }> {
+    return Array.from(this.indices, ([relation, index]) => {
+      let count = 0;
+      for (const targets of index.targets.values()) {
+        count += targets.size;
+      }
+      return { name: relation.name, count };
+    });
+  }
+
+  /**
+   * Get or create the index for a relationship type
+   */
+  private getIndex(relation: RelationshipType): RelationIndex {
+    let index = this.indices.get(relation);
+    if (!index) {
+      index = { targets: new Map(), sources: new Map() };
+      this.indices.set(relation, index);
+    }
+    return index;
+  }
+}
+
+/**
+ * Add value to the set stored under key
+ */
+function addToSet(map: Map<EntityId, Set<EntityId>>, key: EntityId, value: EntityId): void {
+  let set = map.get(key);
+  if (!set) {
+    set = new Set();
+    map.set(key, set);
+  }
+  set.add(value);
+}
+
+/**
+ * Remove value from the set stored under key, dropping empty sets
+ */
+function deleteFromSet(map: Map<EntityId, Set<EntityId>>, key: EntityId, value: EntityId): void {
+  const set = map.get(key);
+  if (set && set.delete(value) && set.size === 0) {
+    map.delete(key);
+  }
+}
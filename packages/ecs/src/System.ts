@@ -1,28 +1,41 @@
-import type { System } from './types';
+import type { ComponentType, System, SystemConflict, SystemSchedule } from './types';
+import { KernelSystem } from './parallel/KernelSystem';
+import type { WorkerPool } from './parallel/WorkerPool';
+import type { World } from './World';
 
 /**
  * System Manager - manages system registration and execution
  *
- * Systems are executed in priority order every frame.
+ * Systems are executed in a topological order of their before/after
+ * constraints. Among systems the constraints leave unordered, lower priority
+ * runs first, then registration order.
  */
 export class SystemManager {
   private systems: System[] = [];
+  private registered: System[] = [];
   private systemMap: Map<string, System> = new Map();
   private initialized = false;
 
   /**
    * Register a system
+   *
+   * @throws If the name is taken or the system's constraints form a cycle
    */
   register(system: System): void {
     if (this.systemMap.has(system.name)) {
       throw new Error(`System ${system.name} is already registered`);
     }
 
-    this.systems.push(system);
+    this.registered.push(system);
     this.systemMap.set(system.name, system);
 
-    // Sort by priority
-    this.systems.sort((a, b) => a.priority - b.priority);
+    try {
+      this.systems = this.computeOrder();
+    } catch (error) {
+      this.registered.pop();
+      this.systemMap.delete(system.name);
+      throw error;
+    }
   }
 
   /**
@@ -34,8 +47,9 @@ export class SystemManager {
       return;
     }
 
-    this.systems = this.systems.filter((s) => s.name !== systemName);
+    this.registered = this.registered.filter((s) => s.name !== systemName);
     this.systemMap.delete(systemName);
+    this.systems = this.computeOrder();
   }
 
   /**
@@ -69,6 +83,64 @@ export class SystemManager {
     }
   }
 
+  /**
+   * Update all systems, running kernel systems on a worker pool
+   *
+   * Consecutive kernel systems with no constraint or conflicting access between
+   * them form a stage whose jobs run concurrently. Other systems run alone on the
+   * main thread, in schedule order.
+   */
+  async updateParallel(world: World, deltaTime: number, pool: WorkerPool): Promise<void> {
+    for (const stage of this.getStages()) {
+      const [first] = stage;
+      if (!(first instanceof KernelSystem)) {
+        first.update(world, deltaTime);
+        continue;
+      }
+
+      const kernelSystems = stage as KernelSystem[];
+      const jobs = kernelSystems.flatMap((system) =>
+        system.createJobs(world, deltaTime, pool.getSize(), pool.getMinJobSize())
+      );
+      await pool.run(jobs);
+
+      for (const system of kernelSystems) {
+        system.markWritten(world);
+      }
+    }
+  }
+
+  /**
+   * Group the schedule into stages that may run concurrently
+   *
+   * Only kernel systems share a stage; every other system is a stage of its own.
+   */
+  getStages(): System[][] {
+    const predecessors = this.getPredecessors();
+    const stages: System[][] = [];
+    let current: System[] = [];
+
+    for (const system of this.systems) {
+      const joins =
+        system instanceof KernelSystem &&
+        current.length > 0 &&
+        current[0] instanceof KernelSystem &&
+        current.every(
+          (other) => !predecessors.get(system.name)!.has(other.name) && !this.findConflict(other, system)
+        );
+
+      if (joins) {
+        current.push(system);
+      } else {
+        if (current.length > 0) stages.push(current);
+        current = [system];
+      }
+    }
+
+    if (current.length > 0) stages.push(current);
+    return stages;
+  }
+
   /**
    * Cleanup all systems
    */
@@ -92,6 +164,7 @@ export class SystemManager {
    */
   clear(): void {
     this.systems = [];
+    this.registered = [];
     this.systemMap.clear();
     this.initialized = false;
   }
@@ -108,4 +181,170 @@ export class SystemManager {
       })),
     };
   }
+
+  /**
+   * Get the computed execution order and unordered component access
+   */
+  getSchedule(): SystemSchedule {
+    const predecessors = this.getPredecessors();
+    const reachable = new Map<string, Set<string>>();
+    for (const system of this.systems) {
+      reachable.set(system.name, this.collectAncestors(system.name, predecessors));
+    }
+
+    const conflicts: SystemConflict[] = [];
+    for (let i = 0; i < this.systems.length; i++) {
+      for (let j = i + 1; j < this.systems.length; j++) {
+        const first = this.systems[i];
+        const second = this.systems[j];
+        if (reachable.get(second.name)!.has(first.name)) {
+          continue;
+        }
+
+        const conflict = this.findConflict(first, second);
+        if (conflict) {
+          conflicts.push(conflict);
+        }
+      }
+    }
+
+    return {
+      systems: this.systems.map((s) => ({
+        name: s.name,
+        priority: s.priority,
+        reads: typeNames(s.reads),
+        writes: typeNames(s.writes),
+        runsAfter: Array.from(predecessors.get(s.name)!),
+      })),
+      conflicts,
+    };
+  }
+
+  /**
+   * Sort registered systems by constraints, then priority, then registration order
+   */
+  private computeOrder(): System[] {
+    const predecessors = this.getPredecessors();
+    const remaining = new Map<string, number>();
+    for (const [name, before] of predecessors) {
+      remaining.set(name, before.size);
+    }
+
+    const order: System[] = [];
+    const pending = [...this.registered];
+    while (pending.length > 0) {
+      // Lowest priority among systems whose predecessors have all run (stable)
+      let next = -1;
+      for (let i = 0; i < pending.length; i++) {
+        if (remaining.get(pending[i].name) === 0 && (next === -1 || pending[i].priority < pending[next].priority)) {
+          next = i;
+        }
+      }
+
+      if (next === -1) {
+        throw new Error(`System ordering cycle: ${this.findCycle(pending, predecessors).join(' -> ')}`);
+      }
+
+      const [system] = pending.splice(next, 1);
+      order.push(system);
+      for (const other of pending) {
+        if (predecessors.get(other.name)!.has(system.name)) {
+          remaining.set(other.name, remaining.get(other.name)! - 1);
+        }
+      }
+    }
+
+    return order;
+  }
+
+  /**
+   * Map each system to the registered systems that must run before it
+   */
+  private getPredecessors(): Map<string, Set<string>> {
+    const predecessors = new Map<string, Set<string>>();
+    for (const system of this.registered) {
+      predecessors.set(system.name, new Set());
+    }
+
+    for (const system of this.registered) {
+      for (const name of system.after ?? []) {
+        if (predecessors.has(name) && name !== system.name) {
+          predecessors.get(system.name)!.add(name);
+        }
+      }
+      for (const name of system.before ?? []) {
+        if (predecessors.has(name) && name !== system.name) {
+          predecessors.get(name)!.add(system.name);
+        }
+      }
+    }
+
+    return predecessors;
+  }
+
+  /**
+   * Walk predecessor links among unsortable systems until one repeats
+   */
+  private findCycle(pending: System[], predecessors: Map<string, Set<string>>): string[] {
+    const unsorted = new Set(pending.map((s) => s.name));
+    const path: string[] = [];
+    let current = pending[0].name;
+
+    while (!path.includes(current)) {
+      path.push(current);
+      // Every unsortable system has at least one unsortable predecessor
+      current = Array.from(predecessors.get(current)!).find((name) => unsorted.has(name))!;
+    }
+
+    // Predecessor walk runs backwards; report in execution direction
+    return [...path.slice(path.indexOf(current)), current].reverse();
+  }
+
+  /**
+   * Collect every system that runs before a system through constraints
+   */
+  private collectAncestors(name: string, predecessors: Map<string, Set<string>>): Set<string> {
+    const ancestors = new Set<string>();
+    const stack = Array.from(predecessors.get(name)!);
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (ancestors.has(current)) continue;
+      ancestors.add(current);
+      stack.push(...predecessors.get(current)!);
+    }
+    return ancestors;
+  }
+
+  /**
+   * Find components one system writes and the other reads or writes
+   */
+  private findConflict(first: System, second: System): SystemConflict | null {
+    const firstWrites = new Set(first.writes ?? []);
+    const secondWrites = new Set(second.writes ?? []);
+
+    const writeWrite = Array.from(firstWrites).filter((type) => secondWrites.has(type));
+    if (writeWrite.length > 0) {
+      return { systems: [first.name, second.name], components: typeNames(writeWrite), kind: 'write-write' };
+    }
+
+    const readWrite = new Set<ComponentType>();
+    for (const type of first.reads ?? []) {
+      if (secondWrites.has(type)) readWrite.add(type);
+    }
+    for (const type of second.reads ?? []) {
+      if (firstWrites.has(type)) readWrite.add(type);
+    }
+    if (readWrite.size > 0) {
+      return { systems: [first.name, second.name], components: typeNames(Array.from(readWrite)), kind: 'read-write' };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Component type names, sorted
+ */
+function typeNames(types: ComponentType[] | undefined): string[] {
+  return (types ?? []).map((type) => type.name).sort();
 }
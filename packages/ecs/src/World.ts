@@ -2,10 +2,45 @@ import { EntityManager } from './Entity';
 import { ArchetypeManager } from './Archetype';
 import { SystemManager } from './System';
 import { Query, QueryBuilder } from './Query';
-import type { Component, ComponentType, EntityId, System } from './types';
+import { CommandBuffer } from './CommandBuffer';
+import { ComponentRegistry } from './ComponentRegistry';
+import { WorldSerializer } from './WorldSerializer';
+import { WorldInspector, type EntityInspection, type EntitySummary } from './WorldInspector';
+import { RelationshipManager, type RelationshipType } from './Relationship';
+import type {
+  Archetype,
+  Component,
+  ComponentType,
+  EntityId,
+  ResourceType,
+  System,
+  SystemSchedule,
+} from './types';
 import type { TransformSystem } from './systems/TransformSystem';
+import type { WorkerPool } from './parallel/WorkerPool';
 import { Transform } from './components/Transform';
 
+/**
+ * World construction options
+ */
+export interface WorldOptions {
+  /**
+   * Component registry for this world (default: the shared default registry)
+   *
+   * Use `new ComponentRegistry(ComponentRegistry.getDefault())` to register
+   * world-local components on top of the shared ones.
+   */
+  registry?: ComponentRegistry;
+
+  /**
+   * Back component arrays with SharedArrayBuffer (default: false)
+   *
+   * Required by updateParallel(). Browsers only provide SharedArrayBuffer on
+   * cross-origin isolated pages (COOP/COEP headers).
+   */
+  sharedStorage?: boolean;
+}
+
 /**
  * World - central container for the ECS
  *
@@ -16,7 +51,12 @@ export class World {
   private entityManager: EntityManager;
   private archetypeManager: ArchetypeManager;
   private systemManager: SystemManager;
-  private queries: Map<string, Query> = new Map();
+  private queries: Set<Query> = new Set();
+  private commandBuffer = new CommandBuffer();
+  private relationships = new RelationshipManager();
+  private resources = new Map<ResourceType, unknown>();
+  private entityNames = new Map<EntityId, string>();
+  private destroyListeners = new Set<(entityId: EntityId) => void>();
 
   /**
    * Get the archetype manager (for query execution)
@@ -25,12 +65,19 @@ export class World {
     return this.archetypeManager;
   }
 
-  constructor() {
+  constructor(options: WorldOptions = {}) {
     this.entityManager = new EntityManager();
-    this.archetypeManager = new ArchetypeManager();
+    this.archetypeManager = new ArchetypeManager(256, options.registry, options.sharedStorage ?? false);
     this.systemManager = new SystemManager();
   }
 
+  /**
+   * Get the component registry this world resolves component layouts from
+   */
+  getComponentRegistry(): ComponentRegistry {
+    return this.archetypeManager.getComponentRegistry();
+  }
+
   /**
    * Create a new entity
    */
@@ -40,6 +87,9 @@ export class World {
 
   /**
    * Destroy an entity and all its components
+   *
+   * Relationships the entity takes part in are removed; sources of cascading
+   * relationships (e.g. OwnedBy) that targeted it are destroyed too.
    */
   destroyEntity(entityId: EntityId): void {
     const metadata = this.entityManager.getMetadata(entityId);
@@ -59,6 +109,9 @@ export class World {
       transformSystem.onEntityDestroyed(entityId);
     }
 
+    const oldArchetype = metadata.archetype;
+    const cascaded = this.relationships.removeEntity(entityId);
+
     // Remove from archetype
     if (metadata.archetype) {
       const movedEntityId = this.archetypeManager.removeEntity(
@@ -78,9 +131,19 @@ export class World {
 
     // Destroy entity
     this.entityManager.destroy(entityId);
+    this.entityNames.delete(entityId);
 
     // Invalidate query caches
     this.invalidateQueries();
+    this.notifyQueries(entityId, oldArchetype, null);
+
+    for (const listener of this.destroyListeners) {
+      listener(entityId);
+    }
+
+    for (const source of cascaded) {
+      this.destroyEntity(source);
+    }
   }
 
   /**
@@ -90,6 +153,80 @@ export class World {
     return this.entityManager.exists(entityId);
   }
 
+  /**
+   * Call a listener after an entity is destroyed
+   *
+   * Also called for every entity removed by clear(). Unlike query removal
+   * tracking, this covers entities without components.
+   *
+   * @returns Function that removes the listener
+   */
+  onEntityDestroyed(listener: (entityId: EntityId) => void): () => void {
+    this.destroyListeners.add(listener);
+    return () => {
+      this.destroyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get all live entity IDs
+   */
+  getEntities(): EntityId[] {
+    return this.entityManager.getAllEntities();
+  }
+
+  /**
+   * Get the component types currently attached to an entity
+   *
+   * @returns Component types (sorted by name), or an empty array if the entity has none
+   */
+  getComponentTypes(entityId: EntityId): ComponentType[] {
+    const metadata = this.entityManager.getMetadata(entityId);
+    if (!metadata || !metadata.archetype) {
+      return [];
+    }
+    return [...metadata.archetype.types];
+  }
+
+  /**
+   * Move an entity, its components and its Transform descendants to another world
+   *
+   * Components are matched by name in the target world's registry, so both worlds
+   * must know every component type involved. Entity references between moved
+   * entities are remapped; references to entities left behind become -1.
+   * The entities are destroyed in this world once the copy succeeds. Entity
+   * names move with them; relationships are not carried over.
+   *
+   * @param entityId - Entity to move
+   * @param target - World to move it into
+   * @returns The entity's ID in the target world
+   */
+  transferEntity(entityId: EntityId, target: World): EntityId {
+    if (!this.hasEntity(entityId)) {
+      throw new Error(`Entity ${entityId} does not exist`);
+    }
+    if (target === this) {
+      return entityId;
+    }
+
+    const snapshot = WorldSerializer.serialize(this, [entityId]);
+    const { entityMap } = WorldSerializer.deserialize(target, snapshot);
+
+    for (const [sourceId, targetId] of entityMap) {
+      const name = this.entityNames.get(sourceId);
+      if (name !== undefined) {
+        target.setEntityName(targetId, name);
+      }
+    }
+
+    // Children first, so the root still unlinks itself from its old parent last
+    for (let i = snapshot.entities.length - 1; i >= 0; i--) {
+      this.destroyEntity(snapshot.entities[i].id);
+    }
+
+    return entityMap.get(entityId)!;
+  }
+
   /**
    * Add a component to an entity
    */
@@ -105,13 +242,22 @@ export class World {
     }
 
     // Collect existing components - clone them to avoid shared state
+    const oldArchetype = metadata.archetype;
     const components = new Map<ComponentType, any>();
+    const changeTicks = new Map<ComponentType, number>();
     if (metadata.archetype) {
-      for (const [componentType, storage] of metadata.archetype.components) {
+      for (const componentType of metadata.archetype.types) {
+        const storage = metadata.archetype.components.get(componentType);
+        if (!storage) {
+          components.set(componentType, {}); // Tag
+          continue;
+        }
+
         const existingComponent = storage.getComponent(metadata.archetypeIndex);
         // Clone component if it has a clone method, otherwise use the reference
         const clonedComponent = existingComponent?.clone ? existingComponent.clone() : existingComponent;
         components.set(componentType, clonedComponent);
+        changeTicks.set(componentType, storage.getChangeTick(metadata.archetypeIndex));
       }
 
       // Remove from old archetype
@@ -130,8 +276,9 @@ export class World {
       }
     }
 
-    // Add new component
+    // Add new component (stamped as changed; replaces any existing one)
     components.set(type, component);
+    changeTicks.delete(type);
 
     // Get or create new archetype
     const newArchetype = this.archetypeManager.getOrCreateArchetype(
@@ -139,7 +286,7 @@ export class World {
     );
 
     // Add to new archetype
-    const newIndex = this.archetypeManager.addEntity(newArchetype, entityId, components);
+    const newIndex = this.archetypeManager.addEntity(newArchetype, entityId, components, changeTicks);
 
     // Update metadata
     metadata.archetype = newArchetype;
@@ -148,6 +295,19 @@ export class World {
 
     // Invalidate query caches
     this.invalidateQueries();
+    this.notifyQueries(entityId, oldArchetype, newArchetype);
+  }
+
+  /**
+   * Add a tag component to an entity
+   *
+   * @param type - Component registered with ComponentRegistry.registerTag()
+   */
+  addTag<T extends Component>(entityId: EntityId, type: ComponentType<T>): void {
+    if (!this.getComponentRegistry().isTag(type)) {
+      throw new Error(`Component ${type.name} is not a registered tag`);
+    }
+    this.addComponent(entityId, type, {} as T);
   }
 
   /**
@@ -166,14 +326,25 @@ export class World {
     }
 
     // Collect remaining components - clone them to avoid shared state
+    const oldArchetype = metadata.archetype;
     const components = new Map<ComponentType, any>();
-    for (const [componentType, storage] of metadata.archetype.components) {
-      if (componentType !== type) {
-        const component = storage.getComponent(metadata.archetypeIndex);
-        // Clone component if it has a clone method, otherwise use the reference
-        const clonedComponent = component?.clone ? component.clone() : component;
-        components.set(componentType, clonedComponent);
+    const changeTicks = new Map<ComponentType, number>();
+    for (const componentType of metadata.archetype.types) {
+      if (componentType === type) {
+        continue;
+      }
+
+      const storage = metadata.archetype.components.get(componentType);
+      if (!storage) {
+        components.set(componentType, {}); // Tag
+        continue;
       }
+
+      const component = storage.getComponent(metadata.archetypeIndex);
+      // Clone component if it has a clone method, otherwise use the reference
+      const clonedComponent = component?.clone ? component.clone() : component;
+      components.set(componentType, clonedComponent);
+      changeTicks.set(componentType, storage.getChangeTick(metadata.archetypeIndex));
     }
 
     // Remove from old archetype
@@ -197,6 +368,7 @@ export class World {
       metadata.archetypeIndex = -1;
       this.entityManager.setMetadata(entityId, metadata);
       this.invalidateQueries();
+      this.notifyQueries(entityId, oldArchetype, null);
       return;
     }
 
@@ -206,7 +378,7 @@ export class World {
     );
 
     // Add to new archetype
-    const newIndex = this.archetypeManager.addEntity(newArchetype, entityId, components);
+    const newIndex = this.archetypeManager.addEntity(newArchetype, entityId, components, changeTicks);
 
     // Update metadata
     metadata.archetype = newArchetype;
@@ -215,6 +387,7 @@ export class World {
 
     // Invalidate query caches
     this.invalidateQueries();
+    this.notifyQueries(entityId, oldArchetype, newArchetype);
   }
 
   /**
@@ -274,6 +447,31 @@ export class World {
     return new QueryBuilder();
   }
 
+  /**
+   * Register a query for added/removed tracking
+   *
+   * Registered queries are notified of every structural change and their archetype
+   * cache is kept up to date. Entities that already match are reported as added.
+   *
+   * @returns The same query, for chaining
+   */
+  registerQuery(query: Query): Query {
+    if (!this.queries.has(query)) {
+      this.queries.add(query);
+      query.startTracking(this.archetypeManager);
+    }
+    return query;
+  }
+
+  /**
+   * Stop tracking a registered query
+   */
+  unregisterQuery(query: Query): void {
+    if (this.queries.delete(query)) {
+      query.stopTracking();
+    }
+  }
+
   /**
    * Execute a query
    */
@@ -295,6 +493,28 @@ export class World {
     this.systemManager.unregister(systemName);
   }
 
+  /**
+   * Get the world's command buffer
+   *
+   * Record structural changes here while iterating query results; they are
+   * applied by flushCommands() at the next sync point.
+   */
+  getCommandBuffer(): CommandBuffer {
+    return this.commandBuffer;
+  }
+
+  /**
+   * Play back the command buffer (sync point)
+   *
+   * Called automatically at the end of update(). Call it directly when systems are
+   * driven by something else, e.g. after each GameLoop phase.
+   *
+   * @returns Number of commands applied
+   */
+  flushCommands(): number {
+    return this.commandBuffer.playback(this);
+  }
+
   /**
    * Initialize all systems
    */
@@ -303,10 +523,30 @@ export class World {
   }
 
   /**
-   * Update all systems
+   * Update all systems, then play back deferred commands
    */
   update(deltaTime: number): void {
     this.systemManager.update(this, deltaTime);
+    this.flushCommands();
+  }
+
+  /**
+   * Update all systems, running kernel systems on a worker pool
+   *
+   * Kernel systems with non-conflicting reads/writes run concurrently; other
+   * systems run on the main thread in schedule order. Deferred commands are
+   * played back at the end, as in update().
+   *
+   * @param deltaTime - Frame delta time in seconds
+   * @param pool - Workers running startKernelWorker() with this world's kernels
+   */
+  async updateParallel(deltaTime: number, pool: WorkerPool): Promise<void> {
+    if (!this.archetypeManager.isSharedStorage()) {
+      throw new Error('updateParallel() requires a World created with sharedStorage: true');
+    }
+
+    await this.systemManager.updateParallel(this, deltaTime, pool);
+    this.flushCommands();
   }
 
   /**
@@ -320,20 +560,54 @@ export class World {
    * Invalidate all query caches
    */
   private invalidateQueries(): void {
-    for (const query of this.queries.values()) {
+    for (const query of this.queries) {
       query.invalidateCache();
     }
   }
 
+  /**
+   * Report an entity's archetype change to registered queries
+   */
+  private notifyQueries(entityId: EntityId, from: Archetype | null, to: Archetype | null): void {
+    for (const query of this.queries) {
+      query.onEntityMoved(entityId, from, to, this.archetypeManager);
+    }
+  }
+
   /**
    * Clear the entire world
    */
   clear(): void {
     this.systemManager.cleanup(this);
+    this.commandBuffer.clear();
+    this.relationships.clear();
+    this.resources.clear();
+    this.entityNames.clear();
+    const entities = this.destroyListeners.size > 0 ? this.entityManager.getAllEntities() : [];
     this.entityManager.clear();
     this.archetypeManager.clear();
     this.systemManager.clear();
+    for (const query of this.queries) {
+      query.stopTracking();
+      query.invalidateCache();
+    }
     this.queries.clear();
+
+    for (const entityId of entities) {
+      for (const listener of this.destroyListeners) {
+        listener(entityId);
+      }
+    }
+  }
+
+  /**
+   * Get the system execution order and unordered component access
+   *
+   * Conflicts list systems that touch the same component (at least one writing
+   * it) without a before/after constraint between them.
+   */
+  getSchedule(): SystemSchedule {
+    return this.systemManager.getSchedule();
   }
 
   /**
@@ -351,6 +625,7 @@ export class World {
       entities: this.entityManager.getStats(),
       archetypes: this.archetypeManager.getStats(),
       systems: this.systemManager.getStats(),
+      relationships: this.relationships.getStats(),
     };
   }
 
@@ -490,4 +765,166 @@ export class World {
     }
     return transformSystem.getLocalMatrix(entityId);
   }
+
+  // =============================================================================
+  // INSPECTION
+  // =============================================================================
+
+  /**
+   * Set a display name for an entity (editor hierarchy, console output)
+   *
+   * @param name - Name to show, or undefined to clear it
+   */
+  setEntityName(entityId: EntityId, name: string | undefined): void {
+    if (!this.hasEntity(entityId)) {
+      throw new Error(`Entity ${entityId} does not exist`);
+    }
+    if (name === undefined) {
+      this.entityNames.delete(entityId);
+    } else {
+      this.entityNames.set(entityId, name);
+    }
+  }
+
+  /**
+   * Get the display name of an entity
+   */
+  getEntityName(entityId: EntityId): string | undefined {
+    return this.entityNames.get(entityId);
+  }
+
+  /**
+   * List all entities with their names, archetypes and parents
+   *
+   * Convenience method for WorldInspector.listEntities()
+   */
+  inspectEntities(): EntitySummary[] {
+    return WorldInspector.listEntities(this);
+  }
+
+  /**
+   * Get an entity's components with field values and types
+   *
+   * Convenience method for WorldInspector.inspectEntity()
+   */
+  inspectEntity(entityId: EntityId): EntityInspection | undefined {
+    return WorldInspector.inspectEntity(this, entityId);
+  }
+
+  /**
+   * Set a component field by path with type validation
+   *
+   * Convenience method for WorldInspector.setField()
+   *
+   * @param path - `Component.field` (e.g. 'Transform.x')
+   * @returns Previous value
+   */
+  setComponentField(entityId: EntityId, path: string, value: number): number {
+    return WorldInspector.setField(this, entityId, path, value);
+  }
+
+  // =============================================================================
+  // RESOURCES
+  // =============================================================================
+
+  /**
+   * Store a world-level singleton (time, input state, active camera, ...)
+   *
+   * Replaces any value previously stored under the same type.
+   *
+   * @example
+   * world.setResource(Time, new Time());
+   * const time = world.getResource(Time)!;
+   */
+  setResource<T>(type: ResourceType<T>, value: T): void {
+    this.resources.set(type, value);
+  }
+
+  /**
+   * Get a resource
+   *
+   * @returns The stored value, or undefined if none is set
+   */
+  getResource<T>(type: ResourceType<T>): T | undefined {
+    return this.resources.get(type) as T | undefined;
+  }
+
+  /**
+   * Check if a resource is set
+   */
+  hasResource(type: ResourceType): boolean {
+    return this.resources.has(type);
+  }
+
+  /**
+   * Remove a resource
+   *
+   * @returns true if a value was removed
+   */
+  removeResource(type: ResourceType): boolean {
+    return this.resources.delete(type);
+  }
+
+  // =============================================================================
+  // RELATIONSHIPS
+  // =============================================================================
+
+  /**
+   * Relate source to target
+   *
+   * Exclusive relationships (OwnedBy, AttachedTo) replace any previous target.
+   *
+   * @param source - Entity holding the relationship
+   * @param relation - Relationship type
+   * @param target - Entity related to
+   */
+  addRelation(source: EntityId, relation: RelationshipType, target: EntityId): void {
+    if (!this.hasEntity(source)) {
+      throw new Error(`Entity ${source} does not exist`);
+    }
+    if (!this.hasEntity(target)) {
+      throw new Error(`Entity ${target} does not exist`);
+    }
+    if (source === target) {
+      throw new Error(`Entity ${source} cannot be related to itself (${relation.name})`);
+    }
+
+    this.relationships.add(source, relation, target);
+  }
+
+  /**
+   * Remove a relationship
+   *
+   * @param target - Target to unrelate (all targets of this type if omitted)
+   */
+  removeRelation(source: EntityId, relation: RelationshipType, target?: EntityId): void {
+    this.relationships.remove(source, relation, target);
+  }
+
+  /**
+   * Check if source is related to target (or to any entity, if target is omitted)
+   */
+  hasRelation(source: EntityId, relation: RelationshipType, target?: EntityId): boolean {
+    return this.relationships.has(source, relation, target);
+  }
+
+  /**
+   * Get the entities source is related to
+   *
+   * @example
+   * const owner = world.getRelationTargets(sword, OwnedBy)[0];
+   */
+  getRelationTargets(source: EntityId, relation: RelationshipType): EntityId[] {
+    return this.relationships.getTargets(source, relation);
+  }
+
+  /**
+   * Get the entities related to target
+   *
+   * @example
+   * const inventory = world.getRelationSources(OwnedBy, player);
+   */
+  getRelationSources(relation: RelationshipType, target: EntityId): EntityId[] {
+    return this.relationships.getSources(relation, target);
+  }
 }
@@ -0,0 +1,262 @@
+/**
+ * World Inspector - read and edit world contents for editor tooling
+ *
+ * Backs hierarchy and inspector panels and the `inspect` / `set` console
+ * commands. Component values are read through ComponentRegistry field
+ * descriptors, so every registered component is covered without extra code.
+ *
+ * Entities are addressed by ID; components by registered name, fields by name
+ * (`Transform.x`).
+ *
+ * @example
+ * ```typescript
+ * for (const entity of WorldInspector.listEntities(world)) {
+ *   console.log(entity.id, entity.name ?? '(unnamed)', entity.archetype);
+ * }
+ *
+ * WorldInspector.setField(world, player, 'Transform.x', 10);
+ * ```
+ */
+
+import type { ComponentType, EntityId } from './types';
+import type { FieldDescriptor, TypedArrayConstructor } from './ComponentStorage';
+import type { World } from './World';
+import { Transform, type TransformData } from './components/Transform';
+
+/**
+ * Entity row for hierarchy views
+ */
+export interface EntitySummary {
+  /** Entity ID */
+  id: EntityId;
+
+  /** Display name (see World.setEntityName) */
+  name?: string;
+
+  /** Archetype signature (component names, sorted) */
+  archetype: string;
+
+  /** Transform parent, if any */
+  parent?: EntityId;
+}
+
+/**
+ * Field value with its storage description
+ */
+export interface InspectedField {
+  /** Field name */
+  name: string;
+
+  /** Storage type (e.g. 'Float32Array') */
+  type: string;
+
+  /** Current value */
+  value: number;
+
+  /** Field holds an EntityId */
+  entityRef: boolean;
+
+  /** Runtime-only field (not serialized) */
+  transient: boolean;
+}
+
+/**
+ * Component with its field values
+ */
+export interface InspectedComponent {
+  /** Registered component name */
+  name: string;
+
+  /** Data-less tag component */
+  tag: boolean;
+
+  /** Fields in descriptor order (empty for tags) */
+  fields: InspectedField[];
+}
+
+/**
+ * Full entity view for inspector panels
+ */
+export interface EntityInspection extends EntitySummary {
+  /** Components sorted by name */
+  components: InspectedComponent[];
+}
+
+/**
+ * Value range of integer storage types
+ */
+const INTEGER_RANGES = new Map<TypedArrayConstructor, [number, number]>([
+  [Int8Array, [-128, 127]],
+  [Int16Array, [-32768, 32767]],
+  [Int32Array, [-2147483648, 2147483647]],
+  [Uint8Array, [0, 255]],
+  [Uint16Array, [0, 65535]],
+  [Uint32Array, [0, 4294967295]],
+]);
+
+/**
+ * World inspector
+ *
+ * Stateless - all methods are static.
+ */
+export class WorldInspector {
+  /**
+   * List all live entities
+   *
+   * @param world - World to inspect
+   * @returns Entity summaries in ID order
+   */
+  static listEntities(world: World): EntitySummary[] {
+    return world
+      .getEntities()
+      .sort((a, b) => a - b)
+      .map((entityId) => this.summarize(world, entityId));
+  }
+
+  /**
+   * Inspect one entity
+   *
+   * @param world - World containing the entity
+   * @param entityId - Entity to inspect
+   * @returns Entity view, or undefined if the entity does not exist
+   */
+  static inspectEntity(world: World, entityId: EntityId): EntityInspection | undefined {
+    if (!world.hasEntity(entityId)) {
+      return undefined;
+    }
+
+    const registry = world.getComponentRegistry();
+    const components: InspectedComponent[] = [];
+
+    for (const type of world.getComponentTypes(entityId)) {
+      const descriptors = registry.getFields(type) ?? [];
+      const component = world.getComponent(entityId, type) as Record<string, number> | undefined;
+
+      components.push({
+        name: type.name,
+        tag: descriptors.length === 0,
+        fields: descriptors.map((field) => ({
+          name: field.name,
+          type: field.arrayType.name,
+          value: component?.[field.name] ?? 0,
+          entityRef: field.entityRef ?? false,
+          transient: field.transient ?? false,
+        })),
+      });
+    }
+
+    return { ...this.summarize(world, entityId), components };
+  }
+
+  /**
+   * Set a component field by path
+   *
+   * The value must fit the field's storage type: integer types reject
+   * fractions and out-of-range values, and `entityRef` fields only accept -1
+   * or a live entity. Transient fields (hierarchy links, matrix indices) are
+   * maintained by their systems and cannot be set. Transform edits mark the
+   * transform dirty so TransformSystem recomputes its matrices.
+   *
+   * @param world - World containing the entity
+   * @param entityId - Entity to edit
+   * @param path - `Component.field` (e.g. 'Transform.x')
+   * @param value - New value
+   * @returns Previous value
+   * @throws Error if the entity, component or field does not exist, or the value is invalid
+   */
+  static setField(world: World, entityId: EntityId, path: string, value: number): number {
+    if (!world.hasEntity(entityId)) {
+      throw new Error(`Entity ${entityId} does not exist`);
+    }
+
+    const separator = path.indexOf('.');
+    if (separator <= 0 || separator === path.length - 1) {
+      throw new Error(`Invalid field path '${path}' (expected Component.field)`);
+    }
+    const componentName = path.slice(0, separator);
+    const fieldName = path.slice(separator + 1);
+
+    const type = world.getComponentTypes(entityId).find((t) => t.name === componentName);
+    if (!type) {
+      throw new Error(`Entity ${entityId} has no component ${componentName}`);
+    }
+
+    const field = world
+      .getComponentRegistry()
+      .getFields(type)
+      ?.find((descriptor) => descriptor.name === fieldName);
+    if (!field) {
+      throw new Error(`Component ${componentName} has no field ${fieldName}`);
+    }
+
+    this.validateValue(world, path, field, value);
+
+    const component = world.getComponent(entityId, type as ComponentType<Record<string, number>>)!;
+    const previous = component[fieldName];
+    const update: Record<string, number> = { [fieldName]: value };
+    if (type === Transform) {
+      update.dirty = 1;
+    }
+    world.setComponent(entityId, type as ComponentType<Record<string, number>>, update);
+    return previous;
+  }
+
+  /**
+   * Build the summary row for an entity
+   */
+  private static summarize(world: World, entityId: EntityId): EntitySummary {
+    const summary: EntitySummary = {
+      id: entityId,
+      archetype: world
+        .getComponentTypes(entityId)
+        .map((type) => type.name)
+        .join(','),
+    };
+
+    const name = world.getEntityName(entityId);
+    if (name !== undefined) {
+      summary.name = name;
+    }
+
+    const transform = world.getComponent(entityId, Transform as ComponentType<Transform>) as
+      | TransformData
+      | undefined;
+    if (transform && transform.parentId !== undefined && transform.parentId !== -1) {
+      summary.parent = transform.parentId;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Check a value against a field's storage type
+   */
+  private static validateValue(world: World, path: string, field: FieldDescriptor, value: number): void {
+    if (!Number.isFinite(value)) {
+      throw new Error(`${path} must be a finite number, got ${value}`);
+    }
+
+    if (field.transient) {
+      const hint = path.startsWith('Transform.') ? ' (use World.setParent to change the hierarchy)' : '';
+      throw new Error(`${path} is a transient field maintained by the engine and cannot be set${hint}`);
+    }
+
+    if (field.entityRef) {
+      if (value !== -1 && !world.hasEntity(value)) {
+        throw new Error(`${path} must reference a live entity or -1, got ${value}`);
+      }
+      return;
+    }
+
+    const range = INTEGER_RANGES.get(field.arrayType);
+    if (!range) {
+      return;
+    }
+    if (!Number.isInteger(value)) {
+      throw new Error(`${path} is an integer field (${field.arrayType.name}), got ${value}`);
+    }
+    if (value < range[0] || value > range[1]) {
+      throw new Error(`${path} must be between ${range[0]} and ${range[1]}, got ${value}`);
+    }
+  }
+}
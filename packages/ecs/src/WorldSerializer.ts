@@ -0,0 +1,770 @@
+/**
+ * World Serializer - save and load complete ECS worlds
+ *
+ * Produces a versioned snapshot of every entity, its components and its
+ * transform hierarchy. Snapshots can be written as JSON (scene files,
+ * human-readable and diff-able) or as a compact binary blob (shipped builds,
+ * edit/play mode switching).
+ *
+ * Component data is read through ComponentRegistry field descriptors, so any
+ * registered component type is covered automatically:
+ * - `transient` fields (caches, matrix indices) are skipped and reset to defaults on load
+ * - `entityRef` fields are remapped to the newly created entity IDs on load
+ * - Transform hierarchy is stored as an explicit `parent` per entity
+ *
+ * @example
+ * ```typescript
+ * // Save a level
+ * const json = WorldSerializer.toJSON(world);
+ *
+ * // Load it into a fresh world
+ * const world = new World();
+ * const { entityMap } = WorldSerializer.fromJSON(world, json);
+ * ```
+ */
+
+import type { ComponentType, EntityId } from './types';
+import type { FieldDescriptor, TypedArrayConstructor } from './ComponentStorage';
+import type { World } from './World';
+import { ComponentRegistry } from './ComponentRegistry';
+import { Transform, type TransformData } from './components/Transform';
+
+/**
+ * Current snapshot format version
+ *
+ * Bump when the snapshot layout changes. Loaders reject newer versions.
+ */
+export const WORLD_SNAPSHOT_VERSION = 1;
+
+/**
+ * Serialized entity
+ */
+export interface SerializedEntity {
+  /** Entity ID at save time (only meaningful inside this snapshot) */
+  id: EntityId;
+
+  /** Parent entity ID within this snapshot (transform hierarchy) */
+  parent?: EntityId;
+
+  /** Component field values keyed by component name, then field name */
+  components: Record<string, Record<string, number>>;
+}
+
+/**
+ * Serialized world
+ *
+ * Entities are stored depth-first: parents precede their children and
+ * siblings keep their hierarchy order.
+ */
+export interface WorldSnapshot {
+  /** Snapshot format version */
+  version: number;
+
+  /** All entities in the world */
+  entities: SerializedEntity[];
+}
+
+/**
+ * Options for loading a snapshot
+ */
+export interface WorldSnapshotLoadOptions {
+  /** Skip component types that are not registered instead of throwing (default: false) */
+  ignoreUnknownComponents?: boolean;
+}
+
+/**
+ * Result of loading a snapshot
+ */
+export interface WorldSnapshotLoadResult {
+  /** Snapshot entity ID -> newly created entity ID */
+  entityMap: Map<EntityId, EntityId>;
+
+  /** Newly created entities, in snapshot order */
+  entities: EntityId[];
+}
+
+/** Binary format magic number ('MSKW') */
+const BINARY_MAGIC = 0x4d534b57;
+
+/** No parent marker in binary entity records */
+const NO_PARENT = -1;
+
+/**
+ * Binary type codes for field storage (stable across versions)
+ */
+const ARRAY_TYPE_CODES: ReadonlyArray<TypedArrayConstructor> = [
+  Float32Array,
+  Float64Array,
+  Int8Array,
+  Int16Array,
+  Int32Array,
+  Uint8Array,
+  Uint16Array,
+  Uint32Array,
+];
+
+/**
+ * Component layout in the binary component table
+ */
+interface BinaryComponentLayout {
+  name: string;
+  fields: Array<{ name: string; typeCode: number }>;
+}
+
+/**
+ * World serializer
+ *
+ * Stateless - all methods are static.
+ */
+export class WorldSerializer {
+  /**
+   * Capture a snapshot of all entities and components in a world
+   *
+   * @param world - World to serialize
+   * @param roots - Only capture these entities and their descendants (all entities if omitted)
+   * @returns Versioned world snapshot
+   */
+  static serialize(world: World, roots?: EntityId[]): WorldSnapshot {
+    const entities: SerializedEntity[] = [];
+    const visited = new Set<EntityId>();
+
+    const visit = (entityId: EntityId, parent: EntityId | undefined): void => {
+      if (visited.has(entityId) || !world.hasEntity(entityId)) {
+        return;
+      }
+      visited.add(entityId);
+      entities.push(this.serializeEntity(world, entityId, parent));
+
+      for (const childId of this.getHierarchyChildren(world, entityId)) {
+        visit(childId, entityId);
+      }
+    };
+
+    if (roots) {
+      for (const entityId of roots) {
+        visit(entityId, undefined);
+      }
+      return { version: WORLD_SNAPSHOT_VERSION, entities };
+    }
+
+    const allEntities = world.getEntities();
+
+    // Roots first, then children depth-first in sibling order
+    for (const entityId of allEntities) {
+      const parentId = this.getHierarchyParent(world, entityId);
+      if (parentId === undefined || !world.hasEntity(parentId)) {
+        visit(entityId, undefined);
+      }
+    }
+
+    // Anything left is part of a broken hierarchy (e.g. a parent cycle); keep it as a root
+    for (const entityId of allEntities) {
+      visit(entityId, undefined);
+    }
+
+    return {
+      version: WORLD_SNAPSHOT_VERSION,
+      entities,
+    };
+  }
+
+  /**
+   * Load a snapshot into a world
+   *
+   * Creates new entities for every snapshot entity and remaps IDs (hierarchy
+   * and `entityRef` fields). Existing entities in the world are untouched.
+   *
+   * @param world - Target world (usually fresh)
+   * @param snapshot - Snapshot produced by serialize(), fromJSON() or decodeBinary()
+   * @param options - Load options
+   * @returns Entity ID mapping and created entities
+   * @throws Error if the snapshot version is unsupported or a component is not registered
+   */
+  static deserialize(
+    world: World,
+    snapshot: WorldSnapshot,
+    options: WorldSnapshotLoadOptions = {}
+  ): WorldSnapshotLoadResult {
+    this.validateSnapshot(snapshot);
+
+    // Resolve component types up front so a bad snapshot fails before touching the world
+    const types = new Map<string, ComponentType>();
+    for (const entity of snapshot.entities) {
+      for (const name of Object.keys(entity.components)) {
+        if (types.has(name)) continue;
+
+        const type = world.getComponentRegistry().getTypeByName(name);
+        if (type) {
+          types.set(name, type);
+        } else if (!options.ignoreUnknownComponents) {
+          throw new Error(
+            `WorldSerializer: component '${name}' is not registered. ` +
+              `Register it before loading, or pass ignoreUnknownComponents: true.`
+          );
+        }
+      }
+    }
+
+    // Pass 1: create entities so references can be remapped
+    const entityMap = new Map<EntityId, EntityId>();
+    const created: EntityId[] = [];
+    for (const entity of snapshot.entities) {
+      const entityId = world.createEntity();
+      entityMap.set(entity.id, entityId);
+      created.push(entityId);
+    }
+
+    // Pass 2: components
+    for (const entity of snapshot.entities) {
+      const entityId = entityMap.get(entity.id)!;
+
+      for (const [name, data] of Object.entries(entity.components)) {
+        const type = types.get(name);
+        if (!type) continue;
+
+        const fields = world.getComponentRegistry().getFields(type)!;
+        world.addComponent(entityId, type, this.buildComponent(fields, data, entityMap));
+      }
+    }
+
+    // Pass 3: hierarchy (siblings linked in snapshot order)
+    const childrenByParent = new Map<EntityId, EntityId[]>();
+    for (const entity of snapshot.entities) {
+      if (entity.parent === undefined) continue;
+
+      const parentId = entityMap.get(entity.parent);
+      if (parentId === undefined) continue;
+
+      let children = childrenByParent.get(parentId);
+      if (!children) {
+        children = [];
+        childrenByParent.set(parentId, children);
+      }
+      children.push(entityMap.get(entity.id)!);
+    }
+
+    for (const [parentId, children] of childrenByParent) {
+      this.linkChildren(world, parentId, children);
+    }
+
+    return { entityMap, entities: created };
+  }
+
+  /**
+   * Serialize a world to a JSON scene string
+   *
+   * @param world - World to serialize
+   * @param space - Indentation passed to JSON.stringify (default: 2)
+   */
+  static toJSON(world: World, space: number = 2): string {
+    return JSON.stringify(this.serialize(world), null, space);
+  }
+
+  /**
+   * Load a JSON scene string into a world
+   *
+   * @param world - Target world
+   * @param json - JSON produced by toJSON() or authored by hand
+   * @param options - Load options
+   */
+  static fromJSON(
+    world: World,
+    json: string,
+    options: WorldSnapshotLoadOptions = {}
+  ): WorldSnapshotLoadResult {
+    return this.deserialize(world, JSON.parse(json) as WorldSnapshot, options);
+  }
+
+  /**
+   * Serialize a world to the compact binary format
+   *
+   * @param world - World to serialize
+   */
+  static toBinary(world: World): ArrayBuffer {
+    return this.encodeBinary(this.serialize(world), world.getComponentRegistry());
+  }
+
+  /**
+   * Load a binary snapshot into a world
+   *
+   * @param world - Target world
+   * @param buffer - Data produced by toBinary() / encodeBinary()
+   * @param options - Load options
+   */
+  static fromBinary(
+    world: World,
+    buffer: ArrayBuffer,
+    options: WorldSnapshotLoadOptions = {}
+  ): WorldSnapshotLoadResult {
+    return this.deserialize(world, this.decodeBinary(buffer), options);
+  }
+
+  /**
+   * Encode a snapshot in the binary format
+   *
+   * Layout (little endian):
+   * - u32 magic, u16 version
+   * - u16 component count, then per component: name, u16 field count, per field: name, u8 type code
+   * - u32 entity count, then per entity: u32 id, i32 parent (-1 = none),
+   *   u16 component count, per component: u16 table index + one value per field
+   *
+   * Strings are u16 byte length + UTF-8 bytes. Values use the field's typed array
+   * type, so Float32 fields cost 4 bytes and flags cost 1.
+   *
+   * @param snapshot - Snapshot to encode
+   * @param registry - Registry providing component layouts (default registry if omitted)
+   * @throws Error if a component in the snapshot is not registered
+   */
+  static encodeBinary(
+    snapshot: WorldSnapshot,
+    registry: ComponentRegistry = ComponentRegistry.getDefault()
+  ): ArrayBuffer {
+    this.validateSnapshot(snapshot);
+
+    // Build component table from the types actually used
+    const layouts: BinaryComponentLayout[] = [];
+    const layoutIndex = new Map<string, number>();
+    for (const entity of snapshot.entities) {
+      for (const name of Object.keys(entity.components)) {
+        if (layoutIndex.has(name)) continue;
+
+        const type = registry.getTypeByName(name);
+        const fields = type ? registry.getFields(type) : undefined;
+        if (!fields) {
+          throw new Error(`WorldSerializer: cannot encode unregistered component '${name}'`);
+        }
+
+        layoutIndex.set(name, layouts.length);
+        layouts.push({
+          name,
+          fields: fields
+            .filter((f) => !f.transient)
+            .map((f) => ({ name: f.name, typeCode: ARRAY_TYPE_CODES.indexOf(f.arrayType) })),
+        });
+      }
+    }
+
+    const writer = new BinaryWriter();
+    writer.u32(BINARY_MAGIC);
+    writer.u16(snapshot.version);
+
+    writer.u16(layouts.length);
+    for (const layout of layouts) {
+      writer.string(layout.name);
+      writer.u16(layout.fields.length);
+      for (const field of layout.fields) {
+        writer.string(field.name);
+        writer.u8(field.typeCode);
+      }
+    }
+
+    writer.u32(snapshot.entities.length);
+    for (const entity of snapshot.entities) {
+      writer.u32(entity.id);
+      writer.i32(entity.parent ?? NO_PARENT);
+
+      const names = Object.keys(entity.components);
+      writer.u16(names.length);
+      for (const name of names) {
+        const index = layoutIndex.get(name)!;
+        const data = entity.components[name];
+        writer.u16(index);
+        for (const field of layouts[index].fields) {
+          writer.value(field.typeCode, data[field.name] ?? 0);
+        }
+      }
+    }
+
+    return writer.finish();
+  }
+
+  /**
+   * Decode a binary snapshot
+   *
+   * Does not require the components to be registered; that is checked by deserialize().
+   *
+   * @param buffer - Data produced by encodeBinary()
+   * @throws Error if the data is not a world snapshot or is truncated
+   */
+  static decodeBinary(buffer: ArrayBuffer): WorldSnapshot {
+    const reader = new BinaryReader(buffer);
+
+    if (reader.u32() !== BINARY_MAGIC) {
+      throw new Error('WorldSerializer: not a binary world snapshot (bad magic)');
+    }
+    const version = reader.u16();
+
+    const layouts: BinaryComponentLayout[] = [];
+    const componentCount = reader.u16();
+    for (let i = 0; i < componentCount; i++) {
+      const name = reader.string();
+      const fieldCount = reader.u16();
+      const fields: BinaryComponentLayout['fields'] = [];
+      for (let j = 0; j < fieldCount; j++) {
+        const fieldName = reader.string();
+        const typeCode = reader.u8();
+        if (typeCode >= ARRAY_TYPE_CODES.length) {
+          throw new Error(`WorldSerializer: unknown field type code ${typeCode} for ${name}.${fieldName}`);
+        }
+        fields.push({ name: fieldName, typeCode });
+      }
+      layouts.push({ name, fields });
+    }
+
+    const entities: SerializedEntity[] = [];
+    const entityCount = reader.u32();
+    for (let i = 0; i < entityCount; i++) {
+      const id = reader.u32();
+      const parent = reader.i32();
+      const components: SerializedEntity['components'] = {};
+
+      const count = reader.u16();
+      for (let j = 0; j < count; j++) {
+        const layout = layouts[reader.u16()];
+        if (!layout) {
+          throw new Error('WorldSerializer: component index out of range');
+        }
+        const data: Record<string, number> = {};
+        for (const field of layout.fields) {
+          data[field.name] = reader.value(field.typeCode);
+        }
+        components[layout.name] = data;
+      }
+
+      const entity: SerializedEntity = { id, components };
+      if (parent !== NO_PARENT) {
+        entity.parent = parent;
+      }
+      entities.push(entity);
+    }
+
+    const snapshot: WorldSnapshot = { version, entities };
+    this.validateSnapshot(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Serialize a single entity
+   */
+  private static serializeEntity(
+    world: World,
+    entityId: EntityId,
+    parent: EntityId | undefined
+  ): SerializedEntity {
+    const components: SerializedEntity['components'] = {};
+
+    for (const type of world.getComponentTypes(entityId)) {
+      const fields = world.getComponentRegistry().getFields(type);
+      const component = world.getComponent(entityId, type) as Record<string, number> | undefined;
+      if (!fields || !component) continue;
+
+      const data: Record<string, number> = {};
+      for (const field of fields) {
+        if (field.transient) continue;
+
+        const value = component[field.name];
+        data[field.name] = field.arrayType === Float32Array ? shortestFloat32(value) : value;
+      }
+      components[type.name] = data;
+    }
+
+    const entity: SerializedEntity = { id: entityId, components };
+    if (parent !== undefined) {
+      entity.parent = parent;
+    }
+    return entity;
+  }
+
+  /**
+   * Build a component object from serialized field values
+   *
+   * Missing and transient fields fall back to defaults; entity references are remapped.
+   */
+  private static buildComponent(
+    fields: FieldDescriptor[],
+    data: Record<string, number>,
+    entityMap: Map<EntityId, EntityId>
+  ): Record<string, number> {
+    const component: Record<string, number> = {};
+
+    for (const field of fields) {
+      const fallback = field.defaultValue ?? 0;
+      const value = data[field.name];
+
+      if (field.transient || typeof value !== 'number' || !Number.isFinite(value)) {
+        component[field.name] = fallback;
+      } else if (field.entityRef) {
+        component[field.name] = value === -1 ? -1 : (entityMap.get(value) ?? -1);
+      } else {
+        component[field.name] = value;
+      }
+    }
+
+    return component;
+  }
+
+  /**
+   * Read the transform parent of an entity (undefined if none)
+   */
+  private static getHierarchyParent(world: World, entityId: EntityId): EntityId | undefined {
+    const transform = world.getComponent(entityId, Transform as ComponentType<Transform>) as
+      | TransformData
+      | undefined;
+    if (!transform || transform.parentId === undefined || transform.parentId === -1) {
+      return undefined;
+    }
+    return transform.parentId;
+  }
+
+  /**
+   * Read the transform children of an entity in linked-list order
+   *
+   * Reads the linked list directly so TransformSystem does not need to be registered.
+   */
+  private static getHierarchyChildren(world: World, entityId: EntityId): EntityId[] {
+    const transform = world.getComponent(entityId, Transform as ComponentType<Transform>) as
+      | TransformData
+      | undefined;
+    if (!transform || transform.firstChildId === undefined) {
+      return [];
+    }
+
+    const children: EntityId[] = [];
+    const seen = new Set<EntityId>();
+    let childId = transform.firstChildId;
+
+    while (childId !== -1 && !seen.has(childId)) {
+      seen.add(childId);
+      const child = world.getComponent(childId, Transform as ComponentType<Transform>) as
+        | TransformData
+        | undefined;
+      if (!child) break;
+
+      children.push(childId);
+      childId = child.nextSiblingId;
+    }
+
+    return children;
+  }
+
+  /**
+   * Link children under a parent, matching TransformSystem's linked-list layout
+   *
+   * Entities without a Transform cannot take part in the hierarchy and are skipped.
+   */
+  private static linkChildren(world: World, parentId: EntityId, children: EntityId[]): void {
+    const transformType = Transform as ComponentType<Transform>;
+    if (!world.hasComponent(parentId, transformType)) {
+      return;
+    }
+
+    const linked = children.filter((childId) => world.hasComponent(childId, transformType));
+    if (linked.length === 0) {
+      return;
+    }
+
+    for (let i = 0; i < linked.length; i++) {
+      world.setComponent(linked[i], transformType, {
+        parentId,
+        nextSiblingId: i + 1 < linked.length ? linked[i + 1] : -1,
+        dirty: 1,
+      });
+    }
+
+    world.setComponent(parentId, transformType, { firstChildId: linked[0] });
+  }
+
+  /**
+   * Validate snapshot structure and version
+   */
+  private static validateSnapshot(snapshot: WorldSnapshot): void {
+    if (!snapshot || typeof snapshot.version !== 'number' || !Array.isArray(snapshot.entities)) {
+      throw new Error('WorldSerializer: invalid snapshot (expected { version, entities })');
+    }
+    if (snapshot.version < 1 || snapshot.version > WORLD_SNAPSHOT_VERSION) {
+      throw new Error(
+        `WorldSerializer: unsupported snapshot version ${snapshot.version} ` +
+          `(supported: 1-${WORLD_SNAPSHOT_VERSION})`
+      );
+    }
+
+    const ids = new Set<EntityId>();
+    for (const entity of snapshot.entities) {
+      if (!entity || typeof entity.id !== 'number' || typeof entity.components !== 'object' || entity.components === null) {
+        throw new Error('WorldSerializer: invalid entity (expected { id, components })');
+      }
+      if (ids.has(entity.id)) {
+        throw new Error(`WorldSerializer: duplicate entity ID ${entity.id} in snapshot`);
+      }
+      ids.add(entity.id);
+    }
+  }
+}
+
+/**
+ * Shortest decimal that round-trips to the same Float32 value
+ *
+ * Keeps JSON scene files readable (0.1 instead of 0.10000000149011612)
+ * without losing precision when loaded back into a Float32Array.
+ */
+function shortestFloat32(value: number): number {
+  if (!Number.isFinite(value)) {
+    return value;
+  }
+  for (let precision = 1; precision < 9; precision++) {
+    const candidate = Number(value.toPrecision(precision));
+    if (Math.fround(candidate) === value) {
+      return candidate;
+    }
+  }
+  return value;
+}
+
+/**
+ * Growable little-endian binary writer
+ */
+class BinaryWriter {
+  private buffer = new ArrayBuffer(1024);
+  private view = new DataView(this.buffer);
+  private offset = 0;
+  private static readonly encoder = new TextEncoder();
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  i32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  string(value: string): void {
+    const bytes = BinaryWriter.encoder.encode(value);
+    this.u16(bytes.length);
+    this.ensure(bytes.length);
+    new Uint8Array(this.buffer, this.offset, bytes.length).set(bytes);
+    this.offset += bytes.length;
+  }
+
+  value(typeCode: number, value: number): void {
+    const size = ARRAY_TYPE_CODES[typeCode].BYTES_PER_ELEMENT;
+    this.ensure(size);
+    switch (typeCode) {
+      case 0: this.view.setFloat32(this.offset, value, true); break;
+      case 1: this.view.setFloat64(this.offset, value, true); break;
+      case 2: this.view.setInt8(this.offset, value); break;
+      case 3: this.view.setInt16(this.offset, value, true); break;
+      case 4: this.view.setInt32(this.offset, value, true); break;
+      case 5: this.view.setUint8(this.offset, value); break;
+      case 6: this.view.setUint16(this.offset, value, true); break;
+      case 7: this.view.setUint32(this.offset, value, true); break;
+    }
+    this.offset += size;
+  }
+
+  finish(): ArrayBuffer {
+    return this.buffer.slice(0, this.offset);
+  }
+
+  private ensure(bytes: number): void {
+    if (this.offset + bytes <= this.buffer.byteLength) {
+      return;
+    }
+    let capacity = this.buffer.byteLength * 2;
+    while (capacity < this.offset + bytes) {
+      capacity *= 2;
+    }
+    const grown = new ArrayBuffer(capacity);
+    new Uint8Array(grown).set(new Uint8Array(this.buffer, 0, this.offset));
+    this.buffer = grown;
+    this.view = new DataView(grown);
+  }
+}
+
+/**
+ * Bounds-checked little-endian binary reader
+ */
+class BinaryReader {
+  private view: DataView;
+  private offset = 0;
+  private static readonly decoder = new TextDecoder();
+
+  constructor(private buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+  }
+
+  u8(): number {
+    this.check(1);
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16(): number {
+    this.check(2);
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.check(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  i32(): number {
+    this.check(4);
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  string(): string {
+    const length = this.u16();
+    this.check(length);
+    const value = BinaryReader.decoder.decode(new Uint8Array(this.buffer, this.offset, length));
+    this.offset += length;
+    return value;
+  }
+
+  value(typeCode: number): number {
+    const size = ARRAY_TYPE_CODES[typeCode].BYTES_PER_ELEMENT;
+    this.check(size);
+    let value: number;
+    switch (typeCode) {
+      case 0: value = shortestFloat32(this.view.getFloat32(this.offset, true)); break;
+      case 1: value = this.view.getFloat64(this.offset, true); break;
+      case 2: value = this.view.getInt8(this.offset); break;
+      case 3: value = this.view.getInt16(this.offset, true); break;
+      case 4: value = this.view.getInt32(this.offset, true); break;
+      case 5: value = this.view.getUint8(this.offset); break;
+      case 6: value = this.view.getUint16(this.offset, true); break;
+      default: value = this.view.getUint32(this.offset, true); break;
+    }
+    this.offset += size;
+    return value;
+  }
+
+  private check(bytes: number): void {
+    if (this.offset + bytes > this.buffer.byteLength) {
+      throw new Error('WorldSerializer: binary snapshot is truncated');
+    }
+  }
+}
@@ -14,18 +14,31 @@
 import './registerComponents';
 
 export { World } from './World';
+export type { WorldOptions } from './World';
 export { EntityManager } from './Entity';
 export { ArchetypeManager } from './Archetype';
 export { SystemManager } from './System';
 export { Query, QueryBuilder } from './Query';
+export { CommandBuffer } from './CommandBuffer';
 export { ComponentStorage } from './ComponentStorage';
-export { ComponentRegistry, RegisterComponent } from './ComponentRegistry';
+export { ComponentRegistry, RegisterComponent, RegisterTag } from './ComponentRegistry';
+export { WorldSerializer, WORLD_SNAPSHOT_VERSION } from './WorldSerializer';
+export { WorldInspector } from './WorldInspector';
+export { PrefabManager } from './PrefabManager';
+export { RelationshipManager, defineRelationship, Targets, OwnedBy, AttachedTo } from './Relationship';
+export { KernelSystem } from './parallel/KernelSystem';
+export { WorkerPool } from './parallel/WorkerPool';
+export { defineKernel, startKernelWorker } from './parallel/Kernel';
 
 export type {
   EntityId,
   Component,
   ComponentType,
+  ResourceType,
   System,
+  ScheduledSystem,
+  SystemConflict,
+  SystemSchedule,
   QueryFilter,
   Archetype,
   EntityMetadata,
@@ -36,8 +49,45 @@ export type {
   TypedArrayConstructor,
   TypedArray,
   ComponentSchema,
+  FieldDescriptorOptions,
+  ChangeClock,
 } from './ComponentStorage';
 
+export type { PendingEntity, EntityTarget } from './CommandBuffer';
+
+export type { RelationshipType, RelationshipOptions } from './Relationship';
+
+export type {
+  PrefabId,
+  PrefabComponents,
+  PrefabEntity,
+  PrefabDefinition,
+  PrefabInstantiateOptions,
+  PrefabInstance,
+  PrefabSource,
+} from './PrefabManager';
+
+export type { KernelSystemOptions } from './parallel/KernelSystem';
+export type { WorkerPoolOptions, KernelWorker, KernelJob } from './parallel/WorkerPool';
+export type {
+  KernelDefinition,
+  KernelFunction,
+  KernelContext,
+  KernelViews,
+  KernelWorkerScope,
+  KernelJobMessage,
+  KernelResultMessage,
+} from './parallel/Kernel';
+
+export type {
+  WorldSnapshot,
+  SerializedEntity,
+  WorldSnapshotLoadOptions,
+  WorldSnapshotLoadResult,
+} from './WorldSerializer';
+
+export type { EntitySummary, EntityInspection, InspectedComponent, InspectedField } from './WorldInspector';
+
 export { SystemPriority } from './types';
 export { createFieldDescriptor, inferArrayType } from './ComponentStorage';
 
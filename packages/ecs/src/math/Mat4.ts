@@ -213,6 +213,47 @@ export function composeTRSTo(
   result[15] = 1;
 }
 
+/**
+ * Compose TRS matrix from a rotation quaternion into result (ZERO ALLOCATION)
+ *
+ * Same layout as composeTRSTo(); used where rotations come from physics.
+ *
+ * @param tx, ty, tz - Translation
+ * @param qx, qy, qz, qw - Rotation (unit quaternion)
+ * @param scaleX, scaleY, scaleZ - Scale
+ * @param result - Output matrix (will be overwritten)
+ */
+export function composeTRSQuatTo(
+  tx: number, ty: number, tz: number,
+  qx: number, qy: number, qz: number, qw: number,
+  scaleX: number, scaleY: number, scaleZ: number,
+  result: Float32Array
+): void {
+  const xx = qx * qx, yy = qy * qy, zz = qz * qz;
+  const xy = qx * qy, xz = qx * qz, yz = qy * qz;
+  const wx = qw * qx, wy = qw * qy, wz = qw * qz;
+
+  result[0] = scaleX * (1 - 2 * (yy + zz));
+  result[1] = scaleX * 2 * (xy + wz);
+  result[2] = scaleX * 2 * (xz - wy);
+  result[3] = 0;
+
+  result[4] = scaleY * 2 * (xy - wz);
+  result[5] = scaleY * (1 - 2 * (xx + zz));
+  result[6] = scaleY * 2 * (yz + wx);
+  result[7] = 0;
+
+  result[8] = scaleZ * 2 * (xz + wy);
+  result[9] = scaleZ * 2 * (yz - wx);
+  result[10] = scaleZ * (1 - 2 * (xx + yy));
+  result[11] = 0;
+
+  result[12] = tx;
+  result[13] = ty;
+  result[14] = tz;
+  result[15] = 1;
+}
+
 /**
  * Copy matrix
  */
@@ -0,0 +1,128 @@
+import type { TypedArray } from '../ComponentStorage';
+
+/**
+ * Field arrays of one archetype, keyed by component name, then field name
+ *
+ * On workers these are views onto the World's SharedArrayBuffer-backed storage,
+ * so writes land directly in the main thread's component data.
+ */
+export type KernelViews = Record<string, Record<string, TypedArray>>;
+
+/**
+ * Per-job arguments passed to a kernel
+ */
+export interface KernelContext {
+  /** First entity index to process */
+  start: number;
+
+  /** One past the last entity index to process */
+  end: number;
+
+  /** Frame delta time in seconds */
+  deltaTime: number;
+
+  /** Values from KernelSystemOptions.params (must be structured-cloneable) */
+  params: Record<string, unknown>;
+}
+
+/**
+ * Kernel function - processes entity indices [start, end) of one archetype
+ *
+ * Kernels only read and write field arrays; they must not touch the World.
+ */
+export type KernelFunction = (views: KernelViews, context: KernelContext) => void;
+
+/**
+ * Named kernel, importable by both the main thread and worker scripts
+ */
+export interface KernelDefinition {
+  /** Unique kernel name (used to look the kernel up on workers) */
+  readonly name: string;
+
+  /** Kernel body */
+  readonly run: KernelFunction;
+}
+
+/**
+ * Job message sent from WorkerPool to a worker
+ */
+export interface KernelJobMessage {
+  id: number;
+  kernel: string;
+  views: KernelViews;
+  context: KernelContext;
+}
+
+/**
+ * Reply sent from a worker when a job finishes
+ */
+export interface KernelResultMessage {
+  id: number;
+  error?: string;
+}
+
+/**
+ * Worker-side global scope (DedicatedWorkerGlobalScope, or an adapter)
+ */
+export interface KernelWorkerScope {
+  onmessage: ((event: { data: KernelJobMessage }) => void) | null;
+  postMessage(message: KernelResultMessage): void;
+}
+
+/**
+ * Define a kernel
+ *
+ * Put kernel definitions in a module that both the game and the worker script
+ * import, so the same function runs on either side.
+ *
+ * @example
+ * export const integrateVelocity = defineKernel('integrateVelocity', (views, { start, end, deltaTime }) => {
+ *   const { x, y, z } = views.Transform;
+ *   const { vx, vy, vz } = views.Velocity;
+ *   for (let i = start; i < end; i++) {
+ *     x[i] += vx[i] * deltaTime;
+ *     y[i] += vy[i] * deltaTime;
+ *     z[i] += vz[i] * deltaTime;
+ *   }
+ * });
+ */
+export function defineKernel(name: string, run: KernelFunction): KernelDefinition {
+  return { name, run };
+}
+
+/**
+ * Run jobs for the given kernels on a worker
+ *
+ * Call this from the worker script:
+ * ```typescript
+ * import { startKernelWorker } from '@miskatonic/ecs';
+ * import { integrateVelocity, cullBounds } from './kernels';
+ *
+ * startKernelWorker([integrateVelocity, cullBounds]);
+ * ```
+ *
+ * @param kernels - Kernels this worker can run
+ * @param scope - Worker global scope (defaults to `self`)
+ */
+export function startKernelWorker(
+  kernels: KernelDefinition[],
+  scope: KernelWorkerScope = globalThis as unknown as KernelWorkerScope
+): void {
+  const byName = new Map(kernels.map((kernel) => [kernel.name, kernel]));
+
+  scope.onmessage = (event) => {
+    const { id, kernel, views, context } = event.data;
+    const definition = byName.get(kernel);
+    if (!definition) {
+      scope.postMessage({ id, error: `Kernel '${kernel}' is not registered on this worker` });
+      return;
+    }
+
+    try {
+      definition.run(views, context);
+      scope.postMessage({ id });
+    } catch (error) {
+      scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+}
@@ -0,0 +1,186 @@
+import type { Archetype, ComponentType, System } from '../types';
+import { SystemPriority } from '../types';
+import type { World } from '../World';
+import type { Query } from '../Query';
+import type { TypedArray } from '../ComponentStorage';
+import type { KernelDefinition, KernelViews } from './Kernel';
+import type { KernelJob } from './WorkerPool';
+
+/**
+ * Kernel system configuration
+ */
+export interface KernelSystemOptions {
+  /** System name */
+  name: string;
+
+  /** Kernel to run over every matching archetype */
+  kernel: KernelDefinition;
+
+  /** Components the kernel only reads */
+  reads?: ComponentType[];
+
+  /** Components the kernel writes */
+  writes: ComponentType[];
+
+  /** Components excluded from the match */
+  without?: ComponentType[];
+
+  /** Execution priority (default: UPDATE) */
+  priority?: number;
+
+  /** Systems this one must run before */
+  before?: string[];
+
+  /** Systems this one must run after */
+  after?: string[];
+
+  /** Per-frame values passed to the kernel as context.params */
+  params?: (world: World, deltaTime: number) => Record<string, unknown>;
+}
+
+/**
+ * Kernel System - a system whose work is a kernel over component arrays
+ *
+ * Entities with every read and written component are processed. `World.update()`
+ * runs the kernel on the main thread; `World.updateParallel()` splits it into
+ * jobs for a WorkerPool and runs kernel systems with non-conflicting access side
+ * by side.
+ *
+ * @example
+ * world.registerSystem(new KernelSystem({
+ *   name: 'Movement',
+ *   kernel: integrateVelocity,
+ *   reads: [Velocity],
+ *   writes: [Transform],
+ *   before: ['TransformSystem'],
+ * }));
+ */
+export class KernelSystem implements System {
+  readonly name: string;
+  readonly priority: number;
+  readonly reads: ComponentType[];
+  readonly writes: ComponentType[];
+  readonly before: string[];
+  readonly after: string[];
+  readonly kernel: KernelDefinition;
+
+  private readonly without: ComponentType[];
+  private readonly params?: KernelSystemOptions['params'];
+  private query: Query | null = null;
+
+  constructor(options: KernelSystemOptions) {
+    if (options.writes.length === 0) {
+      throw new Error(`KernelSystem ${options.name} must write at least one component`);
+    }
+
+    this.name = options.name;
+    this.priority = options.priority ?? SystemPriority.UPDATE;
+    this.reads = options.reads ?? [];
+    this.writes = options.writes;
+    this.before = options.before ?? [];
+    this.after = options.after ?? [];
+    this.kernel = options.kernel;
+    this.without = options.without ?? [];
+    this.params = options.params;
+  }
+
+  /**
+   * Run the kernel on the main thread over all matching entities
+   */
+  update(world: World, deltaTime: number): void {
+    const params = this.params?.(world, deltaTime) ?? {};
+
+    for (const archetype of this.getArchetypes(world)) {
+      this.kernel.run(this.createViews(archetype), { start: 0, end: archetype.count, deltaTime, params });
+    }
+
+    this.markWritten(world);
+  }
+
+  /**
+   * Split this frame's work into worker jobs
+   *
+   * Each archetype is split into at most `maxJobs` ranges of at least `minJobSize` entities.
+   *
+   * @param world - World to read archetypes from (must use shared storage)
+   * @param deltaTime - Frame delta time in seconds
+   * @param maxJobs - Upper bound on jobs per archetype (usually the pool size)
+   * @param minJobSize - Smallest range worth its own job
+   */
+  createJobs(world: World, deltaTime: number, maxJobs: number, minJobSize: number): KernelJob[] {
+    const params = this.params?.(world, deltaTime) ?? {};
+    const jobs: KernelJob[] = [];
+
+    for (const archetype of this.getArchetypes(world)) {
+      const count = archetype.count;
+      const jobCount = Math.max(1, Math.min(maxJobs, Math.floor(count / minJobSize)));
+      const jobSize = Math.ceil(count / jobCount);
+      const views = this.createViews(archetype);
+
+      for (let start = 0; start < count; start += jobSize) {
+        jobs.push({
+          kernel: this.kernel.name,
+          views,
+          context: { start, end: Math.min(count, start + jobSize), deltaTime, params },
+        });
+      }
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Stamp written components of all matching entities as changed
+   *
+   * Kernel writes go straight to the arrays, so changed() queries need this after every run.
+   */
+  markWritten(world: World): void {
+    for (const archetype of this.getArchetypes(world)) {
+      for (const type of this.writes) {
+        archetype.components.get(type)?.markRangeChanged(0, archetype.count);
+      }
+    }
+  }
+
+  /**
+   * Cleanup the system
+   */
+  cleanup(): void {
+    this.query = null;
+  }
+
+  /**
+   * Get archetypes with every accessed component
+   */
+  private getArchetypes(world: World): Archetype[] {
+    if (!this.query) {
+      this.query = world
+        .query()
+        .with(...this.reads, ...this.writes)
+        .without(...this.without)
+        .build();
+    }
+
+    // Not registered with the World, so refresh in case archetypes were added
+    this.query.invalidateCache();
+    return this.query.getArchetypes(world.getArchetypeManager()).filter((archetype) => archetype.count > 0);
+  }
+
+  /**
+   * Collect field arrays of the accessed components
+   */
+  private createViews(archetype: Archetype): KernelViews {
+    const views: KernelViews = {};
+    for (const type of [...this.reads, ...this.writes]) {
+      const storage = archetype.components.get(type);
+      if (!storage) continue; // Tag
+
+      const fields: Record<string, TypedArray> = {};
+      for (const name of storage.getFieldNames()) {
+        fields[name] = storage.getArray(name)!;
+      }
+      views[type.name] = fields;
+    }
+    return views;
+  }
+}
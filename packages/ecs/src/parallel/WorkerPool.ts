@@ -0,0 +1,230 @@
+import type { KernelContext, KernelJobMessage, KernelResultMessage, KernelViews } from './Kernel';
+
+/**
+ * Main-thread handle to a worker (Worker, or an adapter around worker_threads)
+ */
+export interface KernelWorker {
+  onmessage: ((event: { data: KernelResultMessage }) => void) | null;
+
+  /** Called when the worker fails to load or throws outside a kernel */
+  onerror?: ((event: { message?: string }) => void) | null;
+
+  /** Called when a message from the worker cannot be deserialized */
+  onmessageerror?: ((event: unknown) => void) | null;
+
+  postMessage(message: KernelJobMessage): void;
+  terminate(): void;
+}
+
+/**
+ * Worker pool configuration
+ */
+export interface WorkerPoolOptions {
+  /**
+   * Create the worker at a pool index
+   *
+   * @example
+   * createWorker: () => new Worker(new URL('./kernel-worker.ts', import.meta.url), { type: 'module' })
+   */
+  createWorker: (index: number) => KernelWorker;
+
+  /** Number of workers (default: hardwareConcurrency - 1, at least 1) */
+  size?: number;
+
+  /** Smallest entity range worth sending as its own job (default: 1024) */
+  minJobSize?: number;
+
+  /**
+   * Milliseconds to wait for a job before rejecting it (default: 5000, 0 disables)
+   *
+   * Guards against workers that die without reporting an error.
+   */
+  jobTimeout?: number;
+}
+
+/**
+ * A job waiting for its worker's result
+ */
+interface PendingJob {
+  worker: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * One kernel invocation over an entity range
+ */
+export interface KernelJob {
+  kernel: string;
+  views: KernelViews;
+  context: KernelContext;
+}
+
+/**
+ * Worker Pool - runs kernel jobs on a fixed set of workers
+ *
+ * Jobs are spread round-robin across workers. Each worker must run
+ * startKernelWorker() with every kernel it may be sent. A worker that errors
+ * or misses jobTimeout is terminated (so it can no longer write to shared
+ * memory), its jobs in flight are rejected and it gets no further jobs.
+ */
+export class WorkerPool {
+  private workers: KernelWorker[] = [];
+  private deadWorkers = new Set<number>();
+  private pending = new Map<number, PendingJob>();
+  private nextJobId = 1;
+  private nextWorker = 0;
+  private readonly minJobSize: number;
+  private readonly jobTimeout: number;
+  private terminated = false;
+
+  constructor(options: WorkerPoolOptions) {
+    const concurrency = (globalThis as { navigator?: { hardwareConcurrency?: number } }).navigator
+      ?.hardwareConcurrency;
+    const size = options.size ?? Math.max(1, (concurrency ?? 2) - 1);
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`WorkerPool size must be a positive integer, got ${size}`);
+    }
+
+    this.minJobSize = options.minJobSize ?? 1024;
+    this.jobTimeout = options.jobTimeout ?? 5000;
+
+    for (let i = 0; i < size; i++) {
+      const worker = options.createWorker(i);
+      worker.onmessage = (event) => this.handleResult(event.data);
+      worker.onerror = (event) => this.failWorker(i, event.message ?? 'unknown error');
+      worker.onmessageerror = () => this.failWorker(i, 'could not deserialize message');
+      this.workers.push(worker);
+    }
+  }
+
+  /**
+   * Get number of live workers
+   */
+  getSize(): number {
+    return this.workers.length - this.deadWorkers.size;
+  }
+
+  /**
+   * Get the smallest entity range sent as its own job
+   */
+  getMinJobSize(): number {
+    return this.minJobSize;
+  }
+
+  /**
+   * Run jobs and wait for all of them
+   *
+   * Rejects with the first failing job's error once every job has finished.
+   */
+  async run(jobs: KernelJob[]): Promise<void> {
+    if (this.terminated) {
+      throw new Error('WorkerPool has been terminated');
+    }
+    if (jobs.length > 0 && this.getSize() === 0) {
+      throw new Error('WorkerPool has no live workers');
+    }
+
+    const results = await Promise.allSettled(jobs.map((job) => this.dispatch(job)));
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Terminate all workers and reject jobs still in flight
+   */
+  terminate(): void {
+    for (const worker of this.workers) {
+      worker.terminate();
+    }
+    this.workers = [];
+    this.deadWorkers.clear();
+    this.terminated = true;
+
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id, new Error('WorkerPool terminated'));
+    }
+  }
+
+  /**
+   * Send one job to the next worker
+   */
+  private dispatch(job: KernelJob): Promise<void> {
+    const id = this.nextJobId++;
+    const index = this.nextLiveWorker();
+    if (index === undefined) {
+      return Promise.reject(new Error('WorkerPool has no live workers'));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const pending: PendingJob = { worker: index, resolve, reject };
+      if (this.jobTimeout > 0) {
+        pending.timer = setTimeout(() => {
+          this.settle(id, new Error(`Kernel job '${job.kernel}' timed out after ${this.jobTimeout}ms`));
+          this.failWorker(index, `job '${job.kernel}' timed out`);
+        }, this.jobTimeout);
+      }
+      this.pending.set(id, pending);
+      this.workers[index].postMessage({ id, kernel: job.kernel, views: job.views, context: job.context });
+    });
+  }
+
+  /**
+   * Settle the job a worker reported on
+   */
+  private handleResult(result: KernelResultMessage): void {
+    this.settle(result.id, result.error !== undefined ? new Error(result.error) : undefined);
+  }
+
+  /**
+   * Pick the next live worker round-robin
+   */
+  private nextLiveWorker(): number | undefined {
+    for (let i = 0; i < this.workers.length; i++) {
+      const index = this.nextWorker;
+      this.nextWorker = (this.nextWorker + 1) % this.workers.length;
+      if (!this.deadWorkers.has(index)) {
+        return index;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Terminate a failed worker and reject every job in flight on it
+   */
+  private failWorker(index: number, message: string): void {
+    if (this.deadWorkers.has(index) || this.terminated) {
+      return;
+    }
+    this.deadWorkers.add(index);
+    this.workers[index].terminate();
+
+    for (const [id, pending] of [...this.pending]) {
+      if (pending.worker === index) {
+        this.settle(id, new Error(`Worker ${index} failed: ${message}`));
+      }
+    }
+  }
+
+  /**
+   * Resolve or reject a pending job (ignored if already settled)
+   */
+  private settle(id: number, error?: Error): void {
+    const pending = this.pending.get(id);
+    if (!pending) {
+      return;
+    }
+
+    this.pending.delete(id);
+    clearTimeout(pending.timer);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve();
+    }
+  }
+}
@@ -33,18 +33,19 @@ ComponentRegistry.register(Transform as ComponentType<Transform>, [
 
   // Hierarchy - Linked List (3 × Int32 = 12 bytes)
   // Epic 3.11.5: Parent/child relationships in typed arrays
-  createFieldDescriptor('parentId', -1, Int32Array),
-  createFieldDescriptor('firstChildId', -1, Int32Array),
-  createFieldDescriptor('nextSiblingId', -1, Int32Array),
+  // Transient: WorldSerializer stores the hierarchy as an explicit parent per entity
+  createFieldDescriptor('parentId', -1, Int32Array, { transient: true }),
+  createFieldDescriptor('firstChildId', -1, Int32Array, { transient: true }),
+  createFieldDescriptor('nextSiblingId', -1, Int32Array, { transient: true }),
 
   // Dirty flag (1 × Uint8 = 1 byte)
   // Epic 3.11.5: Dirty tracking in typed array
-  createFieldDescriptor('dirty', 1, Uint8Array),
+  createFieldDescriptor('dirty', 1, Uint8Array, { transient: true }),
 
   // Matrix indices (2 × Int32 = 8 bytes)
   // Epic 3.11.5: Indices into MatrixStorage instead of storing matrices here
-  createFieldDescriptor('localMatrixIndex', -1, Int32Array),
-  createFieldDescriptor('worldMatrixIndex', -1, Int32Array),
+  createFieldDescriptor('localMatrixIndex', -1, Int32Array, { transient: true }),
+  createFieldDescriptor('worldMatrixIndex', -1, Int32Array, { transient: true }),
 ]);
 
 // Register Velocity component
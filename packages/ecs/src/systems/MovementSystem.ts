@@ -16,6 +16,9 @@ import { Velocity } from '../components/Velocity';
 export class MovementSystem implements System {
   readonly name = 'MovementSystem';
   readonly priority = SystemPriority.UPDATE;
+  readonly reads: ComponentType[] = [Velocity];
+  readonly writes: ComponentType[] = [Transform];
+  readonly before = ['TransformSystem'];
 
   private query?: ReturnType<ReturnType<World['query']>['build']>;
 
@@ -34,6 +34,7 @@ import { MatrixStorage } from '../math/MatrixStorage';
 export class TransformSystem implements System {
   public readonly name: string = 'TransformSystem';
   public readonly priority: number = 0;
+  public readonly writes: ComponentType[] = [Transform];
 
   private world: World;
   private matrixStorage: MatrixStorage;
@@ -382,18 +383,19 @@ export class TransformSystem implements System {
       this.removeFromParentList(childId, childTransform.parentId);
     }
 
-    // Set new parent
+    // Set new parent and mark dirty
+    // Partial write: the list helpers write sibling links themselves, and writing back
+    // the stale childTransform snapshot would clobber nextSiblingId
     const newParentId = parentId !== undefined ? parentId : -1;
-    childTransform.parentId = newParentId;
-    childTransform.dirty = 1; // Mark dirty
+    this.world.setComponent(childId, Transform as ComponentType<Transform>, {
+      parentId: newParentId,
+      dirty: 1,
+    });
 
     // Add to new parent's linked list
     if (newParentId !== -1) {
       this.addToParentList(childId, newParentId);
     }
-
-    // Write back child transform
-    this.world.setComponent(childId, Transform as ComponentType<Transform>, childTransform);
   }
 
   /**
@@ -13,6 +13,11 @@ export type EntityId = number;
  */
 export type ComponentType<T extends Component = Component> = new (...args: any[]) => T;
 
+/**
+ * World resource key - the resource's class
+ */
+export type ResourceType<T = unknown> = abstract new (...args: any[]) => T;
+
 /**
  * Component instance
  */
@@ -51,6 +56,65 @@ export interface System {
 
   /** Cleanup system (called on removal) */
   cleanup?(world: any): void;
+
+  /** Components this system reads (used to report ordering conflicts) */
+  readonly reads?: ComponentType[];
+
+  /** Components this system writes (used to report ordering conflicts) */
+  readonly writes?: ComponentType[];
+
+  /** Systems this system must run before (by name; unregistered names are ignored) */
+  readonly before?: string[];
+
+  /** Systems this system must run after (by name; unregistered names are ignored) */
+  readonly after?: string[];
+}
+
+/**
+ * System as placed in the computed schedule
+ */
+export interface ScheduledSystem {
+  /** System name */
+  name: string;
+
+  /** Execution priority (tie-breaker between unconstrained systems) */
+  priority: number;
+
+  /** Names of components read */
+  reads: string[];
+
+  /** Names of components written */
+  writes: string[];
+
+  /** Names of registered systems this one runs after because of before/after constraints */
+  runsAfter: string[];
+}
+
+/**
+ * Two systems that access the same component, at least one writing it, with
+ * no before/after constraint ordering them. Their relative order comes only
+ * from priority or registration order.
+ */
+export interface SystemConflict {
+  /** Systems in execution order */
+  systems: [string, string];
+
+  /** Names of the shared components */
+  components: string[];
+
+  /** 'write-write' if both write a shared component, otherwise 'read-write' */
+  kind: 'write-write' | 'read-write';
+}
+
+/**
+ * Computed system execution order
+ */
+export interface SystemSchedule {
+  /** Systems in execution order */
+  systems: ScheduledSystem[];
+
+  /** Unordered access to shared components */
+  conflicts: SystemConflict[];
 }
 
 /**
@@ -65,6 +129,9 @@ export interface QueryFilter {
 
   /** Optional components (included if present) */
   optional?: ComponentType[];
+
+  /** Only yield entities where any of these components was written since the query last ran */
+  changed?: ComponentType[];
 }
 
 /**
@@ -93,7 +160,7 @@ export interface Archetype {
   /** Storage capacity (entities array length) */
   capacity: number;
 
-  /** Component storage using typed arrays (SoA pattern) */
+  /** Component storage using typed arrays (SoA pattern); tags have no entry */
   components: Map<ComponentType, import('./ComponentStorage').ComponentStorage<any>>;
 }
 
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '../src/World';
+import { Transform } from '../src/components/Transform';
+import { Velocity } from '../src/components/Velocity';
+import { ComponentRegistry } from '../src/ComponentRegistry';
+import { createFieldDescriptor } from '../src/ComponentStorage';
+import { SystemPriority } from '../src/types';
+import type { System } from '../src/types';
+
+ComponentRegistry.register(Transform, [
+  createFieldDescriptor('x', 0),
+  createFieldDescriptor('y', 0),
+  createFieldDescriptor('z', 0),
+]);
+
+ComponentRegistry.register(Velocity, [
+  createFieldDescriptor('vx', 0),
+  createFieldDescriptor('vy', 0),
+  createFieldDescriptor('vz', 0),
+]);
+
+describe('CommandBuffer', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+  });
+
+  it('should defer structural changes until playback', () => {
+    const commands = world.getCommandBuffer();
+    const entity = world.createEntity();
+
+    commands.addComponent(entity, Transform, new Transform(1, 2, 3));
+    expect(world.hasComponent(entity, Transform)).toBe(false);
+    expect(commands.getCount()).toBe(1);
+
+    expect(world.flushCommands()).toBe(1);
+    expect(world.getComponent(entity, Transform)!.x).toBe(1);
+    expect(commands.isEmpty()).toBe(true);
+  });
+
+  it('should resolve pending entities on spawn', () => {
+    const commands = world.getCommandBuffer();
+
+    const projectile = commands.spawn();
+    commands.addComponent(projectile, Transform, new Transform(0, 1, 0));
+    commands.addComponent(projectile, Velocity, new Velocity(0, 0, 50));
+    expect(projectile.id).toBeUndefined();
+
+    world.flushCommands();
+
+    expect(projectile.id).toBeDefined();
+    expect(world.getComponent(projectile.id!, Velocity)!.vz).toBe(50);
+  });
+
+  it('should allow despawning every entity while iterating a query', () => {
+    const query = world.query().with(Transform).build();
+    for (let i = 0; i < 10; i++) {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform(i, 0, 0));
+    }
+
+    const visited: number[] = [];
+    const commands = world.getCommandBuffer();
+    query.forEach(world.getArchetypeManager(), (entity, components) => {
+      visited.push((components.get(Transform) as Transform).x);
+      commands.destroyEntity(entity);
+    });
+
+    expect(visited).toHaveLength(10);
+    world.flushCommands();
+    expect(world.getEntities()).toHaveLength(0);
+  });
+
+  it('should skip commands for entities that no longer exist', () => {
+    const commands = world.getCommandBuffer();
+    const entity = world.createEntity();
+    world.addComponent(entity, Transform, new Transform());
+
+    commands.destroyEntity(entity);
+    commands.destroyEntity(entity);
+    commands.removeComponent(entity, Transform);
+
+    expect(world.flushCommands()).toBe(1);
+  });
+
+  it('should not apply raw IDs to entities recycled during the same playback', () => {
+    const commands = world.getCommandBuffer();
+    const entity = world.createEntity();
+
+    commands.destroyEntity(entity);
+    const spawned = commands.spawn();
+    commands.addComponent(entity, Velocity, new Velocity(1, 0, 0));
+
+    world.flushCommands();
+
+    expect(spawned.id).toBe(entity);
+    expect(world.hasComponent(spawned.id!, Velocity)).toBe(false);
+  });
+
+  it('should play back at the end of World.update()', () => {
+    class Spawner implements System {
+      readonly name = 'Spawner';
+      readonly priority = SystemPriority.UPDATE;
+      update(w: World): void {
+        const entity = w.getCommandBuffer().spawn();
+        w.getCommandBuffer().addComponent(entity, Transform, new Transform());
+      }
+    }
+    world.registerSystem(new Spawner());
+
+    world.update(1 / 60);
+
+    expect(world.getEntities()).toHaveLength(1);
+  });
+
+  it('should discard commands on clear', () => {
+    const commands = world.getCommandBuffer();
+    commands.spawn();
+    commands.clear();
+
+    expect(world.flushCommands()).toBe(0);
+    expect(world.getEntities()).toHaveLength(0);
+  });
+});
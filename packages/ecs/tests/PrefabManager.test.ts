@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import '../src/registerComponents';
+import { World } from '../src/World';
+import { PrefabManager } from '../src/PrefabManager';
+import { ComponentRegistry } from '../src/ComponentRegistry';
+import { createFieldDescriptor } from '../src/ComponentStorage';
+import { Transform } from '../src/components/Transform';
+import { Velocity } from '../src/components/Velocity';
+import { TransformSystem } from '../src/systems/TransformSystem';
+import type { PrefabDefinition } from '../src/PrefabManager';
+
+// Test component holding an entity reference
+class Follower {
+  readonly __componentType = 'Follower';
+  constructor(public target: number = -1, public distance: number = 2) {}
+}
+
+ComponentRegistry.register(Follower, [
+  createFieldDescriptor('target', -1, Int32Array, { entityRef: true }),
+  createFieldDescriptor('distance', 2),
+]);
+
+const WHEEL: PrefabDefinition = {
+  entities: [{ id: 0, components: { Transform: { scaleX: 0.5 } } }],
+};
+
+const CAR: PrefabDefinition = {
+  entities: [
+    { id: 0, components: { Transform: { y: 1 }, Velocity: { vx: 0 } } },
+    { id: 1, parent: 0, prefab: 'wheel', components: { Transform: { x: -1 } } },
+    { id: 2, parent: 0, prefab: 'wheel', components: { Transform: { x: 1 } } },
+    { id: 3, parent: 0, components: { Transform: {}, Follower: { target: 1 } } },
+  ],
+};
+
+describe('PrefabManager', () => {
+  let world: World;
+  let prefabs: PrefabManager;
+
+  beforeEach(() => {
+    world = new World();
+    world.registerSystem(new TransformSystem(world));
+    prefabs = new PrefabManager(world);
+    prefabs.register('wheel', WHEEL);
+    prefabs.register('car', CAR);
+  });
+
+  describe('instantiate', () => {
+    it('should create entities with prefab values and hierarchy', () => {
+      const car = prefabs.instantiate('car');
+
+      expect(world.getComponent(car.root, Transform)!.y).toBe(1);
+      expect(world.getChildren(car.root)).toEqual([
+        car.entities.get(1),
+        car.entities.get(2),
+        car.entities.get(3),
+      ]);
+    });
+
+    it('should layer nested prefab values under the outer entry', () => {
+      const car = prefabs.instantiate('car');
+      const wheel = world.getComponent(car.entities.get(1)!, Transform)!;
+
+      expect(wheel.x).toBe(-1);
+      expect(wheel.scaleX).toBe(0.5);
+      expect(prefabs.getSource(car.entities.get(1)!)).toEqual({ prefabId: 'car', localId: 1 });
+    });
+
+    it('should remap entityRef fields to instance entities', () => {
+      const car = prefabs.instantiate('car');
+
+      expect(world.getComponent(car.entities.get(3)!, Follower)!.target).toBe(car.entities.get(1));
+    });
+
+    it('should apply per-instance overrides', () => {
+      const a = prefabs.instantiate('car', { overrides: { 0: { Velocity: { vx: 5 } } } });
+      const b = prefabs.instantiate('car');
+
+      expect(world.getComponent(a.root, Velocity)!.vx).toBe(5);
+      expect(world.getComponent(b.root, Velocity)!.vx).toBe(0);
+      expect(prefabs.isOverridden(a.root, Velocity, 'vx')).toBe(true);
+    });
+
+    it('should attach the instance under a parent entity', () => {
+      const garage = world.createEntity();
+      world.addComponent(garage, Transform, new Transform());
+
+      const car = prefabs.instantiate('car', { parent: garage });
+
+      expect(world.getChildren(garage)).toEqual([car.root]);
+    });
+
+    it('should reject unregistered and self-nesting prefabs without creating entities', () => {
+      prefabs.register('loop', { entities: [{ id: 0, prefab: 'loop' }] });
+
+      expect(() => prefabs.instantiate('missing')).toThrow(/not registered/);
+      expect(() => prefabs.instantiate('loop')).toThrow(/nests itself/);
+      expect(world.getEntities()).toHaveLength(0);
+    });
+  });
+
+  describe('register', () => {
+    it('should validate prefab structure', () => {
+      expect(() => prefabs.register('bad', { entities: [{ id: 0 }, { id: 1 }] })).toThrow(/exactly one root/);
+      expect(() => prefabs.register('bad', { entities: [{ id: 0, parent: 5 }] })).toThrow(/invalid parent/);
+      expect(() =>
+        prefabs.register('bad', { entities: [{ id: 0, components: { Missing: {} } }] })
+      ).toThrow(/not registered/);
+    });
+  });
+
+  describe('propagation', () => {
+    it('should update instances when a prefab field changes', () => {
+      const car = prefabs.instantiate('car');
+
+      const updated = prefabs.register('car', {
+        entities: CAR.entities.map((e) => (e.id === 0 ? { ...e, components: { ...e.components, Transform: { y: 3 } } } : e)),
+      });
+
+      expect(updated).toBe(1);
+      expect(world.getComponent(car.root, Transform)!.y).toBe(3);
+    });
+
+    it('should keep overridden fields', () => {
+      const car = prefabs.instantiate('car');
+      prefabs.setOverride(car.root, Transform, { y: 10 });
+
+      prefabs.register('car', {
+        entities: CAR.entities.map((e) => (e.id === 0 ? { ...e, components: { Transform: { y: 3 }, Velocity: {} } } : e)),
+      });
+
+      expect(world.getComponent(car.root, Transform)!.y).toBe(10);
+    });
+
+    it('should leave fields the edit did not touch alone', () => {
+      const car = prefabs.instantiate('car');
+      world.setComponent(car.root, Transform, { x: 42 });
+
+      prefabs.register('car', {
+        entities: CAR.entities.map((e) => (e.id === 0 ? { ...e, components: { Transform: { y: 3 }, Velocity: {} } } : e)),
+      });
+
+      expect(world.getComponent(car.root, Transform)!.x).toBe(42);
+    });
+
+    it('should propagate nested prefab edits through outer overrides', () => {
+      const car = prefabs.instantiate('car');
+
+      prefabs.register('wheel', { entities: [{ id: 0, components: { Transform: { x: 9, scaleX: 2 } } }] });
+
+      const wheel = world.getComponent(car.entities.get(1)!, Transform)!;
+      expect(wheel.scaleX).toBe(2);
+      expect(wheel.x).toBe(-1); // Car's entry still overrides x
+    });
+
+    it('should add and remove components', () => {
+      const car = prefabs.instantiate('car');
+
+      prefabs.register('car', {
+        entities: CAR.entities.map((e) => (e.id === 0 ? { ...e, components: { Transform: { y: 1 } } } : e)),
+      });
+      expect(world.hasComponent(car.root, Velocity)).toBe(false);
+
+      prefabs.register('car', CAR);
+      expect(world.hasComponent(car.root, Velocity)).toBe(true);
+    });
+
+    it('should restore prefab values when an override is reverted', () => {
+      const car = prefabs.instantiate('car');
+      prefabs.setOverride(car.root, Transform, { y: 10 });
+
+      prefabs.revertOverride(car.root, Transform, 'y');
+
+      expect(world.getComponent(car.root, Transform)!.y).toBe(1);
+      expect(prefabs.isOverridden(car.root, Transform, 'y')).toBe(false);
+    });
+
+    it('should forget destroyed instances', () => {
+      const car = prefabs.instantiate('car');
+      world.destroyEntity(car.entities.get(3)!);
+
+      expect(prefabs.getInstanceEntities('car')).toHaveLength(3);
+      expect(prefabs.getInstanceEntities('wheel')).toHaveLength(2);
+    });
+
+    it('should forget destroyed instances without components', () => {
+      prefabs.register('marker', { entities: [{ id: 0, components: {} }] });
+      const marker = prefabs.instantiate('marker');
+      expect(prefabs.getInstanceEntities('marker')).toEqual([marker.root]);
+
+      world.destroyEntity(marker.root);
+      const recycled = world.createEntity();
+
+      expect(recycled).toBe(marker.root);
+      expect(prefabs.getInstanceEntities('marker')).toEqual([]);
+      expect(prefabs.getSource(recycled)).toBeUndefined();
+    });
+
+    it('should keep instances whose last component was removed', () => {
+      prefabs.register('mover', { entities: [{ id: 0, components: { Velocity: { vx: 1 } } }] });
+      const mover = prefabs.instantiate('mover');
+
+      world.removeComponent(mover.root, Velocity);
+
+      expect(prefabs.getInstanceEntities('mover')).toEqual([mover.root]);
+      expect(prefabs.getSource(mover.root)).toEqual({ prefabId: 'mover', localId: 0 });
+    });
+
+    it('should forget instances when the world is cleared', () => {
+      prefabs.instantiate('car');
+      world.clear();
+
+      expect(prefabs.getInstanceEntities('car')).toEqual([]);
+    });
+  });
+});
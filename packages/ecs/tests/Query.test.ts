@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '../src/World';
+import { Transform } from '../src/components/Transform';
+import { Velocity } from '../src/components/Velocity';
+import { ComponentRegistry } from '../src/ComponentRegistry';
+import { createFieldDescriptor } from '../src/ComponentStorage';
+import type { Query } from '../src/Query';
+import type { EntityId } from '../src/types';
+
+ComponentRegistry.register(Transform, [
+  createFieldDescriptor('x', 0),
+  createFieldDescriptor('y', 0),
+  createFieldDescriptor('z', 0),
+]);
+
+ComponentRegistry.register(Velocity, [
+  createFieldDescriptor('vx', 0),
+  createFieldDescriptor('vy', 0),
+  createFieldDescriptor('vz', 0),
+]);
+
+function visit(world: World, query: Query): EntityId[] {
+  return world.executeQuery(query).map((result) => result.entity);
+}
+
+describe('Query', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+  });
+
+  describe('changed filter', () => {
+    it('should report new entities on the first pass only', () => {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform(1, 2, 3));
+
+      const query = world.query().with(Transform).changed(Transform).build();
+
+      expect(visit(world, query)).toEqual([entity]);
+      expect(visit(world, query)).toEqual([]);
+    });
+
+    it('should report entities written through setComponent', () => {
+      const a = world.createEntity();
+      const b = world.createEntity();
+      world.addComponent(a, Transform, new Transform());
+      world.addComponent(b, Transform, new Transform());
+
+      const query = world.query().with(Transform).changed(Transform).build();
+      visit(world, query);
+
+      world.setComponent(b, Transform, { x: 5 });
+
+      expect(visit(world, query)).toEqual([b]);
+    });
+
+    it('should only consider the listed components', () => {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform());
+      world.addComponent(entity, Velocity, new Velocity());
+
+      const query = world.query().with(Transform, Velocity).changed(Transform).build();
+      visit(world, query);
+
+      world.setComponent(entity, Velocity, { vx: 1 });
+      expect(visit(world, query)).toEqual([]);
+
+      world.setComponent(entity, Transform, { x: 1 });
+      expect(visit(world, query)).toEqual([entity]);
+    });
+
+    it('should not treat archetype moves as changes to existing components', () => {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform());
+
+      const query = world.query().with(Transform).changed(Transform).build();
+      visit(world, query);
+
+      world.addComponent(entity, Velocity, new Velocity());
+      expect(visit(world, query)).toEqual([]);
+    });
+
+    it('should not report writes made during its own pass', () => {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform());
+
+      const query = world.query().with(Transform).changed(Transform).build();
+      const other = world.query().with(Transform).changed(Transform).build();
+      visit(world, other);
+
+      query.forEach(world.getArchetypeManager(), (id) => {
+        world.setComponent(id, Transform, { x: 10 });
+      });
+
+      expect(visit(world, query)).toEqual([]);
+      expect(visit(world, other)).toEqual([entity]);
+    });
+
+    it('should pick up direct array writes marked with markChanged', () => {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform());
+
+      const query = world.query().with(Transform).changed(Transform).build();
+      visit(world, query);
+
+      const archetype = world.getArchetypeManager().getAllArchetypes()[0];
+      const storage = archetype.components.get(Transform)!;
+      storage.getArray('x')![0] = 7;
+      expect(visit(world, query)).toEqual([]);
+
+      storage.markChanged(0);
+      expect(visit(world, query)).toEqual([entity]);
+    });
+  });
+
+  describe('added/removed tracking', () => {
+    it('should report entities that already match when registered', () => {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform());
+
+      const query = world.registerQuery(world.query().with(Transform).build());
+
+      expect(query.getAdded()).toEqual([entity]);
+      expect(query.getRemoved()).toEqual([]);
+    });
+
+    it('should report entities entering and leaving the match set', () => {
+      const query = world.registerQuery(world.query().with(Transform).without(Velocity).build());
+
+      const a = world.createEntity();
+      const b = world.createEntity();
+      world.addComponent(a, Transform, new Transform());
+      world.addComponent(b, Transform, new Transform());
+      query.clearTracking();
+
+      world.addComponent(a, Velocity, new Velocity());
+      world.destroyEntity(b);
+      const c = world.createEntity();
+      world.addComponent(c, Transform, new Transform());
+
+      expect(query.getRemoved().sort()).toEqual([a, b].sort());
+      expect(query.getAdded()).toEqual([c]);
+    });
+
+    it('should drop entities that enter and leave between clears', () => {
+      const query = world.registerQuery(world.query().with(Transform).build());
+
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform());
+      world.removeComponent(entity, Transform);
+
+      expect(query.getAdded()).toEqual([]);
+      expect(query.getRemoved()).toEqual([]);
+    });
+
+    it('should ignore moves between matching archetypes', () => {
+      const query = world.registerQuery(world.query().with(Transform).build());
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform());
+      query.clearTracking();
+
+      world.addComponent(entity, Velocity, new Velocity());
+
+      expect(query.getAdded()).toEqual([]);
+      expect(query.getRemoved()).toEqual([]);
+    });
+
+    it('should keep the archetype cache current for registered queries', () => {
+      const query = world.registerQuery(world.query().with(Transform).build());
+      expect(query.count(world.getArchetypeManager())).toBe(0);
+
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform());
+
+      expect(query.count(world.getArchetypeManager())).toBe(1);
+    });
+
+    it('should stop tracking when unregistered', () => {
+      const query = world.registerQuery(world.query().with(Transform).build());
+      world.unregisterQuery(query);
+
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform());
+
+      expect(query.isTracking()).toBe(false);
+      expect(query.getAdded()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '../src/World';
+import { Targets, OwnedBy, AttachedTo, defineRelationship } from '../src/Relationship';
+
+describe('Relationships', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+  });
+
+  it('should index relationships in both directions', () => {
+    const player = world.createEntity();
+    const sword = world.createEntity();
+    const shield = world.createEntity();
+
+    world.addRelation(sword, OwnedBy, player);
+    world.addRelation(shield, OwnedBy, player);
+
+    expect(world.getRelationTargets(sword, OwnedBy)).toEqual([player]);
+    expect(world.getRelationSources(OwnedBy, player)).toEqual([sword, shield]);
+    expect(world.hasRelation(sword, OwnedBy, player)).toBe(true);
+    expect(world.hasRelation(sword, Targets)).toBe(false);
+  });
+
+  it('should replace the target of exclusive relationships', () => {
+    const a = world.createEntity();
+    const b = world.createEntity();
+    const item = world.createEntity();
+
+    world.addRelation(item, OwnedBy, a);
+    world.addRelation(item, OwnedBy, b);
+
+    expect(world.getRelationTargets(item, OwnedBy)).toEqual([b]);
+    expect(world.getRelationSources(OwnedBy, a)).toEqual([]);
+  });
+
+  it('should allow several targets for non-exclusive relationships', () => {
+    const turret = world.createEntity();
+    const a = world.createEntity();
+    const b = world.createEntity();
+
+    world.addRelation(turret, Targets, a);
+    world.addRelation(turret, Targets, b);
+    world.removeRelation(turret, Targets, a);
+
+    expect(world.getRelationTargets(turret, Targets)).toEqual([b]);
+
+    world.removeRelation(turret, Targets);
+    expect(world.hasRelation(turret, Targets)).toBe(false);
+  });
+
+  it('should remove relationships when either side is destroyed', () => {
+    const turret = world.createEntity();
+    const enemy = world.createEntity();
+    const other = world.createEntity();
+    world.addRelation(turret, Targets, enemy);
+    world.addRelation(other, Targets, turret);
+
+    world.destroyEntity(enemy);
+    expect(world.getRelationTargets(turret, Targets)).toEqual([]);
+    expect(world.hasEntity(turret)).toBe(true);
+
+    world.destroyEntity(turret);
+    expect(world.getRelationTargets(other, Targets)).toEqual([]);
+  });
+
+  it('should not leak relationships onto recycled entity IDs', () => {
+    const turret = world.createEntity();
+    const enemy = world.createEntity();
+    world.addRelation(turret, Targets, enemy);
+
+    world.destroyEntity(enemy);
+    const recycled = world.createEntity();
+
+    expect(world.getRelationSources(Targets, recycled)).toEqual([]);
+  });
+
+  it('should cascade deletes through chains of cascading relationships', () => {
+    const ship = world.createEntity();
+    const turret = world.createEntity();
+    const barrel = world.createEntity();
+    const crew = world.createEntity();
+    world.addRelation(turret, AttachedTo, ship);
+    world.addRelation(barrel, AttachedTo, turret);
+    world.addRelation(crew, Targets, ship);
+
+    world.destroyEntity(ship);
+
+    expect(world.getEntities()).toEqual([crew]);
+  });
+
+  it('should support custom relationship types', () => {
+    const Follows = defineRelationship('Follows', { exclusive: true });
+    const leader = world.createEntity();
+    const wolf = world.createEntity();
+    world.addRelation(wolf, Follows, leader);
+
+    world.destroyEntity(leader);
+
+    expect(world.hasEntity(wolf)).toBe(true);
+    expect(world.hasRelation(wolf, Follows)).toBe(false);
+  });
+
+  it('should reject missing entities and self-relationships', () => {
+    const entity = world.createEntity();
+
+    expect(() => world.addRelation(entity, Targets, 999)).toThrow(/does not exist/);
+    expect(() => world.addRelation(entity, Targets, entity)).toThrow(/itself/);
+  });
+});
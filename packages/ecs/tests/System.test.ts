@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SystemManager } from '../src/System';
+import { Transform } from '../src/components/Transform';
+import { Velocity } from '../src/components/Velocity';
+import { SystemPriority } from '../src/types';
+import type { System } from '../src/types';
+
+function createSystem(name: string, options: Partial<System> = {}): System {
+  return { name, priority: SystemPriority.UPDATE, update: () => {}, ...options };
+}
+
+function order(manager: SystemManager): string[] {
+  return manager.getAllSystems().map((system) => system.name);
+}
+
+describe('SystemManager', () => {
+  let manager: SystemManager;
+
+  beforeEach(() => {
+    manager = new SystemManager();
+  });
+
+  describe('ordering', () => {
+    it('should order unconstrained systems by priority, then registration', () => {
+      manager.register(createSystem('late', { priority: SystemPriority.LAST }));
+      manager.register(createSystem('a'));
+      manager.register(createSystem('b'));
+      manager.register(createSystem('early', { priority: SystemPriority.FIRST }));
+
+      expect(order(manager)).toEqual(['early', 'a', 'b', 'late']);
+    });
+
+    it('should let before/after constraints override priority', () => {
+      manager.register(createSystem('render', { priority: SystemPriority.FIRST, after: ['physics'] }));
+      manager.register(createSystem('physics', { priority: SystemPriority.LAST }));
+      manager.register(createSystem('input', { priority: SystemPriority.LAST, before: ['physics'] }));
+
+      expect(order(manager)).toEqual(['input', 'physics', 'render']);
+    });
+
+    it('should apply constraints on systems registered later', () => {
+      manager.register(createSystem('a', { after: ['b'] }));
+      expect(order(manager)).toEqual(['a']);
+
+      manager.register(createSystem('b'));
+      expect(order(manager)).toEqual(['b', 'a']);
+    });
+
+    it('should reject a system that closes a cycle', () => {
+      manager.register(createSystem('a', { before: ['b'] }));
+      manager.register(createSystem('b', { before: ['c'] }));
+
+      expect(() => manager.register(createSystem('c', { before: ['a'] }))).toThrow(
+        'System ordering cycle: a -> b -> c -> a'
+      );
+      expect(order(manager)).toEqual(['a', 'b']);
+      expect(manager.get('c')).toBeUndefined();
+    });
+  });
+
+  describe('getSchedule', () => {
+    it('should describe each system in execution order', () => {
+      manager.register(createSystem('transform', { writes: [Transform] }));
+      manager.register(createSystem('movement', { reads: [Velocity], writes: [Transform], before: ['transform'] }));
+
+      expect(manager.getSchedule().systems).toEqual([
+        { name: 'movement', priority: 0, reads: ['Velocity'], writes: ['Transform'], runsAfter: [] },
+        { name: 'transform', priority: 0, reads: [], writes: ['Transform'], runsAfter: ['movement'] },
+      ]);
+    });
+
+    it('should report unordered access to shared components', () => {
+      manager.register(createSystem('ai', { writes: [Velocity] }));
+      manager.register(createSystem('movement', { reads: [Velocity], writes: [Transform] }));
+      manager.register(createSystem('camera', { writes: [Transform], priority: SystemPriority.LAST }));
+
+      expect(manager.getSchedule().conflicts).toEqual([
+        { systems: ['ai', 'movement'], components: ['Velocity'], kind: 'read-write' },
+        { systems: ['movement', 'camera'], components: ['Transform'], kind: 'write-write' },
+      ]);
+    });
+
+    it('should not report systems ordered through constraints', () => {
+      manager.register(createSystem('a', { writes: [Transform], before: ['b'] }));
+      manager.register(createSystem('b', { before: ['c'] }));
+      manager.register(createSystem('c', { reads: [Transform] }));
+
+      expect(manager.getSchedule().conflicts).toEqual([]);
+    });
+  });
+});
@@ -37,6 +37,16 @@ ComponentRegistry.register(Health, [
   createFieldDescriptor('value', 100),
 ]);
 
+// Test tag
+class Frozen {}
+
+ComponentRegistry.registerTag(Frozen);
+
+// Test resource
+class GameTime {
+  constructor(public elapsed: number = 0) {}
+}
+
 // Test system
 class TestSystem implements System {
   readonly name = 'TestSystem';
@@ -96,6 +106,21 @@ describe('World', () => {
     it('should handle destroying non-existent entities gracefully', () => {
       expect(() => world.destroyEntity(999)).not.toThrow();
     });
+
+    it('should notify destroy listeners, including for clear()', () => {
+      const destroyed: number[] = [];
+      const unsubscribe = world.onEntityDestroyed((entity) => destroyed.push(entity));
+      const empty = world.createEntity();
+      const moving = world.createEntity();
+      world.addComponent(moving, Velocity, new Velocity());
+
+      world.destroyEntity(empty);
+      world.clear();
+      unsubscribe();
+      world.destroyEntity(world.createEntity());
+
+      expect(destroyed).toEqual([empty, moving]);
+    });
   });
 
   describe('component management', () => {
@@ -398,4 +423,59 @@ describe('World', () => {
       expect(world.hasComponent(entity, Transform)).toBe(false);
     });
   });
+
+  describe('tags', () => {
+    it('should affect archetype membership without field storage', () => {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform(1, 2, 3));
+      world.addTag(entity, Frozen);
+
+      const archetype = world.getArchetypeManager().getArchetype('Frozen,Transform')!;
+      expect(archetype.components.has(Frozen)).toBe(false);
+      expect(world.hasComponent(entity, Frozen)).toBe(true);
+      expect(world.executeQuery(world.query().with(Frozen).build())).toHaveLength(1);
+      expect(world.executeQuery(world.query().with(Transform).without(Frozen).build())).toHaveLength(0);
+    });
+
+    it('should keep tags and data across archetype moves', () => {
+      const entity = world.createEntity();
+      world.addTag(entity, Frozen);
+      world.addComponent(entity, Transform, new Transform(1, 2, 3));
+      world.addComponent(entity, Velocity, new Velocity(1, 0, 0));
+      world.removeComponent(entity, Velocity);
+
+      expect(world.hasComponent(entity, Frozen)).toBe(true);
+      expect(world.getComponent(entity, Transform)?.x).toBe(1);
+
+      world.removeComponent(entity, Frozen);
+      expect(world.hasComponent(entity, Frozen)).toBe(false);
+      expect(world.getComponent(entity, Transform)?.x).toBe(1);
+    });
+
+    it('should reject addTag for data components', () => {
+      expect(() => world.addTag(world.createEntity(), Velocity)).toThrow(/not a registered tag/);
+    });
+  });
+
+  describe('resources', () => {
+    it('should store one value per resource type', () => {
+      world.setResource(GameTime, new GameTime(1));
+      world.setResource(GameTime, new GameTime(2));
+
+      expect(world.getResource(GameTime)?.elapsed).toBe(2);
+      expect(world.hasResource(GameTime)).toBe(true);
+    });
+
+    it('should remove resources individually and on clear', () => {
+      expect(world.getResource(GameTime)).toBeUndefined();
+
+      world.setResource(GameTime, new GameTime());
+      expect(world.removeResource(GameTime)).toBe(true);
+      expect(world.hasResource(GameTime)).toBe(false);
+
+      world.setResource(GameTime, new GameTime());
+      world.clear();
+      expect(world.hasResource(GameTime)).toBe(false);
+    });
+  });
 });
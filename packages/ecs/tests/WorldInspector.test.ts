@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import '../src/registerComponents';
+import { World } from '../src/World';
+import { ComponentRegistry } from '../src/ComponentRegistry';
+import { createFieldDescriptor } from '../src/ComponentStorage';
+import { Transform } from '../src/components/Transform';
+import { TransformSystem } from '../src/systems/TransformSystem';
+
+// Test component with integer and entity reference fields
+class Inventory {
+  constructor(public slots: number = 4, public owner: number = -1) {}
+}
+
+ComponentRegistry.register(Inventory, [
+  createFieldDescriptor('slots', 4, Uint8Array),
+  createFieldDescriptor('owner', -1, Int32Array, { entityRef: true }),
+]);
+
+// Test tag
+class Hidden {}
+
+ComponentRegistry.registerTag(Hidden);
+
+describe('WorldInspector', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+    world.registerSystem(new TransformSystem(world));
+  });
+
+  it('should list entities with names, archetypes and parents', () => {
+    const root = world.createEntity();
+    const child = world.createEntity();
+    world.addComponent(root, Transform, new Transform());
+    world.addComponent(child, Transform, new Transform());
+    world.addTag(child, Hidden);
+    world.setParent(child, root);
+    world.setEntityName(root, 'Ship');
+
+    expect(world.inspectEntities()).toEqual([
+      { id: root, name: 'Ship', archetype: 'Transform' },
+      { id: child, archetype: 'Hidden,Transform', parent: root },
+    ]);
+  });
+
+  it('should report component values with field descriptors', () => {
+    const entity = world.createEntity();
+    world.addComponent(entity, Inventory, new Inventory(8));
+    world.addTag(entity, Hidden);
+
+    const inspection = world.inspectEntity(entity)!;
+
+    expect(inspection.components).toEqual([
+      { name: 'Hidden', tag: true, fields: [] },
+      {
+        name: 'Inventory',
+        tag: false,
+        fields: [
+          { name: 'slots', type: 'Uint8Array', value: 8, entityRef: false, transient: false },
+          { name: 'owner', type: 'Int32Array', value: -1, entityRef: true, transient: false },
+        ],
+      },
+    ]);
+    expect(world.inspectEntity(999)).toBeUndefined();
+  });
+
+  it('should set fields by path and return the previous value', () => {
+    const entity = world.createEntity();
+    world.addComponent(entity, Transform, new Transform(1, 2, 3));
+
+    expect(world.setComponentField(entity, 'Transform.y', 5.5)).toBe(2);
+    expect(world.getComponent(entity, Transform)!.y).toBe(5.5);
+  });
+
+  it('should mark transforms dirty so world matrices follow set fields', () => {
+    const entity = world.createEntity();
+    world.addComponent(entity, Transform, new Transform(1, 0, 0));
+    world.update(0);
+    expect(world.getWorldMatrix(entity)![12]).toBe(1);
+
+    world.setComponentField(entity, 'Transform.x', 10);
+    world.update(0);
+
+    expect(world.getWorldMatrix(entity)![12]).toBe(10);
+  });
+
+  it('should reject transient fields', () => {
+    const parent = world.createEntity();
+    const child = world.createEntity();
+    world.addComponent(parent, Transform, new Transform());
+    world.addComponent(child, Transform, new Transform());
+
+    expect(() => world.setComponentField(child, 'Transform.parentId', parent)).toThrow(
+      /transient field.*World.setParent/
+    );
+    expect(() => world.setComponentField(child, 'Transform.worldMatrixIndex', 0)).toThrow(/transient field/);
+    expect(world.getComponent(child, Transform)!.parentId).toBe(-1);
+  });
+
+  it('should validate paths and values', () => {
+    const entity = world.createEntity();
+    world.addComponent(entity, Inventory, new Inventory());
+
+    expect(() => world.setComponentField(entity, 'Inventory', 1)).toThrow(/expected Component.field/);
+    expect(() => world.setComponentField(entity, 'Transform.x', 1)).toThrow(/has no component Transform/);
+    expect(() => world.setComponentField(entity, 'Inventory.size', 1)).toThrow(/has no field size/);
+    expect(() => world.setComponentField(entity, 'Inventory.slots', 1.5)).toThrow(/integer field/);
+    expect(() => world.setComponentField(entity, 'Inventory.slots', 300)).toThrow(/between 0 and 255/);
+    expect(() => world.setComponentField(entity, 'Inventory.owner', 42)).toThrow(/live entity/);
+    expect(() => world.setComponentField(entity, 'Inventory.slots', NaN)).toThrow(/finite/);
+
+    expect(world.setComponentField(entity, 'Inventory.owner', entity)).toBe(-1);
+  });
+
+  it('should drop names with their entities and keep them across worlds', () => {
+    const entity = world.createEntity();
+    world.setEntityName(entity, 'Crate');
+
+    const other = new World();
+    const moved = world.transferEntity(entity, other);
+    expect(other.getEntityName(moved)).toBe('Crate');
+
+    const recycled = world.createEntity();
+    expect(world.getEntityName(recycled)).toBeUndefined();
+  });
+});
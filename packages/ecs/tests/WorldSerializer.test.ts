@@ -0,0 +1,339 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import '../src/registerComponents';
+import { World } from '../src/World';
+import { WorldSerializer, WORLD_SNAPSHOT_VERSION } from '../src/WorldSerializer';
+import { ComponentRegistry } from '../src/ComponentRegistry';
+import { createFieldDescriptor } from '../src/ComponentStorage';
+import { Transform } from '../src/components/Transform';
+import { Velocity } from '../src/components/Velocity';
+import { TransformSystem } from '../src/systems/TransformSystem';
+import type { WorldSnapshot } from '../src/WorldSerializer';
+
+// Test component holding an entity reference
+class Follower {
+  readonly __componentType = 'Follower';
+  constructor(public target: number = -1, public distance: number = 2) {}
+}
+
+ComponentRegistry.register(Follower, [
+  createFieldDescriptor('target', -1, Int32Array, { entityRef: true }),
+  createFieldDescriptor('distance', 2),
+]);
+
+// Test tag
+class Selected {}
+
+ComponentRegistry.registerTag(Selected);
+
+function createWorld(): World {
+  const world = new World();
+  world.registerSystem(new TransformSystem(world));
+  return world;
+}
+
+describe('WorldSerializer', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = createWorld();
+  });
+
+  describe('serialize', () => {
+    it('should capture entities and component fields', () => {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform(1, 2, 3));
+      world.addComponent(entity, Velocity, new Velocity(0.1, 0, -1));
+
+      const snapshot = WorldSerializer.serialize(world);
+
+      expect(snapshot.version).toBe(WORLD_SNAPSHOT_VERSION);
+      expect(snapshot.entities).toHaveLength(1);
+      expect(snapshot.entities[0].components.Transform.x).toBe(1);
+      expect(snapshot.entities[0].components.Velocity).toEqual({ vx: 0.1, vy: 0, vz: -1 });
+    });
+
+    it('should skip transient fields', () => {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform());
+
+      const data = WorldSerializer.serialize(world).entities[0].components.Transform;
+
+      expect(data).not.toHaveProperty('localMatrixIndex');
+      expect(data).not.toHaveProperty('parentId');
+      expect(data).not.toHaveProperty('dirty');
+    });
+
+    it('should store hierarchy as parent references with parents first', () => {
+      const child = world.createEntity();
+      const parent = world.createEntity();
+      world.addComponent(child, Transform, new Transform());
+      world.addComponent(parent, Transform, new Transform());
+      world.setParent(child, parent);
+
+      const snapshot = WorldSerializer.serialize(world);
+
+      expect(snapshot.entities.map((e) => e.id)).toEqual([parent, child]);
+      expect(snapshot.entities[1].parent).toBe(parent);
+      expect(snapshot.entities[0].parent).toBeUndefined();
+    });
+
+    it('should capture only the given roots and their descendants', () => {
+      const parent = world.createEntity();
+      const child = world.createEntity();
+      const other = world.createEntity();
+      world.addComponent(parent, Transform, new Transform());
+      world.addComponent(child, Transform, new Transform());
+      world.addComponent(other, Transform, new Transform());
+      world.setParent(child, parent);
+
+      const snapshot = WorldSerializer.serialize(world, [parent]);
+
+      expect(snapshot.entities.map((e) => e.id)).toEqual([parent, child]);
+    });
+  });
+
+  describe('transferEntity', () => {
+    it('should move an entity with its components and children', () => {
+      const target = createWorld();
+      const parent = world.createEntity();
+      const child = world.createEntity();
+      world.addComponent(parent, Transform, new Transform(1, 2, 3));
+      world.addComponent(parent, Velocity, new Velocity(0, 0, 5));
+      world.addComponent(child, Transform, new Transform());
+      world.addComponent(child, Follower, new Follower(parent));
+      world.setParent(child, parent);
+
+      const moved = world.transferEntity(parent, target);
+
+      expect(world.getEntities()).toHaveLength(0);
+      expect(target.getComponent(moved, Transform)!.y).toBe(2);
+      expect(target.getComponent(moved, Velocity)!.vz).toBe(5);
+
+      const [movedChild] = target.getChildren(moved);
+      expect(target.getComponent(movedChild, Follower)!.target).toBe(moved);
+    });
+
+    it('should detach the entity from a parent left behind', () => {
+      const target = createWorld();
+      const parent = world.createEntity();
+      const child = world.createEntity();
+      world.addComponent(parent, Transform, new Transform());
+      world.addComponent(child, Transform, new Transform());
+      world.setParent(child, parent);
+
+      const moved = world.transferEntity(child, target);
+
+      expect(world.getChildren(parent)).toEqual([]);
+      expect(target.getComponent(moved, Transform)!.parentId).toBe(-1);
+    });
+
+    it('should leave the source untouched if the target cannot hold a component', () => {
+      class Marker {
+        readonly __componentType = 'Marker';
+        constructor(public value: number = 0) {}
+      }
+      const local = new ComponentRegistry(ComponentRegistry.getDefault());
+      local.register(Marker, [createFieldDescriptor('value', 0)]);
+      const source = new World({ registry: local });
+      const entity = source.createEntity();
+      source.addComponent(entity, Marker, new Marker(3));
+
+      expect(() => source.transferEntity(entity, createWorld())).toThrow(/not registered/);
+      expect(source.getComponent(entity, Marker)!.value).toBe(3);
+    });
+  });
+
+  describe('per-world registries', () => {
+    it('should resolve components from the parent registry', () => {
+      const local = new ComponentRegistry(ComponentRegistry.getDefault());
+
+      expect(local.isRegistered(Transform)).toBe(true);
+      expect(local.getTypeByName('Follower')).toBe(Follower);
+    });
+
+    it('should not leak local registrations into the parent', () => {
+      class PreviewOnly {
+        readonly __componentType = 'PreviewOnly';
+        constructor(public value: number = 0) {}
+      }
+      const local = new ComponentRegistry(ComponentRegistry.getDefault());
+      local.register(PreviewOnly, [createFieldDescriptor('value', 0)]);
+
+      const preview = new World({ registry: local });
+      const entity = preview.createEntity();
+      preview.addComponent(entity, PreviewOnly, new PreviewOnly(1));
+
+      expect(preview.getComponent(entity, PreviewOnly)!.value).toBe(1);
+      expect(ComponentRegistry.isRegistered(PreviewOnly)).toBe(false);
+      expect(() => world.addComponent(world.createEntity(), PreviewOnly, new PreviewOnly())).toThrow();
+    });
+  });
+
+  describe('deserialize', () => {
+    it('should recreate entities with remapped IDs', () => {
+      const original = world.createEntity();
+      world.addComponent(original, Transform, new Transform(5, 6, 7));
+
+      const target = new World();
+      target.createEntity(); // Occupy ID 1 so remapping is observable
+      const { entityMap, entities } = WorldSerializer.deserialize(target, WorldSerializer.serialize(world));
+
+      const loaded = entityMap.get(original)!;
+      expect(entities).toEqual([loaded]);
+      expect(loaded).not.toBe(original);
+      expect(target.getComponent(loaded, Transform)!.z).toBe(7);
+    });
+
+    it('should restore hierarchy and sibling order', () => {
+      const parent = world.createEntity();
+      const a = world.createEntity();
+      const b = world.createEntity();
+      for (const entity of [parent, a, b]) {
+        world.addComponent(entity, Transform, new Transform());
+      }
+      world.setParent(a, parent);
+      world.setParent(b, parent);
+      const expectedOrder = world.getChildren(parent);
+
+      const target = createWorld();
+      const { entityMap } = WorldSerializer.deserialize(target, WorldSerializer.serialize(world));
+
+      const loadedParent = entityMap.get(parent)!;
+      expect(target.getChildren(loadedParent)).toEqual(expectedOrder.map((id) => entityMap.get(id)));
+      expect((target.getComponent(entityMap.get(a)!, Transform) as any).parentId).toBe(loadedParent);
+    });
+
+    it('should reset transient fields to defaults', () => {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform());
+      world.setComponent(entity, Transform, { localMatrixIndex: 42, dirty: 0 });
+
+      const target = new World();
+      const { entities } = WorldSerializer.deserialize(target, WorldSerializer.serialize(world));
+
+      const loaded = target.getComponent(entities[0], Transform)!;
+      expect(loaded.localMatrixIndex).toBe(-1);
+      expect(loaded.dirty).toBe(1);
+    });
+
+    it('should remap entityRef fields', () => {
+      const leader = world.createEntity();
+      const follower = world.createEntity();
+      world.addComponent(leader, Transform, new Transform());
+      world.addComponent(follower, Follower, new Follower(leader, 4));
+
+      const target = new World();
+      target.createEntity();
+      target.createEntity();
+      const { entityMap } = WorldSerializer.deserialize(target, WorldSerializer.serialize(world));
+
+      const loaded = target.getComponent(entityMap.get(follower)!, Follower)!;
+      expect(loaded.target).toBe(entityMap.get(leader));
+      expect(loaded.distance).toBe(4);
+    });
+
+    it('should fill missing fields with defaults for hand-authored scenes', () => {
+      const snapshot: WorldSnapshot = {
+        version: 1,
+        entities: [{ id: 10, components: { Transform: { y: 3 } } }],
+      };
+
+      const { entities } = WorldSerializer.deserialize(world, snapshot);
+
+      const transform = world.getComponent(entities[0], Transform)!;
+      expect(transform.y).toBe(3);
+      expect(transform.scaleX).toBe(1);
+    });
+
+    it('should reject unknown components unless ignored', () => {
+      const snapshot: WorldSnapshot = {
+        version: 1,
+        entities: [{ id: 1, components: { Missing: { a: 1 }, Velocity: { vx: 2 } } }],
+      };
+
+      expect(() => WorldSerializer.deserialize(new World(), snapshot)).toThrow(/not registered/);
+
+      const target = new World();
+      const { entities } = WorldSerializer.deserialize(target, snapshot, { ignoreUnknownComponents: true });
+      expect(target.getComponent(entities[0], Velocity)!.vx).toBe(2);
+    });
+
+    it('should reject unsupported versions and duplicate IDs', () => {
+      expect(() =>
+        WorldSerializer.deserialize(world, { version: WORLD_SNAPSHOT_VERSION + 1, entities: [] })
+      ).toThrow(/unsupported snapshot version/);
+
+      expect(() =>
+        WorldSerializer.deserialize(world, {
+          version: 1,
+          entities: [
+            { id: 1, components: {} },
+            { id: 1, components: {} },
+          ],
+        })
+      ).toThrow(/duplicate entity ID/);
+      expect(world.getEntities()).toHaveLength(0);
+    });
+  });
+
+  describe('JSON', () => {
+    it('should round-trip through JSON with readable float values', () => {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform(0.1, 0.2, 0.3));
+
+      const json = WorldSerializer.toJSON(world);
+      expect(json).toContain('"x": 0.1');
+
+      const target = new World();
+      const { entities } = WorldSerializer.fromJSON(target, json);
+      expect(target.getComponent(entities[0], Transform)).toEqual(world.getComponent(entity, Transform));
+    });
+  });
+
+  describe('binary', () => {
+    it('should round-trip through the binary format', () => {
+      const parent = world.createEntity();
+      const child = world.createEntity();
+      world.addComponent(parent, Transform, new Transform(1.5, -2, 100));
+      world.addComponent(child, Transform, new Transform(0.1, 0, 0));
+      world.addComponent(child, Follower, new Follower(parent));
+      world.setParent(child, parent);
+
+      const snapshot = WorldSerializer.serialize(world);
+      const decoded = WorldSerializer.decodeBinary(WorldSerializer.encodeBinary(snapshot));
+
+      expect(decoded).toEqual(snapshot);
+    });
+
+    it('should round-trip tags', () => {
+      const entity = world.createEntity();
+      world.addComponent(entity, Transform, new Transform(1, 2, 3));
+      world.addTag(entity, Selected);
+
+      const target = new World();
+      const { entities } = WorldSerializer.fromBinary(target, WorldSerializer.toBinary(world));
+
+      expect(target.hasComponent(entities[0], Selected)).toBe(true);
+      expect(target.getComponent(entities[0], Transform)?.z).toBe(3);
+    });
+
+    it('should be smaller than the JSON form', () => {
+      for (let i = 0; i < 50; i++) {
+        const entity = world.createEntity();
+        world.addComponent(entity, Transform, new Transform(i, i * 2, i * 3));
+      }
+
+      const binary = WorldSerializer.toBinary(world);
+      const json = WorldSerializer.toJSON(world, 0);
+
+      expect(binary.byteLength).toBeLessThan(json.length);
+    });
+
+    it('should reject data that is not a snapshot', () => {
+      expect(() => WorldSerializer.decodeBinary(new ArrayBuffer(8))).toThrow(/bad magic/);
+
+      const truncated = WorldSerializer.toBinary(world).slice(0, 5);
+      expect(() => WorldSerializer.decodeBinary(truncated)).toThrow(/truncated/);
+    });
+  });
+});
@@ -100,6 +100,27 @@ describe('Mat4.transpose', () => {
   });
 });
 
+describe('Mat4.composeTRSQuatTo', () => {
+  test('matches composeTRS for single-axis rotations', () => {
+    const angle = 0.8;
+    const s = Math.sin(angle / 2);
+    const c = Math.cos(angle / 2);
+    const result = new Float32Array(16);
+
+    Mat4.composeTRSQuatTo(1, 2, 3, 0, s, 0, c, 2, 1, 0.5, result);
+    const fromEulerY = Mat4.composeTRS(1, 2, 3, 0, angle, 0, 2, 1, 0.5);
+    for (let i = 0; i < 16; i++) {
+      expect(result[i]).toBeCloseTo(fromEulerY[i], 5);
+    }
+
+    Mat4.composeTRSQuatTo(0, 0, 0, s, 0, 0, c, 1, 1, 1, result);
+    const fromEulerX = Mat4.composeTRS(0, 0, 0, angle, 0, 0, 1, 1, 1);
+    for (let i = 0; i < 16; i++) {
+      expect(result[i]).toBeCloseTo(fromEulerX[i], 5);
+    }
+  });
+});
+
 describe('Mat4.computeNormalMatrix', () => {
   test('identity matrix produces identity normal matrix', () => {
     const identity = Mat4.identity();
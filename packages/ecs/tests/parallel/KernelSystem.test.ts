@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { World } from '../../src/World';
+import { Transform } from '../../src/components/Transform';
+import { Velocity } from '../../src/components/Velocity';
+import { ComponentRegistry } from '../../src/ComponentRegistry';
+import { createFieldDescriptor } from '../../src/ComponentStorage';
+import { KernelSystem } from '../../src/parallel/KernelSystem';
+import { WorkerPool, type KernelWorker } from '../../src/parallel/WorkerPool';
+import {
+  defineKernel,
+  startKernelWorker,
+  type KernelDefinition,
+  type KernelJobMessage,
+  type KernelWorkerScope,
+} from '../../src/parallel/Kernel';
+import { SystemManager } from '../../src/System';
+import { SystemPriority } from '../../src/types';
+
+/**
+ * Shared-storage world with reduced Transform/Velocity layouts
+ *
+ * The layouts are registered on a world-local registry so the shared default
+ * registry keeps the full component layouts for other tests.
+ */
+function createWorld(options: { sharedStorage?: boolean } = { sharedStorage: true }): World {
+  const registry = new ComponentRegistry(ComponentRegistry.getDefault());
+  registry.register(Transform, [
+    createFieldDescriptor('x', 0),
+    createFieldDescriptor('y', 0),
+    createFieldDescriptor('z', 0),
+  ]);
+  registry.register(Velocity, [
+    createFieldDescriptor('vx', 0),
+    createFieldDescriptor('vy', 0),
+    createFieldDescriptor('vz', 0),
+  ]);
+  return new World({ ...options, registry });
+}
+
+const integrate = defineKernel('integrate', (views, { start, end, deltaTime }) => {
+  const { x } = views.Transform;
+  const { vx } = views.Velocity;
+  for (let i = start; i < end; i++) {
+    x[i] += vx[i] * deltaTime;
+  }
+});
+
+const damp = defineKernel('damp', (views, { start, end, params }) => {
+  const { vy } = views.Velocity;
+  for (let i = start; i < end; i++) {
+    vy[i] *= params.factor as number;
+  }
+});
+
+/**
+ * In-process worker speaking the pool protocol
+ *
+ * Messages are delivered asynchronously and cloned like postMessage would,
+ * so writes only reach the world through SharedArrayBuffer-backed arrays.
+ */
+function createInlineWorker(kernels: KernelDefinition[], log: string[]): KernelWorker {
+  const scope: KernelWorkerScope = {
+    onmessage: null,
+    postMessage: (message) => queueMicrotask(() => worker.onmessage?.({ data: message })),
+  };
+  startKernelWorker(kernels, scope);
+
+  const worker: KernelWorker = {
+    onmessage: null,
+    postMessage: (message: KernelJobMessage) => {
+      log.push(message.kernel);
+      const data = structuredClone(message);
+      queueMicrotask(() => scope.onmessage!({ data }));
+    },
+    terminate: () => {},
+  };
+  return worker;
+}
+
+function spawnMovers(world: World, count: number): number[] {
+  const entities: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const entity = world.createEntity();
+    world.addComponent(entity, Transform, new Transform(0, 0, 0));
+    world.addComponent(entity, Velocity, new Velocity(i, 1, 0));
+    entities.push(entity);
+  }
+  return entities;
+}
+
+describe('KernelSystem', () => {
+  let world: World;
+  let pool: WorkerPool;
+  let jobLog: string[];
+
+  beforeEach(() => {
+    world = createWorld();
+    jobLog = [];
+    pool = new WorkerPool({
+      size: 2,
+      minJobSize: 4,
+      createWorker: () => createInlineWorker([integrate, damp], jobLog),
+    });
+  });
+
+  afterEach(() => {
+    pool.terminate();
+  });
+
+  it('should back component arrays with SharedArrayBuffer', () => {
+    spawnMovers(world, 1);
+
+    const storage = world.getArchetypeManager().getAllArchetypes()[0].components.get(Transform)!;
+    expect(storage.isShared()).toBe(true);
+    expect(storage.getArray('x')!.buffer).toBeInstanceOf(SharedArrayBuffer);
+  });
+
+  it('should run the kernel on the main thread in update()', () => {
+    const entities = spawnMovers(world, 3);
+    world.registerSystem(new KernelSystem({ name: 'integrate', kernel: integrate, reads: [Velocity], writes: [Transform] }));
+
+    world.update(0.5);
+
+    expect(world.getComponent(entities[2], Transform)!.x).toBe(1);
+    expect(jobLog).toEqual([]);
+  });
+
+  it('should split archetypes into worker jobs and write through shared memory', async () => {
+    const entities = spawnMovers(world, 10);
+    world.registerSystem(new KernelSystem({ name: 'integrate', kernel: integrate, reads: [Velocity], writes: [Transform] }));
+
+    await world.updateParallel(1, pool);
+
+    expect(jobLog).toEqual(['integrate', 'integrate']);
+    expect(entities.map((e) => world.getComponent(e, Transform)!.x)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('should mark written components as changed', async () => {
+    spawnMovers(world, 2);
+    const query = world.query().with(Transform).changed(Transform).build();
+    world.executeQuery(query);
+    world.registerSystem(new KernelSystem({ name: 'integrate', kernel: integrate, reads: [Velocity], writes: [Transform] }));
+
+    await world.updateParallel(1, pool);
+
+    expect(world.executeQuery(query)).toHaveLength(2);
+  });
+
+  it('should pass params to kernels', async () => {
+    const [entity] = spawnMovers(world, 1);
+    world.registerSystem(
+      new KernelSystem({ name: 'damp', kernel: damp, writes: [Velocity], params: () => ({ factor: 0.5 }) })
+    );
+
+    await world.updateParallel(1, pool);
+
+    expect(world.getComponent(entity, Velocity)!.vy).toBe(0.5);
+  });
+
+  it('should reject worlds without shared storage', async () => {
+    await expect(new World().updateParallel(1, pool)).rejects.toThrow(/sharedStorage/);
+  });
+
+  it('should report kernel errors', async () => {
+    spawnMovers(world, 1);
+    const missing = defineKernel('missing', () => {});
+    world.registerSystem(new KernelSystem({ name: 'missing', kernel: missing, writes: [Transform] }));
+
+    await expect(world.updateParallel(1, pool)).rejects.toThrow(/not registered on this worker/);
+  });
+});
+
+describe('WorkerPool', () => {
+  function createBrokenWorker(onPost: (worker: KernelWorker) => void): KernelWorker {
+    const worker: KernelWorker = {
+      onmessage: null,
+      onerror: null,
+      postMessage: () => queueMicrotask(() => onPost(worker)),
+      terminate: () => {},
+    };
+    return worker;
+  }
+
+  it('should reject jobs of a worker that errors instead of replying', async () => {
+    const world = createWorld();
+    spawnMovers(world, 1);
+    world.registerSystem(new KernelSystem({ name: 'integrate', kernel: integrate, writes: [Transform] }));
+    const pool = new WorkerPool({
+      size: 1,
+      createWorker: () => createBrokenWorker((worker) => worker.onerror?.({ message: 'failed to load script' })),
+    });
+
+    await expect(world.updateParallel(1, pool)).rejects.toThrow(/Worker 0 failed: failed to load script/);
+    pool.terminate();
+  });
+
+  it('should time out jobs of a worker that never replies', async () => {
+    const world = createWorld();
+    spawnMovers(world, 1);
+    world.registerSystem(new KernelSystem({ name: 'integrate', kernel: integrate, writes: [Transform] }));
+    const pool = new WorkerPool({ size: 1, jobTimeout: 10, createWorker: () => createBrokenWorker(() => {}) });
+
+    await expect(world.updateParallel(1, pool)).rejects.toThrow(/'integrate' timed out after 10ms/);
+    pool.terminate();
+  });
+
+  it('should terminate failed workers and send later jobs to the others', async () => {
+    const world = createWorld();
+    const [, entity] = spawnMovers(world, 2);
+    world.registerSystem(new KernelSystem({ name: 'integrate', kernel: integrate, reads: [Velocity], writes: [Transform] }));
+    const log: string[] = [];
+    const broken = createBrokenWorker(() => {});
+    let terminated = 0;
+    broken.terminate = () => terminated++;
+    const pool = new WorkerPool({
+      size: 2,
+      jobTimeout: 10,
+      createWorker: (index) => (index === 0 ? broken : createInlineWorker([integrate], log)),
+    });
+
+    await expect(world.updateParallel(1, pool)).rejects.toThrow(/timed out/);
+    expect(terminated).toBe(1);
+    expect(pool.getSize()).toBe(1);
+
+    await world.updateParallel(1, pool);
+    await world.updateParallel(1, pool);
+    expect(log).toEqual(['integrate', 'integrate']);
+    expect(world.getComponent(entity, Transform)!.x).toBe(2);
+    pool.terminate();
+  });
+
+  it('should reject outright when no workers are left', async () => {
+    const world = createWorld();
+    spawnMovers(world, 1);
+    world.registerSystem(new KernelSystem({ name: 'integrate', kernel: integrate, writes: [Transform] }));
+    const pool = new WorkerPool({
+      size: 1,
+      createWorker: () => createBrokenWorker((worker) => worker.onerror?.({ message: 'crashed' })),
+    });
+
+    await expect(world.updateParallel(1, pool)).rejects.toThrow(/crashed/);
+    await expect(world.updateParallel(1, pool)).rejects.toThrow('WorkerPool has no live workers');
+    pool.terminate();
+  });
+
+  it('should leave the default registry layouts alone', () => {
+    const fields = ComponentRegistry.getDefault().getFields(Transform)?.map((field) => field.name) ?? [];
+    expect(fields).not.toEqual(['x', 'y', 'z']);
+  });
+});
+
+describe('SystemManager.getStages', () => {
+  it('should group non-conflicting kernel systems and isolate the rest', () => {
+    const manager = new SystemManager();
+    const names = () => manager.getStages().map((stage) => stage.map((s) => s.name));
+
+    manager.register(new KernelSystem({ name: 'integrate', kernel: integrate, reads: [Velocity], writes: [Transform] }));
+    manager.register(new KernelSystem({ name: 'cull', kernel: integrate, reads: [Transform], writes: [Velocity] }));
+    manager.register({ name: 'main', priority: SystemPriority.LAST, update: () => {} });
+
+    // cull reads what integrate writes
+    expect(names()).toEqual([['integrate'], ['cull'], ['main']]);
+
+    manager.unregister('cull');
+    manager.register(new KernelSystem({ name: 'damp', kernel: damp, writes: [Velocity] }));
+    manager.register(new KernelSystem({ name: 'spin', kernel: damp, writes: [Transform], after: ['integrate'] }));
+
+    expect(names()).toEqual([['integrate'], ['damp', 'spin'], ['main']]);
+  });
+});
@@ -0,0 +1,196 @@
+import { compilePattern } from './EventBus';
+import type { EventBus } from './EventBus';
+import type { AnyEventOf, BaseEvent, EventSubscription, UntypedEventMap } from './types';
+
+/**
+ * Event as sent across a bridge
+ *
+ * Same layout as a RecordedEvent without the frame.
+ */
+export interface BridgedEvent {
+  /** Event type */
+  type: string;
+
+  /** Original event timestamp */
+  timestamp: number;
+
+  /** Event namespace, if any */
+  namespace?: string;
+
+  /** Remaining event fields (JSON-cloned before sending) */
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Channel an EventBridge sends and receives events over (e.g. Electron IPC)
+ */
+export interface EventBridgeTransport {
+  /** Send an event to the other side */
+  send(event: BridgedEvent): void;
+
+  /**
+   * Register the handler for messages from the other side
+   *
+   * @returns Function that removes the handler
+   */
+  onReceive(handler: (message: unknown) => void): () => void;
+}
+
+/**
+ * Event bridge configuration
+ */
+export interface EventBridgeOptions {
+  /** Event types or wildcard patterns to send to the other side */
+  forward: readonly string[];
+
+  /** Event types or wildcard patterns to accept from the other side (default: forward) */
+  accept?: readonly string[];
+
+  /** Validate an incoming message, throwing if it is malformed (default: structural check) */
+  validate?: (message: unknown) => BridgedEvent;
+}
+
+/**
+ * Event Bridge - forwards selected events between two EventBus instances
+ *
+ * Events matching `forward` are JSON-cloned and sent over the transport as
+ * they are dispatched locally. Incoming messages are validated, filtered by
+ * `accept` and dispatched on the local bus. Events received from the other
+ * side are never sent back, so both sides can forward the same types.
+ *
+ * @example
+ * ```typescript
+ * const bridge = new EventBridge(engine.events, transport, {
+ *   forward: ['engine:*', 'game:**'],
+ *   accept: ['app:*'],
+ * });
+ * bridge.start();
+ * ```
+ */
+export class EventBridge<TEventMap extends object = UntypedEventMap> {
+  private subscription: EventSubscription | null = null;
+  private removeReceiver: (() => void) | null = null;
+  private received = new WeakSet<BaseEvent>();
+  private readonly forward: RegExp[];
+  private readonly accept: RegExp[];
+  private readonly validate: (message: unknown) => BridgedEvent;
+
+  constructor(
+    private bus: EventBus<TEventMap>,
+    private transport: EventBridgeTransport,
+    options: EventBridgeOptions
+  ) {
+    this.forward = options.forward.map(compilePattern);
+    this.accept = (options.accept ?? options.forward).map(compilePattern);
+    this.validate = options.validate ?? validateBridgedEvent;
+  }
+
+  /**
+   * Start forwarding and accepting events
+   */
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+    this.subscription = this.bus.observe((event) => this.send(event));
+    this.removeReceiver = this.transport.onReceive((message) => {
+      void this.receive(message);
+    });
+  }
+
+  /**
+   * Stop forwarding and accepting events
+   */
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+    this.removeReceiver?.();
+    this.removeReceiver = null;
+  }
+
+  /**
+   * Check if the bridge is running
+   */
+  isRunning(): boolean {
+    return this.subscription !== null;
+  }
+
+  /**
+   * Send a locally dispatched event if it is forwarded
+   */
+  private send(event: BaseEvent): void {
+    if (this.received.has(event) || !matchesAny(this.forward, event.type)) {
+      return;
+    }
+
+    const { type, timestamp, namespace, ...payload } = event as BaseEvent & Record<string, unknown>;
+    const bridged: BridgedEvent = {
+      type,
+      timestamp,
+      payload: JSON.parse(JSON.stringify(payload)),
+    };
+    if (namespace !== undefined) {
+      bridged.namespace = namespace;
+    }
+    this.transport.send(bridged);
+  }
+
+  /**
+   * Validate and dispatch a message from the other side
+   *
+   * Never rejects: the transport calls this without awaiting, so dispatch
+   * errors are logged like EventBus handler errors.
+   */
+  private async receive(message: unknown): Promise<void> {
+    let bridged: BridgedEvent;
+    try {
+      bridged = this.validate(message);
+    } catch (error) {
+      console.error('Dropping invalid bridged event:', error);
+      return;
+    }
+
+    if (!matchesAny(this.accept, bridged.type)) {
+      console.warn(`Dropping bridged event ${bridged.type}: type not accepted`);
+      return;
+    }
+
+    const event = {
+      ...bridged.payload,
+      type: bridged.type,
+      timestamp: bridged.timestamp,
+      ...(bridged.namespace !== undefined ? { namespace: bridged.namespace } : {}),
+    };
+    this.received.add(event);
+    try {
+      await this.bus.dispatch(event as AnyEventOf<TEventMap>);
+    } catch (error) {
+      console.error(`Error in bridged event handler for ${bridged.type}:`, error);
+    }
+  }
+}
+
+/**
+ * Check an event type against compiled type patterns
+ */
+function matchesAny(patterns: RegExp[], type: string): boolean {
+  return patterns.some((pattern) => pattern.test(type));
+}
+
+/**
+ * Default structural check for incoming messages
+ */
+function validateBridgedEvent(message: unknown): BridgedEvent {
+  const event = message as BridgedEvent;
+  if (
+    !event ||
+    typeof event.type !== 'string' ||
+    typeof event.timestamp !== 'number' ||
+    (event.namespace !== undefined && typeof event.namespace !== 'string') ||
+    !event.payload ||
+    typeof event.payload !== 'object'
+  ) {
+    throw new Error('Invalid bridged event: expected type, timestamp and payload');
+  }
+  return event;
+}
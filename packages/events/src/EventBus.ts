@@ -1,6 +1,11 @@
 import type {
-  BaseEvent,
+  AnyEventOf,
   EventHandler,
+  EventOf,
+  EventPattern,
+  EventType,
+  PatternEventOf,
+  UntypedEventMap,
   EventSubscription,
   EventListener,
   EventListenerOptions,
@@ -14,16 +19,21 @@ import { EventPriority } from './types';
  * Features:
  * - Type-safe event dispatch and subscription
  * - Priority-based event ordering
- * - Namespace filtering
- * - One-time subscriptions
+ * - Namespace filtering and bulk unsubscribe
+ * - Wildcard subscriptions (`physics:*`, `**`)
+ * - One-time subscriptions and waitFor() promises
  * - Custom event filters
  * - Event batching for performance
  * - Subscription management
  * - Recursion detection
  * - Concurrent dispatch protection
+ *
+ * @template TEventMap - Event types and payloads (see UntypedEventMap); untyped if omitted
  */
-export class EventBus {
+export class EventBus<TEventMap extends object = UntypedEventMap> {
   private listeners: Map<string, EventListener<any>[]> = new Map();
+  // Compiled matchers for listener keys that are wildcard patterns
+  private patterns: Map<string, RegExp> = new Map();
   private nextListenerId = 1;
   private stats: EventBusStats = {
     totalDispatched: 0,
@@ -37,7 +47,7 @@ export class EventBus {
   private dispatchTimeIndex = 0;
   private dispatchTimeCount = 0;
 
-  private batchedEvents: BaseEvent[] = [];
+  private batchedEvents: AnyEventOf<TEventMap>[] = [];
   private batchTimeout: NodeJS.Timeout | null = null;
   private readonly batchDelay: number;
 
@@ -45,6 +55,9 @@ export class EventBus {
   private dispatchDepth = 0;
   private readonly maxRecursionDepth = 50;
 
+  // Called with every dispatched event (recorders, debug tools)
+  private observers: Set<(event: AnyEventOf<TEventMap>) => void> = new Set();
+
   // Track listeners pending removal (defer cleanup to avoid iterator invalidation)
   private listenersToRemove: Set<number> = new Set();
 
@@ -56,18 +69,40 @@ export class EventBus {
   }
 
   /**
-   * Subscribe to an event type
+   * Subscribe to an event type, or to every type matching a wildcard pattern
+   *
+   * @example
+   * bus.on('physics:collision', (event) => ...);
+   * bus.on('physics:*', (event) => ...); // physics:collision, physics:step, ...
+   * bus.on('**', (event) => ...);        // every event
    */
-  on<T extends BaseEvent>(
+  on<K extends EventType<TEventMap>>(
+    eventType: K,
+    handler: EventHandler<EventOf<TEventMap, K>>,
+    options?: EventListenerOptions
+  ): EventSubscription;
+  on<P extends EventPattern>(
+    pattern: P,
+    handler: EventHandler<PatternEventOf<TEventMap, P>>,
+    options?: EventListenerOptions
+  ): EventSubscription;
+  on(eventType: string, handler: EventHandler<any>, options: EventListenerOptions = {}): EventSubscription {
+    return this.addListener(eventType, handler, options);
+  }
+
+  /**
+   * Register a listener under an event type or pattern
+   */
+  private addListener(
     eventType: string,
-    handler: EventHandler<T>,
-    options: EventListenerOptions = {}
+    handler: EventHandler<any>,
+    options: EventListenerOptions
   ): EventSubscription {
     if (this.destroyed) {
       throw new Error('Cannot subscribe to destroyed EventBus');
     }
 
-    const listener: EventListener<T> = {
+    const listener: EventListener = {
       handler: handler as EventHandler,
       options: {
         priority: options.priority ?? EventPriority.NORMAL,
@@ -82,6 +117,9 @@ export class EventBus {
     // Get or create listener array for this event type
     if (!this.listeners.has(eventType)) {
       this.listeners.set(eventType, []);
+      if (eventType.includes('*')) {
+        this.patterns.set(eventType, compilePattern(eventType));
+      }
     }
 
     const listenersForType = this.listeners.get(eventType)!;
@@ -96,6 +134,10 @@ export class EventBus {
     const subscriptionId = listener.id;
     return {
       unsubscribe: () => {
+        // No-op if already removed by off(), offNamespace(), clear() or once
+        if (!listener.active) {
+          return;
+        }
         listener.active = false;
         this.listenersToRemove.add(subscriptionId);
         this.stats.totalListeners--;
@@ -126,35 +168,166 @@ export class EventBus {
   /**
    * Subscribe to an event, auto-unsubscribe after first trigger
    */
-  once<T extends BaseEvent>(
+  once<K extends EventType<TEventMap>>(
+    eventType: K,
+    handler: EventHandler<EventOf<TEventMap, K>>,
+    options?: Omit<EventListenerOptions, 'once'>
+  ): EventSubscription;
+  once<P extends EventPattern>(
+    pattern: P,
+    handler: EventHandler<PatternEventOf<TEventMap, P>>,
+    options?: Omit<EventListenerOptions, 'once'>
+  ): EventSubscription;
+  once(
     eventType: string,
-    handler: EventHandler<T>,
+    handler: EventHandler<any>,
     options: Omit<EventListenerOptions, 'once'> = {}
   ): EventSubscription {
-    return this.on(eventType, handler, { ...options, once: true });
+    return this.addListener(eventType, handler, { ...options, once: true });
+  }
+
+  /**
+   * Wait for the next event of a type (or matching a pattern)
+   *
+   * @param filter - Only resolve for events passing this check
+   * @param timeout - Reject after this many milliseconds (default: wait forever)
+   * @returns The event
+   *
+   * @example
+   * const { entityId } = await bus.waitFor('asset:loaded', (e) => e.url === url, 5000);
+   */
+  waitFor<K extends EventType<TEventMap>>(
+    eventType: K,
+    filter?: (event: EventOf<TEventMap, K>) => boolean,
+    timeout?: number
+  ): Promise<EventOf<TEventMap, K>>;
+  waitFor<P extends EventPattern>(
+    pattern: P,
+    filter?: (event: PatternEventOf<TEventMap, P>) => boolean,
+    timeout?: number
+  ): Promise<PatternEventOf<TEventMap, P>>;
+  waitFor(eventType: string, filter?: (event: any) => boolean, timeout?: number): Promise<any> {
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const subscription = this.addListener(
+        eventType,
+        (event) => {
+          if (timer) {
+            clearTimeout(timer);
+          }
+          resolve(event);
+        },
+        { once: true, filter: filter as EventListenerOptions['filter'] }
+      );
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          subscription.unsubscribe();
+          reject(new Error(`Timed out after ${timeout}ms waiting for ${eventType}`));
+        }, timeout);
+      }
+    });
+  }
+
+  /**
+   * Observe every dispatched event, whether or not it has listeners
+   *
+   * Observers run before listeners and are not affected by priorities,
+   * namespaces, filters or clear(). Used by EventRecorder.
+   */
+  observe(observer: (event: AnyEventOf<TEventMap>) => void): EventSubscription {
+    if (this.destroyed) {
+      throw new Error('Cannot observe destroyed EventBus');
+    }
+
+    this.observers.add(observer);
+    return {
+      unsubscribe: () => {
+        this.observers.delete(observer);
+      },
+      isActive: () => this.observers.has(observer),
+    };
   }
 
   /**
    * Unsubscribe all listeners for an event type
+   *
+   * A pattern removes listeners subscribed with that pattern and those on
+   * event types it matches: off('physics:*') also removes 'physics:step'
+   * listeners, but not 'physics:**' ones.
+   */
+  off(eventType: EventType<TEventMap> | EventPattern): void {
+    this.deactivate(this.getSubscribedListeners(eventType));
+  }
+
+  /**
+   * Unsubscribe every listener registered with a namespace option
+   *
+   * @example
+   * bus.on('input:click', onClick, { namespace: 'ui' });
+   * bus.on('window:resize', onResize, { namespace: 'ui' });
+   * bus.offNamespace('ui'); // removes both
    */
-  off(eventType: string): void {
-    const listeners = this.listeners.get(eventType);
-    if (listeners) {
-      const activeCount = listeners.filter((l) => l.active).length;
-      this.stats.totalListeners -= activeCount;
-
-      // Mark all as inactive and schedule for removal
-      listeners.forEach((l) => {
-        l.active = false;
-        this.listenersToRemove.add(l.id);
-      });
+  offNamespace(namespace: string): void {
+    for (const listeners of this.listeners.values()) {
+      this.deactivate(listeners.filter((l) => l.options.namespace === namespace));
     }
   }
 
+  /**
+   * Mark listeners inactive and schedule them for removal
+   */
+  private deactivate(listeners: EventListener<any>[]): void {
+    for (const listener of listeners) {
+      if (listener.active) {
+        listener.active = false;
+        this.stats.totalListeners--;
+      }
+      this.listenersToRemove.add(listener.id);
+    }
+  }
+
+  /**
+   * Collect listeners subscribed to an event type, or to a pattern and the types it matches
+   */
+  private getSubscribedListeners(eventType: string): EventListener[] {
+    if (!eventType.includes('*')) {
+      return this.listeners.get(eventType) ?? [];
+    }
+
+    const regex = this.patterns.get(eventType) ?? compilePattern(eventType);
+    const matched: EventListener[] = [];
+    for (const [key, listeners] of this.listeners) {
+      if (key === eventType || (!this.patterns.has(key) && regex.test(key))) {
+        matched.push(...listeners);
+      }
+    }
+    return matched;
+  }
+
+  /**
+   * Collect listeners for an event type, including matching pattern listeners
+   */
+  private getListeners(eventType: string): EventListener<any>[] {
+    const exact = this.listeners.get(eventType) ?? [];
+    if (this.patterns.size === 0) {
+      return exact;
+    }
+
+    const matched = [...exact];
+    for (const [pattern, regex] of this.patterns) {
+      if (regex.test(eventType)) {
+        matched.push(...this.listeners.get(pattern)!);
+      }
+    }
+    return matched;
+  }
+
   /**
    * Dispatch an event immediately (synchronous)
    */
-  async dispatch<T extends BaseEvent>(event: T): Promise<void> {
+  async dispatch(event: AnyEventOf<TEventMap>): Promise<void> {
     if (this.destroyed) {
       console.warn('Cannot dispatch event on destroyed EventBus');
       return;
@@ -177,8 +350,16 @@ export class EventBus {
     const startTime = performance.now();
 
     try {
-      const listeners = this.listeners.get(event.type);
-      if (!listeners || listeners.length === 0) {
+      for (const observer of this.observers) {
+        try {
+          observer(event);
+        } catch (observerError) {
+          console.error(`Error in event observer for ${event.type}:`, observerError);
+        }
+      }
+
+      const listeners = this.getListeners(event.type);
+      if (listeners.length === 0) {
         return;
       }
 
@@ -222,8 +403,8 @@ export class EventBus {
             try {
               await listener.handler(event);
 
-              // Auto-unsubscribe if once
-              if (listener.options.once) {
+              // Auto-unsubscribe if once (unless removed while the handler ran)
+              if (listener.options.once && listener.active) {
                 listener.active = false;
                 this.listenersToRemove.add(listener.id);
                 this.stats.totalListeners--;
@@ -277,6 +458,7 @@ export class EventBus {
       const cleaned = listeners.filter((l) => !this.listenersToRemove.has(l.id));
       if (cleaned.length === 0) {
         this.listeners.delete(eventType);
+        this.patterns.delete(eventType);
       } else if (cleaned.length !== listeners.length) {
         this.listeners.set(eventType, cleaned);
       }
@@ -288,14 +470,14 @@ export class EventBus {
   /**
    * Emit an event (alias for dispatch)
    */
-  emit<T extends BaseEvent>(event: T): Promise<void> {
+  emit(event: AnyEventOf<TEventMap>): Promise<void> {
     return this.dispatch(event);
   }
 
   /**
    * Queue event for batched dispatch
    */
-  queue<T extends BaseEvent>(event: T): void {
+  queue(event: AnyEventOf<TEventMap>): void {
     if (this.destroyed) {
       console.warn('Cannot queue event on destroyed EventBus');
       return;
@@ -339,7 +521,14 @@ export class EventBus {
    * Clear all listeners
    */
   clear(): void {
+    // Deactivate so existing subscription handles become no-ops
+    for (const listeners of this.listeners.values()) {
+      for (const listener of listeners) {
+        listener.active = false;
+      }
+    }
     this.listeners.clear();
+    this.patterns.clear();
     this.listenersToRemove.clear();
     this.stats.totalListeners = 0;
   }
@@ -358,6 +547,7 @@ export class EventBus {
 
     // Clear all listeners
     this.clear();
+    this.observers.clear();
 
     // Clear batched events
     this.batchedEvents = [];
@@ -376,17 +566,21 @@ export class EventBus {
   }
 
   /**
-   * Get count of active listeners for an event type
+   * Get count of active listeners an event type would reach (including pattern listeners)
+   *
+   * For a pattern, counts the listeners off() would remove.
    */
-  listenerCount(eventType: string): number {
-    const listeners = this.listeners.get(eventType);
-    return listeners ? listeners.filter((l) => l.active).length : 0;
+  listenerCount(eventType: EventType<TEventMap> | EventPattern): number {
+    const listeners = eventType.includes('*')
+      ? this.getSubscribedListeners(eventType)
+      : this.getListeners(eventType);
+    return listeners.filter((l) => l.active).length;
   }
 
   /**
-   * Check if there are any listeners for an event type
+   * Check if there are any listeners for an event type (or pattern, see listenerCount)
    */
-  hasListeners(eventType: string): boolean {
+  hasListeners(eventType: EventType<TEventMap> | EventPattern): boolean {
     return this.listenerCount(eventType) > 0;
   }
 
@@ -397,3 +591,20 @@ export class EventBus {
     return this.destroyed;
   }
 }
+
+/**
+ * Compile a wildcard pattern ('*' = one segment, '**' = any segments) to a RegExp
+ *
+ * @internal Shared with EventBridge; not part of the public API
+ */
+export function compilePattern(pattern: string): RegExp {
+  const source = pattern
+    .split(/(\*\*|\*)/)
+    .map((part) => {
+      if (part === '**') return '.*';
+      if (part === '*') return '[^:]*';
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,102 @@
+import type { EventBus } from './EventBus';
+import type { EventLog, RecordedEvent } from './EventRecorder';
+import type { AnyEventOf, UntypedEventMap } from './types';
+
+/**
+ * Event player configuration
+ */
+export interface EventPlayerOptions {
+  /** Return false to skip a recorded event (e.g. events the engine emits itself) */
+  filter?: (event: RecordedEvent) => boolean;
+}
+
+/**
+ * Event Player - re-injects a recorded event log into an EventBus
+ *
+ * Events are dispatched in recorded order. Drive the player once per frame
+ * with playFrame() so events land in the same frame they were recorded in,
+ * or call playAll() to replay the whole log at once.
+ *
+ * @example
+ * ```typescript
+ * const player = new EventPlayer(bus, EventRecorder.parse(json));
+ * loop.registerSystem({
+ *   name: 'event-replay',
+ *   phase: SystemPhase.PRE_UPDATE,
+ *   update: async () => { await player.playFrame(loop.getStats().totalFrames); },
+ * });
+ * ```
+ */
+export class EventPlayer<TEventMap extends object = UntypedEventMap> {
+  private events: RecordedEvent[];
+  private cursor = 0;
+
+  constructor(
+    private bus: EventBus<TEventMap>,
+    log: EventLog,
+    options: EventPlayerOptions = {}
+  ) {
+    const filter = options.filter ?? (() => true);
+    this.events = log.events.filter(filter);
+  }
+
+  /**
+   * Dispatch every unplayed event recorded up to and including a frame
+   *
+   * @param frame - Current frame number
+   * @returns Number of events dispatched
+   */
+  async playFrame(frame: number): Promise<number> {
+    let played = 0;
+    while (this.cursor < this.events.length && this.events[this.cursor].frame <= frame) {
+      await this.dispatch(this.events[this.cursor++]);
+      played++;
+    }
+    return played;
+  }
+
+  /**
+   * Dispatch all remaining events
+   *
+   * @returns Number of events dispatched
+   */
+  playAll(): Promise<number> {
+    return this.playFrame(Infinity);
+  }
+
+  /**
+   * Get the frame of the next event to play
+   *
+   * @returns Frame number, or undefined if the log is finished
+   */
+  getNextFrame(): number | undefined {
+    return this.events[this.cursor]?.frame;
+  }
+
+  /**
+   * Check if every event has been played
+   */
+  isFinished(): boolean {
+    return this.cursor >= this.events.length;
+  }
+
+  /**
+   * Rewind to the start of the log
+   */
+  reset(): void {
+    this.cursor = 0;
+  }
+
+  /**
+   * Rebuild and dispatch one recorded event
+   */
+  private dispatch(recorded: RecordedEvent): Promise<void> {
+    const event = {
+      ...recorded.payload,
+      type: recorded.type,
+      timestamp: recorded.timestamp,
+      ...(recorded.namespace !== undefined ? { namespace: recorded.namespace } : {}),
+    };
+    return this.bus.dispatch(event as AnyEventOf<TEventMap>);
+  }
+}
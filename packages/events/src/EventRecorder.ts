@@ -0,0 +1,170 @@
+import type { EventBus } from './EventBus';
+import type { BaseEvent, EventSubscription, UntypedEventMap } from './types';
+
+/**
+ * Current event log format version
+ *
+ * Bump when the log layout changes. parse() rejects other versions.
+ */
+export const EVENT_LOG_VERSION = 1;
+
+/**
+ * Event captured by EventRecorder
+ */
+export interface RecordedEvent {
+  /** Frame the event was dispatched in */
+  frame: number;
+
+  /** Event type */
+  type: string;
+
+  /** Original event timestamp */
+  timestamp: number;
+
+  /** Event namespace, if any */
+  namespace?: string;
+
+  /** Remaining event fields (JSON-cloned at record time) */
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Serializable recording of dispatched events
+ */
+export interface EventLog {
+  /** Log format version */
+  version: number;
+
+  /** Events in dispatch order */
+  events: RecordedEvent[];
+}
+
+/**
+ * Event recorder configuration
+ */
+export interface EventRecorderOptions {
+  /** Current frame number (default: always 0) */
+  getFrame?: () => number;
+
+  /** Return false to leave an event out of the log */
+  filter?: (event: BaseEvent) => boolean;
+}
+
+/**
+ * Event Recorder - captures every event dispatched through an EventBus
+ *
+ * Events are tagged with the frame they were dispatched in and their payload
+ * is JSON-cloned, so later mutation by handlers does not leak into the log and
+ * the log always serializes. Fields that do not survive JSON (functions,
+ * class instances) are dropped.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new EventRecorder(bus, { getFrame: () => loop.getStats().totalFrames });
+ * recorder.start();
+ * // ... play ...
+ * saveFile('session.json', recorder.toJSON());
+ * ```
+ */
+export class EventRecorder<TEventMap extends object = UntypedEventMap> {
+  private events: RecordedEvent[] = [];
+  private subscription: EventSubscription | null = null;
+  private readonly getFrame: () => number;
+  private readonly filter: (event: BaseEvent) => boolean;
+
+  constructor(
+    private bus: EventBus<TEventMap>,
+    options: EventRecorderOptions = {}
+  ) {
+    this.getFrame = options.getFrame ?? (() => 0);
+    this.filter = options.filter ?? (() => true);
+  }
+
+  /**
+   * Start capturing events (continues an existing log)
+   */
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+    this.subscription = this.bus.observe((event) => this.record(event));
+  }
+
+  /**
+   * Stop capturing events
+   */
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+  }
+
+  /**
+   * Check if the recorder is capturing events
+   */
+  isRecording(): boolean {
+    return this.subscription !== null;
+  }
+
+  /**
+   * Get the recorded events
+   */
+  getLog(): EventLog {
+    return {
+      version: EVENT_LOG_VERSION,
+      events: [...this.events],
+    };
+  }
+
+  /**
+   * Discard all recorded events
+   */
+  clear(): void {
+    this.events = [];
+  }
+
+  /**
+   * Serialize the log to JSON
+   *
+   * @param space - Indentation (default: none)
+   */
+  toJSON(space?: number): string {
+    return JSON.stringify(this.getLog(), null, space);
+  }
+
+  /**
+   * Parse a log produced by toJSON()
+   *
+   * @throws Error if the data is not an event log or has an unsupported version
+   */
+  static parse(json: string): EventLog {
+    const log = JSON.parse(json) as EventLog;
+    if (!log || typeof log !== 'object' || !Array.isArray(log.events)) {
+      throw new Error('Invalid event log: missing events array');
+    }
+    if (log.version !== EVENT_LOG_VERSION) {
+      throw new Error(`Unsupported event log version ${log.version} (expected ${EVENT_LOG_VERSION})`);
+    }
+    return log;
+  }
+
+  /**
+   * Append one event to the log
+   */
+  private record(event: BaseEvent): void {
+    if (!this.filter(event)) {
+      return;
+    }
+
+    const { type, timestamp, namespace, ...payload } = event as BaseEvent & Record<string, unknown>;
+    const recorded: RecordedEvent = {
+      frame: this.getFrame(),
+      type,
+      timestamp,
+      payload: JSON.parse(JSON.stringify(payload)),
+    };
+    if (namespace !== undefined) {
+      recorded.namespace = namespace;
+    }
+    this.events.push(recorded);
+  }
+}
@@ -2,14 +2,19 @@
  * @miskatonic/events - Type-safe event system
  *
  * High-performance event bus with:
- * - Type-safe event dispatch and subscription
+ * - Type-safe event dispatch and subscription (optional typed event maps)
  * - Priority-based event ordering
  * - Namespace filtering
  * - Event batching for performance
  * - Subscription management
+ * - Event recording and replay
+ * - Bridging events between processes
  */
 
 export { EventBus } from './EventBus';
+export { EventRecorder, EVENT_LOG_VERSION } from './EventRecorder';
+export { EventPlayer } from './EventPlayer';
+export { EventBridge } from './EventBridge';
 
 export type {
   BaseEvent,
@@ -19,6 +24,15 @@ export type {
   EventListenerOptions,
   EventBatch,
   EventBusStats,
+  UntypedEventMap,
+  NoPayload,
+  EventType,
+  EventOf,
+  AnyEventOf,
 } from './types';
 
+export type { RecordedEvent, EventLog, EventRecorderOptions } from './EventRecorder';
+export type { EventPlayerOptions } from './EventPlayer';
+export type { BridgedEvent, EventBridgeTransport, EventBridgeOptions } from './EventBridge';
+
 export { EventPriority } from './types';
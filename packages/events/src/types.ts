@@ -16,6 +16,76 @@ export interface BaseEvent {
   readonly namespace?: string;
 }
 
+/**
+ * Default event map - any event type with any payload
+ *
+ * To type-check `on`, `emit` and `queue`, declare event types and payloads
+ * once in an interface and pass it as `EventBus<TEventMap>`. Keys are event
+ * types; values are the fields carried besides `type`, `timestamp` and
+ * `namespace`.
+ *
+ * @example
+ * interface GameEvents {
+ *   'game:start': NoPayload;
+ *   'player:damaged': { entityId: number; amount: number };
+ * }
+ *
+ * const bus = new EventBus<GameEvents>();
+ * bus.on('player:damaged', (event) => console.log(event.amount));
+ */
+export type UntypedEventMap = Record<string, any>;
+
+/**
+ * Payload of events that carry only type and timestamp
+ */
+export type NoPayload = Record<never, never>;
+
+/**
+ * Event types declared in an event map
+ */
+export type EventType<TEventMap> = keyof TEventMap & string;
+
+/**
+ * Full event object for one event type of a map
+ */
+export type EventOf<TEventMap, K extends EventType<TEventMap>> = BaseEvent & {
+  readonly type: K;
+} & TEventMap[K];
+
+/**
+ * Union of every event declared in a map (discriminated by `type`)
+ *
+ * Any BaseEvent for untyped maps.
+ */
+export type AnyEventOf<TEventMap> = string extends EventType<TEventMap>
+  ? BaseEvent & Record<string, any>
+  : {
+      [K in EventType<TEventMap>]: EventOf<TEventMap, K>;
+    }[EventType<TEventMap>];
+
+/**
+ * Subscription pattern over `:`-separated event types
+ *
+ * `*` matches one segment and `**` any number of segments: `physics:*`
+ * matches `physics:step`, `physics:**` also matches `physics:body:added`,
+ * and `**` matches every event.
+ */
+export type EventPattern = `${string}*${string}`;
+
+/**
+ * Event types a pattern can match (each wildcard approximated as any text)
+ */
+type PatternTypes<P extends string> = P extends `${infer Head}*${infer Tail}`
+  ? `${Head}${string}${PatternTypes<Tail>}`
+  : P;
+
+/**
+ * Events of a map that a pattern can match
+ */
+export type PatternEventOf<TEventMap, P extends string> = string extends EventType<TEventMap>
+  ? AnyEventOf<TEventMap>
+  : Extract<AnyEventOf<TEventMap>, { readonly type: PatternTypes<P> }>;
+
 /**
  * Event handler function type
  */
@@ -65,7 +135,7 @@ export interface EventListenerOptions {
   /** Filter function - return false to skip this listener */
   filter?: (event: BaseEvent) => boolean;
 
-  /** Namespace filter - only receive events from this namespace */
+  /** Namespace filter - only receive events from this namespace (also groups listeners for offNamespace) */
   namespace?: string;
 }
 
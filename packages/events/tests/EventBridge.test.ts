@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventBus, EventBridge, BridgedEvent, EventBridgeTransport } from '../src';
+
+/**
+ * Pair of in-memory transports wired to each other
+ */
+function createTransportPair(): [EventBridgeTransport & { sent: BridgedEvent[] }, EventBridgeTransport & { sent: BridgedEvent[] }] {
+  const handlers: Array<((message: unknown) => void) | null> = [null, null];
+  const create = (side: 0 | 1) => {
+    const sent: BridgedEvent[] = [];
+    return {
+      sent,
+      send: (event: BridgedEvent) => {
+        sent.push(event);
+        handlers[1 - side]?.(event);
+      },
+      onReceive: (handler: (message: unknown) => void) => {
+        handlers[side] = handler;
+        return () => {
+          handlers[side] = null;
+        };
+      },
+    };
+  };
+  return [create(0), create(1)];
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('EventBridge', () => {
+  let renderer: EventBus;
+  let main: EventBus;
+  let transports: ReturnType<typeof createTransportPair>;
+
+  beforeEach(() => {
+    renderer = new EventBus();
+    main = new EventBus();
+    transports = createTransportPair();
+  });
+
+  it('should forward matching events in both directions without echoing them back', async () => {
+    new EventBridge(renderer, transports[0], { forward: ['engine:*'], accept: ['app:*'] }).start();
+    new EventBridge(main, transports[1], { forward: ['app:*'], accept: ['engine:*'] }).start();
+
+    const onMain = vi.fn();
+    const onRenderer = vi.fn();
+    main.on('engine:paused', onMain);
+    renderer.on('app:tray-click', onRenderer);
+
+    await renderer.emit({ type: 'engine:paused', timestamp: 1, namespace: 'core', reason: 'focus' });
+    await renderer.emit({ type: 'game:score', timestamp: 2 });
+    await main.emit({ type: 'app:tray-click', timestamp: 3 });
+    await flush();
+
+    expect(onMain).toHaveBeenCalledWith({ type: 'engine:paused', timestamp: 1, namespace: 'core', reason: 'focus' });
+    expect(onRenderer).toHaveBeenCalledWith({ type: 'app:tray-click', timestamp: 3 });
+    expect(transports[0].sent.map((e) => e.type)).toEqual(['engine:paused']);
+    expect(transports[1].sent.map((e) => e.type)).toEqual(['app:tray-click']);
+  });
+
+  it('should not bounce events that both sides forward', async () => {
+    new EventBridge(renderer, transports[0], { forward: ['shared:**'] }).start();
+    new EventBridge(main, transports[1], { forward: ['shared:**'] }).start();
+
+    await renderer.emit({ type: 'shared:volume:set', timestamp: 1, value: 0.5 });
+    await flush();
+
+    expect(transports[0].sent).toHaveLength(1);
+    expect(transports[1].sent).toHaveLength(0);
+  });
+
+  it('should drop invalid and unaccepted messages', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const handler = vi.fn();
+    main.on('**', handler);
+
+    const [local, remote] = transports;
+    new EventBridge(main, remote, { forward: ['engine:*'] }).start();
+    local.send({ type: 'engine:ready', timestamp: 'soon' } as unknown as BridgedEvent);
+    local.send({ type: 'app:quit', timestamp: 1, payload: {} });
+    await flush();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('app:quit'));
+    errorSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('should log errors thrown while dispatching received events', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    main.on('engine:loop', () => main.emit({ type: 'engine:loop', timestamp: 2 }));
+
+    const [local, remote] = transports;
+    new EventBridge(main, remote, { forward: ['engine:*'] }).start();
+    local.send({ type: 'engine:loop', timestamp: 1, payload: {} });
+    await flush();
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Error in bridged event handler for engine:loop:',
+      expect.objectContaining({ message: expect.stringContaining('Maximum recursion depth') })
+    );
+    errorSpy.mockRestore();
+  });
+
+  it('should stop forwarding and receiving when stopped', async () => {
+    const bridge = new EventBridge(renderer, transports[0], { forward: ['engine:*'] });
+    bridge.start();
+    bridge.stop();
+
+    await renderer.emit({ type: 'engine:ready', timestamp: 1 });
+
+    expect(bridge.isRunning()).toBe(false);
+    expect(transports[0].sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Compile-time checks for typed event maps
+ *
+ * Run by vitest's typecheck mode; nothing here executes.
+ */
+
+import { describe, it, expectTypeOf } from 'vitest';
+import { EventBus } from '../src';
+import type { NoPayload } from '../src';
+
+interface GameEvents {
+  'game:start': NoPayload;
+  'player:damaged': { entityId: number; amount: number };
+}
+
+describe('EventBus typed event map', () => {
+  it('should type handlers by event type', () => {
+    const bus = new EventBus<GameEvents>();
+
+    bus.on('player:damaged', (event) => {
+      expectTypeOf(event.type).toEqualTypeOf<'player:damaged'>();
+      expectTypeOf(event.amount).toEqualTypeOf<number>();
+    });
+  });
+
+  it('should reject undeclared types and payloads', () => {
+    const bus = new EventBus<GameEvents>();
+
+    // @ts-expect-error - typo in event type
+    bus.on('game:strat', () => {});
+
+    // @ts-expect-error - missing payload field
+    bus.queue({ type: 'player:damaged', timestamp: Date.now(), entityId: 1 });
+
+    // @ts-expect-error - undeclared payload field
+    bus.emit({ type: 'game:start', timestamp: Date.now(), level: 1 });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { EventBus, BaseEvent, EventPriority } from '../src';
+import type { NoPayload } from '../src';
 
 // Test event types
 interface TestEvent extends BaseEvent {
@@ -426,4 +427,179 @@ describe('EventBus', () => {
       expect(results).toContain(2);
     });
   });
+
+  describe('typed event map', () => {
+    interface GameEvents {
+      'game:start': NoPayload;
+      'player:damaged': { entityId: number; amount: number };
+    }
+
+    it('should deliver declared payloads to typed handlers', async () => {
+      const bus = new EventBus<GameEvents>();
+      const amounts: number[] = [];
+      bus.on('player:damaged', (event) => {
+        amounts.push(event.amount);
+      });
+
+      await bus.emit({ type: 'player:damaged', timestamp: Date.now(), entityId: 1, amount: 5 });
+      await bus.emit({ type: 'game:start', timestamp: Date.now() });
+
+      expect(amounts).toEqual([5]);
+      expect(bus.hasListeners('player:damaged')).toBe(true);
+    });
+  });
+
+  describe('wildcard subscriptions', () => {
+    const emit = (type: string) => eventBus.emit({ type, timestamp: Date.now() });
+
+    it('should match one segment with * and any number with **', async () => {
+      const single: string[] = [];
+      const deep: string[] = [];
+      const all: string[] = [];
+      eventBus.on('physics:*', (event) => {
+        single.push(event.type);
+      });
+      eventBus.on('physics:**', (event) => {
+        deep.push(event.type);
+      });
+      eventBus.on('**', (event) => {
+        all.push(event.type);
+      });
+
+      await emit('physics:step');
+      await emit('physics:body:added');
+      await emit('ui:click');
+
+      expect(single).toEqual(['physics:step']);
+      expect(deep).toEqual(['physics:step', 'physics:body:added']);
+      expect(all).toEqual(['physics:step', 'physics:body:added', 'ui:click']);
+    });
+
+    it('should order pattern and exact listeners by priority', async () => {
+      const order: string[] = [];
+      eventBus.on('test', () => {
+        order.push('exact');
+      });
+      eventBus.on('te*', () => {
+        order.push('pattern');
+      }, { priority: EventPriority.HIGH });
+
+      await eventBus.dispatch(createTestEvent('x'));
+
+      expect(order).toEqual(['pattern', 'exact']);
+      expect(eventBus.listenerCount('test')).toBe(2);
+    });
+
+    it('should remove pattern listeners with off() and unsubscribe()', async () => {
+      const handler = vi.fn();
+      eventBus.on('physics:*', handler);
+      const subscription = eventBus.on('**', handler);
+
+      eventBus.off('physics:*');
+      subscription.unsubscribe();
+      await emit('physics:step');
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(eventBus.getStats().totalListeners).toBe(0);
+    });
+
+    it('should remove listeners on matching types with off(pattern)', async () => {
+      const removed = vi.fn();
+      const deep = vi.fn();
+      eventBus.on('physics:step', removed);
+      eventBus.on('physics:*', removed);
+      eventBus.on('physics:**', deep);
+      eventBus.on('physics:body:added', deep);
+
+      eventBus.off('physics:*');
+      await emit('physics:step');
+      await emit('physics:body:added');
+
+      expect(removed).not.toHaveBeenCalled();
+      expect(deep).toHaveBeenCalledTimes(3);
+      expect(eventBus.getStats().totalListeners).toBe(2);
+    });
+
+    it('should count pattern listeners', () => {
+      eventBus.on('physics:step', vi.fn());
+      eventBus.on('physics:*', vi.fn());
+      eventBus.on('**', vi.fn());
+
+      expect(eventBus.listenerCount('physics:step')).toBe(3);
+      expect(eventBus.listenerCount('physics:*')).toBe(2);
+      expect(eventBus.hasListeners('ui:click')).toBe(true);
+
+      eventBus.off('**');
+
+      expect(eventBus.hasListeners('ui:click')).toBe(false);
+    });
+  });
+
+  describe('offNamespace', () => {
+    it('should unsubscribe every listener registered with the namespace', async () => {
+      const ui = vi.fn();
+      const game = vi.fn();
+      eventBus.on('test', ui, { namespace: 'ui' });
+      eventBus.on('number', ui, { namespace: 'ui' });
+      eventBus.on('test', game);
+
+      eventBus.offNamespace('ui');
+      await eventBus.dispatch({ ...createTestEvent('x'), namespace: 'ui' });
+      await eventBus.dispatch(createNumberEvent(1));
+
+      expect(ui).not.toHaveBeenCalled();
+      expect(game).toHaveBeenCalledTimes(1);
+      expect(eventBus.getStats().totalListeners).toBe(1);
+    });
+
+    it('should ignore unsubscribe() of listeners it already removed', () => {
+      const ui = eventBus.on('test', vi.fn(), { namespace: 'ui' });
+      const game = eventBus.on('test', vi.fn());
+
+      eventBus.offNamespace('ui');
+      ui.unsubscribe();
+      ui.unsubscribe();
+
+      expect(eventBus.getStats().totalListeners).toBe(1);
+
+      eventBus.clear();
+      game.unsubscribe();
+
+      expect(game.isActive()).toBe(false);
+      expect(eventBus.getStats().totalListeners).toBe(0);
+    });
+  });
+
+  describe('waitFor', () => {
+    it('should resolve with the first matching event', async () => {
+      const waiting = eventBus.waitFor('number', (event) => event.value > 1);
+
+      await eventBus.dispatch(createNumberEvent(1));
+      await eventBus.dispatch(createNumberEvent(2));
+      await eventBus.dispatch(createNumberEvent(3));
+
+      await expect(waiting).resolves.toMatchObject({ value: 2 });
+      expect(eventBus.listenerCount('number')).toBe(0);
+    });
+
+    it('should accept patterns', async () => {
+      const waiting = eventBus.waitFor('num*');
+      await eventBus.dispatch(createNumberEvent(5));
+
+      await expect(waiting).resolves.toMatchObject({ type: 'number', value: 5 });
+    });
+
+    it('should reject and unsubscribe on timeout', async () => {
+      vi.useFakeTimers();
+      try {
+        const waiting = eventBus.waitFor('test', undefined, 100);
+        vi.advanceTimersByTime(100);
+
+        await expect(waiting).rejects.toThrow(/Timed out after 100ms waiting for test/);
+        expect(eventBus.hasListeners('test')).toBe(false);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
 });
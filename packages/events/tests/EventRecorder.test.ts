@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus, EventRecorder, EventPlayer, EVENT_LOG_VERSION, BaseEvent } from '../src';
+
+describe('EventRecorder', () => {
+  let bus: EventBus;
+  let frame: number;
+  let recorder: EventRecorder;
+
+  beforeEach(() => {
+    bus = new EventBus();
+    frame = 0;
+    recorder = new EventRecorder(bus, { getFrame: () => frame });
+  });
+
+  it('should record events with frame numbers even without listeners', async () => {
+    recorder.start();
+    await bus.emit({ type: 'input:jump', timestamp: 100, height: 2 });
+    frame = 3;
+    await bus.emit({ type: 'input:fire', timestamp: 150, namespace: 'player' });
+
+    expect(recorder.getLog()).toEqual({
+      version: EVENT_LOG_VERSION,
+      events: [
+        { frame: 0, type: 'input:jump', timestamp: 100, payload: { height: 2 } },
+        { frame: 3, type: 'input:fire', timestamp: 150, namespace: 'player', payload: {} },
+      ],
+    });
+  });
+
+  it('should only record while started and honour the filter', async () => {
+    const filtered = new EventRecorder(bus, { filter: (event) => !event.type.startsWith('engine:') });
+    filtered.start();
+    await bus.emit({ type: 'engine:ready', timestamp: 1 });
+    await bus.emit({ type: 'game:start', timestamp: 2 });
+    filtered.stop();
+    await bus.emit({ type: 'game:over', timestamp: 3 });
+
+    expect(filtered.isRecording()).toBe(false);
+    expect(filtered.getLog().events.map((e) => e.type)).toEqual(['game:start']);
+  });
+
+  it('should snapshot payloads at record time', async () => {
+    recorder.start();
+    bus.on('hit', (event) => {
+      event.target.hp = 0;
+    });
+
+    await bus.emit({ type: 'hit', timestamp: 1, target: { hp: 10 } });
+
+    expect(recorder.getLog().events[0].payload).toEqual({ target: { hp: 10 } });
+  });
+
+  it('should round-trip through JSON and reject other versions', async () => {
+    recorder.start();
+    await bus.emit({ type: 'a', timestamp: 1, value: 1 });
+
+    expect(EventRecorder.parse(recorder.toJSON())).toEqual(recorder.getLog());
+    expect(() => EventRecorder.parse('{"version":99,"events":[]}')).toThrow(/Unsupported event log version 99/);
+    expect(() => EventRecorder.parse('{}')).toThrow(/missing events/);
+  });
+});
+
+describe('EventPlayer', () => {
+  it('should re-inject events frame by frame in recorded order', async () => {
+    const source = new EventBus();
+    let frame = 0;
+    const recorder = new EventRecorder(source, { getFrame: () => frame });
+    recorder.start();
+    await source.emit({ type: 'a', timestamp: 1, n: 1 });
+    await source.emit({ type: 'b', timestamp: 2, n: 2 });
+    frame = 2;
+    await source.emit({ type: 'a', timestamp: 3, n: 3, namespace: 'x' });
+
+    const target = new EventBus();
+    const received: BaseEvent[] = [];
+    target.on('a', (event) => {
+      received.push(event);
+    });
+    target.on('b', (event) => {
+      received.push(event);
+    });
+
+    const player = new EventPlayer(target, EventRecorder.parse(recorder.toJSON()));
+
+    expect(await player.playFrame(0)).toBe(2);
+    expect(await player.playFrame(1)).toBe(0);
+    expect(player.getNextFrame()).toBe(2);
+    expect(await player.playFrame(2)).toBe(1);
+    expect(player.isFinished()).toBe(true);
+
+    expect(received).toEqual([
+      { type: 'a', timestamp: 1, n: 1 },
+      { type: 'b', timestamp: 2, n: 2 },
+      { type: 'a', timestamp: 3, n: 3, namespace: 'x' },
+    ]);
+  });
+
+  it('should skip filtered events and replay again after reset', async () => {
+    const bus = new EventBus();
+    const types: string[] = [];
+    bus.observe((event) => types.push(event.type));
+
+    const player = new EventPlayer(
+      bus,
+      {
+        version: EVENT_LOG_VERSION,
+        events: [
+          { frame: 0, type: 'engine:started', timestamp: 1, payload: {} },
+          { frame: 0, type: 'input', timestamp: 2, payload: {} },
+        ],
+      },
+      { filter: (event) => !event.type.startsWith('engine:') }
+    );
+
+    await player.playAll();
+    player.reset();
+    await player.playAll();
+
+    expect(types).toEqual(['input', 'input']);
+  });
+});
@@ -0,0 +1,80 @@
+import { BrowserWindow } from 'electron';
+import log from 'electron-log';
+import { EventBus, EventBridge, BridgedEvent } from '@miskatonic/events';
+import { AppEventMap, BridgedEventSchema, DEFAULT_BRIDGED_EVENTS, IPC_CHANNELS } from '@miskatonic/shared';
+import { EventEmitHandler } from '../ipc/channels/EventChannel';
+
+/**
+ * Main process event bus, bridged to the renderer's engine event bus
+ *
+ * Main-process components subscribe to and emit events on `bus`. Events
+ * matching the bridged types are forwarded to every attached window, and
+ * matching events from the renderer arrive through the EVENTS_EMIT channel.
+ */
+export class MainEventBridge {
+  readonly bus = new EventBus<AppEventMap>();
+  private bridge: EventBridge<AppEventMap>;
+  private windows: Set<BrowserWindow> = new Set();
+  private receiver: ((message: unknown) => void) | null = null;
+
+  constructor(types: readonly string[] = DEFAULT_BRIDGED_EVENTS) {
+    this.bridge = new EventBridge(
+      this.bus,
+      {
+        send: (event) => this.send(event),
+        onReceive: (handler) => {
+          this.receiver = handler;
+          return () => {
+            this.receiver = null;
+          };
+        },
+      },
+      { forward: types, validate: (message) => BridgedEventSchema.parse(message) }
+    );
+  }
+
+  /**
+   * Start forwarding events
+   */
+  start(): void {
+    this.bridge.start();
+    log.info('Event bridge started');
+  }
+
+  /**
+   * Stop forwarding events and detach all windows
+   */
+  stop(): void {
+    this.bridge.stop();
+    this.windows.clear();
+    log.info('Event bridge stopped');
+  }
+
+  /**
+   * Forward events to a window's renderer
+   */
+  attach(window: BrowserWindow): void {
+    this.windows.add(window);
+    window.once('closed', () => {
+      this.windows.delete(window);
+    });
+  }
+
+  /**
+   * Create the IPC handler that receives renderer events
+   */
+  createHandler(): EventEmitHandler {
+    return new EventEmitHandler((event) => this.receiver?.(event));
+  }
+
+  /**
+   * Send an event to all attached renderers
+   */
+  private send(event: BridgedEvent): void {
+    for (const window of this.windows) {
+      if (!window.isDestroyed()) {
+        window.webContents.send(IPC_CHANNELS.EVENTS_DISPATCH, event);
+      }
+    }
+  }
+}
@@ -5,6 +5,7 @@ import { ErrorHandler } from './utils/ErrorHandler';
 import { AppLifecycle } from './app/AppLifecycle';
 import { WindowManager } from './window/WindowManager';
 import { IPCHandler } from './ipc/IPCHandler';
+import { MainEventBridge } from './events/MainEventBridge';
 import { ProcessMonitor } from './process/ProcessMonitor';
 import { SecurityPolicy } from './security/SecurityPolicy';
 import { PermissionHandler } from './security/PermissionHandler';
@@ -60,6 +61,7 @@ class MiskatonicApp {
   private lifecycle: AppLifecycle;
   private windowManager: WindowManager;
   private ipcHandler: IPCHandler;
+  private eventBridge: MainEventBridge;
   private processMonitor: ProcessMonitor;
 
   constructor() {
@@ -76,9 +78,10 @@ class MiskatonicApp {
 
     // Initialize subsystems
     this.lifecycle = new AppLifecycle();
-    this.windowManager = new WindowManager();
-    this.ipcHandler = new IPCHandler();
-    this.processMonitor = new ProcessMonitor();
+    this.eventBridge = new MainEventBridge();
+    this.windowManager = new WindowManager(this.eventBridge.bus);
+    this.ipcHandler = new IPCHandler(this.eventBridge);
+    this.processMonitor = new ProcessMonitor(this.eventBridge.bus);
 
     this.setupEventHandlers();
   }
@@ -110,6 +113,10 @@ class MiskatonicApp {
       // Register IPC handlers
       this.ipcHandler.registerHandlers(mainWindow);
 
+      // Bridge engine events between main and renderer
+      this.eventBridge.attach(mainWindow);
+      this.eventBridge.start();
+
       // Start process monitoring
       this.processMonitor.start();
 
@@ -156,6 +163,7 @@ class MiskatonicApp {
     log.info('Application shutting down...');
     log.info(`Total uptime: ${this.lifecycle.getUptime()}ms`);
     this.processMonitor.stop();
+    this.eventBridge.stop();
   }
 }
 
@@ -17,6 +17,7 @@ import {
   SaveFileDialogHandler,
   MessageBoxDialogHandler,
 } from './channels/DialogChannel';
+import type { MainEventBridge } from '../events/MainEventBridge';
 
 /**
  * Rate limiter for IPC calls
@@ -88,6 +89,11 @@ export class IPCHandler {
   private handlers: Map<string, IPCChannelHandler> = new Map();
   private rateLimiter: RateLimiter = new RateLimiter();
 
+  /**
+   * @param eventBridge - Bridge that receives renderer events (optional)
+   */
+  constructor(private eventBridge?: MainEventBridge) {}
+
   /**
    * Register all IPC handlers for a window
    */
@@ -116,6 +122,11 @@ export class IPCHandler {
       new MessageBoxDialogHandler(),
     ];
 
+    // Event bridge handler
+    if (this.eventBridge) {
+      allHandlers.push(this.eventBridge.createHandler());
+    }
+
     for (const handler of allHandlers) {
       this.registerHandler(handler);
     }
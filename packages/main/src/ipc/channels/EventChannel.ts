@@ -0,0 +1,21 @@
+import { IpcMainInvokeEvent } from 'electron';
+import { BaseChannelHandler } from '../types';
+import { IPC_CHANNELS, BridgedEventMessage, BridgedEventSchema } from '@miskatonic/shared';
+import { z } from 'zod';
+
+/**
+ * Handler for events the renderer forwards to the main process
+ */
+export class EventEmitHandler extends BaseChannelHandler<BridgedEventMessage, void> {
+  channel = IPC_CHANNELS.EVENTS_EMIT;
+  requestSchema = BridgedEventSchema;
+  responseSchema = z.void();
+
+  constructor(private receive: (event: BridgedEventMessage) => void) {
+    super();
+  }
+
+  async handle(_event: IpcMainInvokeEvent, request: BridgedEventMessage): Promise<void> {
+    this.receive(request);
+  }
+}
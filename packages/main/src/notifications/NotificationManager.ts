@@ -1,6 +1,8 @@
 import { Notification, BrowserWindow, NativeImage, nativeImage } from 'electron';
 import log from 'electron-log';
 import path from 'path';
+import type { EventBus, EventSubscription } from '@miskatonic/events';
+import type { AppEventMap } from '@miskatonic/shared';
 
 /**
  * Notification options
@@ -21,9 +23,20 @@ export interface NotificationOptions {
 export class NotificationManager {
   private window: BrowserWindow;
   private activeNotifications: Map<string, Notification> = new Map();
+  private events?: EventBus<AppEventMap>;
+  private subscription?: EventSubscription;
 
-  constructor(window: BrowserWindow) {
+  /**
+   * @param window - Window to focus when a notification is clicked
+   * @param events - Main process event bus (optional); handles app:notify and reports clicks
+   */
+  constructor(window: BrowserWindow, events?: EventBus<AppEventMap>) {
     this.window = window;
+    this.events = events;
+
+    this.subscription = this.events?.on('app:notify', (event) => {
+      this.show(event.id, { title: event.title, body: event.body, urgency: event.urgency });
+    });
   }
 
   /**
@@ -50,6 +63,7 @@ export class NotificationManager {
       notification.on('click', () => {
         log.info(`Notification clicked: ${id}`);
         this.showWindow();
+        void this.events?.emit({ type: 'app:notification-click', timestamp: Date.now(), id });
       });
 
       notification.on('close', () => {
@@ -59,7 +73,7 @@ export class NotificationManager {
 
       notification.on('action', (_event, index) => {
         log.info(`Notification action clicked: ${id}, action: ${index}`);
-        // TODO: Emit event to renderer process
+        void this.events?.emit({ type: 'app:notification-action', timestamp: Date.now(), id, action: index });
       });
 
       // Show the notification
@@ -99,6 +113,15 @@ export class NotificationManager {
     this.activeNotifications.clear();
   }
 
+  /**
+   * Stop handling app:notify and close all active notifications
+   */
+  destroy(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = undefined;
+    this.closeAll();
+  }
+
   /**
    * Check if notifications are supported
    */
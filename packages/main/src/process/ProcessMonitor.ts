@@ -1,5 +1,7 @@
 import { BrowserWindow } from 'electron';
 import log from 'electron-log';
+import type { EventBus } from '@miskatonic/events';
+import type { AppEventMap } from '@miskatonic/shared';
 import { CrashReporter } from './CrashReporter';
 
 /**
@@ -9,9 +11,14 @@ export class ProcessMonitor {
   private crashReporter: CrashReporter;
   private monitorInterval: NodeJS.Timeout | null = null;
   private readonly checkIntervalMs = 5000; // Check every 5 seconds
+  private events?: EventBus<AppEventMap>;
 
-  constructor() {
+  /**
+   * @param events - Main process event bus (optional); receives app:renderer-crashed
+   */
+  constructor(events?: EventBus<AppEventMap>) {
     this.crashReporter = new CrashReporter();
+    this.events = events;
   }
 
   /**
@@ -70,6 +77,7 @@ export class ProcessMonitor {
    */
   private handleRendererCrash(window: BrowserWindow): void {
     log.error('Attempting to recover from renderer crash...');
+    void this.events?.emit({ type: 'app:renderer-crashed', timestamp: Date.now(), windowId: window.id });
 
     try {
       window.webContents.reload();
@@ -1,6 +1,8 @@
 import { app, Tray, Menu, BrowserWindow, nativeImage, NativeImage } from 'electron';
 import path from 'path';
 import log from 'electron-log';
+import type { EventBus, EventSubscription } from '@miskatonic/events';
+import type { AppEventMap } from '@miskatonic/shared';
 
 /**
  * Manages system tray integration
@@ -8,9 +10,16 @@ import log from 'electron-log';
 export class TrayManager {
   private tray: Tray | null = null;
   private window: BrowserWindow;
+  private events?: EventBus<AppEventMap>;
+  private subscriptions: EventSubscription[] = [];
 
-  constructor(window: BrowserWindow) {
+  /**
+   * @param window - Window the tray shows and hides
+   * @param events - Main process event bus (optional)
+   */
+  constructor(window: BrowserWindow, events?: EventBus<AppEventMap>) {
     this.window = window;
+    this.events = events;
   }
 
   /**
@@ -36,6 +45,15 @@ export class TrayManager {
       this.toggleWindowVisibility();
     });
 
+    // Let the renderer update the tooltip (e.g. with game state)
+    if (this.events) {
+      this.subscriptions.push(
+        this.events.on('app:tray-tooltip', (event) => {
+          this.updateTooltip(event.tooltip);
+        })
+      );
+    }
+
     log.info('System tray created');
   }
 
@@ -90,8 +108,8 @@ export class TrayManager {
         label: 'New Game',
         click: () => {
           this.showWindow();
-          // TODO: Trigger new game action
           log.info('New Game from tray');
+          void this.events?.emit({ type: 'app:new-game', timestamp: Date.now() });
         },
       },
       { type: 'separator' },
@@ -189,6 +207,11 @@ export class TrayManager {
    * Destroy the tray icon
    */
   destroy(): void {
+    for (const subscription of this.subscriptions) {
+      subscription.unsubscribe();
+    }
+    this.subscriptions = [];
+
     if (this.tray) {
       this.tray.destroy();
       this.tray = null;
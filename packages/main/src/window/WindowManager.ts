@@ -7,6 +7,8 @@ import { MenuBuilder } from '../menu/MenuBuilder';
 import { TrayManager } from '../tray/TrayManager';
 import { ShortcutManager } from '../shortcuts/ShortcutManager';
 import { NotificationManager } from '../notifications/NotificationManager';
+import type { EventBus } from '@miskatonic/events';
+import type { AppEventMap } from '@miskatonic/shared';
 
 /**
  * Manages BrowserWindow instances
@@ -18,8 +20,14 @@ export class WindowManager {
   private trayManager: TrayManager | null = null;
   private shortcutManager: ShortcutManager | null = null;
   private notificationManager: NotificationManager | null = null;
+  private events?: EventBus<AppEventMap>;
+
+  /**
+   * @param events - Main process event bus handed to the tray and notification managers (optional)
+   */
+  constructor(events?: EventBus<AppEventMap>) {
+    this.events = events;
 
-  constructor() {
     // Periodic cleanup of destroyed windows to prevent memory leaks
     this.cleanupInterval = setInterval(() => {
       this.cleanupDestroyedWindows();
@@ -71,7 +79,7 @@ export class WindowManager {
 
     // Create system tray (optional - won't fail if icons missing)
     if (!this.trayManager) {
-      this.trayManager = new TrayManager(window);
+      this.trayManager = new TrayManager(window, this.events);
       this.trayManager.create();
     }
 
@@ -83,7 +91,7 @@ export class WindowManager {
 
     // Initialize notification manager
     if (!this.notificationManager) {
-      this.notificationManager = new NotificationManager(window);
+      this.notificationManager = new NotificationManager(window, this.events);
       if (this.notificationManager.isSupported()) {
         log.info('Native notifications are supported');
       } else {
@@ -248,7 +256,7 @@ export class WindowManager {
       this.shortcutManager = null;
     }
     if (this.notificationManager) {
-      this.notificationManager.closeAll();
+      this.notificationManager.destroy();
       this.notificationManager = null;
     }
     this.windows.clear();
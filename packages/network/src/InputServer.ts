@@ -0,0 +1,207 @@
+/**
+ * Input Server
+ *
+ * Server side of client prediction: receives sequenced input commands,
+ * applies them in order and tracks what each client has had acknowledged.
+ */
+
+import { DEFAULT_PREDICTION_CONFIG } from './types';
+import type { InputCommand, NetworkId, NetworkMessage } from './types';
+import type { ServerTransport } from './transport/types';
+
+/**
+ * Message type used for input commands
+ */
+export const INPUT_MESSAGE = 'input';
+
+/**
+ * Input server options
+ */
+export interface InputServerOptions {
+  /**
+   * Largest deltaTime accepted per input in seconds; larger values are clamped
+   * (default: DEFAULT_PREDICTION_CONFIG.maxDeltaTime, keep equal to the client's)
+   */
+  maxDeltaTime?: number;
+  /** Maximum inputs queued per client between ticks; extra inputs are dropped and reported (default: 64) */
+  maxQueuedInputs?: number;
+}
+
+/**
+ * Applies an input to the sending client's entity
+ */
+export type InputHandler<TInput> = (clientId: NetworkId, command: InputCommand<TInput>) => void;
+
+/**
+ * Input server
+ *
+ * Inputs are queued as they arrive and applied by processInputs(), normally
+ * right before the replication tick so the batch reflects them. Pass the
+ * server to ReplicationServer (`inputs` option) to do this automatically and
+ * send the acknowledgements and dropped inputs with each batch.
+ *
+ * @example
+ * ```typescript
+ * const inputs = new InputServer<MoveInput>(transport, (clientId, command) => {
+ *   players.get(clientId)!.applyInput(command.input, command.deltaTime);
+ * });
+ * inputs.start();
+ * const replication = new ReplicationServer(manager, transport, { inputs });
+ * ```
+ */
+export class InputServer<TInput = unknown> {
+  private queues = new Map<NetworkId, InputCommand<TInput>[]>();
+  private lastProcessed = new Map<NetworkId, number>();
+  private dropped = new Map<NetworkId, number[]>();
+  private unsubscribers: Array<() => void> = [];
+  private readonly options: Required<InputServerOptions>;
+
+  /**
+   * @param transport Transport receiving input messages
+   * @param handler Applies an input on the server
+   * @param options Input limits
+   */
+  constructor(
+    private transport: ServerTransport,
+    private handler: InputHandler<TInput>,
+    options: InputServerOptions = {}
+  ) {
+    this.options = {
+      maxDeltaTime: options.maxDeltaTime ?? DEFAULT_PREDICTION_CONFIG.maxDeltaTime,
+      maxQueuedInputs: options.maxQueuedInputs ?? 64
+    };
+  }
+
+  /**
+   * Start receiving inputs
+   */
+  start(): void {
+    if (this.unsubscribers.length > 0) {
+      return;
+    }
+
+    this.unsubscribers.push(
+      this.transport.onMessage((clientId, message) => this.handleMessage(clientId, message)),
+      this.transport.onDisconnect((clientId) => {
+        this.queues.delete(clientId);
+        this.lastProcessed.delete(clientId);
+        this.dropped.delete(clientId);
+      })
+    );
+  }
+
+  /**
+   * Stop receiving inputs
+   */
+  stop(): void {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Apply all queued inputs in sequence order
+   * @returns Number of inputs applied
+   */
+  processInputs(): number {
+    let processed = 0;
+
+    for (const [clientId, queue] of this.queues) {
+      queue.sort((a, b) => a.sequence - b.sequence);
+
+      for (const command of queue) {
+        // Duplicates and inputs older than an already applied one
+        if (command.sequence <= (this.lastProcessed.get(clientId) ?? 0)) {
+          continue;
+        }
+
+        try {
+          this.handler(clientId, command);
+        } catch (error) {
+          console.error(`Failed to apply input ${command.sequence} from client ${clientId}:`, error);
+        }
+
+        this.lastProcessed.set(clientId, command.sequence);
+        processed++;
+      }
+
+      queue.length = 0;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Get the last input sequence applied for a client (0 if none)
+   * @param clientId Client network ID
+   */
+  getLastProcessed(clientId: NetworkId): number {
+    return this.lastProcessed.get(clientId) ?? 0;
+  }
+
+  /**
+   * Get acknowledgements for all clients (client ID -> last applied sequence)
+   */
+  getAcks(): Record<NetworkId, number> {
+    return Object.fromEntries(this.lastProcessed);
+  }
+
+  /**
+   * Get and clear the inputs dropped since the last call (client ID -> sequences)
+   *
+   * Dropped inputs are never applied, so clients must stop predicting them.
+   */
+  takeDropped(): Record<NetworkId, number[]> {
+    const dropped = Object.fromEntries(this.dropped);
+    this.dropped.clear();
+    return dropped;
+  }
+
+  /**
+   * Validate and queue an input message
+   */
+  private handleMessage(clientId: NetworkId, message: NetworkMessage): void {
+    if (message.type !== INPUT_MESSAGE) {
+      return;
+    }
+
+    const command = message.payload as InputCommand<TInput> | null;
+    if (
+      !command ||
+      typeof command !== 'object' ||
+      !Number.isInteger(command.sequence) ||
+      command.sequence < 1 ||
+      typeof command.deltaTime !== 'number' ||
+      !Number.isFinite(command.deltaTime) ||
+      command.deltaTime < 0
+    ) {
+      console.warn(`Invalid input command from client ${clientId}, skipping`);
+      return;
+    }
+
+    let queue = this.queues.get(clientId);
+    if (!queue) {
+      queue = [];
+      this.queues.set(clientId, queue);
+    }
+
+    if (queue.length >= this.options.maxQueuedInputs) {
+      console.warn(`Input queue full for client ${clientId}, dropping input ${command.sequence}`);
+      const dropped = this.dropped.get(clientId);
+      if (dropped) {
+        dropped.push(command.sequence);
+      } else {
+        this.dropped.set(clientId, [command.sequence]);
+      }
+      return;
+    }
+
+    queue.push({
+      sequence: command.sequence,
+      input: command.input,
+      deltaTime: Math.min(command.deltaTime, this.options.maxDeltaTime),
+      timestamp: typeof command.timestamp === 'number' ? command.timestamp : Date.now()
+    });
+  }
+}
@@ -0,0 +1,395 @@
+/**
+ * Prediction Client
+ *
+ * Client-side prediction for the locally controlled entity, with server
+ * reconciliation: inputs are applied immediately, sent to the server with
+ * sequence numbers, and replayed on top of the authoritative state whenever
+ * the prediction turns out to be wrong.
+ */
+
+import { DeltaCompression } from './DeltaCompression';
+import { ReliabilityMode, DEFAULT_PREDICTION_CONFIG } from './types';
+import type {
+  InputCommand,
+  NetworkId,
+  PredictionConfig,
+  PredictionStats,
+  StateBatch,
+  StateValue
+} from './types';
+import type { IReplicable } from './StateReplicationManager';
+import type { Transport } from './transport/types';
+import { INPUT_MESSAGE } from './InputServer';
+
+/**
+ * Entity whose movement is predicted on the client
+ * applyInput must run the same logic the server runs for the input.
+ */
+export interface PredictedEntity<TInput> extends IReplicable {
+  /**
+   * Apply one input
+   * @param input Game-specific input
+   * @param deltaTime Time the input covers in seconds
+   */
+  applyInput(input: TInput, deltaTime: number): void;
+}
+
+/**
+ * Rewinds a simulation for physics-driven entities
+ *
+ * Satisfied by a PhysicsSnapshotManager from @miskatonic/physics that
+ * captures a snapshot every frame.
+ */
+export interface PredictionSnapshots {
+  /** Current simulation frame */
+  getCurrentFrame(): number;
+  /**
+   * Restore the simulation to a frame
+   * @returns false if no snapshot exists for the frame
+   */
+  rollbackToFrame(frame: number): boolean;
+}
+
+/**
+ * Physics rollback used during reconciliation
+ */
+export interface PredictionRollback {
+  /** Snapshot history to rewind */
+  snapshots: PredictionSnapshots;
+  /**
+   * Advance the simulation by one input
+   * e.g. `(dt) => { physicsWorld.step(dt); snapshots.tick(); }`
+   */
+  step(deltaTime: number): void;
+}
+
+/**
+ * Prediction client options
+ */
+export interface PredictionClientOptions extends Partial<PredictionConfig> {
+  /**
+   * Rewind physics instead of only overwriting entity state
+   * With rollback, submitInput() also steps the simulation once per input.
+   */
+  rollback?: PredictionRollback;
+  /** Misprediction magnitude between two states (default: Euclidean distance over numeric fields) */
+  measureError?: (predicted: Record<string, StateValue>, authoritative: Record<string, StateValue>) => number;
+}
+
+/**
+ * An input waiting for acknowledgement
+ */
+interface PendingInput<TInput> {
+  command: InputCommand<TInput>;
+  /** Simulation frame before the input was applied (with rollback) */
+  frame: number;
+  /** Predicted entity state after the input */
+  predicted: Record<string, StateValue>;
+}
+
+/**
+ * Prediction client
+ *
+ * Pass it to ReplicationClient (`prediction` option) so every state batch is
+ * reconciled right after it is applied. The predicted entity stays
+ * registered with the client's StateReplicationManager.
+ *
+ * @example
+ * ```typescript
+ * const prediction = new PredictionClient<MoveInput>(transport, player);
+ * const replication = new ReplicationClient(manager, transport, { prediction });
+ * replication.start();
+ *
+ * // Each fixed update
+ * prediction.submitInput({ moveX: 1, jump: false }, 1 / 60);
+ * console.log(prediction.getStats().misprediction);
+ * ```
+ */
+export class PredictionClient<TInput = unknown> {
+  private pending: PendingInput<TInput>[] = [];
+  private nextSequence = 1;
+  private lastAcknowledged = 0;
+  private authoritative = new DeltaCompression(2);
+  private unsubscribe: (() => void) | null = null;
+  private readonly config: PredictionConfig;
+  private readonly measureError: NonNullable<PredictionClientOptions['measureError']>;
+
+  // Statistics
+  private corrections = 0;
+  private misprediction = 0;
+  private mispredictionTotal = 0;
+  private mispredictionSamples = 0;
+  private maxMisprediction = 0;
+
+  /**
+   * @param transport Transport to send inputs over
+   * @param entity Locally controlled entity
+   * @param options Prediction settings and physics rollback
+   */
+  constructor(
+    private transport: Transport,
+    private entity: PredictedEntity<TInput>,
+    private options: PredictionClientOptions = {}
+  ) {
+    this.config = {
+      maxPendingInputs: options.maxPendingInputs ?? DEFAULT_PREDICTION_CONFIG.maxPendingInputs,
+      errorThreshold: options.errorThreshold ?? DEFAULT_PREDICTION_CONFIG.errorThreshold,
+      maxDeltaTime: options.maxDeltaTime ?? DEFAULT_PREDICTION_CONFIG.maxDeltaTime
+    };
+    this.measureError = options.measureError ?? stateDistance;
+
+    // Sequence numbers and acknowledgements are per connection
+    this.unsubscribe = this.transport.onConnect(() => this.reset());
+  }
+
+  /**
+   * Stop listening for reconnects
+   */
+  destroy(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Apply an input locally and send it to the server
+   * @param input Game-specific input
+   * @param deltaTime Time the input covers in seconds (clamped to maxDeltaTime like on the server)
+   * @returns Sent command, or null if the transport is not connected
+   */
+  submitInput(input: TInput, deltaTime: number): InputCommand<TInput> | null {
+    if (this.transport.getState() !== 'connected') {
+      return null;
+    }
+
+    const command: InputCommand<TInput> = {
+      sequence: this.nextSequence++,
+      input,
+      deltaTime: Math.min(deltaTime, this.config.maxDeltaTime),
+      timestamp: Date.now()
+    };
+
+    const frame = this.options.rollback?.snapshots.getCurrentFrame() ?? 0;
+    this.simulate(command);
+
+    this.pending.push({ command, frame, predicted: this.entity.serializeState() });
+    if (this.pending.length > this.config.maxPendingInputs) {
+      this.pending.shift();
+    }
+
+    this.transport.send({
+      type: INPUT_MESSAGE,
+      payload: command,
+      reliability: ReliabilityMode.RELIABLE_ORDERED
+    });
+
+    return command;
+  }
+
+  /**
+   * Reconcile the prediction with a state batch
+   * Called by ReplicationClient after the batch was applied.
+   * @param batch Authoritative state batch
+   */
+  reconcile(batch: StateBatch): void {
+    const entityId = this.entity.getNetworkId();
+    const included = this.recordAuthoritative(batch, entityId);
+
+    const clientId = this.transport.getClientId();
+    const ack = clientId !== null ? batch.inputAcks?.[clientId] : undefined;
+    const acknowledged = ack !== undefined && ack > this.lastAcknowledged;
+
+    const drops = clientId !== null ? batch.inputDrops?.[clientId] : undefined;
+    const dropped = drops !== undefined && this.removeDropped(drops);
+
+    if (!included && !acknowledged && !dropped) {
+      return;
+    }
+
+    const authoritative = this.authoritative.getLastState(entityId);
+    if (!authoritative) {
+      return;
+    }
+
+    // Prediction for the acknowledged input, to compare with the server
+    let predictedAtAck: Record<string, StateValue> | undefined;
+    if (acknowledged) {
+      predictedAtAck = this.pending.find(entry => entry.command.sequence === ack)?.predicted;
+      this.pending = this.pending.filter(entry => entry.command.sequence > ack);
+      this.lastAcknowledged = ack;
+    }
+
+    const error = predictedAtAck ? this.measureError(predictedAtAck, authoritative.state) : 0;
+    if (predictedAtAck) {
+      this.recordMisprediction(error);
+    }
+
+    if (predictedAtAck && error <= this.config.errorThreshold && !dropped) {
+      // Prediction was right; undo the overwrite from applying the batch
+      const latest = this.pending[this.pending.length - 1]?.predicted ?? predictedAtAck;
+      this.entity.deserializeState(structuredClone(latest));
+      return;
+    }
+
+    if (predictedAtAck && error > this.config.errorThreshold) {
+      this.corrections++;
+    }
+    // Copy so the entity can't alias the state later deltas are applied to
+    this.replay(structuredClone(authoritative.state));
+  }
+
+  /**
+   * Get prediction statistics
+   */
+  getStats(): PredictionStats {
+    return {
+      pendingInputs: this.pending.length,
+      lastAcknowledged: this.lastAcknowledged,
+      corrections: this.corrections,
+      misprediction: this.misprediction,
+      averageMisprediction: this.mispredictionSamples === 0 ? 0 : this.mispredictionTotal / this.mispredictionSamples,
+      maxMisprediction: this.maxMisprediction
+    };
+  }
+
+  /**
+   * Get inputs sent but not yet acknowledged
+   */
+  getPendingInputs(): InputCommand<TInput>[] {
+    return this.pending.map(entry => entry.command);
+  }
+
+  /**
+   * Stop predicting inputs the server dropped (it will never apply them)
+   * @returns Whether any pending input was removed
+   */
+  private removeDropped(sequences: number[]): boolean {
+    const kept: PendingInput<TInput>[] = [];
+    let rewindFrame: number | undefined;
+
+    for (const entry of this.pending) {
+      if (sequences.includes(entry.command.sequence)) {
+        rewindFrame ??= entry.frame;
+        continue;
+      }
+      if (rewindFrame !== undefined) {
+        // Replay must also rewind past the dropped input's simulation step
+        entry.frame = Math.min(entry.frame, rewindFrame);
+        rewindFrame = undefined;
+      }
+      kept.push(entry);
+    }
+
+    const removed = kept.length < this.pending.length;
+    this.pending = kept;
+    return removed;
+  }
+
+  /**
+   * Rewind to the authoritative state and replay unacknowledged inputs
+   */
+  private replay(state: Record<string, StateValue>): void {
+    const rollback = this.options.rollback;
+
+    if (rollback && this.pending.length > 0) {
+      const frame = this.pending[0].frame;
+      if (!rollback.snapshots.rollbackToFrame(frame)) {
+        // History too short to rewind; take the server state as-is
+        console.warn(`Cannot roll back to frame ${frame}, snapping to server state`);
+        this.entity.deserializeState(state);
+        for (const entry of this.pending) {
+          entry.frame = rollback.snapshots.getCurrentFrame();
+          entry.predicted = this.entity.serializeState();
+        }
+        return;
+      }
+    }
+
+    this.entity.deserializeState(state);
+
+    for (const entry of this.pending) {
+      entry.frame = rollback?.snapshots.getCurrentFrame() ?? 0;
+      this.simulate(entry.command);
+      entry.predicted = this.entity.serializeState();
+    }
+  }
+
+  /**
+   * Run one input on the local simulation
+   */
+  private simulate(command: InputCommand<TInput>): void {
+    this.entity.applyInput(command.input, command.deltaTime);
+    this.options.rollback?.step(command.deltaTime);
+  }
+
+  /**
+   * Track the authoritative state of the predicted entity
+   * @returns Whether the batch contained the entity
+   */
+  private recordAuthoritative(batch: StateBatch, entityId: NetworkId): boolean {
+    const full = batch.fullStates?.find(state => state.id === entityId);
+    if (full) {
+      this.authoritative.recordState(full);
+      return true;
+    }
+
+    const delta = batch.deltas?.find(update => update.id === entityId);
+    const last = this.authoritative.getLastState(entityId);
+    if (delta && last) {
+      this.authoritative.applyDelta(delta, last);
+      this.authoritative.recordState(last);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Add a misprediction sample to the statistics
+   */
+  private recordMisprediction(error: number): void {
+    this.misprediction = error;
+    this.mispredictionTotal += error;
+    this.mispredictionSamples++;
+    this.maxMisprediction = Math.max(this.maxMisprediction, error);
+  }
+
+  /**
+   * Forget all inputs (new connection)
+   */
+  private reset(): void {
+    this.pending = [];
+    this.nextSequence = 1;
+    this.lastAcknowledged = 0;
+    this.authoritative.clearAllHistory();
+  }
+}
+
+/**
+ * Euclidean distance over numeric fields (nested by path)
+ * A field that differs in any other way counts as a distance of 1.
+ */
+function stateDistance(a: Record<string, StateValue>, b: Record<string, StateValue>): number {
+  let sum = 0;
+
+  const visit = (left: StateValue | undefined, right: StateValue | undefined): void => {
+    if (typeof left === 'number' && typeof right === 'number') {
+      sum += (left - right) ** 2;
+      return;
+    }
+
+    if (left && right && typeof left === 'object' && typeof right === 'object') {
+      const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+      for (const key of keys) {
+        visit((left as Record<string, StateValue>)[key], (right as Record<string, StateValue>)[key]);
+      }
+      return;
+    }
+
+    if (left !== right) {
+      sum += 1;
+    }
+  };
+
+  visit(a, b);
+  return Math.sqrt(sum);
+}
@@ -0,0 +1,102 @@
+/**
+ * Replication Client
+ *
+ * Receiving side of state replication: applies state batches from the
+ * server to a StateReplicationManager.
+ */
+
+import type { NetworkMessage, StateBatch } from './types';
+import type { StateReplicationManager } from './StateReplicationManager';
+import type { Transport } from './transport/types';
+import { STATE_BATCH_MESSAGE } from './ReplicationServer';
+import type { PredictionClient } from './PredictionClient';
+
+/**
+ * Replication client options
+ */
+export interface ReplicationClientOptions {
+  /** Reconcile the locally predicted entity after each applied batch */
+  prediction?: Pick<PredictionClient, 'reconcile'>;
+}
+
+/**
+ * Replication client
+ *
+ * Entities must be registered on the client's manager to receive state;
+ * batches for unknown entities are skipped by the manager.
+ *
+ * @example
+ * ```typescript
+ * const transport = new WebSocketTransport({ url: 'ws://127.0.0.1:7342' });
+ * const client = new ReplicationClient(manager, transport);
+ * client.start();
+ * await transport.connect();
+ * ```
+ */
+export class ReplicationClient {
+  private unsubscribers: Array<() => void> = [];
+  private lastTick = 0;
+
+  /**
+   * @param manager Replication manager to apply batches to
+   * @param transport Transport receiving batches
+   * @param options Client-side prediction
+   */
+  constructor(
+    private manager: StateReplicationManager,
+    private transport: Transport,
+    private options: ReplicationClientOptions = {}
+  ) {}
+
+  /**
+   * Start applying received batches
+   */
+  start(): void {
+    if (this.unsubscribers.length > 0) {
+      return;
+    }
+
+    this.unsubscribers.push(
+      this.transport.onMessage((message) => this.handleMessage(message)),
+      // A new connection may be to a restarted server with new tick numbers
+      this.transport.onDisconnect(() => {
+        this.lastTick = 0;
+      })
+    );
+  }
+
+  /**
+   * Stop applying received batches
+   */
+  stop(): void {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Get the server tick of the last applied batch (0 before the first)
+   */
+  getLastTick(): number {
+    return this.lastTick;
+  }
+
+  /**
+   * Apply a state batch message; older batches than the last applied one are dropped
+   */
+  private handleMessage(message: NetworkMessage): void {
+    if (message.type !== STATE_BATCH_MESSAGE) {
+      return;
+    }
+
+    const batch = message.payload as StateBatch;
+    if (!batch || typeof batch.tick !== 'number' || batch.tick <= this.lastTick) {
+      return;
+    }
+
+    this.manager.applyStateBatch(batch);
+    this.lastTick = batch.tick;
+    this.options.prediction?.reconcile(batch);
+  }
+}
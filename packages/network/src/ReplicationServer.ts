@@ -0,0 +1,141 @@
+/**
+ * Replication Server
+ *
+ * Authoritative side of state replication: sends StateReplicationManager
+ * batches to every client of a ServerTransport at the replication tick rate.
+ */
+
+import { ReliabilityMode } from './types';
+import type { StateBatch } from './types';
+import type { StateReplicationManager } from './StateReplicationManager';
+import type { ServerTransport } from './transport/types';
+import type { InputServer } from './InputServer';
+
+/**
+ * Message type used for state batches
+ */
+export const STATE_BATCH_MESSAGE = 'state-batch';
+
+/**
+ * Replication server options
+ */
+export interface ReplicationServerOptions {
+  /** Apply client inputs before each tick and send their acknowledgements and drops with the batch */
+  inputs?: Pick<InputServer, 'processInputs' | 'getAcks' | 'takeDropped'>;
+}
+
+/**
+ * Replication server
+ *
+ * One batch is created per tick and broadcast to all clients (delta history
+ * is shared, so batches are not filtered per observer). Clients that join
+ * trigger a full state sync so they get a baseline for later deltas.
+ *
+ * @example
+ * ```typescript
+ * const transport = new WebSocketServerTransport({ port: 7342 });
+ * const server = new ReplicationServer(manager, transport);
+ * await transport.start();
+ * server.start(); // or call server.tick() from the game loop
+ * ```
+ */
+export class ReplicationServer {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private lastAcks = '';
+
+  /**
+   * @param manager Replication manager holding the authoritative entities
+   * @param transport Transport to send batches over
+   * @param options Input handling
+   */
+  constructor(
+    private manager: StateReplicationManager,
+    private transport: ServerTransport,
+    private options: ReplicationServerOptions = {}
+  ) {}
+
+  /**
+   * Start sending batches at the manager's tick rate
+   * Pass manual = true to only react to joins and call tick() yourself.
+   * @param manual Don't start the tick timer
+   */
+  start(manual = false): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.unsubscribe = this.transport.onConnect(() => this.requestFullSync());
+
+    if (!manual) {
+      const interval = 1000 / this.manager.getConfig().tickRate;
+      this.interval = setInterval(() => this.tick(), interval);
+    }
+  }
+
+  /**
+   * Stop sending batches
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Apply pending inputs, then create a batch and send it to all clients
+   * @returns Sent batch, or null if there are no clients or nothing changed
+   */
+  tick(): StateBatch | null {
+    if (this.transport.getClients().length === 0) {
+      return null;
+    }
+
+    const inputs = this.options.inputs;
+    inputs?.processInputs();
+
+    const batch = this.manager.createStateBatch();
+
+    // Acknowledgements are sent whenever they advance, even if no state changed
+    let acksChanged = false;
+    if (inputs) {
+      const acks = inputs.getAcks();
+      const serialized = JSON.stringify(acks);
+      acksChanged = serialized !== this.lastAcks;
+      this.lastAcks = serialized;
+      batch.inputAcks = acks;
+
+      const dropped = inputs.takeDropped();
+      if (Object.keys(dropped).length > 0) {
+        batch.inputDrops = dropped;
+        acksChanged = true;
+      }
+    }
+
+    if (!acksChanged && batch.fullStates.length === 0 && batch.deltas.length === 0 && batch.destroyed.length === 0) {
+      return null;
+    }
+
+    this.transport.broadcast({
+      type: STATE_BATCH_MESSAGE,
+      payload: batch,
+      reliability: ReliabilityMode.RELIABLE_ORDERED,
+      senderId: 0
+    });
+
+    return batch;
+  }
+
+  /**
+   * Queue full states so a new client gets a baseline
+   */
+  private requestFullSync(): void {
+    for (const entityId of this.manager.getEntityIds()) {
+      this.manager.requestFullState(entityId);
+    }
+  }
+}
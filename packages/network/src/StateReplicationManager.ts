@@ -372,6 +372,13 @@ export class StateReplicationManager {
     return this.entities.size;
   }
 
+  /**
+   * Get IDs of all registered entities
+   */
+  getEntityIds(): NetworkId[] {
+    return [...this.entities.keys()];
+  }
+
   /**
    * Check if an entity is registered
    * @param entityId Entity network ID
@@ -8,6 +8,8 @@
  * - Interest management for scalability
  * - State interpolation for smooth visuals
  * - Bandwidth monitoring
+ * - WebSocket and loopback transports
+ * - Client-side prediction with server reconciliation
  */
 
 // Core types
@@ -19,6 +21,23 @@ export { DeltaCompression } from './DeltaCompression';
 // State replication
 export { StateReplicationManager, type IReplicable } from './StateReplicationManager';
 
+// Transports
+export * from './transport';
+
+// Replication over a transport
+export { ReplicationServer, STATE_BATCH_MESSAGE, type ReplicationServerOptions } from './ReplicationServer';
+export { ReplicationClient, type ReplicationClientOptions } from './ReplicationClient';
+
+// Client-side prediction
+export { InputServer, INPUT_MESSAGE, type InputServerOptions, type InputHandler } from './InputServer';
+export {
+  PredictionClient,
+  type PredictedEntity,
+  type PredictionSnapshots,
+  type PredictionRollback,
+  type PredictionClientOptions
+} from './PredictionClient';
+
 // Interest management
 export {
   SpatialInterestPolicy,
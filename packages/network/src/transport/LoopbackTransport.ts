@@ -0,0 +1,379 @@
+/**
+ * Loopback Transport
+ *
+ * In-memory server and client transports for tests and local simulation,
+ * with optional simulated latency and packet loss.
+ */
+
+import { ReliabilityMode } from '../types';
+import type { NetworkId, NetworkMessage, NetworkStats } from '../types';
+import { DEFAULT_TRANSPORT_OPTIONS } from './types';
+import type {
+  DisconnectReason,
+  ServerTransport,
+  Transport,
+  TransportFrame,
+  TransportOptions,
+  TransportState
+} from './types';
+import { TransportConnection, Listeners, combineStats } from './TransportConnection';
+
+/**
+ * Simulated link conditions for a loopback client
+ */
+export interface LoopbackLinkOptions {
+  /** One-way delay in ms (default: 0, delivered on the next microtask) */
+  latency?: number;
+  /**
+   * Probability (0-1) of dropping a frame (default: 0)
+   * Only unreliable messages and heartbeats are dropped.
+   */
+  packetLoss?: number;
+  /** Random source for packet loss, for reproducible tests (default: Math.random) */
+  random?: () => number;
+}
+
+/**
+ * Loopback client options
+ */
+export type LoopbackTransportOptions = Partial<TransportOptions> & LoopbackLinkOptions;
+
+/**
+ * Client end of a loopback link, as seen by the server
+ * @internal
+ */
+export interface LoopbackPeer {
+  /** Send a frame to the client over the simulated link */
+  transmit(frame: TransportFrame, deliver: () => void): void;
+  /** Deliver an encoded frame to the client */
+  receive(data: string): void;
+  /** The server closed the connection */
+  close(reason: DisconnectReason): void;
+}
+
+/**
+ * Server end of a loopback link, as seen by the client
+ * @internal
+ */
+export interface LoopbackServerLink {
+  /** Deliver an encoded frame to the server */
+  receive(data: string): void;
+  /** The client closed the connection */
+  close(reason: DisconnectReason): void;
+}
+
+/**
+ * In-memory server transport
+ *
+ * @example
+ * ```typescript
+ * const server = new LoopbackServerTransport();
+ * await server.start();
+ *
+ * const client = new LoopbackTransport(server, { latency: 50, packetLoss: 0.05 });
+ * await client.connect();
+ * ```
+ */
+export class LoopbackServerTransport implements ServerTransport {
+  private running = false;
+  private nextClientId = 1;
+  private clients = new Map<NetworkId, { connection: TransportConnection; peer: LoopbackPeer }>();
+  private readonly options: TransportOptions;
+
+  private messageListeners = new Listeners<[NetworkId, NetworkMessage]>();
+  private connectListeners = new Listeners<[NetworkId]>();
+  private disconnectListeners = new Listeners<[NetworkId, DisconnectReason]>();
+
+  constructor(options: Partial<TransportOptions> = {}) {
+    this.options = { ...DEFAULT_TRANSPORT_OPTIONS, ...options };
+  }
+
+  async start(): Promise<void> {
+    this.running = true;
+  }
+
+  async stop(): Promise<void> {
+    for (const clientId of [...this.clients.keys()]) {
+      this.disconnect(clientId);
+    }
+    this.running = false;
+  }
+
+  send(clientId: NetworkId, message: NetworkMessage): void {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      console.warn(`Cannot send to unknown client ${clientId}`);
+      return;
+    }
+    client.connection.send(message);
+  }
+
+  broadcast(message: NetworkMessage): void {
+    for (const { connection } of this.clients.values()) {
+      connection.send(message);
+    }
+  }
+
+  disconnect(clientId: NetworkId): void {
+    const client = this.clients.get(clientId);
+    if (client) {
+      this.remove(clientId, 'server');
+      client.peer.close('server');
+    }
+  }
+
+  getClients(): NetworkId[] {
+    return [...this.clients.keys()];
+  }
+
+  getStats(clientId?: NetworkId): NetworkStats {
+    if (clientId !== undefined) {
+      const client = this.clients.get(clientId);
+      return combineStats(client ? [client.connection.getStats()] : []);
+    }
+    return combineStats([...this.clients.values()].map(client => client.connection.getStats()));
+  }
+
+  onMessage(handler: (clientId: NetworkId, message: NetworkMessage) => void): () => void {
+    return this.messageListeners.add(handler);
+  }
+
+  onConnect(handler: (clientId: NetworkId) => void): () => void {
+    return this.connectListeners.add(handler);
+  }
+
+  onDisconnect(handler: (clientId: NetworkId, reason: DisconnectReason) => void): () => void {
+    return this.disconnectListeners.add(handler);
+  }
+
+  /**
+   * Accept a loopback client
+   * @internal Called by LoopbackTransport.connect()
+   * @param peer Client end of the link
+   * @returns Server end of the link
+   * @throws Error if the server is not running
+   */
+  accept(peer: LoopbackPeer): LoopbackServerLink {
+    if (!this.running) {
+      throw new Error('Loopback server is not running');
+    }
+
+    const clientId = this.nextClientId++;
+    const connection = new TransportConnection(
+      (data, frame) => peer.transmit(frame, () => peer.receive(data)),
+      {
+        onMessage: (message) => this.messageListeners.emit(clientId, { ...message, senderId: clientId }),
+        onTimeout: () => {
+          this.remove(clientId, 'timeout');
+          peer.close('server');
+        }
+      },
+      this.options
+    );
+
+    this.clients.set(clientId, { connection, peer });
+    connection.start();
+    connection.sendWelcome(clientId);
+    this.connectListeners.emit(clientId);
+
+    return {
+      receive: (data) => {
+        if (this.clients.get(clientId)?.connection === connection) {
+          connection.receive(data);
+        }
+      },
+      close: (reason) => {
+        if (this.clients.get(clientId)?.connection === connection) {
+          this.remove(clientId, reason);
+        }
+      }
+    };
+  }
+
+  /**
+   * Forget a client and notify listeners
+   */
+  private remove(clientId: NetworkId, reason: DisconnectReason): void {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
+    }
+    client.connection.stop();
+    this.clients.delete(clientId);
+    this.disconnectListeners.emit(clientId, reason);
+  }
+}
+
+/**
+ * In-memory client transport connected to a LoopbackServerTransport
+ */
+export class LoopbackTransport implements Transport {
+  private state: TransportState = 'disconnected';
+  private clientId: NetworkId | null = null;
+  private connection: TransportConnection | null = null;
+  private cancelConnect: ((error: Error) => void) | null = null;
+  private server: LoopbackServerLink | null = null;
+  private readonly options: TransportOptions;
+  private readonly link: Required<LoopbackLinkOptions>;
+
+  private messageListeners = new Listeners<[NetworkMessage]>();
+  private connectListeners = new Listeners<[NetworkId]>();
+  private disconnectListeners = new Listeners<[DisconnectReason]>();
+
+  /**
+   * @param target Server to connect to
+   * @param options Timing and simulated link options
+   */
+  constructor(private target: LoopbackServerTransport, options: LoopbackTransportOptions = {}) {
+    const { latency, packetLoss, random, ...timing } = options;
+    this.options = { ...DEFAULT_TRANSPORT_OPTIONS, ...timing };
+    this.link = {
+      latency: latency ?? 0,
+      packetLoss: packetLoss ?? 0,
+      random: random ?? Math.random
+    };
+  }
+
+  connect(): Promise<void> {
+    if (this.state !== 'disconnected') {
+      return Promise.reject(new Error('Transport is already connected'));
+    }
+
+    this.state = 'connecting';
+
+    return new Promise((resolve, reject) => {
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        this.cancelConnect = null;
+        reject(error);
+      };
+
+      const timer = setTimeout(() => {
+        fail(new Error('Connection timed out'));
+        this.close('timeout');
+      }, this.options.timeout);
+
+      const connection: TransportConnection = new TransportConnection(
+        (data, frame) => this.transmit(connection, frame, () => this.server?.receive(data)),
+        {
+          onMessage: (message) => this.messageListeners.emit(message),
+          onWelcome: (clientId) => {
+            if (this.state !== 'connecting') {
+              return;
+            }
+            clearTimeout(timer);
+            this.cancelConnect = null;
+            this.clientId = clientId;
+            this.state = 'connected';
+            connection.start();
+            resolve();
+            this.connectListeners.emit(clientId);
+          },
+          onTimeout: () => this.close('timeout')
+        },
+        this.options
+      );
+      this.connection = connection;
+      this.cancelConnect = fail;
+
+      try {
+        this.server = this.target.accept({
+          transmit: (frame, deliver) => this.transmit(connection, frame, deliver),
+          receive: (data) => connection.receive(data),
+          close: (reason) => this.close(reason, false)
+        });
+      } catch (error) {
+        fail(error as Error);
+        this.close('error', false);
+      }
+    });
+  }
+
+  disconnect(): void {
+    this.close('client');
+  }
+
+  send(message: NetworkMessage): void {
+    if (this.state !== 'connected' || !this.connection) {
+      console.warn('Cannot send: transport is not connected');
+      return;
+    }
+    this.connection.send(message);
+  }
+
+  getState(): TransportState {
+    return this.state;
+  }
+
+  getClientId(): NetworkId | null {
+    return this.clientId;
+  }
+
+  getStats(): NetworkStats {
+    return this.connection ? this.connection.getStats() : combineStats([]);
+  }
+
+  onMessage(handler: (message: NetworkMessage) => void): () => void {
+    return this.messageListeners.add(handler);
+  }
+
+  onConnect(handler: (clientId: NetworkId) => void): () => void {
+    return this.connectListeners.add(handler);
+  }
+
+  onDisconnect(handler: (reason: DisconnectReason) => void): () => void {
+    return this.disconnectListeners.add(handler);
+  }
+
+  /**
+   * Deliver a frame over the simulated link
+   * Frames in flight are discarded once the connection they belong to is closed.
+   */
+  private transmit(connection: TransportConnection, frame: TransportFrame, deliver: () => void): void {
+    const droppable = frame.kind === 'ping' || frame.kind === 'pong' ||
+      (frame.kind === 'message' && frame.message.reliability === ReliabilityMode.UNRELIABLE);
+    if (droppable && this.link.packetLoss > 0 && this.link.random() < this.link.packetLoss) {
+      return;
+    }
+
+    const run = () => {
+      if (this.connection === connection) {
+        deliver();
+      }
+    };
+
+    if (this.link.latency > 0) {
+      setTimeout(run, this.link.latency);
+    } else {
+      queueMicrotask(run);
+    }
+  }
+
+  /**
+   * Tear down the connection
+   * @param reason Reason reported to listeners
+   * @param notifyServer Whether the server still needs to be told
+   */
+  private close(reason: DisconnectReason, notifyServer = true): void {
+    if (this.state === 'disconnected') {
+      return;
+    }
+
+    const wasConnected = this.state === 'connected';
+    this.cancelConnect?.(new Error('Connection closed'));
+    this.cancelConnect = null;
+    this.connection?.stop();
+    if (notifyServer) {
+      this.server?.close(reason);
+    }
+
+    this.connection = null;
+    this.server = null;
+    this.clientId = null;
+    this.state = 'disconnected';
+
+    if (wasConnected) {
+      this.disconnectListeners.emit(reason);
+    }
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * Transport Connection
+ *
+ * One end of a connection: framing, heartbeats, timeouts and traffic statistics.
+ * Transports supply the raw channel; this class is shared by all of them.
+ */
+
+import type { NetworkMessage, NetworkStats } from '../types';
+import type { TransportFrame, TransportOptions } from './types';
+
+/** Window for bytes-per-second averages (ms) */
+const BPS_WINDOW = 1000;
+
+/** Weight of a new RTT sample in the smoothed RTT (as in TCP) */
+const RTT_SMOOTHING = 0.125;
+
+const encoder = new TextEncoder();
+
+/**
+ * Callbacks from a connection to its transport
+ */
+export interface TransportConnectionHandlers {
+  /** Application message received */
+  onMessage(message: NetworkMessage): void;
+  /** Welcome frame received (client side) */
+  onWelcome?(clientId: number): void;
+  /** Nothing was received within the timeout; the connection has stopped */
+  onTimeout(): void;
+}
+
+/**
+ * Connection endpoint
+ *
+ * @example
+ * ```typescript
+ * const connection = new TransportConnection(
+ *   (data) => socket.send(data),
+ *   { onMessage: (message) => handle(message), onTimeout: () => socket.close() },
+ *   DEFAULT_TRANSPORT_OPTIONS
+ * );
+ * socket.onmessage = (event) => connection.receive(event.data);
+ * connection.start();
+ * ```
+ */
+export class TransportConnection {
+  private nextSeq = 1;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private lastReceived = Date.now();
+
+  // Statistics
+  private bytesSent = 0;
+  private bytesReceived = 0;
+  private updatesSent = 0;
+  private updatesReceived = 0;
+  private rtt = 0;
+  private sentWindow: Array<{ time: number; bytes: number }> = [];
+  private receivedWindow: Array<{ time: number; bytes: number }> = [];
+
+  // Loss detection
+  private highestSeq = 0;
+  private framesReceived = 0;
+  private framesMissing = 0;
+
+  /**
+   * @param sendRaw Writes an encoded frame to the channel
+   * @param handlers Callbacks for received messages and timeouts
+   * @param options Heartbeat and timeout settings
+   */
+  constructor(
+    private sendRaw: (data: string, frame: TransportFrame) => void,
+    private handlers: TransportConnectionHandlers,
+    private options: TransportOptions
+  ) {}
+
+  /**
+   * Start heartbeats and timeout detection
+   */
+  start(): void {
+    if (this.heartbeat) {
+      return;
+    }
+
+    this.lastReceived = Date.now();
+    this.heartbeat = setInterval(() => this.checkHeartbeat(), this.options.heartbeatInterval);
+  }
+
+  /**
+   * Stop heartbeats and timeout detection
+   */
+  stop(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  /**
+   * Send an application message
+   * @param message Message to send
+   */
+  send(message: NetworkMessage): void {
+    this.updatesSent++;
+    this.sendFrame({ kind: 'message', seq: this.nextSeq++, message });
+  }
+
+  /**
+   * Send the welcome frame assigning a client ID (server side)
+   * @param clientId Assigned client ID
+   */
+  sendWelcome(clientId: number): void {
+    this.sendFrame({ kind: 'welcome', seq: this.nextSeq++, clientId });
+  }
+
+  /**
+   * Handle an encoded frame from the channel
+   * Malformed frames are dropped with a warning.
+   * @param data Encoded frame
+   */
+  receive(data: string): void {
+    const now = Date.now();
+    const bytes = encoder.encode(data).byteLength;
+    this.bytesReceived += bytes;
+    this.receivedWindow.push({ time: now, bytes });
+    pruneWindow(this.receivedWindow, now);
+    this.lastReceived = now;
+
+    const frame = parseFrame(data);
+    if (!frame) {
+      console.warn('Invalid transport frame, dropping');
+      return;
+    }
+
+    this.trackSequence(frame.seq);
+
+    switch (frame.kind) {
+      case 'welcome':
+        this.handlers.onWelcome?.(frame.clientId);
+        break;
+      case 'message':
+        this.updatesReceived++;
+        this.handlers.onMessage(frame.message);
+        break;
+      case 'ping':
+        this.sendFrame({ kind: 'pong', seq: this.nextSeq++, sentAt: frame.sentAt });
+        break;
+      case 'pong': {
+        const sample = Math.max(0, now - frame.sentAt);
+        this.rtt = this.rtt === 0 ? sample : this.rtt + (sample - this.rtt) * RTT_SMOOTHING;
+        break;
+      }
+    }
+  }
+
+  /**
+   * Get traffic statistics
+   *
+   * `compressionRatio` is always 1: transports send frames as-is.
+   */
+  getStats(): NetworkStats {
+    const now = Date.now();
+    pruneWindow(this.sentWindow, now);
+    pruneWindow(this.receivedWindow, now);
+
+    const seen = this.framesReceived + this.framesMissing;
+
+    return {
+      bytesSent: this.bytesSent,
+      bytesReceived: this.bytesReceived,
+      outboundBPS: sumBytes(this.sentWindow) * (1000 / BPS_WINDOW),
+      inboundBPS: sumBytes(this.receivedWindow) * (1000 / BPS_WINDOW),
+      updatesSent: this.updatesSent,
+      updatesReceived: this.updatesReceived,
+      compressionRatio: 1,
+      rtt: this.rtt,
+      packetLoss: seen === 0 ? 0 : (this.framesMissing / seen) * 100
+    };
+  }
+
+  /**
+   * Encode and send a frame
+   */
+  private sendFrame(frame: TransportFrame): void {
+    const data = JSON.stringify(frame);
+    const bytes = encoder.encode(data).byteLength;
+    this.bytesSent += bytes;
+    const now = Date.now();
+    this.sentWindow.push({ time: now, bytes });
+    pruneWindow(this.sentWindow, now);
+    this.sendRaw(data, frame);
+  }
+
+  /**
+   * Count frames skipped by the sequence numbers
+   * A late frame fills a gap it was counted in.
+   */
+  private trackSequence(seq: number): void {
+    this.framesReceived++;
+
+    if (seq > this.highestSeq) {
+      this.framesMissing += seq - this.highestSeq - 1;
+      this.highestSeq = seq;
+    } else if (this.framesMissing > 0) {
+      this.framesMissing--;
+    }
+  }
+
+  /**
+   * Time out a silent peer, otherwise send a ping
+   */
+  private checkHeartbeat(): void {
+    const now = Date.now();
+
+    if (now - this.lastReceived > this.options.timeout) {
+      this.stop();
+      this.handlers.onTimeout();
+      return;
+    }
+
+    this.sendFrame({ kind: 'ping', seq: this.nextSeq++, sentAt: now });
+  }
+}
+
+/**
+ * Combine statistics of several connections
+ * Byte and update counts are summed; RTT and packet loss are averaged.
+ * @param stats Per-connection statistics
+ */
+export function combineStats(stats: NetworkStats[]): NetworkStats {
+  const combined: NetworkStats = {
+    bytesSent: 0,
+    bytesReceived: 0,
+    outboundBPS: 0,
+    inboundBPS: 0,
+    updatesSent: 0,
+    updatesReceived: 0,
+    compressionRatio: 1,
+    rtt: 0,
+    packetLoss: 0
+  };
+
+  for (const entry of stats) {
+    combined.bytesSent += entry.bytesSent;
+    combined.bytesReceived += entry.bytesReceived;
+    combined.outboundBPS += entry.outboundBPS;
+    combined.inboundBPS += entry.inboundBPS;
+    combined.updatesSent += entry.updatesSent;
+    combined.updatesReceived += entry.updatesReceived;
+    combined.rtt += entry.rtt / stats.length;
+    combined.packetLoss += entry.packetLoss / stats.length;
+  }
+
+  return combined;
+}
+
+/**
+ * Handler set for transport callbacks
+ */
+export class Listeners<TArgs extends unknown[]> {
+  private handlers = new Set<(...args: TArgs) => void>();
+
+  /**
+   * Add a handler
+   * @returns Function that removes the handler
+   */
+  add(handler: (...args: TArgs) => void): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  /**
+   * Call every handler; a throwing handler doesn't stop the others
+   */
+  emit(...args: TArgs): void {
+    for (const handler of [...this.handlers]) {
+      try {
+        handler(...args);
+      } catch (error) {
+        console.error('Error in transport handler:', error);
+      }
+    }
+  }
+
+  /**
+   * Remove all handlers
+   */
+  clear(): void {
+    this.handlers.clear();
+  }
+}
+
+/**
+ * Decode and validate a frame
+ * @returns Frame, or null if malformed
+ */
+function parseFrame(data: string): TransportFrame | null {
+  let frame: unknown;
+  try {
+    frame = JSON.parse(data);
+  } catch {
+    return null;
+  }
+
+  if (!frame || typeof frame !== 'object') {
+    return null;
+  }
+
+  const candidate = frame as Record<string, unknown>;
+  if (typeof candidate.seq !== 'number' || !Number.isInteger(candidate.seq) || candidate.seq < 1) {
+    return null;
+  }
+
+  switch (candidate.kind) {
+    case 'welcome':
+      return typeof candidate.clientId === 'number' ? frame as TransportFrame : null;
+    case 'message': {
+      const message = candidate.message as Record<string, unknown> | null;
+      return message && typeof message === 'object' && typeof message.type === 'string'
+        ? frame as TransportFrame
+        : null;
+    }
+    case 'ping':
+    case 'pong':
+      return typeof candidate.sentAt === 'number' ? frame as TransportFrame : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Drop samples older than the BPS window
+ */
+function pruneWindow(window: Array<{ time: number; bytes: number }>, now: number): void {
+  while (window.length > 0 && window[0].time <= now - BPS_WINDOW) {
+    window.shift();
+  }
+}
+
+/**
+ * Total bytes in a window
+ */
+function sumBytes(window: Array<{ time: number; bytes: number }>): number {
+  let total = 0;
+  for (const sample of window) {
+    total += sample.bytes;
+  }
+  return total;
+}
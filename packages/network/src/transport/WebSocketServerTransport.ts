@@ -0,0 +1,205 @@
+/**
+ * WebSocket Server Transport
+ *
+ * Node server transport using the `ws` package. `ws` is loaded in start(),
+ * so importing this module is safe in browser builds.
+ */
+
+import type { WebSocket, WebSocketServer } from 'ws';
+import type { NetworkId, NetworkMessage, NetworkStats } from '../types';
+import { DEFAULT_TRANSPORT_OPTIONS } from './types';
+import type { DisconnectReason, ServerTransport, TransportOptions } from './types';
+import { TransportConnection, Listeners, combineStats } from './TransportConnection';
+import { TIMEOUT_CLOSE_CODE } from './WebSocketTransport';
+
+/**
+ * WebSocket server options
+ */
+export interface WebSocketServerTransportOptions extends Partial<TransportOptions> {
+  /** Port to listen on; 0 picks a free port (default: 7342) */
+  port?: number;
+  /** Address to bind (default: '127.0.0.1') */
+  host?: string;
+  /** Maximum incoming frame size in bytes (default: 1MB) */
+  maxPayload?: number;
+}
+
+/**
+ * WebSocket server transport
+ *
+ * @example
+ * ```typescript
+ * const server = new WebSocketServerTransport({ port: 7342 });
+ * server.onMessage((clientId, message) => console.log(clientId, message.type));
+ * await server.start();
+ * ```
+ */
+export class WebSocketServerTransport implements ServerTransport {
+  private server: WebSocketServer | null = null;
+  private port: number | null = null;
+  private nextClientId = 1;
+  private clients = new Map<NetworkId, { connection: TransportConnection; socket: WebSocket }>();
+  private readonly options: TransportOptions & Required<Omit<WebSocketServerTransportOptions, keyof TransportOptions>>;
+
+  private messageListeners = new Listeners<[NetworkId, NetworkMessage]>();
+  private connectListeners = new Listeners<[NetworkId]>();
+  private disconnectListeners = new Listeners<[NetworkId, DisconnectReason]>();
+
+  constructor(options: WebSocketServerTransportOptions = {}) {
+    this.options = {
+      heartbeatInterval: options.heartbeatInterval ?? DEFAULT_TRANSPORT_OPTIONS.heartbeatInterval,
+      timeout: options.timeout ?? DEFAULT_TRANSPORT_OPTIONS.timeout,
+      port: options.port ?? 7342,
+      host: options.host ?? '127.0.0.1',
+      maxPayload: options.maxPayload ?? 1024 * 1024
+    };
+  }
+
+  /**
+   * Start listening
+   * @throws Error if already running or the port is unavailable
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      throw new Error('WebSocket server is already running');
+    }
+
+    const { WebSocketServer } = await import('ws');
+    const server = new WebSocketServer({
+      port: this.options.port,
+      host: this.options.host,
+      maxPayload: this.options.maxPayload
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', () => {
+        server.off('error', reject);
+        resolve();
+      });
+      server.once('error', reject);
+    });
+
+    server.on('connection', (socket) => this.accept(socket));
+    this.server = server;
+    this.port = (server.address() as { port: number }).port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    for (const clientId of [...this.clients.keys()]) {
+      this.disconnect(clientId);
+    }
+
+    this.server = null;
+    this.port = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Get the bound port (null when not running)
+   */
+  getPort(): number | null {
+    return this.port;
+  }
+
+  send(clientId: NetworkId, message: NetworkMessage): void {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      console.warn(`Cannot send to unknown client ${clientId}`);
+      return;
+    }
+    client.connection.send(message);
+  }
+
+  broadcast(message: NetworkMessage): void {
+    for (const { connection } of this.clients.values()) {
+      connection.send(message);
+    }
+  }
+
+  disconnect(clientId: NetworkId): void {
+    const client = this.clients.get(clientId);
+    if (client) {
+      this.remove(clientId, 'server');
+      client.socket.close(1000, 'server');
+    }
+  }
+
+  getClients(): NetworkId[] {
+    return [...this.clients.keys()];
+  }
+
+  getStats(clientId?: NetworkId): NetworkStats {
+    if (clientId !== undefined) {
+      const client = this.clients.get(clientId);
+      return combineStats(client ? [client.connection.getStats()] : []);
+    }
+    return combineStats([...this.clients.values()].map(client => client.connection.getStats()));
+  }
+
+  onMessage(handler: (clientId: NetworkId, message: NetworkMessage) => void): () => void {
+    return this.messageListeners.add(handler);
+  }
+
+  onConnect(handler: (clientId: NetworkId) => void): () => void {
+    return this.connectListeners.add(handler);
+  }
+
+  onDisconnect(handler: (clientId: NetworkId, reason: DisconnectReason) => void): () => void {
+    return this.disconnectListeners.add(handler);
+  }
+
+  /**
+   * Set up a new client connection
+   */
+  private accept(socket: WebSocket): void {
+    const clientId = this.nextClientId++;
+    const connection = new TransportConnection(
+      (data) => socket.send(data),
+      {
+        onMessage: (message) => this.messageListeners.emit(clientId, { ...message, senderId: clientId }),
+        onTimeout: () => {
+          this.remove(clientId, 'timeout');
+          socket.close(TIMEOUT_CLOSE_CODE, 'timeout');
+        }
+      },
+      this.options
+    );
+
+    socket.on('message', (data) => {
+      if (this.clients.get(clientId)?.connection === connection) {
+        connection.receive(data.toString());
+      }
+    });
+    socket.on('close', (code) => {
+      if (this.clients.get(clientId)?.connection === connection) {
+        this.remove(clientId, code === 1006 ? 'error' : 'client');
+      }
+    });
+    socket.on('error', (error) => {
+      console.warn(`WebSocket error for client ${clientId}:`, error.message);
+    });
+
+    this.clients.set(clientId, { connection, socket });
+    connection.start();
+    connection.sendWelcome(clientId);
+    this.connectListeners.emit(clientId);
+  }
+
+  /**
+   * Forget a client and notify listeners
+   */
+  private remove(clientId: NetworkId, reason: DisconnectReason): void {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
+    }
+    client.connection.stop();
+    this.clients.delete(clientId);
+    this.disconnectListeners.emit(clientId, reason);
+  }
+}
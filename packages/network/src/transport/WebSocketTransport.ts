@@ -0,0 +1,211 @@
+/**
+ * WebSocket Transport
+ *
+ * Client transport over a WebSocket, for browsers and Node
+ */
+
+import type { NetworkId, NetworkMessage, NetworkStats } from '../types';
+import { DEFAULT_TRANSPORT_OPTIONS } from './types';
+import type { DisconnectReason, Transport, TransportOptions, TransportState } from './types';
+import { TransportConnection, Listeners, combineStats } from './TransportConnection';
+
+/**
+ * The parts of a WebSocket the transport uses
+ * Satisfied by the browser WebSocket and the `ws` package.
+ */
+export interface WebSocketLike {
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+  addEventListener(type: 'close', listener: (event: { code: number }) => void): void;
+  addEventListener(type: 'error', listener: () => void): void;
+}
+
+/**
+ * WebSocket constructor
+ */
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+/**
+ * WebSocket client options
+ */
+export interface WebSocketTransportOptions extends Partial<TransportOptions> {
+  /** Server URL, e.g. 'ws://127.0.0.1:7342' */
+  url: string;
+  /** WebSocket implementation (default: globalThis.WebSocket; pass `ws` on Node < 22) */
+  WebSocket?: WebSocketConstructor;
+}
+
+/** Close code the transport uses for heartbeat timeouts */
+export const TIMEOUT_CLOSE_CODE = 4000;
+
+/**
+ * WebSocket client transport
+ *
+ * @example
+ * ```typescript
+ * const transport = new WebSocketTransport({ url: 'ws://127.0.0.1:7342' });
+ * transport.onMessage((message) => console.log(message.type));
+ * await transport.connect();
+ * transport.send({ type: 'input', payload: { jump: true }, reliability: ReliabilityMode.RELIABLE_ORDERED });
+ * ```
+ */
+export class WebSocketTransport implements Transport {
+  private state: TransportState = 'disconnected';
+  private clientId: NetworkId | null = null;
+  private socket: WebSocketLike | null = null;
+  private connection: TransportConnection | null = null;
+  private cancelConnect: ((error: Error) => void) | null = null;
+  private readonly options: TransportOptions;
+
+  private messageListeners = new Listeners<[NetworkMessage]>();
+  private connectListeners = new Listeners<[NetworkId]>();
+  private disconnectListeners = new Listeners<[DisconnectReason]>();
+
+  constructor(private config: WebSocketTransportOptions) {
+    this.options = {
+      heartbeatInterval: config.heartbeatInterval ?? DEFAULT_TRANSPORT_OPTIONS.heartbeatInterval,
+      timeout: config.timeout ?? DEFAULT_TRANSPORT_OPTIONS.timeout
+    };
+  }
+
+  connect(): Promise<void> {
+    if (this.state !== 'disconnected') {
+      return Promise.reject(new Error('Transport is already connected'));
+    }
+
+    const SocketImpl = this.config.WebSocket ??
+      (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+    if (!SocketImpl) {
+      return Promise.reject(new Error('WebSocket is not available; pass options.WebSocket'));
+    }
+
+    this.state = 'connecting';
+
+    return new Promise((resolve, reject) => {
+      const socket = new SocketImpl(this.config.url);
+      let settled = false;
+
+      const fail = (error: Error) => {
+        if (!settled) {
+          settled = true;
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+
+      const timer = setTimeout(() => {
+        fail(new Error('Connection timed out'));
+        this.close('timeout');
+      }, this.options.timeout);
+
+      const connection = new TransportConnection(
+        (data) => socket.send(data),
+        {
+          onMessage: (message) => this.messageListeners.emit(message),
+          onWelcome: (clientId) => {
+            if (settled) {
+              return;
+            }
+            settled = true;
+            clearTimeout(timer);
+            this.cancelConnect = null;
+            this.clientId = clientId;
+            this.state = 'connected';
+            connection.start();
+            resolve();
+            this.connectListeners.emit(clientId);
+          },
+          onTimeout: () => this.close('timeout')
+        },
+        this.options
+      );
+
+      socket.addEventListener('message', (event) => {
+        if (this.socket === socket) {
+          connection.receive(typeof event.data === 'string' ? event.data : String(event.data));
+        }
+      });
+      socket.addEventListener('error', () => {
+        fail(new Error(`Failed to connect to ${this.config.url}`));
+      });
+      socket.addEventListener('close', (event) => {
+        if (this.socket !== socket) {
+          return;
+        }
+        fail(new Error(`Connection to ${this.config.url} closed`));
+        this.close(event.code === TIMEOUT_CLOSE_CODE ? 'timeout' : event.code === 1006 ? 'error' : 'server', false);
+      });
+
+      this.socket = socket;
+      this.connection = connection;
+      this.cancelConnect = fail;
+    });
+  }
+
+  disconnect(): void {
+    this.close('client');
+  }
+
+  send(message: NetworkMessage): void {
+    if (this.state !== 'connected' || !this.connection) {
+      console.warn('Cannot send: transport is not connected');
+      return;
+    }
+    this.connection.send(message);
+  }
+
+  getState(): TransportState {
+    return this.state;
+  }
+
+  getClientId(): NetworkId | null {
+    return this.clientId;
+  }
+
+  getStats(): NetworkStats {
+    return this.connection ? this.connection.getStats() : combineStats([]);
+  }
+
+  onMessage(handler: (message: NetworkMessage) => void): () => void {
+    return this.messageListeners.add(handler);
+  }
+
+  onConnect(handler: (clientId: NetworkId) => void): () => void {
+    return this.connectListeners.add(handler);
+  }
+
+  onDisconnect(handler: (reason: DisconnectReason) => void): () => void {
+    return this.disconnectListeners.add(handler);
+  }
+
+  /**
+   * Tear down the connection
+   * @param reason Reason reported to listeners
+   * @param closeSocket Whether the socket still needs closing
+   */
+  private close(reason: DisconnectReason, closeSocket = true): void {
+    if (this.state === 'disconnected') {
+      return;
+    }
+
+    const wasConnected = this.state === 'connected';
+    this.cancelConnect?.(new Error('Connection closed'));
+    this.cancelConnect = null;
+    const socket = this.socket;
+    this.connection?.stop();
+
+    this.socket = null;
+    this.connection = null;
+    this.clientId = null;
+    this.state = 'disconnected';
+
+    if (closeSocket) {
+      socket?.close(reason === 'timeout' ? TIMEOUT_CLOSE_CODE : 1000, reason);
+    }
+
+    if (wasConnected) {
+      this.disconnectListeners.emit(reason);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Transport Exports
+ */
+
+export { DEFAULT_TRANSPORT_OPTIONS } from './types';
+export type {
+  Transport,
+  ServerTransport,
+  TransportState,
+  TransportOptions,
+  TransportFrame,
+  DisconnectReason
+} from './types';
+export { TransportConnection, combineStats, type TransportConnectionHandlers } from './TransportConnection';
+export {
+  LoopbackServerTransport,
+  LoopbackTransport,
+  type LoopbackLinkOptions,
+  type LoopbackTransportOptions
+} from './LoopbackTransport';
+export {
+  WebSocketTransport,
+  TIMEOUT_CLOSE_CODE,
+  type WebSocketLike,
+  type WebSocketConstructor,
+  type WebSocketTransportOptions
+} from './WebSocketTransport';
+export { WebSocketServerTransport, type WebSocketServerTransportOptions } from './WebSocketServerTransport';
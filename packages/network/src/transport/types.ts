@@ -0,0 +1,158 @@
+/**
+ * Transport Types
+ *
+ * Connection abstraction that carries NetworkMessages between a server and its clients
+ */
+
+import type { NetworkId, NetworkMessage, NetworkStats } from '../types';
+
+/**
+ * Connection state of a client transport
+ */
+export type TransportState = 'disconnected' | 'connecting' | 'connected';
+
+/**
+ * Why a connection ended
+ * - `client`: the client disconnected
+ * - `server`: the server disconnected the client or stopped
+ * - `timeout`: nothing was received from the peer within the timeout
+ * - `error`: the underlying connection failed
+ */
+export type DisconnectReason = 'client' | 'server' | 'timeout' | 'error';
+
+/**
+ * Timing options shared by all transports
+ */
+export interface TransportOptions {
+  /** Interval between heartbeat pings in ms (RTT is measured on these) */
+  heartbeatInterval: number;
+  /** Drop the connection when nothing is received for this long (ms); also the connect timeout */
+  timeout: number;
+}
+
+/**
+ * Default transport options
+ */
+export const DEFAULT_TRANSPORT_OPTIONS: TransportOptions = {
+  heartbeatInterval: 1000,
+  timeout: 5000
+};
+
+/**
+ * Client side of a connection to a server
+ */
+export interface Transport {
+  /**
+   * Connect to the server
+   * Resolves once the server has assigned a client ID
+   */
+  connect(): Promise<void>;
+
+  /** Close the connection */
+  disconnect(): void;
+
+  /**
+   * Send a message to the server
+   * @param message Message to send
+   */
+  send(message: NetworkMessage): void;
+
+  /** Get the connection state */
+  getState(): TransportState;
+
+  /** Get the ID the server assigned to this client (null when not connected) */
+  getClientId(): NetworkId | null;
+
+  /** Get traffic statistics for the current connection */
+  getStats(): NetworkStats;
+
+  /**
+   * Register a handler for messages from the server
+   * @returns Function that removes the handler
+   */
+  onMessage(handler: (message: NetworkMessage) => void): () => void;
+
+  /**
+   * Register a handler for a completed connect
+   * @returns Function that removes the handler
+   */
+  onConnect(handler: (clientId: NetworkId) => void): () => void;
+
+  /**
+   * Register a handler for the end of a connection
+   * @returns Function that removes the handler
+   */
+  onDisconnect(handler: (reason: DisconnectReason) => void): () => void;
+}
+
+/**
+ * Server side, accepting any number of clients
+ *
+ * Client IDs start at 1 (0 is the server). Received messages get `senderId`
+ * set to the sending client, so clients cannot impersonate each other.
+ */
+export interface ServerTransport {
+  /** Start accepting clients */
+  start(): Promise<void>;
+
+  /** Disconnect all clients and stop accepting new ones */
+  stop(): Promise<void>;
+
+  /**
+   * Send a message to one client
+   * @param clientId Recipient
+   * @param message Message to send
+   */
+  send(clientId: NetworkId, message: NetworkMessage): void;
+
+  /**
+   * Send a message to every connected client
+   * @param message Message to send
+   */
+  broadcast(message: NetworkMessage): void;
+
+  /**
+   * Disconnect a client
+   * @param clientId Client to disconnect
+   */
+  disconnect(clientId: NetworkId): void;
+
+  /** Get the IDs of connected clients */
+  getClients(): NetworkId[];
+
+  /**
+   * Get traffic statistics
+   * @param clientId Client to report on (default: all clients combined)
+   */
+  getStats(clientId?: NetworkId): NetworkStats;
+
+  /**
+   * Register a handler for messages from clients
+   * @returns Function that removes the handler
+   */
+  onMessage(handler: (clientId: NetworkId, message: NetworkMessage) => void): () => void;
+
+  /**
+   * Register a handler for newly connected clients
+   * @returns Function that removes the handler
+   */
+  onConnect(handler: (clientId: NetworkId) => void): () => void;
+
+  /**
+   * Register a handler for disconnected clients
+   * @returns Function that removes the handler
+   */
+  onDisconnect(handler: (clientId: NetworkId, reason: DisconnectReason) => void): () => void;
+}
+
+/**
+ * Frame sent over the wire (JSON encoded)
+ *
+ * Every frame carries a per-connection sequence number, used to detect
+ * lost frames.
+ */
+export type TransportFrame =
+  | { kind: 'welcome'; seq: number; clientId: NetworkId }
+  | { kind: 'message'; seq: number; message: NetworkMessage }
+  | { kind: 'ping'; seq: number; sentAt: number }
+  | { kind: 'pong'; seq: number; sentAt: number };
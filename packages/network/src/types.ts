@@ -74,6 +74,10 @@ export interface StateBatch {
   deltas: DeltaUpdate[];
   /** Entity IDs that were destroyed */
   destroyed: NetworkId[];
+  /** Last input sequence processed for each client (client ID -> sequence) */
+  inputAcks?: Record<NetworkId, number>;
+  /** Input sequences dropped since the previous batch, never to be applied (client ID -> sequences) */
+  inputDrops?: Record<NetworkId, number[]>;
 }
 
 /**
@@ -209,3 +213,56 @@ export const DEFAULT_INTERPOLATION_CONFIG: InterpolationConfig = {
   smoothPosition: true,
   smoothRotation: true
 };
+
+/**
+ * Player input tagged for prediction and reconciliation
+ */
+export interface InputCommand<TInput = unknown> {
+  /** Per-connection sequence number, starting at 1 */
+  sequence: number;
+  /** Game-specific input (buttons, axes, ...) */
+  input: TInput;
+  /** Simulation time the input covers, in seconds */
+  deltaTime: number;
+  /** Client timestamp when the input was sampled */
+  timestamp: NetworkTimestamp;
+}
+
+/**
+ * Client prediction configuration
+ */
+export interface PredictionConfig {
+  /** Maximum unacknowledged inputs kept for replay (oldest are dropped) */
+  maxPendingInputs: number;
+  /** Mispredictions up to this magnitude are accepted without correcting */
+  errorThreshold: number;
+  /** Largest deltaTime per input in seconds; the client and InputServer clamp to it */
+  maxDeltaTime: number;
+}
+
+/**
+ * Default client prediction configuration
+ */
+export const DEFAULT_PREDICTION_CONFIG: PredictionConfig = {
+  maxPendingInputs: 128,
+  errorThreshold: 0.001,
+  maxDeltaTime: 0.1
+};
+
+/**
+ * Statistics for client prediction
+ */
+export interface PredictionStats {
+  /** Inputs sent but not yet acknowledged by the server */
+  pendingInputs: number;
+  /** Last input sequence the server acknowledged */
+  lastAcknowledged: number;
+  /** Number of reconciliations that had to rewind and replay */
+  corrections: number;
+  /** Misprediction magnitude at the last acknowledgement */
+  misprediction: number;
+  /** Average misprediction magnitude over all acknowledgements */
+  averageMisprediction: number;
+  /** Largest misprediction magnitude seen */
+  maxMisprediction: number;
+}
@@ -0,0 +1,453 @@
+/**
+ * Client-Side Prediction Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StateReplicationManager } from '../src/StateReplicationManager';
+import { ReplicationServer } from '../src/ReplicationServer';
+import { ReplicationClient } from '../src/ReplicationClient';
+import { InputServer, INPUT_MESSAGE } from '../src/InputServer';
+import { PredictionClient, type PredictedEntity, type PredictionClientOptions } from '../src/PredictionClient';
+import { LoopbackServerTransport, LoopbackTransport } from '../src/transport/LoopbackTransport';
+import { ReliabilityMode } from '../src/types';
+import type { InputCommand, NetworkId } from '../src/types';
+
+interface MoveInput {
+  dx: number;
+}
+
+class MovingEntity implements PredictedEntity<MoveInput> {
+  constructor(
+    private id: NetworkId,
+    public state: Record<string, any> = {},
+    private limit = Infinity
+  ) {}
+
+  getNetworkId(): NetworkId {
+    return this.id;
+  }
+
+  getEntityType(): string {
+    return 'Player';
+  }
+
+  serializeState(): Record<string, any> {
+    return { ...this.state };
+  }
+
+  deserializeState(state: Record<string, any>): void {
+    this.state = { ...state };
+  }
+
+  applyInput(input: MoveInput, deltaTime: number): void {
+    this.state.x = Math.min(this.state.x + input.dx * deltaTime, this.limit);
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Client-side prediction', () => {
+  let serverTransport: LoopbackServerTransport;
+  let serverManager: StateReplicationManager;
+  let serverEntity: MovingEntity;
+  let inputs: InputServer<MoveInput>;
+  let server: ReplicationServer;
+
+  function createServer(limit = Infinity, maxQueuedInputs?: number) {
+    serverEntity = new MovingEntity(1, { x: 0 }, limit);
+    serverManager = new StateReplicationManager();
+    serverManager.registerEntity(serverEntity);
+    inputs = new InputServer<MoveInput>(serverTransport, (_clientId, command) => {
+      serverEntity.applyInput(command.input, command.deltaTime);
+    }, { maxDeltaTime: 1, maxQueuedInputs });
+    inputs.start();
+    server = new ReplicationServer(serverManager, serverTransport, { inputs });
+    server.start(true);
+  }
+
+  async function connectClient(options: PredictionClientOptions = {}) {
+    const manager = new StateReplicationManager();
+    const entity = new MovingEntity(1);
+    manager.registerEntity(entity);
+    const transport = new LoopbackTransport(serverTransport);
+    // Same deltaTime limit as the server
+    const prediction = new PredictionClient<MoveInput>(transport, entity, { maxDeltaTime: 1, ...options });
+    const client = new ReplicationClient(manager, transport, { prediction });
+    client.start();
+    await transport.connect();
+
+    // Baseline state
+    server.tick();
+    await flush();
+
+    return { entity, transport, prediction };
+  }
+
+  beforeEach(async () => {
+    serverTransport = new LoopbackServerTransport();
+    await serverTransport.start();
+  });
+
+  afterEach(async () => {
+    server.stop();
+    inputs.stop();
+    await serverTransport.stop();
+    vi.restoreAllMocks();
+  });
+
+  describe('InputServer', () => {
+    beforeEach(() => createServer());
+
+    function sendInput(transport: LoopbackTransport, command: Partial<InputCommand<MoveInput>>) {
+      transport.send({
+        type: INPUT_MESSAGE,
+        payload: { input: { dx: 1 }, deltaTime: 0.5, timestamp: 0, ...command },
+        reliability: ReliabilityMode.RELIABLE_ORDERED
+      });
+    }
+
+    it('should apply inputs in sequence order and acknowledge them', async () => {
+      const transport = new LoopbackTransport(serverTransport);
+      await transport.connect();
+      const clientId = transport.getClientId()!;
+
+      sendInput(transport, { sequence: 2, input: { dx: 2 } });
+      sendInput(transport, { sequence: 1, input: { dx: 1 } });
+      await flush();
+
+      expect(inputs.processInputs()).toBe(2);
+      expect(serverEntity.state.x).toBe(1.5);
+      expect(inputs.getLastProcessed(clientId)).toBe(2);
+      expect(inputs.getAcks()).toEqual({ [clientId]: 2 });
+    });
+
+    it('should skip duplicate and old inputs', async () => {
+      const transport = new LoopbackTransport(serverTransport);
+      await transport.connect();
+
+      sendInput(transport, { sequence: 3 });
+      await flush();
+      inputs.processInputs();
+
+      sendInput(transport, { sequence: 3 });
+      sendInput(transport, { sequence: 2 });
+      await flush();
+
+      expect(inputs.processInputs()).toBe(0);
+      expect(serverEntity.state.x).toBe(0.5);
+    });
+
+    it('should clamp deltaTime and reject invalid inputs', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const transport = new LoopbackTransport(serverTransport);
+      await transport.connect();
+
+      sendInput(transport, { sequence: 1, deltaTime: 10 });
+      sendInput(transport, { sequence: 0 });
+      sendInput(transport, { sequence: 2, deltaTime: -1 });
+      await flush();
+
+      expect(inputs.processInputs()).toBe(1);
+      expect(serverEntity.state.x).toBe(1);
+      expect(warn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should drop inputs beyond the queue limit', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      inputs.stop();
+      inputs = new InputServer<MoveInput>(serverTransport, () => {}, { maxQueuedInputs: 2 });
+      inputs.start();
+      const transport = new LoopbackTransport(serverTransport);
+      await transport.connect();
+
+      for (let sequence = 1; sequence <= 3; sequence++) {
+        sendInput(transport, { sequence });
+      }
+      await flush();
+
+      expect(inputs.processInputs()).toBe(2);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('dropping input 3'));
+      expect(inputs.takeDropped()).toEqual({ [transport.getClientId()!]: [3] });
+      expect(inputs.takeDropped()).toEqual({});
+    });
+
+    it('should keep applying inputs when the handler throws', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      inputs.stop();
+      const handler = vi.fn(() => {
+        throw new Error('boom');
+      });
+      inputs = new InputServer<MoveInput>(serverTransport, handler);
+      inputs.start();
+      const transport = new LoopbackTransport(serverTransport);
+      await transport.connect();
+
+      sendInput(transport, { sequence: 1 });
+      sendInput(transport, { sequence: 2 });
+      await flush();
+
+      expect(inputs.processInputs()).toBe(2);
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should forget clients that disconnect', async () => {
+      const transport = new LoopbackTransport(serverTransport);
+      await transport.connect();
+      const clientId = transport.getClientId()!;
+
+      sendInput(transport, { sequence: 1 });
+      await flush();
+      inputs.processInputs();
+      transport.disconnect();
+      await flush();
+
+      expect(inputs.getLastProcessed(clientId)).toBe(0);
+      expect(inputs.getAcks()).toEqual({});
+    });
+
+    it('should send acknowledgements even when no state changed', async () => {
+      const transport = new LoopbackTransport(serverTransport);
+      await transport.connect();
+      const clientId = transport.getClientId()!;
+      server.tick();
+      expect(server.tick()).toBeNull();
+
+      sendInput(transport, { sequence: 1, input: { dx: 0 } });
+      await flush();
+      const batch = server.tick();
+
+      expect(batch?.deltas).toEqual([]);
+      expect(batch?.inputAcks).toEqual({ [clientId]: 1 });
+      expect(server.tick()).toBeNull();
+    });
+  });
+
+  describe('PredictionClient', () => {
+    it('should apply inputs locally before the server responds', async () => {
+      createServer();
+      const { entity, prediction } = await connectClient();
+
+      const command = prediction.submitInput({ dx: 1 }, 0.5);
+
+      expect(command?.sequence).toBe(1);
+      expect(entity.state.x).toBe(0.5);
+      expect(prediction.getPendingInputs().map(pending => pending.sequence)).toEqual([1]);
+    });
+
+    it('should clamp deltaTime to maxDeltaTime like the server', async () => {
+      createServer();
+      const { entity, prediction } = await connectClient();
+
+      const command = prediction.submitInput({ dx: 1 }, 5);
+      await flush();
+      server.tick();
+      await flush();
+
+      expect(command?.deltaTime).toBe(1);
+      expect(entity.state.x).toBe(1);
+      expect(serverEntity.state.x).toBe(1);
+      expect(prediction.getStats().corrections).toBe(0);
+    });
+
+    it('should stop predicting inputs the server dropped', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      createServer(Infinity, 2);
+      const { entity, transport, prediction } = await connectClient();
+
+      for (let i = 0; i < 3; i++) {
+        prediction.submitInput({ dx: 1 }, 1);
+      }
+      await flush();
+      const batch = server.tick();
+      await flush();
+
+      expect(batch?.inputDrops).toEqual({ [transport.getClientId()!]: [3] });
+      expect(serverEntity.state.x).toBe(2);
+      expect(entity.state.x).toBe(2);
+      expect(prediction.getStats()).toMatchObject({ pendingInputs: 0, lastAcknowledged: 2, corrections: 0 });
+    });
+
+    it('should not submit inputs while disconnected', () => {
+      createServer();
+      const entity = new MovingEntity(1, { x: 0 });
+      const prediction = new PredictionClient<MoveInput>(new LoopbackTransport(serverTransport), entity);
+
+      expect(prediction.submitInput({ dx: 1 }, 1)).toBeNull();
+      expect(entity.state.x).toBe(0);
+    });
+
+    it('should keep unacknowledged inputs applied when the prediction was right', async () => {
+      createServer();
+      const { entity, prediction } = await connectClient();
+
+      prediction.submitInput({ dx: 1 }, 1);
+      await flush();
+      server.tick();
+      prediction.submitInput({ dx: 1 }, 1);
+      await flush();
+
+      expect(serverEntity.state.x).toBe(1);
+      expect(entity.state.x).toBe(2);
+      expect(prediction.getStats()).toMatchObject({
+        pendingInputs: 1,
+        lastAcknowledged: 1,
+        corrections: 0,
+        misprediction: 0
+      });
+    });
+
+    it('should rewind to the server state and replay pending inputs on misprediction', async () => {
+      createServer(1.5);
+      const { entity, prediction } = await connectClient();
+
+      prediction.submitInput({ dx: 1 }, 1);
+      prediction.submitInput({ dx: 1 }, 1);
+      await flush();
+      server.tick();
+      prediction.submitInput({ dx: 1 }, 1);
+      await flush();
+
+      expect(serverEntity.state.x).toBe(1.5);
+      expect(entity.state.x).toBe(2.5);
+      expect(prediction.getStats()).toMatchObject({
+        pendingInputs: 1,
+        lastAcknowledged: 2,
+        corrections: 1,
+        misprediction: 0.5,
+        maxMisprediction: 0.5
+      });
+    });
+
+    it('should average misprediction over acknowledgements', async () => {
+      createServer(1);
+      const { prediction } = await connectClient();
+
+      prediction.submitInput({ dx: 1 }, 1);
+      await flush();
+      server.tick();
+      await flush();
+      prediction.submitInput({ dx: 1 }, 1);
+      await flush();
+      server.tick();
+      await flush();
+
+      const stats = prediction.getStats();
+      expect(stats.misprediction).toBe(1);
+      expect(stats.averageMisprediction).toBe(0.5);
+      expect(stats.corrections).toBe(1);
+    });
+
+    it('should use a custom error measure and threshold', async () => {
+      createServer(1.5);
+      const measureError = vi.fn(() => 0.1);
+      const { entity, prediction } = await connectClient({ measureError, errorThreshold: 0.2 });
+
+      prediction.submitInput({ dx: 1 }, 1);
+      prediction.submitInput({ dx: 1 }, 1);
+      await flush();
+      server.tick();
+      await flush();
+
+      expect(measureError).toHaveBeenCalledWith({ x: 2 }, { x: 1.5 });
+      expect(entity.state.x).toBe(2);
+      expect(prediction.getStats().corrections).toBe(0);
+    });
+
+    it('should drop the oldest inputs beyond maxPendingInputs', async () => {
+      createServer();
+      const { prediction } = await connectClient({ maxPendingInputs: 2 });
+
+      for (let i = 0; i < 3; i++) {
+        prediction.submitInput({ dx: 1 }, 1);
+      }
+
+      expect(prediction.getPendingInputs().map(pending => pending.sequence)).toEqual([2, 3]);
+    });
+
+    it('should restart sequence numbers on reconnect', async () => {
+      createServer();
+      const { transport, prediction } = await connectClient();
+      prediction.submitInput({ dx: 1 }, 1);
+
+      transport.disconnect();
+      await transport.connect();
+
+      expect(prediction.getStats().pendingInputs).toBe(0);
+      expect(prediction.submitInput({ dx: 1 }, 1)?.sequence).toBe(1);
+    });
+
+    describe('with physics rollback', () => {
+      function createRollback(canRollback = true) {
+        let frame = 0;
+        const snapshots = {
+          getCurrentFrame: () => frame,
+          rollbackToFrame: vi.fn((target: number) => {
+            if (canRollback) {
+              frame = target;
+            }
+            return canRollback;
+          })
+        };
+        const step = vi.fn(() => {
+          frame++;
+        });
+        return { snapshots, step };
+      }
+
+      it('should replay pending inputs on top of server-side changes', async () => {
+        createServer();
+        const rollback = createRollback();
+        const { entity, prediction } = await connectClient({ rollback });
+
+        for (let i = 0; i < 3; i++) {
+          prediction.submitInput({ dx: 1 }, 1);
+        }
+        serverEntity.state.x = 10;
+        server.tick();
+        await flush();
+
+        expect(rollback.snapshots.rollbackToFrame).toHaveBeenCalledWith(0);
+        expect(rollback.step).toHaveBeenCalledTimes(6);
+        expect(rollback.snapshots.getCurrentFrame()).toBe(3);
+        expect(entity.state.x).toBe(13);
+        expect(prediction.getStats().corrections).toBe(0);
+      });
+
+      it('should replay from the frame of the oldest pending input', async () => {
+        createServer(1.5);
+        const rollback = createRollback();
+        const { entity, prediction } = await connectClient({ rollback });
+
+        prediction.submitInput({ dx: 1 }, 1);
+        prediction.submitInput({ dx: 1 }, 1);
+        await flush();
+        server.tick();
+        prediction.submitInput({ dx: 1 }, 1);
+        await flush();
+
+        expect(rollback.snapshots.rollbackToFrame).toHaveBeenCalledWith(2);
+        expect(rollback.step).toHaveBeenCalledTimes(4);
+        expect(rollback.snapshots.getCurrentFrame()).toBe(3);
+        expect(entity.state.x).toBe(2.5);
+      });
+
+      it('should snap to the server state when the snapshot is gone', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        createServer(1.5);
+        const rollback = createRollback(false);
+        const { entity, prediction } = await connectClient({ rollback });
+
+        prediction.submitInput({ dx: 1 }, 1);
+        prediction.submitInput({ dx: 1 }, 1);
+        await flush();
+        server.tick();
+        prediction.submitInput({ dx: 1 }, 1);
+        await flush();
+
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Cannot roll back to frame 2'));
+        expect(entity.state.x).toBe(1.5);
+        expect(prediction.getStats().pendingInputs).toBe(1);
+      });
+    });
+  });
+});
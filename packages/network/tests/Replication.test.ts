@@ -0,0 +1,154 @@
+/**
+ * Replication Server/Client Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StateReplicationManager, type IReplicable } from '../src/StateReplicationManager';
+import { ReplicationServer, STATE_BATCH_MESSAGE } from '../src/ReplicationServer';
+import { ReplicationClient } from '../src/ReplicationClient';
+import { LoopbackServerTransport, LoopbackTransport } from '../src/transport/LoopbackTransport';
+import { ReliabilityMode } from '../src/types';
+import type { NetworkId, NetworkMessage } from '../src/types';
+
+class MockEntity implements IReplicable {
+  constructor(private id: NetworkId, public state: Record<string, any> = {}) {}
+
+  getNetworkId(): NetworkId {
+    return this.id;
+  }
+
+  getEntityType(): string {
+    return 'Player';
+  }
+
+  serializeState(): Record<string, any> {
+    return { ...this.state };
+  }
+
+  deserializeState(state: Record<string, any>): void {
+    this.state = { ...state };
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Replication over a transport', () => {
+  let serverTransport: LoopbackServerTransport;
+  let serverManager: StateReplicationManager;
+  let server: ReplicationServer;
+  let serverEntity: MockEntity;
+
+  beforeEach(async () => {
+    serverTransport = new LoopbackServerTransport();
+    await serverTransport.start();
+    serverManager = new StateReplicationManager({ tickRate: 20 });
+    serverEntity = new MockEntity(1, { x: 0, y: 0 });
+    serverManager.registerEntity(serverEntity);
+    server = new ReplicationServer(serverManager, serverTransport);
+  });
+
+  afterEach(async () => {
+    server.stop();
+    await serverTransport.stop();
+    vi.useRealTimers();
+  });
+
+  async function connectClient() {
+    const manager = new StateReplicationManager();
+    const entity = new MockEntity(1);
+    manager.registerEntity(entity);
+    const transport = new LoopbackTransport(serverTransport);
+    const client = new ReplicationClient(manager, transport);
+    client.start();
+    await transport.connect();
+    return { manager, entity, transport, client };
+  }
+
+  it('should replicate full state and then deltas', async () => {
+    server.start(true);
+    const { entity, client } = await connectClient();
+
+    server.tick();
+    await flush();
+    expect(entity.state).toEqual({ x: 0, y: 0 });
+
+    serverEntity.state.x = 5;
+    const batch = server.tick();
+    await flush();
+
+    expect(batch?.deltas).toHaveLength(1);
+    expect(entity.state).toEqual({ x: 5, y: 0 });
+    expect(client.getLastTick()).toBe(batch?.tick);
+  });
+
+  it('should send nothing without clients or changes', async () => {
+    server.start(true);
+    expect(server.tick()).toBeNull();
+
+    await connectClient();
+    server.tick();
+
+    expect(server.tick()).toBeNull();
+  });
+
+  it('should give late joiners a full state baseline', async () => {
+    server.start(true);
+    const first = await connectClient();
+    server.tick();
+    serverEntity.state.x = 3;
+    server.tick();
+
+    const late = await connectClient();
+    const batch = server.tick();
+    await flush();
+
+    expect(batch?.fullStates.map(s => s.id)).toEqual([1]);
+    expect(late.entity.state).toEqual({ x: 3, y: 0 });
+    expect(first.entity.state).toEqual({ x: 3, y: 0 });
+  });
+
+  it('should tick at the manager tick rate', async () => {
+    vi.useFakeTimers();
+    server.start();
+    const connecting = connectClient();
+    await vi.advanceTimersByTimeAsync(0);
+    const { entity } = await connecting;
+
+    serverEntity.state.y = 9;
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(entity.state).toEqual({ x: 0, y: 9 });
+  });
+
+  it('should ignore stale batches and other messages', async () => {
+    server.start(true);
+    const { entity, client } = await connectClient();
+    server.tick();
+    serverEntity.state.x = 1;
+    server.tick();
+    await flush();
+
+    const stale: NetworkMessage = {
+      type: STATE_BATCH_MESSAGE,
+      payload: { tick: 1, timestamp: 0, fullStates: [{ id: 1, type: 'Player', state: { x: 100 }, timestamp: 0 }], deltas: [], destroyed: [] },
+      reliability: ReliabilityMode.RELIABLE_ORDERED
+    };
+    serverTransport.broadcast(stale);
+    serverTransport.broadcast({ type: 'chat', payload: 'hi', reliability: ReliabilityMode.RELIABLE });
+    await flush();
+
+    expect(entity.state.x).toBe(1);
+    expect(client.getLastTick()).toBe(2);
+  });
+
+  it('should stop applying batches after stop()', async () => {
+    server.start(true);
+    const { entity, client } = await connectClient();
+    client.stop();
+
+    server.tick();
+    await flush();
+
+    expect(entity.state).toEqual({});
+  });
+});
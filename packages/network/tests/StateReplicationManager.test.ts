@@ -489,6 +489,16 @@ describe('StateReplicationManager', () => {
     });
   });
 
+  describe('getEntityIds', () => {
+    it('should return IDs of registered entities', () => {
+      manager.registerEntity(new MockEntity(1, 'Player'));
+      manager.registerEntity(new MockEntity(2, 'Enemy'));
+      manager.unregisterEntity(1);
+
+      expect(manager.getEntityIds()).toEqual([2]);
+    });
+  });
+
   describe('integration: client-server sync', () => {
     it('should replicate state from server to client', () => {
       // Server setup
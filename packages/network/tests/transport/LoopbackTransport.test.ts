@@ -0,0 +1,254 @@
+/**
+ * Loopback Transport Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LoopbackServerTransport, LoopbackTransport } from '../../src/transport/LoopbackTransport';
+import { ReliabilityMode } from '../../src/types';
+import type { NetworkId, NetworkMessage } from '../../src/types';
+import type { DisconnectReason } from '../../src/transport/types';
+
+function message(type: string, reliability = ReliabilityMode.RELIABLE): NetworkMessage {
+  return { type, payload: { value: 1 }, reliability };
+}
+
+/** Let queued loopback deliveries run */
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('LoopbackTransport', () => {
+  let server: LoopbackServerTransport;
+
+  beforeEach(async () => {
+    server = new LoopbackServerTransport();
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    vi.useRealTimers();
+  });
+
+  describe('connect', () => {
+    it('should connect and receive a client ID', async () => {
+      const client = new LoopbackTransport(server);
+      const connected: NetworkId[] = [];
+      server.onConnect((id) => connected.push(id));
+
+      await client.connect();
+
+      expect(client.getState()).toBe('connected');
+      expect(client.getClientId()).toBe(1);
+      expect(connected).toEqual([1]);
+      expect(server.getClients()).toEqual([1]);
+    });
+
+    it('should assign increasing client IDs', async () => {
+      const first = new LoopbackTransport(server);
+      const second = new LoopbackTransport(server);
+
+      await first.connect();
+      await second.connect();
+
+      expect(second.getClientId()).toBe(2);
+    });
+
+    it('should reject when the server is not running', async () => {
+      const stopped = new LoopbackServerTransport();
+      const client = new LoopbackTransport(stopped);
+
+      await expect(client.connect()).rejects.toThrow('Loopback server is not running');
+      expect(client.getState()).toBe('disconnected');
+    });
+
+    it('should reject connecting twice', async () => {
+      const client = new LoopbackTransport(server);
+      await client.connect();
+
+      await expect(client.connect()).rejects.toThrow('Transport is already connected');
+    });
+
+    it('should reject a pending connect on disconnect', async () => {
+      const client = new LoopbackTransport(server, { latency: 50 });
+      const connecting = client.connect();
+
+      client.disconnect();
+
+      await expect(connecting).rejects.toThrow('Connection closed');
+    });
+  });
+
+  describe('messages', () => {
+    it('should carry messages in both directions', async () => {
+      const client = new LoopbackTransport(server);
+      const toServer: Array<[NetworkId, NetworkMessage]> = [];
+      const toClient: NetworkMessage[] = [];
+      server.onMessage((id, m) => toServer.push([id, m]));
+      client.onMessage((m) => toClient.push(m));
+      await client.connect();
+
+      client.send(message('input'));
+      server.send(1, message('reply'));
+      server.broadcast(message('news'));
+      await flush();
+
+      expect(toServer).toEqual([[1, { ...message('input'), senderId: 1 }]]);
+      expect(toClient.map(m => m.type)).toEqual(['reply', 'news']);
+    });
+
+    it('should stamp the sender so clients cannot impersonate others', async () => {
+      const client = new LoopbackTransport(server);
+      const received: NetworkMessage[] = [];
+      server.onMessage((_id, m) => received.push(m));
+      await client.connect();
+
+      client.send({ ...message('input'), senderId: 99 });
+      await flush();
+
+      expect(received[0].senderId).toBe(1);
+    });
+
+    it('should delay delivery by the simulated latency', async () => {
+      vi.useFakeTimers();
+      const client = new LoopbackTransport(server, { latency: 50 });
+      const received: NetworkMessage[] = [];
+      server.onMessage((_id, m) => received.push(m));
+
+      const connecting = client.connect();
+      await vi.advanceTimersByTimeAsync(50);
+      await connecting;
+
+      client.send(message('input'));
+      await vi.advanceTimersByTimeAsync(49);
+      expect(received).toHaveLength(0);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(received).toHaveLength(1);
+    });
+
+    it('should drop only unreliable messages on a lossy link', async () => {
+      const client = new LoopbackTransport(server, { packetLoss: 1 });
+      const received: NetworkMessage[] = [];
+      server.onMessage((_id, m) => received.push(m));
+      await client.connect();
+
+      client.send(message('lost', ReliabilityMode.UNRELIABLE));
+      client.send(message('kept', ReliabilityMode.RELIABLE_ORDERED));
+      await flush();
+
+      expect(received.map(m => m.type)).toEqual(['kept']);
+      expect(server.getStats(1).packetLoss).toBe(50);
+    });
+
+    it('should not send when disconnected', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const client = new LoopbackTransport(server);
+
+      client.send(message('input'));
+
+      expect(warn).toHaveBeenCalledWith('Cannot send: transport is not connected');
+      warn.mockRestore();
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should notify the server when the client disconnects', async () => {
+      const client = new LoopbackTransport(server);
+      const serverEvents: Array<[NetworkId, DisconnectReason]> = [];
+      const clientEvents: DisconnectReason[] = [];
+      server.onDisconnect((id, reason) => serverEvents.push([id, reason]));
+      client.onDisconnect((reason) => clientEvents.push(reason));
+      await client.connect();
+
+      client.disconnect();
+
+      expect(serverEvents).toEqual([[1, 'client']]);
+      expect(clientEvents).toEqual(['client']);
+      expect(client.getState()).toBe('disconnected');
+      expect(server.getClients()).toEqual([]);
+    });
+
+    it('should notify the client when the server disconnects it', async () => {
+      const client = new LoopbackTransport(server);
+      const clientEvents: DisconnectReason[] = [];
+      client.onDisconnect((reason) => clientEvents.push(reason));
+      await client.connect();
+
+      server.disconnect(1);
+
+      expect(clientEvents).toEqual(['server']);
+      expect(client.getClientId()).toBeNull();
+    });
+
+    it('should disconnect everyone when the server stops', async () => {
+      const clients = [new LoopbackTransport(server), new LoopbackTransport(server)];
+      await Promise.all(clients.map(client => client.connect()));
+
+      await server.stop();
+
+      expect(clients.map(client => client.getState())).toEqual(['disconnected', 'disconnected']);
+    });
+
+    it('should discard frames still in flight', async () => {
+      const client = new LoopbackTransport(server);
+      const received: NetworkMessage[] = [];
+      server.onMessage((_id, m) => received.push(m));
+      await client.connect();
+
+      client.send(message('input'));
+      client.disconnect();
+      await flush();
+
+      expect(received).toHaveLength(0);
+    });
+
+    it('should time out when the link goes silent', async () => {
+      vi.useFakeTimers();
+      let linkDown = false;
+      const client = new LoopbackTransport(server, {
+        heartbeatInterval: 100,
+        timeout: 300,
+        packetLoss: 0.5,
+        random: () => (linkDown ? 0 : 1)
+      });
+      const clientEvents: DisconnectReason[] = [];
+      client.onDisconnect((reason) => clientEvents.push(reason));
+      const connecting = client.connect();
+      await vi.advanceTimersByTimeAsync(0);
+      await connecting;
+
+      // Drop all heartbeats from now on
+      linkDown = true;
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(clientEvents).toEqual(['timeout']);
+      expect(client.getState()).toBe('disconnected');
+    });
+  });
+
+  describe('statistics', () => {
+    it('should measure round-trip time from heartbeats', async () => {
+      vi.useFakeTimers();
+      const client = new LoopbackTransport(server, { latency: 20, heartbeatInterval: 100 });
+      const connecting = client.connect();
+      await vi.advanceTimersByTimeAsync(20);
+      await connecting;
+
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(client.getStats().rtt).toBe(40);
+    });
+
+    it('should combine server stats across clients', async () => {
+      const first = new LoopbackTransport(server);
+      const second = new LoopbackTransport(server);
+      await first.connect();
+      await second.connect();
+
+      server.broadcast(message('news'));
+
+      expect(server.getStats().updatesSent).toBe(2);
+      expect(server.getStats(1).updatesSent).toBe(1);
+      expect(server.getStats(99).updatesSent).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Transport Connection Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TransportConnection, combineStats } from '../../src/transport/TransportConnection';
+import { ReliabilityMode } from '../../src/types';
+import type { NetworkMessage } from '../../src/types';
+import type { TransportFrame } from '../../src/transport/types';
+
+const options = { heartbeatInterval: 100, timeout: 500 };
+
+function message(type: string): NetworkMessage {
+  return { type, payload: { value: 1 }, reliability: ReliabilityMode.RELIABLE };
+}
+
+describe('TransportConnection', () => {
+  let sent: string[];
+  let received: NetworkMessage[];
+  let onTimeout: ReturnType<typeof vi.fn>;
+  let connection: TransportConnection;
+
+  beforeEach(() => {
+    sent = [];
+    received = [];
+    onTimeout = vi.fn();
+    connection = new TransportConnection(
+      (data) => sent.push(data),
+      { onMessage: (m) => received.push(m), onTimeout },
+      options
+    );
+  });
+
+  afterEach(() => {
+    connection.stop();
+    vi.useRealTimers();
+  });
+
+  describe('framing', () => {
+    it('should number outgoing frames', () => {
+      connection.send(message('a'));
+      connection.send(message('b'));
+
+      const frames = sent.map(data => JSON.parse(data) as TransportFrame);
+      expect(frames.map(f => f.seq)).toEqual([1, 2]);
+      expect(frames[0]).toMatchObject({ kind: 'message', message: { type: 'a' } });
+    });
+
+    it('should deliver received messages', () => {
+      connection.receive(JSON.stringify({ kind: 'message', seq: 1, message: message('hello') }));
+
+      expect(received).toEqual([message('hello')]);
+    });
+
+    it('should answer pings with pongs', () => {
+      connection.receive(JSON.stringify({ kind: 'ping', seq: 1, sentAt: 42 }));
+
+      expect(JSON.parse(sent[0])).toEqual({ kind: 'pong', seq: 1, sentAt: 42 });
+    });
+
+    it('should report welcome frames', () => {
+      const onWelcome = vi.fn();
+      const client = new TransportConnection(() => {}, { onMessage: () => {}, onWelcome, onTimeout }, options);
+
+      client.receive(JSON.stringify({ kind: 'welcome', seq: 1, clientId: 7 }));
+
+      expect(onWelcome).toHaveBeenCalledWith(7);
+    });
+
+    it('should drop malformed frames', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      connection.receive('not json');
+      connection.receive(JSON.stringify({ kind: 'message', seq: 1 }));
+      connection.receive(JSON.stringify({ kind: 'unknown', seq: 2 }));
+      connection.receive(JSON.stringify({ kind: 'ping', seq: 0, sentAt: 1 }));
+
+      expect(received).toHaveLength(0);
+      expect(warn).toHaveBeenCalledTimes(4);
+      warn.mockRestore();
+    });
+  });
+
+  describe('statistics', () => {
+    it('should count bytes and updates', () => {
+      connection.send(message('out'));
+      const incoming = JSON.stringify({ kind: 'message', seq: 1, message: message('in') });
+      connection.receive(incoming);
+
+      const stats = connection.getStats();
+      expect(stats.bytesSent).toBe(sent[0].length);
+      expect(stats.bytesReceived).toBe(incoming.length);
+      expect(stats.outboundBPS).toBe(sent[0].length);
+      expect(stats.inboundBPS).toBe(incoming.length);
+      expect(stats.updatesSent).toBe(1);
+      expect(stats.updatesReceived).toBe(1);
+    });
+
+    it('should drop old samples from bytes per second', () => {
+      vi.useFakeTimers();
+      connection.send(message('out'));
+
+      vi.advanceTimersByTime(1500);
+
+      expect(connection.getStats().outboundBPS).toBe(0);
+      expect(connection.getStats().bytesSent).toBeGreaterThan(0);
+    });
+
+    it('should measure packet loss from sequence gaps', () => {
+      const frame = (seq: number) => JSON.stringify({ kind: 'message', seq, message: message('m') });
+
+      connection.receive(frame(1));
+      connection.receive(frame(4));
+      expect(connection.getStats().packetLoss).toBe(50);
+
+      // Late frame fills a gap
+      connection.receive(frame(2));
+      expect(connection.getStats().packetLoss).toBe(25);
+    });
+
+    it('should measure round-trip time from pongs', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1000);
+
+      connection.receive(JSON.stringify({ kind: 'pong', seq: 1, sentAt: 960 }));
+
+      expect(connection.getStats().rtt).toBe(40);
+    });
+  });
+
+  describe('heartbeats', () => {
+    it('should send pings while the peer is alive', () => {
+      vi.useFakeTimers();
+      connection.start();
+
+      vi.advanceTimersByTime(250);
+
+      const kinds = sent.map(data => (JSON.parse(data) as TransportFrame).kind);
+      expect(kinds).toEqual(['ping', 'ping']);
+      expect(onTimeout).not.toHaveBeenCalled();
+    });
+
+    it('should time out a silent peer', () => {
+      vi.useFakeTimers();
+      connection.start();
+
+      vi.advanceTimersByTime(700);
+
+      expect(onTimeout).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not time out while frames arrive', () => {
+      vi.useFakeTimers();
+      connection.start();
+
+      for (let seq = 1; seq <= 10; seq++) {
+        vi.advanceTimersByTime(100);
+        connection.receive(JSON.stringify({ kind: 'pong', seq, sentAt: Date.now() }));
+      }
+
+      expect(onTimeout).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('combineStats', () => {
+    it('should sum traffic and average RTT and loss', () => {
+      const base = connection.getStats();
+      const combined = combineStats([
+        { ...base, bytesSent: 10, rtt: 20, packetLoss: 10 },
+        { ...base, bytesSent: 5, rtt: 40, packetLoss: 0 }
+      ]);
+
+      expect(combined.bytesSent).toBe(15);
+      expect(combined.rtt).toBe(30);
+      expect(combined.packetLoss).toBe(5);
+    });
+
+    it('should return zeroed stats for no connections', () => {
+      expect(combineStats([])).toMatchObject({ bytesSent: 0, rtt: 0, packetLoss: 0 });
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * WebSocket Transport Tests
+ *
+ * Runs a real server on a free localhost port.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WebSocket } from 'ws';
+import { WebSocketTransport } from '../../src/transport/WebSocketTransport';
+import { WebSocketServerTransport } from '../../src/transport/WebSocketServerTransport';
+import { ReliabilityMode } from '../../src/types';
+import type { NetworkId, NetworkMessage } from '../../src/types';
+import type { DisconnectReason } from '../../src/transport/types';
+
+function message(type: string): NetworkMessage {
+  return { type, payload: { value: 1 }, reliability: ReliabilityMode.RELIABLE_ORDERED };
+}
+
+async function waitUntil(predicate: () => boolean, timeout = 1000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('WebSocketTransport', () => {
+  let server: WebSocketServerTransport;
+  let url: string;
+  const clients: WebSocketTransport[] = [];
+
+  function createClient(options: Partial<ConstructorParameters<typeof WebSocketTransport>[0]> = {}) {
+    const client = new WebSocketTransport({ url, WebSocket, ...options });
+    clients.push(client);
+    return client;
+  }
+
+  beforeEach(async () => {
+    server = new WebSocketServerTransport({ port: 0, heartbeatInterval: 50, timeout: 1000 });
+    await server.start();
+    url = `ws://127.0.0.1:${server.getPort()}`;
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      client.disconnect();
+    }
+    await server.stop();
+  });
+
+  it('should connect and exchange messages', async () => {
+    const client = createClient();
+    const toServer: Array<[NetworkId, NetworkMessage]> = [];
+    const toClient: NetworkMessage[] = [];
+    server.onMessage((id, m) => toServer.push([id, m]));
+    client.onMessage((m) => toClient.push(m));
+
+    await client.connect();
+    client.send(message('input'));
+    server.broadcast(message('news'));
+    await waitUntil(() => toServer.length === 1 && toClient.length === 1);
+
+    expect(client.getClientId()).toBe(1);
+    expect(toServer).toEqual([[1, { ...message('input'), senderId: 1 }]]);
+    expect(toClient).toEqual([message('news')]);
+  });
+
+  it('should populate stats on both ends', async () => {
+    const client = createClient({ heartbeatInterval: 20 });
+    await client.connect();
+
+    client.send(message('input'));
+    await waitUntil(() => server.getStats(1).updatesReceived === 1 && client.getStats().rtt > 0);
+
+    expect(client.getStats().bytesSent).toBeGreaterThan(0);
+    expect(client.getStats().packetLoss).toBe(0);
+    expect(server.getStats().bytesReceived).toBeGreaterThan(0);
+  });
+
+  it('should report disconnects on both ends', async () => {
+    const first = createClient();
+    const second = createClient();
+    const serverEvents: Array<[NetworkId, DisconnectReason]> = [];
+    const clientEvents: DisconnectReason[] = [];
+    server.onDisconnect((id, reason) => serverEvents.push([id, reason]));
+    second.onDisconnect((reason) => clientEvents.push(reason));
+    await first.connect();
+    await second.connect();
+
+    first.disconnect();
+    server.disconnect(2);
+    await waitUntil(() => serverEvents.length === 2 && clientEvents.length === 1);
+
+    expect(serverEvents).toHaveLength(2);
+    expect(serverEvents).toContainEqual([1, 'client']);
+    expect(serverEvents).toContainEqual([2, 'server']);
+    expect(clientEvents).toEqual(['server']);
+    expect(server.getClients()).toEqual([]);
+  });
+
+  it('should time out a client that stops responding', async () => {
+    const quick = new WebSocketServerTransport({ port: 0, heartbeatInterval: 20, timeout: 60 });
+    await quick.start();
+    const quickEvents: DisconnectReason[] = [];
+    quick.onDisconnect((_id, reason) => quickEvents.push(reason));
+
+    // Raw socket that never answers heartbeats
+    const silent = new WebSocket(`ws://127.0.0.1:${quick.getPort()}`);
+    await waitUntil(() => quickEvents.length === 1);
+
+    expect(quickEvents).toEqual(['timeout']);
+    silent.terminate();
+    await quick.stop();
+  });
+
+  it('should reject when the server is unreachable', async () => {
+    const port = server.getPort();
+    await server.stop();
+    const client = createClient({ url: `ws://127.0.0.1:${port}` });
+
+    await expect(client.connect()).rejects.toThrow(/Failed to connect|closed/);
+    expect(client.getState()).toBe('disconnected');
+  });
+
+  it('should refuse to start twice', async () => {
+    await expect(server.start()).rejects.toThrow('WebSocket server is already running');
+  });
+
+  it('should require a WebSocket implementation', async () => {
+    const client = new WebSocketTransport({ url });
+    const original = (globalThis as { WebSocket?: unknown }).WebSocket;
+    delete (globalThis as { WebSocket?: unknown }).WebSocket;
+
+    try {
+      await expect(client.connect()).rejects.toThrow('WebSocket is not available; pass options.WebSocket');
+    } finally {
+      if (original) {
+        (globalThis as { WebSocket?: unknown }).WebSocket = original;
+      }
+    }
+  });
+});
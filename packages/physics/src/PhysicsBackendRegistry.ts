@@ -0,0 +1,101 @@
+/**
+ * Physics Backend Registry
+ *
+ * Maps backend names (e.g. PhysicsConfig.backend) to engine factories
+ */
+
+import type { IPhysicsEngine } from './types';
+
+/**
+ * Creates an uninitialized physics engine
+ * (PhysicsWorld.create() initializes it)
+ */
+export type PhysicsBackendFactory = () => IPhysicsEngine | Promise<IPhysicsEngine>;
+
+/**
+ * Registry of physics engine backends by name
+ *
+ * Built-in backends are registered on the shared `physicsBackends` instance;
+ * register custom IPhysicsEngine implementations there to select them by name.
+ *
+ * @example
+ * ```typescript
+ * physicsBackends.register('box2d', () => new Box2DPhysicsEngine());
+ * const world = await PhysicsWorld.create(await physicsBackends.create('box2d'));
+ * ```
+ */
+export class PhysicsBackendRegistry {
+  private factories = new Map<string, PhysicsBackendFactory>();
+
+  /**
+   * Register a backend
+   *
+   * @param name - Backend name
+   * @param factory - Creates an engine instance
+   * @throws Error if a backend with the same name is already registered
+   */
+  register(name: string, factory: PhysicsBackendFactory): void {
+    if (this.factories.has(name)) {
+      throw new Error(`Physics backend '${name}' is already registered`);
+    }
+    this.factories.set(name, factory);
+  }
+
+  /**
+   * Unregister a backend
+   *
+   * @returns true if the backend was registered
+   */
+  unregister(name: string): boolean {
+    return this.factories.delete(name);
+  }
+
+  /**
+   * Check if a backend is registered
+   */
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  /**
+   * Get registered backend names in registration order
+   */
+  list(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Create an engine for a backend
+   *
+   * @param name - Backend name
+   * @throws Error if the backend is not registered
+   */
+  async create(name: string): Promise<IPhysicsEngine> {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown physics backend '${name}' (available: ${this.list().join(', ')})`);
+    }
+    return factory();
+  }
+}
+
+/**
+ * Shared registry with the built-in backends ('rapier', 'cannon', 'mock')
+ *
+ * Built-in engines are imported when first created, so bundlers can split
+ * each backend (and its physics library) into its own chunk.
+ */
+export const physicsBackends = new PhysicsBackendRegistry();
+
+physicsBackends.register('rapier', async () => {
+  const { RapierPhysicsEngine } = await import('./engines/RapierPhysicsEngine');
+  return new RapierPhysicsEngine();
+});
+physicsBackends.register('cannon', async () => {
+  const { CannonPhysicsEngine } = await import('./engines/CannonPhysicsEngine');
+  return new CannonPhysicsEngine();
+});
+physicsBackends.register('mock', async () => {
+  const { MockPhysicsEngine } = await import('./engines/MockPhysicsEngine');
+  return new MockPhysicsEngine();
+});
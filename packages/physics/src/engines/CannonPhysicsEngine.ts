@@ -0,0 +1,1086 @@
+/**
+ * cannon-es Physics Engine Implementation
+ *
+ * Pure JavaScript 3D physics using cannon-es (no WASM)
+ *
+ * Differences from the Rapier backend:
+ * - CONVEX_HULL shapes, PRISMATIC and GENERIC joints are not supported (creation throws)
+ * - Revolute joint limits and CCD are ignored
+ * - Rigid body mass is the body's mass (Rapier uses it as collider density)
+ * - FIXED joints lock the bodies' relative rotation at creation time;
+ *   anchor rotations are ignored
+ */
+
+import * as CANNON from 'cannon-es';
+import type {
+  IPhysicsEngine,
+  PhysicsWorldConfig,
+  RigidBodyDescriptor,
+  RigidBodyHandle,
+  Vector3,
+  Quaternion,
+  CollisionEvent,
+  RaycastHit,
+  CollisionShape,
+  JointDescriptor,
+  JointHandle,
+  JointMotor,
+  SerializedPhysicsState,
+  SerializedRigidBody,
+  SerializedJoint,
+  JointDebugInfo,
+  DeserializationResult,
+} from '../types';
+import { RigidBodyType, CollisionShapeType, JointType } from '../types';
+import {
+  validateVector3,
+  validateQuaternion,
+  validatePositiveNumber,
+  validateNonNegativeNumber,
+  validateHandle,
+} from './validation';
+
+/** Radial segments used for cylinders, cones and capsules */
+const ROUND_SEGMENTS = 16;
+
+/** Constraint force limit when a joint has no break force */
+const DEFAULT_MAX_FORCE = 1e6;
+
+/** Rotates cannon's +Z-facing planes and heightfields to face +Y */
+const Z_UP_TO_Y_UP = new CANNON.Quaternion().setFromAxisAngle(new CANNON.Vec3(1, 0, 0), -Math.PI / 2);
+
+/**
+ * A joint is either a solver constraint or a spring applied before each step
+ */
+interface CannonJoint {
+  descriptor: JointDescriptor;
+  constraint?: CANNON.Constraint;
+  spring?: CANNON.Spring;
+}
+
+function toVec3(v: Vector3): CANNON.Vec3 {
+  return new CANNON.Vec3(v.x, v.y, v.z);
+}
+
+function toQuaternion(q: Quaternion): CANNON.Quaternion {
+  return new CANNON.Quaternion(q.x, q.y, q.z, q.w).normalize();
+}
+
+function fromVec3(v: CANNON.Vec3): Vector3 {
+  return { x: v.x, y: v.y, z: v.z };
+}
+
+/**
+ * Normalize and validate an axis vector
+ * @throws Error if axis is zero-length
+ */
+function normalizeAxis(axis: Vector3): Vector3 {
+  const length = Math.sqrt(axis.x * axis.x + axis.y * axis.y + axis.z * axis.z);
+
+  if (length < 0.0001) {
+    throw new Error(
+      `Invalid axis vector: length is ${length}. ` +
+      `Axis must be non-zero. Provided: (${axis.x}, ${axis.y}, ${axis.z})`
+    );
+  }
+
+  return { x: axis.x / length, y: axis.y / length, z: axis.z / length };
+}
+
+/**
+ * Build a Y-aligned cone (cannon-es has no cone shape, and a Cylinder with a
+ * zero top radius has degenerate faces)
+ */
+function createCone(radius: number, height: number): CANNON.ConvexPolyhedron {
+  const vertices = [new CANNON.Vec3(0, height / 2, 0)];
+  const faces: number[][] = [];
+  const base: number[] = [];
+
+  for (let i = 0; i < ROUND_SEGMENTS; i++) {
+    const theta = (2 * Math.PI * i) / ROUND_SEGMENTS;
+    vertices.push(new CANNON.Vec3(-radius * Math.sin(theta), -height / 2, radius * Math.cos(theta)));
+    base.push(i + 1);
+    faces.push([i + 1, 0, ((i + 1) % ROUND_SEGMENTS) + 1]);
+  }
+  faces.push(base);
+
+  return new CANNON.ConvexPolyhedron({ vertices, faces });
+}
+
+/**
+ * cannon-es physics engine implementation
+ */
+export class CannonPhysicsEngine implements IPhysicsEngine {
+  private world: CANNON.World | null = null;
+  private bodies = new Map<RigidBodyHandle, CANNON.Body>();
+  private bodyIdToHandle = new Map<number, RigidBodyHandle>(); // cannon body id -> our handle
+  private disabledBodies = new Set<RigidBodyHandle>(); // Removed from the world until re-enabled
+  private collisionEvents: CollisionEvent[] = [];
+  private eventContacts = new Map<CollisionEvent, CANNON.ContactEquation>(); // Deepest contact per event, for impulses
+  private nextHandle: RigidBodyHandle = 1;
+  private static readonly MAX_HANDLE = 2147483647; // 2^31 - 1 (max safe positive integer for handle)
+
+  // Joint constraint tracking
+  private joints = new Map<JointHandle, CannonJoint>();
+  private nextJointHandle: JointHandle = 1;
+
+  // Simulation tracking for determinism
+  private simulationTime: number = 0;
+  private stepCount: number = 0;
+  private lastTimestep: number = 1 / 60;
+
+  // Descriptor storage for deterministic serialization
+  private bodyDescriptors = new Map<RigidBodyHandle, RigidBodyDescriptor>();
+
+  initialize(config: PhysicsWorldConfig): void {
+    const gravity = config.gravity || { x: 0, y: -9.81, z: 0 };
+
+    const solver = new CANNON.GSSolver();
+    solver.iterations = config.solverIterations ?? 10;
+
+    this.world = new CANNON.World({
+      gravity: toVec3(gravity),
+      allowSleep: config.enableSleeping ?? true,
+      solver,
+    });
+    this.world.broadphase = new CANNON.SAPBroadphase(this.world);
+    this.world.addEventListener('beginContact', this.onBeginContact);
+    this.lastTimestep = config.timestep ?? 1 / 60;
+  }
+
+  step(deltaTime: number): void {
+    if (!this.world) {
+      throw new Error('Physics engine not initialized');
+    }
+
+    // Collision events are collected by onBeginContact during world.step()
+    this.collisionEvents.length = 0;
+    this.eventContacts.clear();
+
+    // Springs are forces, not constraints: apply them before integrating
+    for (const joint of this.joints.values()) {
+      joint.spring?.applyForce();
+    }
+
+    // Contact impulses reported during this step are scaled by its timestep
+    this.lastTimestep = deltaTime;
+    this.world.step(deltaTime);
+
+    // beginContact fires before the solver runs, so multipliers are only final now
+    for (const [collision, contact] of this.eventContacts) {
+      collision.impulse = Math.abs(contact.multiplier) * this.lastTimestep;
+    }
+
+    this.simulationTime += deltaTime;
+    this.stepCount++;
+  }
+
+  createRigidBody(descriptor: RigidBodyDescriptor): RigidBodyHandle {
+    if (!this.world) {
+      throw new Error('Physics engine not initialized');
+    }
+
+    // Validate descriptor parameters
+    if (descriptor.position) {
+      validateVector3(descriptor.position, 'descriptor.position');
+    }
+    if (descriptor.rotation) {
+      validateQuaternion(descriptor.rotation, 'descriptor.rotation');
+    }
+    if (descriptor.linearVelocity) {
+      validateVector3(descriptor.linearVelocity, 'descriptor.linearVelocity');
+    }
+    if (descriptor.angularVelocity) {
+      validateVector3(descriptor.angularVelocity, 'descriptor.angularVelocity');
+    }
+    if (descriptor.mass !== undefined) {
+      validatePositiveNumber(descriptor.mass, 'descriptor.mass');
+    }
+    if (descriptor.linearDamping !== undefined) {
+      validateNonNegativeNumber(descriptor.linearDamping, 'descriptor.linearDamping');
+    }
+    if (descriptor.angularDamping !== undefined) {
+      validateNonNegativeNumber(descriptor.angularDamping, 'descriptor.angularDamping');
+    }
+    if (descriptor.friction !== undefined) {
+      validateNonNegativeNumber(descriptor.friction, 'descriptor.friction');
+    }
+    if (descriptor.restitution !== undefined) {
+      validateNonNegativeNumber(descriptor.restitution, 'descriptor.restitution');
+    }
+
+    // Check for handle overflow before allocation
+    if (this.nextHandle >= CannonPhysicsEngine.MAX_HANDLE) {
+      throw new Error('Physics engine handle limit reached. Cannot create more rigid bodies.');
+    }
+
+    const body = this.createBody(descriptor);
+    this.addShape(body, descriptor.collisionShape);
+
+    const handle = this.nextHandle++;
+    this.world.addBody(body);
+
+    // Store references
+    this.bodies.set(handle, body);
+    this.bodyIdToHandle.set(body.id, handle);
+
+    // Store descriptor for deterministic serialization
+    this.bodyDescriptors.set(handle, descriptor);
+
+    return handle;
+  }
+
+  removeRigidBody(handle: RigidBodyHandle): void {
+    if (!this.world) return;
+
+    const body = this.bodies.get(handle);
+    if (!body) return;
+
+    // Constraints keep acting on removed bodies in cannon-es, so drop attached joints
+    for (const [jointHandle, joint] of this.joints) {
+      if (joint.descriptor.bodyA === handle || joint.descriptor.bodyB === handle) {
+        this.removeJoint(jointHandle);
+      }
+    }
+
+    if (!this.disabledBodies.delete(handle)) {
+      this.world.removeBody(body);
+    }
+    this.bodies.delete(handle);
+    this.bodyIdToHandle.delete(body.id);
+    this.bodyDescriptors.delete(handle);
+  }
+
+  getPosition(handle: RigidBodyHandle): Vector3 {
+    return fromVec3(this.getBody(handle).position);
+  }
+
+  setPosition(handle: RigidBodyHandle, position: Vector3): void {
+    validateHandle(handle, 'handle');
+    validateVector3(position, 'position');
+
+    const body = this.getBody(handle);
+    body.position.set(position.x, position.y, position.z);
+    body.previousPosition.copy(body.position);
+    body.interpolatedPosition.copy(body.position);
+    body.aabbNeedsUpdate = true;
+    body.wakeUp();
+  }
+
+  getRotation(handle: RigidBodyHandle): Quaternion {
+    const q = this.getBody(handle).quaternion;
+    return { x: q.x, y: q.y, z: q.z, w: q.w };
+  }
+
+  setRotation(handle: RigidBodyHandle, rotation: Quaternion): void {
+    validateHandle(handle, 'handle');
+    validateQuaternion(rotation, 'rotation');
+
+    const body = this.getBody(handle);
+    body.quaternion.copy(toQuaternion(rotation));
+    body.previousQuaternion.copy(body.quaternion);
+    body.interpolatedQuaternion.copy(body.quaternion);
+    body.aabbNeedsUpdate = true;
+    body.wakeUp();
+  }
+
+  getLinearVelocity(handle: RigidBodyHandle): Vector3 {
+    return fromVec3(this.getBody(handle).velocity);
+  }
+
+  setLinearVelocity(handle: RigidBodyHandle, velocity: Vector3): void {
+    validateHandle(handle, 'handle');
+    validateVector3(velocity, 'velocity');
+
+    const body = this.getBody(handle);
+    body.velocity.set(velocity.x, velocity.y, velocity.z);
+    body.wakeUp();
+  }
+
+  getAngularVelocity(handle: RigidBodyHandle): Vector3 {
+    return fromVec3(this.getBody(handle).angularVelocity);
+  }
+
+  setAngularVelocity(handle: RigidBodyHandle, velocity: Vector3): void {
+    validateHandle(handle, 'handle');
+    validateVector3(velocity, 'velocity');
+
+    const body = this.getBody(handle);
+    body.angularVelocity.set(velocity.x, velocity.y, velocity.z);
+    body.wakeUp();
+  }
+
+  applyForce(handle: RigidBodyHandle, force: Vector3): void {
+    validateHandle(handle, 'handle');
+    validateVector3(force, 'force');
+
+    const body = this.getBody(handle);
+    body.wakeUp();
+    body.applyForce(toVec3(force));
+  }
+
+  applyImpulse(handle: RigidBodyHandle, impulse: Vector3): void {
+    validateHandle(handle, 'handle');
+    validateVector3(impulse, 'impulse');
+
+    const body = this.getBody(handle);
+    body.wakeUp();
+    body.applyImpulse(toVec3(impulse));
+  }
+
+  applyTorque(handle: RigidBodyHandle, torque: Vector3): void {
+    validateHandle(handle, 'handle');
+    validateVector3(torque, 'torque');
+
+    const body = this.getBody(handle);
+    body.wakeUp();
+    body.applyTorque(toVec3(torque));
+  }
+
+  raycast(origin: Vector3, direction: Vector3, maxDistance: number): RaycastHit | null {
+    if (!this.world) return null;
+
+    validateVector3(origin, 'origin');
+    validateVector3(direction, 'direction');
+    validatePositiveNumber(maxDistance, 'maxDistance');
+
+    const length = Math.sqrt(direction.x * direction.x + direction.y * direction.y + direction.z * direction.z);
+    if (length < 1e-12) return null;
+
+    // cannon-es casts segments, not rays
+    const from = toVec3(origin);
+    const to = new CANNON.Vec3(
+      origin.x + (direction.x / length) * maxDistance,
+      origin.y + (direction.y / length) * maxDistance,
+      origin.z + (direction.z / length) * maxDistance
+    );
+
+    const result = new CANNON.RaycastResult();
+    if (!this.world.raycastClosest(from, to, { skipBackfaces: true }, result) || !result.body) {
+      return null;
+    }
+
+    const bodyHandle = this.bodyIdToHandle.get(result.body.id);
+    if (bodyHandle === undefined) return null;
+
+    return {
+      body: bodyHandle,
+      point: fromVec3(result.hitPointWorld),
+      normal: fromVec3(result.hitNormalWorld),
+      distance: result.distance,
+    };
+  }
+
+  getCollisionEvents(): CollisionEvent[] {
+    return this.collisionEvents;
+  }
+
+  setGravity(gravity: Vector3): void {
+    if (!this.world) return;
+    validateVector3(gravity, 'gravity');
+    this.world.gravity.set(gravity.x, gravity.y, gravity.z);
+  }
+
+  setEnabled(handle: RigidBodyHandle, enabled: boolean): void {
+    const body = this.bodies.get(handle);
+    if (!body || !this.world) return;
+
+    // cannon-es has no per-body enabled flag: disabled bodies leave the world
+    if (enabled && this.disabledBodies.delete(handle)) {
+      this.world.addBody(body);
+    } else if (!enabled && !this.disabledBodies.has(handle)) {
+      this.world.removeBody(body);
+      this.disabledBodies.add(handle);
+    }
+  }
+
+  isSleeping(handle: RigidBodyHandle): boolean {
+    const body = this.bodies.get(handle);
+    if (!body) return false;
+
+    return body.sleepState === CANNON.Body.SLEEPING;
+  }
+
+  wakeUp(handle: RigidBodyHandle): void {
+    const body = this.bodies.get(handle);
+    if (!body) return;
+
+    body.wakeUp();
+  }
+
+  dispose(): void {
+    if (this.world) {
+      this.world.removeEventListener('beginContact', this.onBeginContact);
+      this.world = null;
+    }
+    this.bodies.clear();
+    this.bodyIdToHandle.clear();
+    this.disabledBodies.clear();
+    this.bodyDescriptors.clear();
+    this.joints.clear();
+    this.collisionEvents = [];
+    this.eventContacts.clear();
+  }
+
+  /**
+   * Look up a body or throw for unknown handles
+   */
+  private getBody(handle: RigidBodyHandle): CANNON.Body {
+    const body = this.bodies.get(handle);
+    if (!body) throw new Error(`Invalid body handle: ${handle}`);
+    return body;
+  }
+
+  /**
+   * Create a cannon-es body (without shapes) from our descriptor
+   */
+  private createBody(descriptor: RigidBodyDescriptor): CANNON.Body {
+    let type: CANNON.BodyType;
+    switch (descriptor.type) {
+      case RigidBodyType.KINEMATIC:
+        type = CANNON.Body.KINEMATIC;
+        break;
+      case RigidBodyType.STATIC:
+        type = CANNON.Body.STATIC;
+        break;
+      default:
+        type = CANNON.Body.DYNAMIC;
+    }
+
+    const body = new CANNON.Body({
+      type,
+      // Only dynamic bodies have mass in cannon-es
+      mass: type === CANNON.Body.DYNAMIC ? descriptor.mass ?? 1.0 : 0,
+      material: new CANNON.Material({
+        friction: descriptor.friction ?? 0.5,
+        restitution: descriptor.restitution ?? 0.3,
+      }),
+      linearDamping: descriptor.linearDamping ?? 0,
+      angularDamping: descriptor.angularDamping ?? 0,
+      isTrigger: descriptor.isSensor ?? false,
+    });
+
+    if (descriptor.position) {
+      body.position.copy(toVec3(descriptor.position));
+    }
+    if (descriptor.rotation) {
+      body.quaternion.copy(toQuaternion(descriptor.rotation));
+    }
+    if (descriptor.linearVelocity) {
+      body.velocity.copy(toVec3(descriptor.linearVelocity));
+    }
+    if (descriptor.angularVelocity) {
+      body.angularVelocity.copy(toVec3(descriptor.angularVelocity));
+    }
+    if (descriptor.collisionGroups !== undefined && descriptor.collisionMask !== undefined) {
+      body.collisionFilterGroup = descriptor.collisionGroups & 0xFFFF;
+      body.collisionFilterMask = descriptor.collisionMask & 0xFFFF;
+    }
+
+    return body;
+  }
+
+  /**
+   * Add a collision shape to a body
+   *
+   * @param body - Body to add the shape to
+   * @param shape - Shape descriptor
+   * @param offset - Shape position relative to the body
+   * @param orientation - Shape rotation relative to the body
+   */
+  private addShape(
+    body: CANNON.Body,
+    shape: CollisionShape,
+    offset = new CANNON.Vec3(),
+    orientation = new CANNON.Quaternion()
+  ): void {
+    switch (shape.type) {
+      case CollisionShapeType.BOX:
+        if (!shape.halfExtents) throw new Error('Box shape requires halfExtents');
+        body.addShape(new CANNON.Box(toVec3(shape.halfExtents)), offset, orientation);
+        break;
+
+      case CollisionShapeType.SPHERE:
+        if (!shape.radius) throw new Error('Sphere shape requires radius');
+        body.addShape(new CANNON.Sphere(shape.radius), offset, orientation);
+        break;
+
+      case CollisionShapeType.CAPSULE: {
+        if (!shape.height || !shape.radius) {
+          throw new Error('Capsule shape requires height and radius');
+        }
+        // No capsule shape in cannon-es: a cylinder capped with two spheres
+        const cap = orientation.vmult(new CANNON.Vec3(0, shape.height / 2, 0));
+        body.addShape(new CANNON.Cylinder(shape.radius, shape.radius, shape.height, ROUND_SEGMENTS), offset, orientation);
+        body.addShape(new CANNON.Sphere(shape.radius), offset.vadd(cap), orientation);
+        body.addShape(new CANNON.Sphere(shape.radius), offset.vsub(cap), orientation);
+        break;
+      }
+
+      case CollisionShapeType.CYLINDER:
+        if (!shape.height || !shape.radius) {
+          throw new Error('Cylinder shape requires height and radius');
+        }
+        body.addShape(new CANNON.Cylinder(shape.radius, shape.radius, shape.height, ROUND_SEGMENTS), offset, orientation);
+        break;
+
+      case CollisionShapeType.CONE:
+        if (!shape.height || !shape.radius) {
+          throw new Error('Cone shape requires height and radius');
+        }
+        body.addShape(createCone(shape.radius, shape.height), offset, orientation);
+        break;
+
+      case CollisionShapeType.PLANE:
+        // Infinite plane, normal is (0, 1, 0) pointing up
+        body.addShape(new CANNON.Plane(), offset, orientation.mult(Z_UP_TO_Y_UP));
+        break;
+
+      case CollisionShapeType.MESH:
+        if (!shape.vertices || !shape.indices) {
+          throw new Error('MESH collision shape requires vertices and indices');
+        }
+        body.addShape(new CANNON.Trimesh(Array.from(shape.vertices), Array.from(shape.indices)), offset, orientation);
+        break;
+
+      case CollisionShapeType.CONVEX_HULL:
+        throw new Error('CONVEX_HULL collision shapes are not supported by the cannon-es backend');
+
+      case CollisionShapeType.HEIGHTFIELD: {
+        if (!shape.heights || !shape.rows || !shape.cols) {
+          throw new Error('HEIGHTFIELD collision shape requires heights, rows, and cols');
+        }
+        const scale = shape.scale || { x: 1, y: 1, z: 1 };
+        validateVector3(scale, 'heightfield scale');
+        this.addHeightfield(body, shape.heights, shape.rows, shape.cols, scale, offset, orientation);
+        break;
+      }
+
+      case CollisionShapeType.COMPOUND:
+        if (!shape.shapes || shape.shapes.length === 0) {
+          throw new Error('COMPOUND shape requires at least one child shape');
+        }
+
+        for (const childShape of shape.shapes) {
+          // Match the Rapier backend: no nested compounds
+          if (childShape.shape.type === CollisionShapeType.COMPOUND) {
+            throw new Error('COMPOUND shapes cannot contain other COMPOUND shapes (recursive nesting not supported)');
+          }
+
+          validateVector3(childShape.position, 'compound child shape position');
+          validateQuaternion(childShape.rotation, 'compound child shape rotation');
+
+          this.addShape(
+            body,
+            childShape.shape,
+            offset.vadd(orientation.vmult(toVec3(childShape.position))),
+            orientation.mult(toQuaternion(childShape.rotation))
+          );
+        }
+        break;
+
+      default:
+        throw new Error(`Unknown collision shape type: ${shape.type}`);
+    }
+  }
+
+  /**
+   * Add a heightfield laid out like Rapier's: (rows + 1) x (cols + 1) heights in
+   * column-major order, rows along Z, cols along X, centered on the body and
+   * spanning scale.x by scale.z
+   */
+  private addHeightfield(
+    body: CANNON.Body,
+    heights: Float32Array,
+    rows: number,
+    cols: number,
+    scale: Vector3,
+    offset: CANNON.Vec3,
+    orientation: CANNON.Quaternion
+  ): void {
+    if (heights.length !== (rows + 1) * (cols + 1)) {
+      throw new Error(`HEIGHTFIELD requires (rows + 1) * (cols + 1) = ${(rows + 1) * (cols + 1)} heights, got ${heights.length}`);
+    }
+
+    const elementSize = scale.x / cols;
+    if (Math.abs(elementSize - scale.z / rows) > 1e-6) {
+      throw new Error('HEIGHTFIELD cells must be square for the cannon-es backend (scale.x / cols must equal scale.z / rows)');
+    }
+
+    // cannon-es heightfields start at the origin in local XY with heights along Z.
+    // After rotating Z up to Y, local +Y points along world -Z, so rows are reversed.
+    const data: number[][] = [];
+    for (let j = 0; j <= cols; j++) {
+      const column: number[] = [];
+      for (let i = rows; i >= 0; i--) {
+        column.push(heights[i + j * (rows + 1)] * scale.y);
+      }
+      data.push(column);
+    }
+
+    const corner = orientation.vmult(new CANNON.Vec3(-scale.x / 2, 0, scale.z / 2));
+    body.addShape(
+      new CANNON.Heightfield(data, { elementSize }),
+      offset.vadd(corner),
+      orientation.mult(Z_UP_TO_Y_UP)
+    );
+  }
+
+  /**
+   * Record a collision start event (called by cannon-es during world.step())
+   */
+  private onBeginContact = (event: { bodyA: CANNON.Body | null; bodyB: CANNON.Body | null }): void => {
+    if (!this.world || !event.bodyA || !event.bodyB) return;
+
+    const bodyA = this.bodyIdToHandle.get(event.bodyA.id);
+    const bodyB = this.bodyIdToHandle.get(event.bodyB.id);
+    if (bodyA === undefined || bodyB === undefined) return;
+
+    const collision: CollisionEvent = {
+      bodyA,
+      bodyB,
+      contactPoint: { x: 0, y: 0, z: 0 },
+      contactNormal: { x: 0, y: 1, z: 0 },
+      penetrationDepth: 0,
+      impulse: 0,
+    };
+
+    // Unlike Rapier, cannon-es keeps this step's contacts around, so report the deepest one
+    for (const contact of this.world.contacts) {
+      const flipped = contact.bi === event.bodyB && contact.bj === event.bodyA;
+      if (!flipped && (contact.bi !== event.bodyA || contact.bj !== event.bodyB)) {
+        continue;
+      }
+
+      // ni points out of bi; contact points are ri/rj relative to the body positions
+      const pointI = contact.bi.position.vadd(contact.ri);
+      const pointJ = contact.bj.position.vadd(contact.rj);
+      const depth = Math.max(0, -pointJ.vsub(pointI).dot(contact.ni));
+      if (depth < collision.penetrationDepth) {
+        continue;
+      }
+
+      const normal = flipped ? contact.ni.negate() : contact.ni;
+      collision.contactPoint = fromVec3(pointI);
+      collision.contactNormal = fromVec3(normal);
+      collision.penetrationDepth = depth;
+      this.eventContacts.set(collision, contact);
+    }
+
+    this.collisionEvents.push(collision);
+  };
+
+  // ===== Joint Constraint Methods =====
+
+  createJoint(descriptor: JointDescriptor): JointHandle {
+    if (!this.world) {
+      throw new Error('Physics engine not initialized');
+    }
+
+    const bodyA = this.bodies.get(descriptor.bodyA);
+    const bodyB = this.bodies.get(descriptor.bodyB);
+
+    if (!bodyA || !bodyB) {
+      throw new Error(`Invalid body handles: ${descriptor.bodyA}, ${descriptor.bodyB}`);
+    }
+
+    const pivotA = toVec3(descriptor.anchorA.position);
+    const pivotB = toVec3(descriptor.anchorB.position);
+    const joint: CannonJoint = { descriptor };
+
+    switch (descriptor.type) {
+      case JointType.FIXED: {
+        // LockConstraint derives its frames from the current body poses
+        const constraint = new CANNON.LockConstraint(bodyA, bodyB, { maxForce: DEFAULT_MAX_FORCE });
+        constraint.pivotA.copy(pivotA);
+        constraint.pivotB.copy(pivotB);
+        joint.constraint = constraint;
+        break;
+      }
+
+      case JointType.REVOLUTE: {
+        const axis = toVec3(normalizeAxis(descriptor.axis));
+        joint.constraint = new CANNON.HingeConstraint(bodyA, bodyB, {
+          pivotA,
+          pivotB,
+          axisA: axis,
+          axisB: axis.clone(),
+          maxForce: DEFAULT_MAX_FORCE,
+        });
+
+        if (descriptor.limits) {
+          console.warn('CannonPhysicsEngine: revolute joint limits are not supported and will be ignored');
+        }
+        break;
+      }
+
+      case JointType.SPHERICAL:
+        joint.constraint = new CANNON.PointToPointConstraint(bodyA, pivotA, bodyB, pivotB, DEFAULT_MAX_FORCE);
+        break;
+
+      case JointType.SPRING: {
+        // Validate spring parameters
+        if (descriptor.stiffness < 0) {
+          throw new Error(`Spring stiffness must be non-negative, got ${descriptor.stiffness}`);
+        }
+        if (descriptor.damping < 0) {
+          throw new Error(`Spring damping must be non-negative, got ${descriptor.damping}`);
+        }
+        if (descriptor.stiffness === 0 && descriptor.damping === 0) {
+          throw new Error('Spring must have non-zero stiffness or damping');
+        }
+
+        let restLength = descriptor.restLength ?? 0;
+        if (restLength === 0) {
+          // Use current distance between anchors as rest length
+          const anchorAWorld = bodyA.pointToWorldFrame(pivotA);
+          const anchorBWorld = bodyB.pointToWorldFrame(pivotB);
+
+          // Ensure minimum safe rest length to avoid numerical instability
+          restLength = Math.max(anchorAWorld.distanceTo(anchorBWorld), 0.01);
+        } else if (restLength < 0) {
+          throw new Error(`Spring rest length must be non-negative, got ${restLength}`);
+        }
+
+        joint.spring = new CANNON.Spring(bodyA, bodyB, {
+          restLength,
+          stiffness: descriptor.stiffness,
+          damping: descriptor.damping,
+          localAnchorA: pivotA,
+          localAnchorB: pivotB,
+        });
+        break;
+      }
+
+      case JointType.PRISMATIC:
+      case JointType.GENERIC:
+        throw new Error(`${descriptor.type} joints are not supported by the cannon-es backend`);
+
+      default:
+        throw new Error(`Unknown joint type: ${(descriptor as JointDescriptor).type}`);
+    }
+
+    if (joint.constraint) {
+      joint.constraint.collideConnected = descriptor.collideConnected ?? false;
+      this.world.addConstraint(joint.constraint);
+    }
+
+    const handle = this.nextJointHandle++;
+    this.joints.set(handle, joint);
+
+    // Apply motor if specified
+    if ('motor' in descriptor && descriptor.motor) {
+      this.setJointMotor(handle, descriptor.motor);
+    }
+
+    return handle;
+  }
+
+  removeJoint(handle: JointHandle): void {
+    if (!this.world) {
+      throw new Error('Physics engine not initialized');
+    }
+
+    const joint = this.joints.get(handle);
+    if (!joint) {
+      throw new Error(`Invalid joint handle: ${handle}`);
+    }
+
+    if (joint.constraint) {
+      this.world.removeConstraint(joint.constraint);
+    }
+    this.joints.delete(handle);
+  }
+
+  setJointMotor(handle: JointHandle, motor: JointMotor | null): void {
+    const joint = this.joints.get(handle);
+    if (!joint) {
+      throw new Error(`Invalid joint handle: ${handle}`);
+    }
+
+    // Only hinges have motors in cannon-es
+    if (!(joint.constraint instanceof CANNON.HingeConstraint)) {
+      console.warn(`setJointMotor: Joint type ${joint.descriptor.type} does not support motors`);
+      return;
+    }
+
+    if (motor === null) {
+      joint.constraint.disableMotor();
+    } else {
+      joint.constraint.enableMotor();
+      joint.constraint.setMotorSpeed(motor.targetVelocity);
+      joint.constraint.setMotorMaxForce(motor.maxForce);
+    }
+  }
+
+  /**
+   * Get current joint value (angle in radians for revolute joints, 0 otherwise)
+   *
+   * Calculated from the relative rotation of the connected bodies, as in the
+   * Rapier backend.
+   */
+  getJointValue(handle: JointHandle): number {
+    const joint = this.joints.get(handle);
+    if (!joint) {
+      throw new Error(`Invalid joint handle: ${handle}`);
+    }
+
+    const descriptor = joint.descriptor;
+    if (descriptor.type !== JointType.REVOLUTE) {
+      return 0;
+    }
+
+    const bodyA = this.bodies.get(descriptor.bodyA);
+    const bodyB = this.bodies.get(descriptor.bodyB);
+    if (!bodyA || !bodyB) {
+      return 0;
+    }
+
+    // Relative rotation = inverse(rotA) * rotB
+    const relRot = bodyA.quaternion.conjugate().mult(bodyB.quaternion);
+
+    // Convert quaternion to axis-angle representation
+    // Clamp to avoid numerical issues with acos
+    const w = Math.min(1, Math.max(-1, relRot.w));
+    const angle = 2 * Math.acos(w);
+
+    // Handle near-zero rotation
+    const sinHalfAngle = Math.sqrt(1 - w * w);
+    if (sinHalfAngle < 0.001) {
+      return 0;
+    }
+
+    // Project rotation axis onto joint constraint axis to get signed angle
+    const axis = normalizeAxis(descriptor.axis);
+    const axisDot = (relRot.x * axis.x + relRot.y * axis.y + relRot.z * axis.z) / sinHalfAngle;
+
+    return angle * Math.sign(axisDot);
+  }
+
+  getJointDebugInfo(handle: JointHandle): JointDebugInfo | null {
+    const joint = this.joints.get(handle);
+    if (!joint) {
+      return null;
+    }
+
+    const descriptor = joint.descriptor;
+    const bodyA = this.bodies.get(descriptor.bodyA);
+    const bodyB = this.bodies.get(descriptor.bodyB);
+    if (!bodyA || !bodyB) {
+      return null;
+    }
+
+    const axis = 'axis' in descriptor
+      ? fromVec3(bodyA.vectorToWorldFrame(toVec3(descriptor.axis)))
+      : undefined;
+
+    return {
+      type: descriptor.type,
+      anchorA: fromVec3(bodyA.pointToWorldFrame(toVec3(descriptor.anchorA.position))),
+      anchorB: fromVec3(bodyB.pointToWorldFrame(toVec3(descriptor.anchorB.position))),
+      axis,
+      value: this.getJointValue(handle),
+    };
+  }
+
+  /**
+   * Check joints for breaking based on force thresholds
+   *
+   * Constraint forces come from the solver (the largest equation multiplier of
+   * the last step); spring forces from Hooke's law. Broken joints are removed.
+   */
+  checkJointBreaking(): Array<{
+    jointHandle: JointHandle;
+    bodyA: RigidBodyHandle;
+    bodyB: RigidBodyHandle;
+    force: number;
+  }> {
+    const brokenJoints: Array<{
+      jointHandle: JointHandle;
+      bodyA: RigidBodyHandle;
+      bodyB: RigidBodyHandle;
+      force: number;
+    }> = [];
+
+    for (const [handle, joint] of this.joints) {
+      const breakForce = joint.descriptor.breakForce;
+      if (!breakForce || breakForce <= 0) {
+        continue; // Unbreakable joint
+      }
+
+      let force = 0;
+      if (joint.constraint) {
+        for (const equation of joint.constraint.equations) {
+          force = Math.max(force, Math.abs(equation.multiplier));
+        }
+      } else if (joint.spring) {
+        const anchorA = new CANNON.Vec3();
+        const anchorB = new CANNON.Vec3();
+        joint.spring.getWorldAnchorA(anchorA);
+        joint.spring.getWorldAnchorB(anchorB);
+        force = joint.spring.stiffness * Math.abs(anchorA.distanceTo(anchorB) - joint.spring.restLength);
+      }
+
+      if (force > breakForce) {
+        brokenJoints.push({
+          jointHandle: handle,
+          bodyA: joint.descriptor.bodyA,
+          bodyB: joint.descriptor.bodyB,
+          force,
+        });
+
+        this.removeJoint(handle);
+      }
+    }
+
+    return brokenJoints;
+  }
+
+  /**
+   * Serialize the current physics world state
+   * Same format as the Rapier backend, so states can move between backends
+   */
+  serializeState(): SerializedPhysicsState {
+    if (!this.world) {
+      throw new Error('Physics world not initialized');
+    }
+
+    const bodies: SerializedRigidBody[] = [];
+    const joints: SerializedJoint[] = [];
+
+    // Sort handles for deterministic ordering
+    const sortedBodyHandles = Array.from(this.bodyDescriptors.keys()).sort((a, b) => a - b);
+
+    for (const handle of sortedBodyHandles) {
+      const descriptor = this.bodyDescriptors.get(handle)!;
+      const body = this.bodies.get(handle)!;
+
+      bodies.push({
+        handle,
+        type: descriptor.type,
+        position: fromVec3(body.position),
+        rotation: { x: body.quaternion.x, y: body.quaternion.y, z: body.quaternion.z, w: body.quaternion.w },
+        linearVelocity: fromVec3(body.velocity),
+        angularVelocity: fromVec3(body.angularVelocity),
+        isSleeping: body.sleepState === CANNON.Body.SLEEPING,
+        isEnabled: !this.disabledBodies.has(handle),
+        mass: descriptor.mass ?? 1.0,
+        linearDamping: descriptor.linearDamping ?? 0.0,
+        angularDamping: descriptor.angularDamping ?? 0.05,
+        colliders: [{
+          shape: descriptor.collisionShape,
+          friction: descriptor.friction ?? 0.5,
+          restitution: descriptor.restitution ?? 0.0,
+          density: 1.0, // we use mass instead
+          isSensor: descriptor.isSensor ?? false,
+          collisionGroups: descriptor.collisionGroups ?? 0xFFFF,
+          collisionMask: descriptor.collisionMask ?? 0xFFFF,
+        }],
+      });
+    }
+
+    // Sort joint handles for deterministic ordering
+    const sortedJointHandles = Array.from(this.joints.keys()).sort((a, b) => a - b);
+
+    for (const handle of sortedJointHandles) {
+      joints.push({
+        handle,
+        descriptor: this.joints.get(handle)!.descriptor,
+        value: this.getJointValue(handle),
+      });
+    }
+
+    return {
+      version: 1,
+      time: this.simulationTime,
+      step: this.stepCount,
+      gravity: fromVec3(this.world.gravity),
+      bodies,
+      joints,
+    };
+  }
+
+  /**
+   * Restore physics world state from serialized data
+   * Returns handle mapping for updating external references
+   */
+  deserializeState(state: SerializedPhysicsState): DeserializationResult {
+    if (!this.world) {
+      throw new Error('Physics world not initialized');
+    }
+
+    if (state.version !== 1) {
+      throw new Error(`Unsupported serialization version: ${state.version}`);
+    }
+
+    // Clear existing state (removing a body also removes its joints)
+    for (const handle of Array.from(this.bodies.keys())) {
+      this.removeRigidBody(handle);
+    }
+    for (const handle of Array.from(this.joints.keys())) {
+      this.removeJoint(handle);
+    }
+
+    this.world.gravity.set(state.gravity.x, state.gravity.y, state.gravity.z);
+    this.simulationTime = state.time;
+    this.stepCount = state.step;
+
+    const bodyHandleMap = new Map<RigidBodyHandle, RigidBodyHandle>();
+    const jointHandleMap = new Map<JointHandle, JointHandle>();
+
+    for (const serializedBody of state.bodies) {
+      if (serializedBody.colliders.length === 0) {
+        throw new Error('Cannot deserialize empty collider array');
+      }
+      const collider = serializedBody.colliders[0];
+
+      const newHandle = this.createRigidBody({
+        type: serializedBody.type,
+        position: serializedBody.position,
+        rotation: serializedBody.rotation,
+        linearVelocity: serializedBody.linearVelocity,
+        angularVelocity: serializedBody.angularVelocity,
+        mass: serializedBody.mass,
+        linearDamping: serializedBody.linearDamping,
+        angularDamping: serializedBody.angularDamping,
+        collisionShape: collider.shape,
+        friction: collider.friction,
+        restitution: collider.restitution,
+        isSensor: collider.isSensor,
+        collisionGroups: collider.collisionGroups,
+        collisionMask: collider.collisionMask,
+      });
+      bodyHandleMap.set(serializedBody.handle, newHandle);
+
+      if (serializedBody.isSleeping) {
+        this.bodies.get(newHandle)!.sleep();
+      }
+      if (!serializedBody.isEnabled) {
+        this.setEnabled(newHandle, false);
+      }
+    }
+
+    // Restore joints with remapped body handles
+    for (const serializedJoint of state.joints) {
+      const descriptor = serializedJoint.descriptor;
+      const newBodyA = bodyHandleMap.get(descriptor.bodyA);
+      const newBodyB = bodyHandleMap.get(descriptor.bodyB);
+
+      if (newBodyA === undefined || newBodyB === undefined) {
+        console.warn(
+          `Cannot restore joint ${serializedJoint.handle}: referenced bodies not found ` +
+          `(bodyA: ${descriptor.bodyA} -> ${newBodyA}, bodyB: ${descriptor.bodyB} -> ${newBodyB})`
+        );
+        continue;
+      }
+
+      const newJointHandle = this.createJoint({ ...descriptor, bodyA: newBodyA, bodyB: newBodyB });
+      jointHandleMap.set(serializedJoint.handle, newJointHandle);
+    }
+
+    return {
+      bodyHandleMap,
+      jointHandleMap,
+    };
+  }
+}
@@ -27,58 +27,13 @@ import type {
   SerializedCollider,
 } from '../types';
 import { RigidBodyType, CollisionShapeType, JointType } from '../types';
-
-/**
- * Validate that a vector contains finite numbers
- */
-function validateVector3(vec: Vector3, name: string): void {
-  if (!Number.isFinite(vec.x) || !Number.isFinite(vec.y) || !Number.isFinite(vec.z)) {
-    throw new Error(`${name} must contain finite numbers (got: x=${vec.x}, y=${vec.y}, z=${vec.z})`);
-  }
-}
-
-/**
- * Validate that a quaternion contains finite numbers
- * Note: Non-normalized quaternions are allowed - the physics engine will normalize them internally
- */
-function validateQuaternion(quat: Quaternion, name: string): void {
-  if (!Number.isFinite(quat.x) || !Number.isFinite(quat.y) ||
-      !Number.isFinite(quat.z) || !Number.isFinite(quat.w)) {
-    throw new Error(`${name} must contain finite numbers (got: x=${quat.x}, y=${quat.y}, z=${quat.z}, w=${quat.w})`);
-  }
-  // Check for zero quaternion which is invalid
-  const magnitudeSq = quat.x * quat.x + quat.y * quat.y + quat.z * quat.z + quat.w * quat.w;
-  if (magnitudeSq < 1e-12) {
-    throw new Error(`${name} has zero magnitude (all components are zero)`);
-  }
-}
-
-/**
- * Validate that a number is finite and positive
- */
-function validatePositiveNumber(value: number, name: string): void {
-  if (!Number.isFinite(value) || value <= 0) {
-    throw new Error(`${name} must be a finite positive number (got: ${value})`);
-  }
-}
-
-/**
- * Validate that a number is finite and non-negative
- */
-function validateNonNegativeNumber(value: number, name: string): void {
-  if (!Number.isFinite(value) || value < 0) {
-    throw new Error(`${name} must be a finite non-negative number (got: ${value})`);
-  }
-}
-
-/**
- * Validate rigid body handle
- */
-function validateHandle(handle: RigidBodyHandle, name: string): void {
-  if (!Number.isInteger(handle) || handle <= 0) {
-    throw new Error(`${name} must be a positive integer (got: ${handle})`);
-  }
-}
+import {
+  validateVector3,
+  validateQuaternion,
+  validatePositiveNumber,
+  validateNonNegativeNumber,
+  validateHandle,
+} from './validation';
 
 /**
  * Rapier physics engine implementation
@@ -233,6 +188,13 @@ export class RapierPhysicsEngine implements IPhysicsEngine {
 
     const rigidBody = this.world.createRigidBody(rigidBodyDesc);
 
+    // Rapier reports a contact if either collider has events active. Every
+    // contact the default collision types produce involves a dynamic body, so
+    // static and kinematic colliders need not generate events themselves.
+    const activeEvents = descriptor.type === RigidBodyType.DYNAMIC
+      ? RAPIER.ActiveEvents.COLLISION_EVENTS
+      : RAPIER.ActiveEvents.NONE;
+
     // Create collider(s) - compound shapes have multiple colliders
     const colliders: RAPIER.Collider[] = [];
 
@@ -258,6 +220,7 @@ export class RapierPhysicsEngine implements IPhysicsEngine {
         colliderDesc.setRestitution(descriptor.restitution ?? 0.3);
         colliderDesc.setTranslation(childShape.position.x, childShape.position.y, childShape.position.z);
         colliderDesc.setRotation(childShape.rotation);
+        colliderDesc.setActiveEvents(activeEvents);
 
         if (descriptor.isSensor) {
           colliderDesc.setSensor(true);
@@ -279,6 +242,7 @@ export class RapierPhysicsEngine implements IPhysicsEngine {
       colliderDesc.setDensity(descriptor.mass || 1.0);
       colliderDesc.setFriction(descriptor.friction ?? 0.5);
       colliderDesc.setRestitution(descriptor.restitution ?? 0.3);
+      colliderDesc.setActiveEvents(activeEvents);
 
       if (descriptor.isSensor) {
         colliderDesc.setSensor(true);
@@ -0,0 +1,57 @@
+/**
+ * Input validation shared by the physics engine implementations
+ */
+
+import type { Vector3, Quaternion, RigidBodyHandle } from '../types';
+
+/**
+ * Validate that a vector contains finite numbers
+ */
+export function validateVector3(vec: Vector3, name: string): void {
+  if (!Number.isFinite(vec.x) || !Number.isFinite(vec.y) || !Number.isFinite(vec.z)) {
+    throw new Error(`${name} must contain finite numbers (got: x=${vec.x}, y=${vec.y}, z=${vec.z})`);
+  }
+}
+
+/**
+ * Validate that a quaternion contains finite numbers
+ * Note: Non-normalized quaternions are allowed - the physics engine will normalize them internally
+ */
+export function validateQuaternion(quat: Quaternion, name: string): void {
+  if (!Number.isFinite(quat.x) || !Number.isFinite(quat.y) ||
+      !Number.isFinite(quat.z) || !Number.isFinite(quat.w)) {
+    throw new Error(`${name} must contain finite numbers (got: x=${quat.x}, y=${quat.y}, z=${quat.z}, w=${quat.w})`);
+  }
+  // Check for zero quaternion which is invalid
+  const magnitudeSq = quat.x * quat.x + quat.y * quat.y + quat.z * quat.z + quat.w * quat.w;
+  if (magnitudeSq < 1e-12) {
+    throw new Error(`${name} has zero magnitude (all components are zero)`);
+  }
+}
+
+/**
+ * Validate that a number is finite and positive
+ */
+export function validatePositiveNumber(value: number, name: string): void {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a finite positive number (got: ${value})`);
+  }
+}
+
+/**
+ * Validate that a number is finite and non-negative
+ */
+export function validateNonNegativeNumber(value: number, name: string): void {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a finite non-negative number (got: ${value})`);
+  }
+}
+
+/**
+ * Validate rigid body handle
+ */
+export function validateHandle(handle: RigidBodyHandle, name: string): void {
+  if (!Number.isInteger(handle) || handle <= 0) {
+    throw new Error(`${name} must be a positive integer (got: ${handle})`);
+  }
+}
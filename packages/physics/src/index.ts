@@ -17,6 +17,8 @@ export type {
 } from './PhysicsDeterminismVerifier';
 export { PhysicsReplayPlayer, ReplayPlayerState } from './PhysicsReplayPlayer';
 export type { ReplayPlayerConfig } from './PhysicsReplayPlayer';
+export { PhysicsBackendRegistry, physicsBackends } from './PhysicsBackendRegistry';
+export type { PhysicsBackendFactory } from './PhysicsBackendRegistry';
 
 // Types
 export type {
@@ -57,3 +59,4 @@ export {
 // Engines
 export { MockPhysicsEngine } from './engines/MockPhysicsEngine';
 export { RapierPhysicsEngine } from './engines/RapierPhysicsEngine';
+export { CannonPhysicsEngine } from './engines/CannonPhysicsEngine';
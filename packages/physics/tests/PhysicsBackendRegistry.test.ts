@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PhysicsBackendRegistry,
+  physicsBackends,
+  RapierPhysicsEngine,
+  CannonPhysicsEngine,
+  MockPhysicsEngine,
+} from '../src';
+
+describe('PhysicsBackendRegistry', () => {
+  it('should provide the built-in backends', async () => {
+    expect(physicsBackends.list()).toEqual(['rapier', 'cannon', 'mock']);
+    expect(await physicsBackends.create('rapier')).toBeInstanceOf(RapierPhysicsEngine);
+    expect(await physicsBackends.create('cannon')).toBeInstanceOf(CannonPhysicsEngine);
+    expect(await physicsBackends.create('mock')).toBeInstanceOf(MockPhysicsEngine);
+  });
+
+  it('should create custom backends from sync or async factories', async () => {
+    const registry = new PhysicsBackendRegistry();
+    registry.register('sync', () => new MockPhysicsEngine());
+    registry.register('async', async () => new MockPhysicsEngine());
+
+    expect(await registry.create('sync')).toBeInstanceOf(MockPhysicsEngine);
+    expect(await registry.create('async')).toBeInstanceOf(MockPhysicsEngine);
+
+    expect(registry.unregister('sync')).toBe(true);
+    expect(registry.has('sync')).toBe(false);
+  });
+
+  it('should reject duplicate and unknown backends', async () => {
+    const registry = new PhysicsBackendRegistry();
+    registry.register('mock', () => new MockPhysicsEngine());
+
+    expect(() => registry.register('mock', () => new MockPhysicsEngine())).toThrow("Physics backend 'mock' is already registered");
+    await expect(registry.create('box2d')).rejects.toThrow("Unknown physics backend 'box2d' (available: mock)");
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  CannonPhysicsEngine,
+  RigidBodyType,
+  CollisionShapeType,
+  JointType,
+  DEFAULT_PHYSICS_CONFIG,
+} from '../../src';
+import { describePhysicsConformance } from './physicsConformance';
+
+describePhysicsConformance('CannonPhysicsEngine', () => new CannonPhysicsEngine(), {
+  collisions: true,
+  raycast: true,
+  joints: true,
+  serialization: true,
+});
+
+describe('CannonPhysicsEngine', () => {
+  let engine: CannonPhysicsEngine;
+
+  beforeEach(() => {
+    engine = new CannonPhysicsEngine();
+    engine.initialize({ ...DEFAULT_PHYSICS_CONFIG });
+  });
+
+  afterEach(() => {
+    engine.dispose();
+  });
+
+  it('should build capsules, cones, planes and compounds', () => {
+    engine.createRigidBody({
+      type: RigidBodyType.STATIC,
+      collisionShape: { type: CollisionShapeType.PLANE },
+    });
+    const handles = [
+      { type: CollisionShapeType.CAPSULE, radius: 0.5, height: 1 },
+      { type: CollisionShapeType.CONE, radius: 0.5, height: 1 },
+      {
+        type: CollisionShapeType.COMPOUND,
+        shapes: [
+          { shape: { type: CollisionShapeType.BOX, halfExtents: { x: 0.5, y: 0.5, z: 0.5 } }, position: { x: -1, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0, w: 1 } },
+          { shape: { type: CollisionShapeType.SPHERE, radius: 0.5 }, position: { x: 1, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0, w: 1 } },
+        ],
+      },
+    ].map((collisionShape, i) => engine.createRigidBody({
+      type: RigidBodyType.DYNAMIC,
+      position: { x: i * 4, y: 3, z: 0 },
+      collisionShape,
+    }));
+
+    for (let i = 0; i < 180; i++) {
+      engine.step(1 / 60);
+    }
+
+    // Everything lands on the plane instead of falling through it
+    for (const handle of handles) {
+      const y = engine.getPosition(handle).y;
+      expect(y).toBeGreaterThan(0);
+      expect(y).toBeLessThan(1.5);
+    }
+  });
+
+  it('should reject shapes and joints cannon-es cannot represent', () => {
+    const bodyA = engine.createRigidBody({
+      type: RigidBodyType.STATIC,
+      collisionShape: { type: CollisionShapeType.SPHERE, radius: 1 },
+    });
+    const bodyB = engine.createRigidBody({
+      type: RigidBodyType.DYNAMIC,
+      position: { x: 3, y: 0, z: 0 },
+      collisionShape: { type: CollisionShapeType.SPHERE, radius: 1 },
+    });
+
+    expect(() => engine.createRigidBody({
+      type: RigidBodyType.DYNAMIC,
+      collisionShape: { type: CollisionShapeType.CONVEX_HULL, vertices: new Float32Array(12) },
+    })).toThrow('CONVEX_HULL collision shapes are not supported');
+    expect(() => engine.createJoint({
+      type: JointType.PRISMATIC,
+      bodyA,
+      bodyB,
+      anchorA: { position: { x: 0, y: 0, z: 0 } },
+      anchorB: { position: { x: 0, y: 0, z: 0 } },
+      axis: { x: 1, y: 0, z: 0 },
+    })).toThrow('prismatic joints are not supported');
+  });
+
+  it('should scale contact impulses by the timestep of the current step', () => {
+    // Ball starts slightly inside the ground so the contact begins on the first step
+    const firstImpulse = (timestep: number): number => {
+      const other = new CannonPhysicsEngine();
+      other.initialize({ ...DEFAULT_PHYSICS_CONFIG, timestep });
+      other.createRigidBody({
+        type: RigidBodyType.STATIC,
+        collisionShape: { type: CollisionShapeType.BOX, halfExtents: { x: 5, y: 0.5, z: 5 } },
+      });
+      other.createRigidBody({
+        type: RigidBodyType.DYNAMIC,
+        position: { x: 0, y: 0.95, z: 0 },
+        collisionShape: { type: CollisionShapeType.SPHERE, radius: 0.5 },
+      });
+      other.step(1 / 120);
+      const impulse = other.getCollisionEvents()[0].impulse;
+      other.dispose();
+      return impulse;
+    };
+
+    const impulse = firstImpulse(1 / 120);
+    expect(impulse).toBeGreaterThan(0);
+    expect(firstImpulse(1 / 60)).toBeCloseTo(impulse, 10);
+  });
+});
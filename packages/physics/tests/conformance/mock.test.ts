@@ -0,0 +1,10 @@
+import { MockPhysicsEngine } from '../../src';
+import { describePhysicsConformance } from './physicsConformance';
+
+// Euler integration only: no collision detection, raycasts, joints or serialization
+describePhysicsConformance('MockPhysicsEngine', () => new MockPhysicsEngine(), {
+  collisions: false,
+  raycast: false,
+  joints: false,
+  serialization: false,
+});
@@ -0,0 +1,441 @@
+/**
+ * Physics backend conformance suite
+ *
+ * Behaviour every IPhysicsEngine must share so backends stay swappable via
+ * PhysicsConfig.backend. Each backend gets a *.test.ts file in this directory
+ * that calls describePhysicsConformance(); optional features are gated by
+ * the backend's capabilities.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  RigidBodyType,
+  CollisionShapeType,
+  JointType,
+  DEFAULT_PHYSICS_CONFIG,
+} from '../../src';
+import type {
+  IPhysicsEngine,
+  RigidBodyDescriptor,
+  RigidBodyHandle,
+  Vector3,
+} from '../../src';
+
+/**
+ * Optional features a backend implements
+ */
+export interface PhysicsBackendCapabilities {
+  /** Shapes collide and collision events are reported */
+  collisions: boolean;
+  /** raycast() hits bodies */
+  raycast: boolean;
+  /** Revolute and spherical joints */
+  joints: boolean;
+  /** serializeState()/deserializeState() round trip */
+  serialization: boolean;
+}
+
+const DT = 1 / 60;
+
+function step(engine: IPhysicsEngine, steps: number): void {
+  for (let i = 0; i < steps; i++) {
+    engine.step(DT);
+  }
+}
+
+function box(position: Vector3, overrides: Partial<RigidBodyDescriptor> = {}): RigidBodyDescriptor {
+  return {
+    type: RigidBodyType.DYNAMIC,
+    position,
+    collisionShape: { type: CollisionShapeType.BOX, halfExtents: { x: 0.5, y: 0.5, z: 0.5 } },
+    ...overrides,
+  };
+}
+
+function distance(a: Vector3, b: Vector3): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+/**
+ * Register the conformance tests for one backend
+ *
+ * @param name - Suite name
+ * @param createEngine - Creates a fresh, uninitialized engine
+ * @param capabilities - Optional features the backend supports
+ */
+export function describePhysicsConformance(
+  name: string,
+  createEngine: () => IPhysicsEngine,
+  capabilities: PhysicsBackendCapabilities
+): void {
+  describe(`${name} conformance`, () => {
+    let engine: IPhysicsEngine;
+
+    beforeEach(async () => {
+      engine = createEngine();
+      await engine.initialize({ ...DEFAULT_PHYSICS_CONFIG });
+    });
+
+    afterEach(() => {
+      engine.dispose();
+    });
+
+    describe('Rigid Bodies', () => {
+      it('should create bodies with unique positive handles and the given pose', () => {
+        const a = engine.createRigidBody(box({ x: 1, y: 2, z: 3 }));
+        const b = engine.createRigidBody(box({ x: -1, y: 0, z: 0 }, {
+          rotation: { x: 0, y: Math.SQRT1_2, z: 0, w: Math.SQRT1_2 },
+        }));
+
+        expect(a).toBeGreaterThan(0);
+        expect(b).not.toBe(a);
+
+        const position = engine.getPosition(a);
+        expect(position.x).toBeCloseTo(1, 5);
+        expect(position.y).toBeCloseTo(2, 5);
+        expect(position.z).toBeCloseTo(3, 5);
+
+        const rotation = engine.getRotation(b);
+        expect(rotation.y).toBeCloseTo(Math.SQRT1_2, 5);
+        expect(rotation.w).toBeCloseTo(Math.SQRT1_2, 5);
+      });
+
+      it('should round-trip position, rotation and velocities', () => {
+        const handle = engine.createRigidBody(box({ x: 0, y: 0, z: 0 }));
+
+        engine.setPosition(handle, { x: 4, y: 5, z: 6 });
+        engine.setRotation(handle, { x: Math.SQRT1_2, y: 0, z: 0, w: Math.SQRT1_2 });
+        engine.setLinearVelocity(handle, { x: 1, y: 2, z: 3 });
+        engine.setAngularVelocity(handle, { x: 0, y: 0.5, z: 0 });
+
+        expect(engine.getPosition(handle)).toEqual({ x: 4, y: 5, z: 6 });
+        expect(engine.getRotation(handle).x).toBeCloseTo(Math.SQRT1_2, 5);
+        expect(engine.getRotation(handle).w).toBeCloseTo(Math.SQRT1_2, 5);
+        expect(engine.getLinearVelocity(handle)).toEqual({ x: 1, y: 2, z: 3 });
+        expect(engine.getAngularVelocity(handle)).toEqual({ x: 0, y: 0.5, z: 0 });
+      });
+
+      it('should throw for unknown or removed body handles', () => {
+        const handle = engine.createRigidBody(box({ x: 0, y: 0, z: 0 }));
+        engine.removeRigidBody(handle);
+
+        expect(() => engine.getPosition(handle)).toThrow('Invalid body handle');
+        expect(() => engine.getPosition(9999)).toThrow('Invalid body handle');
+      });
+    });
+
+    describe('Simulation', () => {
+      it('should accelerate dynamic bodies with gravity and leave static bodies in place', () => {
+        const dynamic = engine.createRigidBody(box({ x: 0, y: 10, z: 0 }));
+        const fixed = engine.createRigidBody(box({ x: 10, y: 10, z: 0 }, { type: RigidBodyType.STATIC }));
+
+        step(engine, 30);
+
+        // Half a second of free fall: v ≈ -4.9 m/s, dy ≈ -1.2 m
+        expect(engine.getLinearVelocity(dynamic).y).toBeCloseTo(-4.9, 0);
+        expect(engine.getPosition(dynamic).y).toBeLessThan(9);
+        expect(engine.getPosition(dynamic).x).toBeCloseTo(0, 5);
+        expect(engine.getPosition(fixed)).toEqual({ x: 10, y: 10, z: 0 });
+      });
+
+      it('should use the gravity set at runtime', () => {
+        engine.setGravity({ x: 9.81, y: 0, z: 0 });
+        const handle = engine.createRigidBody(box({ x: 0, y: 10, z: 0 }));
+
+        step(engine, 30);
+
+        expect(engine.getPosition(handle).x).toBeGreaterThan(0.5);
+        expect(engine.getPosition(handle).y).toBeCloseTo(10, 5);
+      });
+
+      it('should move bodies in the direction of applied impulses', () => {
+        engine.setGravity({ x: 0, y: 0, z: 0 });
+        const handle = engine.createRigidBody(box({ x: 0, y: 0, z: 0 }));
+
+        engine.applyImpulse(handle, { x: 5, y: 0, z: 0 });
+        step(engine, 1);
+
+        expect(engine.getLinearVelocity(handle).x).toBeGreaterThan(0);
+        expect(engine.getPosition(handle).x).toBeGreaterThan(0);
+      });
+
+      it('should not simulate disabled bodies', () => {
+        const handle = engine.createRigidBody(box({ x: 0, y: 10, z: 0 }));
+
+        engine.setEnabled(handle, false);
+        step(engine, 30);
+        expect(engine.getPosition(handle).y).toBeCloseTo(10, 5);
+
+        engine.setEnabled(handle, true);
+        step(engine, 30);
+        expect(engine.getPosition(handle).y).toBeLessThan(10);
+      });
+
+      it('should report bodies awake after wakeUp', () => {
+        const handle = engine.createRigidBody(box({ x: 0, y: 10, z: 0 }));
+        step(engine, 1);
+
+        engine.wakeUp(handle);
+        expect(engine.isSleeping(handle)).toBe(false);
+      });
+
+      it('should be deterministic across engine instances', async () => {
+        const run = async (): Promise<Vector3[]> => {
+          const instance = createEngine();
+          await instance.initialize({ ...DEFAULT_PHYSICS_CONFIG });
+          instance.createRigidBody(box({ x: 0, y: 0, z: 0 }, {
+            type: RigidBodyType.STATIC,
+            collisionShape: { type: CollisionShapeType.BOX, halfExtents: { x: 10, y: 0.5, z: 10 } },
+          }));
+          const handles = [
+            instance.createRigidBody(box({ x: 0, y: 3, z: 0 })),
+            instance.createRigidBody(box({ x: 0.3, y: 5, z: 0.1 })),
+          ];
+          step(instance, 90);
+          const positions = handles.map((handle) => instance.getPosition(handle));
+          instance.dispose();
+          return positions;
+        };
+
+        expect(await run()).toEqual(await run());
+      });
+    });
+
+    describe.runIf(capabilities.collisions)('Collisions', () => {
+      it('should rest dynamic bodies on static ground and report the contact', () => {
+        const ground = engine.createRigidBody(box({ x: 0, y: 0, z: 0 }, {
+          type: RigidBodyType.STATIC,
+          collisionShape: { type: CollisionShapeType.BOX, halfExtents: { x: 5, y: 0.5, z: 5 } },
+        }));
+        const ball = engine.createRigidBody({
+          type: RigidBodyType.DYNAMIC,
+          position: { x: 0, y: 3, z: 0 },
+          collisionShape: { type: CollisionShapeType.SPHERE, radius: 0.5 },
+        });
+
+        const pairs: Array<[RigidBodyHandle, RigidBodyHandle]> = [];
+        for (let i = 0; i < 180; i++) {
+          engine.step(DT);
+          for (const event of engine.getCollisionEvents()) {
+            pairs.push([event.bodyA, event.bodyB]);
+          }
+        }
+
+        // Ground top is at y = 0.5, so the ball rests at y ≈ 1
+        expect(engine.getPosition(ball).y).toBeGreaterThan(0.9);
+        expect(engine.getPosition(ball).y).toBeLessThan(1.2);
+        expect(pairs.some(([a, b]) => (a === ground && b === ball) || (a === ball && b === ground))).toBe(true);
+      });
+
+      it('should not collide bodies whose groups and masks exclude each other', () => {
+        engine.createRigidBody(box({ x: 0, y: 0, z: 0 }, {
+          type: RigidBodyType.STATIC,
+          collisionShape: { type: CollisionShapeType.BOX, halfExtents: { x: 5, y: 0.5, z: 5 } },
+          collisionGroups: 0x0001,
+          collisionMask: 0x0001,
+        }));
+        const ghost = engine.createRigidBody(box({ x: 0, y: 3, z: 0 }, {
+          collisionGroups: 0x0002,
+          collisionMask: 0x0002,
+        }));
+
+        step(engine, 90);
+
+        expect(engine.getPosition(ghost).y).toBeLessThan(0);
+      });
+    });
+
+    describe.runIf(capabilities.raycast)('Raycasting', () => {
+      it('should return the closest hit with point, normal and distance', () => {
+        const target = engine.createRigidBody(box({ x: 0, y: 0, z: 0 }, {
+          type: RigidBodyType.STATIC,
+          collisionShape: { type: CollisionShapeType.BOX, halfExtents: { x: 1, y: 1, z: 1 } },
+        }));
+        engine.createRigidBody(box({ x: 0, y: -5, z: 0 }, { type: RigidBodyType.STATIC }));
+        step(engine, 1);
+
+        const hit = engine.raycast({ x: 0, y: 5, z: 0 }, { x: 0, y: -1, z: 0 }, 20);
+
+        expect(hit).not.toBeNull();
+        expect(hit!.body).toBe(target);
+        expect(hit!.distance).toBeCloseTo(4, 3);
+        expect(hit!.point.y).toBeCloseTo(1, 3);
+        expect(hit!.normal.y).toBeCloseTo(1, 3);
+      });
+
+      it('should return null when nothing is within range', () => {
+        engine.createRigidBody(box({ x: 0, y: 0, z: 0 }, { type: RigidBodyType.STATIC }));
+        step(engine, 1);
+
+        expect(engine.raycast({ x: 0, y: 5, z: 0 }, { x: 0, y: 1, z: 0 }, 20)).toBeNull();
+        expect(engine.raycast({ x: 0, y: 5, z: 0 }, { x: 0, y: -1, z: 0 }, 2)).toBeNull();
+      });
+    });
+
+    describe.runIf(capabilities.joints)('Joints', () => {
+      function createPendulum(): { anchor: RigidBodyHandle; bob: RigidBodyHandle } {
+        engine.setGravity({ x: 0, y: -9.81, z: 0 });
+        const anchor = engine.createRigidBody(box({ x: 0, y: 5, z: 0 }, { type: RigidBodyType.STATIC }));
+        const bob = engine.createRigidBody(box({ x: 2, y: 5, z: 0 }, {
+          collisionShape: { type: CollisionShapeType.SPHERE, radius: 0.25 },
+        }));
+        return { anchor, bob };
+      }
+
+      it('should keep a revolute joint together while it swings and report its angle', () => {
+        const { anchor, bob } = createPendulum();
+        const joint = engine.createJoint({
+          type: JointType.REVOLUTE,
+          bodyA: anchor,
+          bodyB: bob,
+          anchorA: { position: { x: 0, y: 0, z: 0 } },
+          anchorB: { position: { x: -2, y: 0, z: 0 } },
+          axis: { x: 0, y: 0, z: 1 },
+        });
+
+        step(engine, 30);
+
+        expect(engine.getPosition(bob).y).toBeLessThan(4.5);
+        expect(distance(engine.getPosition(anchor), engine.getPosition(bob))).toBeCloseTo(2, 1);
+        expect(Math.abs(engine.getJointValue(joint))).toBeGreaterThan(0.1);
+
+        const info = engine.getJointDebugInfo(joint)!;
+        expect(info.type).toBe(JointType.REVOLUTE);
+        expect(distance(info.anchorA, info.anchorB)).toBeLessThan(0.1);
+        expect(Math.abs(info.axis!.z)).toBeCloseTo(1, 3);
+      });
+
+      it('should keep a spherical joint at its anchor distance', () => {
+        const { anchor, bob } = createPendulum();
+        engine.createJoint({
+          type: JointType.SPHERICAL,
+          bodyA: anchor,
+          bodyB: bob,
+          anchorA: { position: { x: 0, y: 0, z: 0 } },
+          anchorB: { position: { x: -2, y: 0, z: 0 } },
+        });
+
+        step(engine, 60);
+
+        expect(distance(engine.getPosition(anchor), engine.getPosition(bob))).toBeCloseTo(2, 1);
+      });
+
+      it('should release bodies when a joint is removed', () => {
+        const { anchor, bob } = createPendulum();
+        const joint = engine.createJoint({
+          type: JointType.SPHERICAL,
+          bodyA: anchor,
+          bodyB: bob,
+          anchorA: { position: { x: 0, y: 0, z: 0 } },
+          anchorB: { position: { x: -2, y: 0, z: 0 } },
+        });
+
+        engine.removeJoint(joint);
+        step(engine, 60);
+
+        // One second of free fall: dy ≈ -4.9 m
+        expect(engine.getPosition(bob).x).toBeCloseTo(2, 3);
+        expect(engine.getPosition(bob).y).toBeLessThan(1);
+        expect(() => engine.getJointValue(joint)).toThrow('Invalid joint handle');
+        expect(engine.getJointDebugInfo(joint)).toBeNull();
+      });
+    });
+
+    describe.runIf(capabilities.serialization)('Serialization', () => {
+      it('should serialize and deserialize colliders and material properties', () => {
+        const handle = engine.createRigidBody(box({ x: 0, y: 5, z: 0 }, {
+          collisionShape: { type: CollisionShapeType.BOX, halfExtents: { x: 1, y: 1, z: 1 } },
+          mass: 10,
+          friction: 0.7,
+          restitution: 0.3,
+        }));
+        step(engine, 10);
+
+        const state = engine.serializeState();
+
+        expect(state.version).toBe(1);
+        expect(state.step).toBe(10);
+        expect(state.bodies.length).toBe(1);
+        expect(state.bodies[0].colliders[0].shape.type).toBe(CollisionShapeType.BOX);
+        expect(state.bodies[0].colliders[0].friction).toBe(0.7);
+        expect(state.bodies[0].colliders[0].restitution).toBe(0.3);
+
+        const { bodyHandleMap } = engine.deserializeState(state);
+
+        expect(bodyHandleMap.size).toBe(1);
+        expect(bodyHandleMap.has(handle)).toBe(true);
+        expect(engine.serializeState().bodies[0].colliders[0]).toEqual(state.bodies[0].colliders[0]);
+      });
+
+      it('should restore joints with remapped body handles', () => {
+        const bodyA = engine.createRigidBody(box({ x: 0, y: 0, z: 0 }, {
+          type: RigidBodyType.STATIC,
+          collisionShape: { type: CollisionShapeType.BOX, halfExtents: { x: 1, y: 1, z: 1 } },
+        }));
+        const bodyB = engine.createRigidBody(box({ x: 0, y: 3, z: 0 }));
+        const joint = engine.createJoint({
+          type: JointType.REVOLUTE,
+          bodyA,
+          bodyB,
+          anchorA: { position: { x: 0, y: 1, z: 0 } },
+          anchorB: { position: { x: 0, y: -0.5, z: 0 } },
+          axis: { x: 0, y: 0, z: 1 },
+        });
+        step(engine, 30);
+
+        const state = engine.serializeState();
+        expect(state.joints.length).toBe(1);
+        expect(state.joints[0].descriptor.type).toBe(JointType.REVOLUTE);
+
+        const { bodyHandleMap, jointHandleMap } = engine.deserializeState(state);
+
+        expect(bodyHandleMap.size).toBe(2);
+        expect(jointHandleMap.has(joint)).toBe(true);
+
+        const restored = engine.serializeState().joints[0].descriptor;
+        expect(restored.bodyA).toBe(bodyHandleMap.get(bodyA));
+        expect(restored.bodyB).toBe(bodyHandleMap.get(bodyB));
+      });
+
+      it('should restore the exact runtime state', () => {
+        engine.createRigidBody(box({ x: 0, y: 10, z: 0 }, { mass: 1 }));
+        engine.createRigidBody(box({ x: 0, y: 0, z: 0 }, {
+          type: RigidBodyType.STATIC,
+          collisionShape: { type: CollisionShapeType.BOX, halfExtents: { x: 10, y: 0.5, z: 10 } },
+        }));
+        step(engine, 30);
+
+        const saved = engine.serializeState();
+        engine.deserializeState(saved);
+        const restored = engine.serializeState();
+
+        expect(restored.bodies.length).toBe(saved.bodies.length);
+        expect(restored.time).toBe(saved.time);
+        for (let i = 0; i < saved.bodies.length; i++) {
+          for (const key of ['position', 'linearVelocity', 'angularVelocity'] as const) {
+            expect(restored.bodies[i][key].x).toBeCloseTo(saved.bodies[i][key].x, 5);
+            expect(restored.bodies[i][key].y).toBeCloseTo(saved.bodies[i][key].y, 5);
+            expect(restored.bodies[i][key].z).toBeCloseTo(saved.bodies[i][key].z, 5);
+          }
+          expect(restored.bodies[i].rotation.w).toBeCloseTo(saved.bodies[i].rotation.w, 5);
+        }
+      });
+
+      it('should serialize bodies in handle order', () => {
+        const first = engine.createRigidBody(box({ x: 0, y: 0, z: 0 }));
+        const second = engine.createRigidBody(box({ x: 5, y: 0, z: 0 }));
+
+        const state = engine.serializeState();
+
+        expect(state.bodies.map((body) => body.handle)).toEqual([first, second].sort((a, b) => a - b));
+        expect(engine.serializeState()).toEqual(state);
+      });
+
+      it('should reject unsupported serialization versions', () => {
+        const state = engine.serializeState();
+
+        expect(() => engine.deserializeState({ ...state, version: 2 })).toThrow('Unsupported serialization version');
+      });
+    });
+  });
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  RapierPhysicsEngine,
+  RigidBodyType,
+  CollisionShapeType,
+  DEFAULT_PHYSICS_CONFIG,
+} from '../../src';
+import type { RigidBodyHandle } from '../../src';
+import { describePhysicsConformance } from './physicsConformance';
+
+describePhysicsConformance('RapierPhysicsEngine', () => new RapierPhysicsEngine(), {
+  collisions: true,
+  raycast: true,
+  joints: true,
+  serialization: true,
+});
+
+describe('RapierPhysicsEngine', () => {
+  let engine: RapierPhysicsEngine;
+
+  beforeEach(async () => {
+    engine = new RapierPhysicsEngine();
+    await engine.initialize({ ...DEFAULT_PHYSICS_CONFIG });
+  });
+
+  afterEach(() => {
+    engine.dispose();
+  });
+
+  it('should report contacts of dynamic bodies with static and dynamic bodies', () => {
+    // Only dynamic colliders have collision events active
+    const ground = engine.createRigidBody({
+      type: RigidBodyType.STATIC,
+      position: { x: 0, y: 0, z: 0 },
+      collisionShape: { type: CollisionShapeType.BOX, halfExtents: { x: 5, y: 0.5, z: 5 } },
+    });
+    const crate = engine.createRigidBody({
+      type: RigidBodyType.DYNAMIC,
+      position: { x: 0, y: 1, z: 0 },
+      collisionShape: { type: CollisionShapeType.BOX, halfExtents: { x: 0.5, y: 0.5, z: 0.5 } },
+    });
+    const ball = engine.createRigidBody({
+      type: RigidBodyType.DYNAMIC,
+      position: { x: 0, y: 3, z: 0 },
+      collisionShape: { type: CollisionShapeType.SPHERE, radius: 0.5 },
+    });
+
+    const pairs = new Set<string>();
+    const key = (a: RigidBodyHandle, b: RigidBodyHandle) => [a, b].sort().join('-');
+    for (let i = 0; i < 120; i++) {
+      engine.step(1 / 60);
+      for (const event of engine.getCollisionEvents()) {
+        pairs.add(key(event.bodyA, event.bodyB));
+      }
+    }
+
+    expect(pairs).toContain(key(ground, crate));
+    expect(pairs).toContain(key(crate, ball));
+  });
+});
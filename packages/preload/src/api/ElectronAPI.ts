@@ -2,6 +2,7 @@ import { createFileAPI } from './FileAPI';
 import { createWindowAPI } from './WindowAPI';
 import { createSystemAPI } from './SystemAPI';
 import { createDialogAPI } from './DialogAPI';
+import { createEventsAPI } from './EventsAPI';
 
 /**
  * Create the complete Electron API exposed to renderer
@@ -12,6 +13,7 @@ export function createElectronAPI() {
     window: createWindowAPI(),
     system: createSystemAPI(),
     dialog: createDialogAPI(),
+    events: createEventsAPI(),
   };
 }
 
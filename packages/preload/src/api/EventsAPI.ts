@@ -0,0 +1,40 @@
+import { ipcRenderer } from 'electron';
+import { IPC_CHANNELS, BridgedEventMessage, BridgedEventSchema } from '@miskatonic/shared';
+
+/**
+ * Event bridge API exposed to renderer
+ *
+ * Matches the EventBridgeTransport interface from @miskatonic/events.
+ */
+export function createEventsAPI() {
+  return {
+    /**
+     * Forward an event to the main process
+     */
+    send: (event: BridgedEventMessage): Promise<void> => {
+      return ipcRenderer.invoke(IPC_CHANNELS.EVENTS_EMIT, event);
+    },
+
+    /**
+     * Listen for events forwarded by the main process
+     */
+    onReceive: (callback: (event: BridgedEventMessage) => void): (() => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, message: unknown) => {
+        const result = BridgedEventSchema.safeParse(message);
+        if (result.success) {
+          callback(result.data);
+        } else {
+          console.error('Dropping invalid event from main process:', result.error.message);
+        }
+      };
+      ipcRenderer.on(IPC_CHANNELS.EVENTS_DISPATCH, listener);
+
+      // Return unsubscribe function
+      return () => {
+        ipcRenderer.removeListener(IPC_CHANNELS.EVENTS_DISPATCH, listener);
+      };
+    },
+  };
+}
+
+export type EventsAPI = ReturnType<typeof createEventsAPI>;
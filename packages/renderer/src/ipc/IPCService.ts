@@ -26,6 +26,11 @@ export class IPCService {
   get system() {
     return this.api.system;
   }
+
+  // Event bridge (pass as the transport of an EventBridge)
+  get events() {
+    return this.api.events;
+  }
 }
 
 // Export singleton instance
@@ -59,6 +59,17 @@ interface ElectronAPI {
     }>;
     openDevTools: () => Promise<void>;
   };
+  events: {
+    send: (event: BridgedEventMessage) => Promise<void>;
+    onReceive: (callback: (event: BridgedEventMessage) => void) => () => void;
+  };
+}
+
+interface BridgedEventMessage {
+  type: string;
+  timestamp: number;
+  namespace?: string;
+  payload: Record<string, unknown>;
 }
 
 declare global {
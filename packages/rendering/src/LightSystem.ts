@@ -7,7 +7,7 @@
  * - Light collection management
  * - Automatic position updates from Transform components
  * - Type-specific light queries
- * - Incremental updates (only rebuilds when dirty)
+ * - Incremental updates (reactive query: only changed, added and removed lights are processed)
  *
  * Usage:
  * ```typescript
@@ -30,7 +30,7 @@
  * ```
  */
 
-import type { World, EntityId } from '@miskatonic/ecs';
+import type { World, EntityId, Query } from '@miskatonic/ecs';
 import { Light, Transform } from '@miskatonic/ecs';
 import { LightCollection, type LightData } from './LightCollection';
 import type { LightComponentData, TransformComponentData } from './LightTypes';
@@ -39,52 +39,44 @@ export class LightSystem {
   private world: World;
   private collection: LightCollection;
 
-  // Track entities with lights for change detection
-  private lightEntities = new Set<EntityId>();
+  // Registered query: tracks removed lights and Light/Transform writes
+  private query: Query;
 
   constructor(world: World) {
     this.world = world;
     this.collection = new LightCollection();
+    this.query = this.createQuery();
   }
 
   /**
    * Update light collection from ECS world
    *
    * Call this once per frame to sync lights with the ECS.
-   * Uses incremental updates - only rebuilds when entities change.
+   * Uses incremental updates - only lights that were added, removed, or had their
+   * Light/Transform written since the previous update are touched.
    */
   update(): void {
-    const query = this.world.query().with(Light as any).build();
-    const results = this.world.executeQuery(query);
-
-    const currentEntities = new Set<EntityId>();
-
-    // Update or add lights
-    for (const result of results) {
-      currentEntities.add(result.entity);
+    // Remove lights that no longer exist (before re-adding recycled entity IDs)
+    for (const entity of this.query.getRemoved()) {
+      this.collection.remove(entity);
+    }
+    this.query.clearTracking();
 
-      const light = this.world.getComponent(result.entity, Light as any) as LightComponentData | undefined;
-      if (!light) continue;
+    // New entities count as changed, so this covers both adds and updates
+    this.query.forEach(this.world.getArchetypeManager(), (entity, components) => {
+      const light = components.get(Light as any) as LightComponentData | undefined;
+      if (!light) return;
 
       // Get optional Transform for position (point/spot lights)
-      const transform = this.world.getComponent(result.entity, Transform as any) as TransformComponentData | undefined;
+      const transform = components.get(Transform as any) as TransformComponentData | undefined;
 
       // Update or add to collection
-      if (this.collection.has(result.entity)) {
-        this.collection.update(result.entity, light, transform);
+      if (this.collection.has(entity)) {
+        this.collection.update(entity, light, transform);
       } else {
-        this.collection.add(result.entity, light, transform);
+        this.collection.add(entity, light, transform);
       }
-    }
-
-    // Remove lights that no longer exist
-    for (const entity of this.lightEntities) {
-      if (!currentEntities.has(entity)) {
-        this.collection.remove(entity);
-      }
-    }
-
-    this.lightEntities = currentEntities;
+    });
   }
 
   /**
@@ -148,6 +140,22 @@ export class LightSystem {
    */
   clear(): void {
     this.collection.clear();
-    this.lightEntities.clear();
+
+    // Fresh query so the next update() picks every light up again
+    this.world.unregisterQuery(this.query);
+    this.query = this.createQuery();
+  }
+
+  /**
+   * Build and register the reactive light query
+   */
+  private createQuery(): Query {
+    const query = this.world
+      .query()
+      .with(Light as any)
+      .optional(Transform as any)
+      .changed(Light as any, Transform as any)
+      .build();
+    return this.world.registerQuery(query);
   }
 }
@@ -7,6 +7,7 @@ import type {
   LoadOptions,
   CacheConfig,
   ResourceStats,
+  ResourceReloadListener,
 } from './types';
 import { ResourceState } from './types';
 import { ResourceEntry, ResourceHandle } from './ResourceHandle';
@@ -44,6 +45,7 @@ export class ResourceManager {
   private hotReloadWatcher: HotReloadWatcher | null = null;
   private hotReloadConfig: HotReloadConfig | null = null;
   private resourcePaths = new Map<ResourceId, string>();
+  private reloadListeners = new Set<ResourceReloadListener>();
 
   // Statistics
   private stats = {
@@ -484,9 +486,7 @@ export class ResourceManager {
    */
   private async handleHotReload(id: ResourceId, type: ResourceType): Promise<void> {
     try {
-      // Force reload the resource
-      await this.load(id, type, { forceReload: true });
-      this.stats.reloadCount++;
+      await this.reload(id, type);
 
       console.log(`Hot-reloaded resource: ${id} (${type})`);
     } catch (error) {
@@ -494,6 +494,39 @@ export class ResourceManager {
     }
   }
 
+  /**
+   * Force reload a resource and notify reload listeners
+   *
+   * Called by the hot-reload watcher; can also be called directly (e.g. editor "revert").
+   */
+  async reload<T = unknown>(id: ResourceId, type: ResourceType): Promise<IResourceHandle<T>> {
+    const handle = await this.load<T>(id, type, { forceReload: true });
+    this.stats.reloadCount++;
+
+    const data = handle.get();
+    for (const listener of this.reloadListeners) {
+      try {
+        listener(id, type, data);
+      } catch (error) {
+        console.error(`Reload listener failed for resource ${id}:`, error);
+      }
+    }
+
+    return handle;
+  }
+
+  /**
+   * Subscribe to resource reloads
+   *
+   * @returns Unsubscribe function
+   */
+  onReload(listener: ResourceReloadListener): () => void {
+    this.reloadListeners.add(listener);
+    return () => {
+      this.reloadListeners.delete(listener);
+    };
+  }
+
   /**
    * Get hot-reload statistics
    */
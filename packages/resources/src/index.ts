@@ -19,6 +19,7 @@ export type {
   CacheConfig,
   ResourceStats,
   ResourceEvents,
+  ResourceReloadListener,
   DependencyNode,
 } from './types';
 
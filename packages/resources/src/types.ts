@@ -228,6 +228,11 @@ export interface ResourceEvents {
   'cache:full': { size: number; maxSize: number };
 }
 
+/**
+ * Callback for resource reloads (hot-reload or ResourceManager.reload())
+ */
+export type ResourceReloadListener = (id: ResourceId, type: ResourceType, data: unknown) => void;
+
 /**
  * Dependency graph node
  */
@@ -229,4 +229,30 @@ describe('ResourceManager', () => {
       expect(manager.isLoaded('test')).toBe(true);
     });
   });
+
+  describe('reload', () => {
+    it('should reload and notify listeners with new data', async () => {
+      let version = 1;
+      manager.registerLoader({
+        type: 'versioned',
+        async load(id) {
+          return { id, type: 'versioned', data: version, size: 4 };
+        },
+      });
+      await manager.load('config', 'versioned');
+
+      const listener = vi.fn();
+      const unsubscribe = manager.onReload(listener);
+      version = 2;
+      const handle = await manager.reload('config', 'versioned');
+
+      expect(handle.get()).toBe(2);
+      expect(listener).toHaveBeenCalledWith('config', 'versioned', 2);
+      expect(manager.getReloadCount()).toBe(1);
+
+      unsubscribe();
+      await manager.reload('config', 'versioned');
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
 });
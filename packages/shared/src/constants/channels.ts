@@ -28,6 +28,10 @@ export const IPC_CHANNELS = {
   DIALOG_SAVE_FILE: 'dialog:save-file',
   DIALOG_MESSAGE_BOX: 'dialog:message-box',
 
+  // Event bridge
+  EVENTS_EMIT: 'events:emit',
+  EVENTS_DISPATCH: 'events:dispatch',
+
   // App operations
   APP_QUIT: 'app:quit',
   APP_VERSION: 'app:version',
@@ -10,4 +10,10 @@ export const DEFAULT_WINDOW_SIZE = {
 
 export const DEFAULT_IPC_TIMEOUT = 5000; // 5 seconds
 
+/**
+ * Event types forwarded between main and renderer event buses
+ * ('*' matches one segment, '**' any number)
+ */
+export const DEFAULT_BRIDGED_EVENTS = ['engine:*', 'app:*'] as const;
+
 export const DEFAULT_LOG_LEVEL = 'info' as const;
@@ -4,6 +4,7 @@ export * from './constants/defaults';
 
 // Types
 export * from './types/errors';
+export * from './types/events';
 export * from './types/ipc';
 export * from './types/window';
 export * from './types/config';
@@ -0,0 +1,33 @@
+/**
+ * Application events exchanged between main and renderer over the event bridge
+ *
+ * Keyed by event type; values are the payload fields besides type and
+ * timestamp. Usable as an EventBus event map on either side.
+ */
+export interface AppEventMap {
+  /** Renderer asks main to show a native notification */
+  'app:notify': {
+    id: string;
+    title: string;
+    body: string;
+    urgency?: 'normal' | 'critical' | 'low';
+  };
+
+  /** User clicked a native notification */
+  'app:notification-click': { id: string };
+
+  /** User clicked a notification action button */
+  'app:notification-action': { id: string; action: number };
+
+  /** Renderer asks main to change the tray tooltip */
+  'app:tray-tooltip': { tooltip: string };
+
+  /** User picked "New Game" from the tray menu */
+  'app:new-game': Record<never, never>;
+
+  /** Main process detected a crashed renderer and is reloading it */
+  'app:renderer-crashed': { windowId: number };
+
+  /** Engine events forwarded from the renderer */
+  [type: `engine:${string}`]: Record<string, unknown>;
+}
@@ -12,6 +12,21 @@ export const IPCMessageSchema = z.object({
 
 export type IPCMessage = z.infer<typeof IPCMessageSchema>;
 
+/**
+ * Event bridge types
+ *
+ * EventBus events forwarded between main and renderer. Fields besides
+ * type, timestamp and namespace travel in payload.
+ */
+export const BridgedEventSchema = z.object({
+  type: z.string().min(1),
+  timestamp: z.number(),
+  namespace: z.string().optional(),
+  payload: z.record(z.unknown()),
+});
+
+export type BridgedEventMessage = z.infer<typeof BridgedEventSchema>;
+
 /**
  * File operation types
  */